@@ -0,0 +1,109 @@
+/**
+ * Tests for the library API
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { existsSync } from 'fs';
+import { createPagedmd, type PagedmdDoneEvent } from './api.ts';
+import { getRenderCachePath } from './markdown/render-cache.ts';
+import { BuildAbortedError, ConfigError } from './utils/errors.ts';
+import { mkdir, remove, writeFile } from './utils/file-utils.ts';
+import { reset, setLogSinks } from './utils/logger.ts';
+
+const SOURCES = {
+  'chapters/02-rules.md': '# Rules\n\n<!-- @include: ../shared/dice.md -->\n',
+  'chapters/01-intro.md': '# Welcome, {{ player }}\n\nHello {{ missing }}.\n',
+  'shared/dice.md': 'Roll two dice.',
+  'book.css': 'body { color: teal; }',
+};
+
+const MANIFEST = {
+  title: 'Field Guide',
+  authors: ['Ada'],
+  files: ['chapters/*.md'],
+  styles: ['book.css'],
+  variables: { player: 'Runner' },
+};
+
+describe('createPagedmd', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(process.cwd(), '.tmp', `api-tests-${Date.now()}`);
+    setLogSinks([]);
+  });
+
+  afterEach(async () => {
+    reset();
+    await remove(testDir);
+  });
+
+  test('renders in-memory sources without touching the input directory', async () => {
+    const book = createPagedmd({ input: testDir, sources: SOURCES, manifest: MANIFEST });
+
+    const html = await book.renderHtml();
+
+    expect(html).toContain('<title>Field Guide</title>');
+    expect(html).toContain('Welcome, Runner');
+    expect(html).toContain('Roll two dice.');
+    expect(html).toContain('body { color: teal; }');
+    expect(html.indexOf('id="01-intro"')).toBeLessThan(html.indexOf('id="02-rules"'));
+    expect(existsSync(testDir)).toBe(false);
+    expect(existsSync(getRenderCachePath(testDir))).toBe(false);
+  });
+
+  test('emits stage, file-rendered, warning and done events', async () => {
+    const book = createPagedmd({ input: testDir, sources: SOURCES, manifest: MANIFEST });
+    const events: string[] = [];
+    book.on('stage', (stage) => events.push(`stage:${stage.name}`));
+    book.on('file-rendered', (file) => events.push(`file:${file.slug}`));
+    book.on('warning', (warning) => events.push(`warning:${String(warning.fields?.variable)}`));
+    book.on('done', (done) => events.push(`done:${done.format}`));
+
+    await book.renderHtml();
+
+    expect(events).toEqual([
+      'stage:Configuration Loading',
+      'file:01-intro',
+      'file:02-rules',
+      'warning:missing',
+      'stage:Markdown Processing',
+      'done:html',
+    ]);
+  });
+
+  test('merges manifest overrides over manifest.yaml', async () => {
+    await mkdir(testDir);
+    await writeFile(join(testDir, 'manifest.yaml'), 'title: On Disk\nauthors: [Ada]\nvariables:\n  player: Disk\n');
+    await writeFile(join(testDir, 'intro.md'), '# {{ player }} in {{ place }}\n');
+
+    const book = createPagedmd({ input: testDir, manifest: { title: 'Overridden', variables: { place: 'Dimm City' } } });
+    const html = await book.renderHtml();
+
+    expect(html).toContain('<title>Overridden</title>');
+    expect(html).toContain('Disk in Dimm City');
+  });
+
+  test('rejects and reports the error when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const book = createPagedmd({ input: testDir, sources: SOURCES, manifest: MANIFEST });
+    const done: PagedmdDoneEvent[] = [];
+    book.on('done', (event) => done.push(event));
+
+    const error = await book.buildPdf({ signal: controller.signal }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BuildAbortedError);
+    expect(done).toHaveLength(1);
+    expect(done[0]?.error).toBe(error as Error);
+  });
+
+  test('cannot watch in-memory sources', async () => {
+    const book = createPagedmd({ sources: SOURCES, manifest: MANIFEST });
+
+    const error = await book.watch().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConfigError);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Library API
+ *
+ * createPagedmd() embeds pagedmd in another program. The returned instance
+ * renders HTML, builds PDFs and watches a project without exiting the
+ * process, and reports progress as typed events:
+ *
+ * - `stage` - a build stage finished (the stages listed by --profile)
+ * - `file-rendered` - a markdown file was rendered or taken from the render cache
+ * - `warning` - a warning was logged
+ * - `done` - an operation (or a watch rebuild) finished, with its error if it failed
+ *
+ * Markdown, CSS and the manifest can be passed in memory (`sources` and
+ * `manifest`), in which case nothing is read from the input directory.
+ * Every call takes an AbortSignal; aborting stops the build between stages
+ * and kills the PDF engine process.
+ *
+ * Log output still goes to the console; use setLogSinks() to redirect it.
+ */
+
+import { EventEmitter } from 'events';
+import path from 'path';
+import { build } from './build/build.ts';
+import { validateInputExists } from './build/build-validator.ts';
+import { watchBuild, type WatchHandle } from './build/watch.ts';
+import { ConfigurationManager } from './config/config-state.ts';
+import { generateHtmlFromMarkdown } from './markdown/markdown.ts';
+import { normalizeSources } from './markdown/sources.ts';
+import { ConfigError, throwIfAborted } from './utils/errors.ts';
+import { addLogListener, type LogEntry } from './utils/logger.ts';
+import { PerformanceMonitor } from './utils/performance.ts';
+import { OutputFormat, type BuildHooks, type BuildOptions, type Manifest, type PDFGenerationResult } from './types.ts';
+
+/**
+ * Options of a pagedmd instance
+ */
+export interface PagedmdOptions {
+  /** Project directory or markdown file; with `sources`, the directory their paths are relative to (default: cwd) */
+  input?: string;
+  /** Manifest fields deep-merged over manifest.yaml; with `sources`, the whole manifest */
+  manifest?: Manifest;
+  /** In-memory markdown and CSS keyed by path relative to `input`; nothing is read from the input directory */
+  sources?: Record<string, string>;
+  /** Manifest profile to build */
+  edition?: string;
+  /** Template variables (like --define key=value) */
+  defines?: Record<string, string>;
+  /** Cancels every operation of the instance */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of renderHtml()
+ */
+export interface RenderHtmlOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Options of buildPdf() and watch(): the build options of the CLI
+ */
+export type BuildPdfOptions = Omit<
+  BuildOptions,
+  'input' | 'format' | 'watch' | 'edition' | 'defines' | 'manifestOverrides' | 'sources' | 'hooks'
+>;
+
+/**
+ * Payload of the `done` event
+ */
+export interface PagedmdDoneEvent {
+  /** 'html' for renderHtml(), 'pdf' for buildPdf() and watch() rebuilds */
+  format: 'html' | 'pdf';
+  /** Duration in milliseconds (not reported for failed watch rebuilds) */
+  duration?: number;
+  /** PDF path of a successful build */
+  outputPath?: string;
+  /** Error of a failed operation */
+  error?: Error;
+}
+
+/**
+ * Events emitted by a pagedmd instance
+ */
+export interface PagedmdEvents {
+  stage: [stage: { name: string; duration: number }];
+  'file-rendered': [file: { path: string; slug: string; cached: boolean }];
+  warning: [warning: LogEntry];
+  done: [event: PagedmdDoneEvent];
+}
+
+/**
+ * pagedmd instance for one project (see createPagedmd)
+ *
+ * Warnings are captured from the logger while an operation runs, so
+ * operations of different instances running at the same time receive each
+ * other's warnings.
+ */
+export class Pagedmd extends EventEmitter<PagedmdEvents> {
+  private readonly input: string;
+
+  constructor(private readonly options: PagedmdOptions = {}) {
+    super();
+    this.input = path.resolve(options.input ?? process.cwd());
+  }
+
+  /**
+   * Render the book to the HTML document the PDF engines receive
+   *
+   * @returns Complete HTML document with styles inlined
+   * @throws BuildAbortedError if the signal is aborted
+   */
+  async renderHtml(options: RenderHtmlOptions = {}): Promise<string> {
+    const buildOptions = this.createBuildOptions(options.signal);
+
+    return this.track('html', async () => {
+      throwIfAborted(buildOptions.signal);
+      const perf = new PerformanceMonitor(true, (measure) =>
+        this.emit('stage', { name: measure.name, duration: measure.duration })
+      );
+      if (!buildOptions.sources) {
+        validateInputExists(this.input);
+      }
+
+      perf.mark('config-start');
+      const configManager = new ConfigurationManager(this.input, buildOptions);
+      await configManager.initialize();
+      perf.measure('Configuration Loading', 'config-start');
+      throwIfAborted(buildOptions.signal);
+
+      perf.mark('markdown-start');
+      const html = await generateHtmlFromMarkdown(this.input, configManager.getConfig(), { perf });
+      perf.measure('Markdown Processing', 'markdown-start');
+      return html;
+    });
+  }
+
+  /**
+   * Build the PDF
+   *
+   * @param options - Output path, PDF engine and other build options
+   * @throws BuildAbortedError if the signal is aborted (the engine process is killed)
+   */
+  async buildPdf(options: BuildPdfOptions = {}): Promise<PDFGenerationResult> {
+    const buildOptions: BuildOptions = { ...options, ...this.createBuildOptions(options.signal) };
+    return this.track('pdf', () => build(buildOptions));
+  }
+
+  /**
+   * Build the PDF, then rebuild whenever project files change
+   *
+   * Resolves after the initial build. Each build emits `done`; after five
+   * consecutive failures watching stops. Aborting the signal stops watching
+   * and cancels the build in progress.
+   *
+   * @throws ConfigError for in-memory sources (there are no files to watch)
+   */
+  async watch(options: BuildPdfOptions = {}): Promise<WatchHandle> {
+    if (this.options.sources) {
+      throw new ConfigError(
+        'watch() needs a project directory',
+        'Call buildPdf() again when the in-memory sources change'
+      );
+    }
+
+    const buildOptions: BuildOptions = { ...options, ...this.createBuildOptions(options.signal) };
+    const stopListening = this.listenForWarnings();
+    const handle = await watchBuild(buildOptions, {
+      onBuild: (result) => this.emit('done', { format: 'pdf', duration: result.duration, outputPath: result.outputPath }),
+      onError: (error) => this.emit('done', { format: 'pdf', error }),
+      onStop: (error) => {
+        stopListening();
+        this.emit('done', { format: 'pdf', error });
+      },
+    });
+
+    const close = (): void => {
+      stopListening();
+      handle.close();
+    };
+    buildOptions.signal?.addEventListener('abort', close, { once: true });
+    return { close };
+  }
+
+  /**
+   * Build options shared by all operations, with the events wired in
+   */
+  private createBuildOptions(signal: AbortSignal | undefined): BuildOptions {
+    const hooks: BuildHooks = {
+      onStage: (stage) => this.emit('stage', stage),
+      onFileRendered: (file) => this.emit('file-rendered', file),
+    };
+    return {
+      input: this.input,
+      format: OutputFormat.PDF,
+      edition: this.options.edition,
+      defines: this.options.defines,
+      manifestOverrides: this.options.manifest,
+      sources: this.options.sources,
+      signal: combineSignals(this.options.signal, signal),
+      hooks,
+    };
+  }
+
+  /**
+   * Run an operation, emitting its warnings and the `done` event
+   */
+  private async track<T>(format: 'html' | 'pdf', operation: () => Promise<T>): Promise<T> {
+    const startTime = Date.now();
+    const stopListening = this.listenForWarnings();
+    try {
+      const result = await operation();
+      const outputPath = (result as Partial<PDFGenerationResult>).outputPath;
+      this.emit('done', { format, duration: Date.now() - startTime, ...(outputPath ? { outputPath } : {}) });
+      return result;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.emit('done', { format, duration: Date.now() - startTime, error: err });
+      throw err;
+    } finally {
+      stopListening();
+    }
+  }
+
+  /**
+   * Emit logged warnings as `warning` events
+   *
+   * @returns Function that stops listening
+   */
+  private listenForWarnings(): () => void {
+    return addLogListener((entry) => {
+      if (entry.level === 'WARN') {
+        this.emit('warning', entry);
+      }
+    });
+  }
+}
+
+/**
+ * Create a pagedmd instance for a project
+ *
+ * @example
+ * const book = createPagedmd({
+ *   sources: { 'chapter-1.md': '# Arrival' },
+ *   manifest: { title: 'Field Guide', styles: ['themes/classic.css'] },
+ * });
+ * book.on('file-rendered', (file) => console.log(file.slug));
+ * const html = await book.renderHtml();
+ */
+export function createPagedmd(options: PagedmdOptions = {}): Pagedmd {
+  return new Pagedmd({
+    ...options,
+    sources: options.sources ? normalizeSources(options.sources) : undefined,
+  });
+}
+
+/**
+ * Signal aborted when any of the given signals is
+ */
+function combineSignals(...signals: Array<AbortSignal | undefined>): AbortSignal | undefined {
+  const given = signals.filter((signal): signal is AbortSignal => signal !== undefined);
+  return given.length > 1 ? AbortSignal.any(given) : given[0];
+}
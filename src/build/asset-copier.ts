@@ -37,6 +37,8 @@ export interface AssetCopyResult {
   copiedFiles: number;
   /** Number of files skipped (filtered or errors) */
   skippedFiles: number;
+  /** Destination paths of copied files (in copy order) */
+  copiedPaths: string[];
   /** Errors encountered during copy (non-fatal) */
   errors: Array<{ file: string; error: Error }>;
 }
@@ -56,6 +58,7 @@ export class AssetCopier {
   private stats = {
     copiedFiles: 0,
     skippedFiles: 0,
+    copiedPaths: [] as string[],
     errors: [] as Array<{ file: string; error: Error }>,
   };
 
@@ -88,6 +91,7 @@ export class AssetCopier {
     this.stats = {
       copiedFiles: 0,
       skippedFiles: 0,
+      copiedPaths: [],
       errors: [],
     };
 
@@ -189,6 +193,7 @@ export class AssetCopier {
   private async copyFile(src: string, dest: string): Promise<void> {
     await fs.copyFile(src, dest);
     this.stats.copiedFiles++;
+    this.stats.copiedPaths.push(dest);
 
     // Preserve timestamps if requested
     if (this.options.preserveTimestamps) {
@@ -244,6 +249,7 @@ export class AssetCopier {
     return {
       copiedFiles: this.stats.copiedFiles,
       skippedFiles: this.stats.skippedFiles,
+      copiedPaths: [...this.stats.copiedPaths],
       errors: [...this.stats.errors],
     };
   }
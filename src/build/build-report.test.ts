@@ -0,0 +1,70 @@
+/**
+ * Tests for the JSON build report
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { BuildReportCollector, countWords } from './build-report.ts';
+import { PerformanceMonitor } from '../utils/performance.ts';
+import { MemoryMonitor } from '../utils/memory.ts';
+import { silence, reset, warn } from '../utils/logger.ts';
+import { OutputFormat } from '../types.ts';
+import type { LoadedPlugin } from '../types/plugin-types.ts';
+
+describe('BuildReportCollector', () => {
+  afterEach(() => {
+    reset();
+  });
+
+  test('assembles timings, files, plugins, CSS and warnings', () => {
+    silence();
+    const perf = new PerformanceMonitor();
+    const memory = new MemoryMonitor();
+    const report = new BuildReportCollector();
+
+    perf.mark('build-start');
+    memory.snapshot('build-start');
+    perf.measure('Markdown Processing', 'build-start');
+    warn('Image not found: %s', 'map.png');
+    report.recordFiles([{ sourcePath: '/book/chapters/01-intro.md', slug: '01-intro', html: '<h1>Hello</h1><p>two words</p>' }], '/book');
+    report.recordPlugins([{ metadata: { name: 'dice', version: '1.2.0' } } as LoadedPlugin]);
+    report.recordCss(['/book/styles/main.css', '/book/styles/main.css', '/assets/themes/bw.css'], '/book');
+    report.recordPdf('prince', 42);
+    perf.measure('Total Build Time', 'build-start');
+
+    const result = report.finish({ input: '/book', format: OutputFormat.PDF }, { perf, memory }, { outputPath: '/book/book.pdf' });
+    warn('after finish');
+
+    expect(result.success).toBe(true);
+    expect(result.error).toBeNull();
+    expect(result.output).toBe('/book/book.pdf');
+    expect(result.engine).toBe('prince');
+    expect(result.pageCount).toBe(42);
+    expect(result.stages.map((stage) => stage.name)).toEqual(['Markdown Processing']);
+    expect(result.memory[0]?.label).toBe('build-start');
+    expect(result.files).toEqual([{ path: 'chapters/01-intro.md', slug: '01-intro', words: 3 }]);
+    expect(result.plugins).toEqual([{ name: 'dice', version: '1.2.0' }]);
+    expect(result.css).toEqual(['styles/main.css', '/assets/themes/bw.css']);
+    expect(result.warnings.map((warning) => warning.message)).toEqual(['Image not found: map.png']);
+  });
+
+  test('records the error of a failed build', () => {
+    const report = new BuildReportCollector();
+
+    const result = report.finish(
+      { input: '/book' },
+      { perf: new PerformanceMonitor(), memory: new MemoryMonitor() },
+      { error: new Error('Vivliostyle failed') }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Vivliostyle failed');
+    expect(result.output).toBeNull();
+    expect(result.format).toBe('pdf');
+  });
+});
+
+describe('countWords', () => {
+  test('counts words of the rendered text only', () => {
+    expect(countWords('<p class="lead">Roll <em>2d6</em> &mdash; then <!-- note --> add</p>')).toBe(4);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * JSON build report (--report)
+ *
+ * Collects what one build did - the PDF engine and page count, stage
+ * timings, memory snapshots, rendered files with word counts, loaded
+ * plugins, CSS files read through resolveImports and every warning logged -
+ * and writes it as JSON so CI can track regressions across commits. A failed
+ * build still writes its report, with the error message.
+ */
+
+import path from 'path';
+import { getPackageVersion } from '../markdown/render-cache.ts';
+import { writeFile } from '../utils/file-utils.ts';
+import { addLogListener } from '../utils/logger.ts';
+import type { PerformanceMonitor } from '../utils/performance.ts';
+import type { MemoryMonitor } from '../utils/memory.ts';
+import type { BuildOptions } from '../types.ts';
+import type { LoadedPlugin } from '../types/plugin-types.ts';
+
+/**
+ * A rendered markdown file
+ */
+export interface BuildReportFile {
+  /** Path relative to the project directory */
+  path: string;
+  slug: string;
+  /** Words in the rendered text (after includes and conditionals) */
+  words: number;
+}
+
+/**
+ * Build report written with --report
+ */
+export interface BuildReport {
+  /** pagedmd version */
+  pagedmd: string;
+  /** ISO timestamp of the build start */
+  startedAt: string;
+  success: boolean;
+  /** Error message of a failed build */
+  error: string | null;
+  input: string;
+  output: string | null;
+  format: string;
+  edition: string | null;
+  /** PDF engine selected for the build (PDF only) */
+  engine: string | null;
+  /** Page count reported by the PDF engine */
+  pageCount: number | null;
+  /** Total build time in milliseconds */
+  duration: number;
+  /** Stage timings in milliseconds, in order */
+  stages: Array<{ name: string; duration: number }>;
+  /** Counters such as render cache hits and misses */
+  counters: Record<string, number>;
+  /** Memory snapshots in bytes */
+  memory: Array<{ label: string | null; rss: number; heapUsed: number; heapTotal: number; timestamp: number }>;
+  files: BuildReportFile[];
+  plugins: Array<{ name: string; version: string }>;
+  /** CSS files from manifest styles and their @imports, relative to the project directory */
+  css: string[];
+  warnings: Array<{ message: string; timestamp: number }>;
+}
+
+/**
+ * Collects report data while a build runs
+ *
+ * Warnings are recorded from the moment the collector is created until
+ * finish() is called.
+ */
+export class BuildReportCollector {
+  private readonly startedAt = new Date();
+  private readonly warnings: BuildReport['warnings'] = [];
+  private readonly stopListening: () => void;
+  private files: BuildReportFile[] = [];
+  private plugins: BuildReport['plugins'] = [];
+  private css: string[] = [];
+  private engine: string | null = null;
+  private pageCount: number | null = null;
+
+  constructor() {
+    this.stopListening = addLogListener((entry) => {
+      if (entry.level === 'WARN') {
+        this.warnings.push({ message: entry.message, timestamp: entry.timestamp });
+      }
+    });
+  }
+
+  /**
+   * Record the rendered files
+   *
+   * @param files - Source path, slug and rendered HTML of each article
+   * @param rootDir - Project directory the paths are reported relative to
+   */
+  recordFiles(files: Array<{ sourcePath: string; slug: string; html: string }>, rootDir: string): void {
+    this.files = files.map((file) => ({
+      path: toRelative(file.sourcePath, rootDir),
+      slug: file.slug,
+      words: countWords(file.html),
+    }));
+  }
+
+  /**
+   * Record the loaded markdown-it plugins
+   */
+  recordPlugins(plugins: LoadedPlugin[]): void {
+    this.plugins = plugins.map((plugin) => ({ name: plugin.metadata.name, version: plugin.metadata.version }));
+  }
+
+  /**
+   * Record CSS files read for the manifest styles
+   */
+  recordCss(files: string[], rootDir: string): void {
+    for (const file of files.map((cssFile) => toRelative(cssFile, rootDir))) {
+      if (!this.css.includes(file)) this.css.push(file);
+    }
+  }
+
+  /**
+   * Record the PDF engine result
+   */
+  recordPdf(engine: string, pageCount: number | undefined): void {
+    this.engine = engine;
+    this.pageCount = pageCount ?? null;
+  }
+
+  /**
+   * Stop collecting warnings and assemble the report
+   *
+   * @param options - Build options (input, format, edition)
+   * @param monitors - Performance and memory monitors of the build
+   * @param outcome - Output path on success, or the error that failed the build
+   */
+  finish(
+    options: BuildOptions,
+    monitors: { perf: PerformanceMonitor; memory: MemoryMonitor },
+    outcome: { outputPath: string } | { error: unknown }
+  ): BuildReport {
+    this.stopListening();
+
+    const stages = monitors.perf.getMeasures();
+    const total = stages.find((stage) => stage.name === 'Total Build Time');
+    return {
+      pagedmd: getPackageVersion(),
+      startedAt: this.startedAt.toISOString(),
+      success: 'outputPath' in outcome,
+      error: 'error' in outcome ? (outcome.error instanceof Error ? outcome.error.message : String(outcome.error)) : null,
+      input: options.input ?? process.cwd(),
+      output: 'outputPath' in outcome ? outcome.outputPath : null,
+      format: options.format ?? 'pdf',
+      edition: options.edition ?? null,
+      engine: this.engine,
+      pageCount: this.pageCount,
+      duration: round(total?.duration ?? Date.now() - this.startedAt.getTime()),
+      stages: stages
+        .filter((stage) => stage !== total)
+        .map((stage) => ({ name: stage.name, duration: round(stage.duration) })),
+      counters: monitors.perf.getCounters(),
+      memory: monitors.memory.getSnapshots().map((snapshot) => ({
+        label: snapshot.label ?? null,
+        rss: snapshot.rss,
+        heapUsed: snapshot.heapUsed,
+        heapTotal: snapshot.heapTotal,
+        timestamp: snapshot.timestamp,
+      })),
+      files: this.files,
+      plugins: this.plugins,
+      css: this.css,
+      warnings: this.warnings,
+    };
+  }
+}
+
+/**
+ * Write a build report as JSON
+ */
+export async function writeBuildReport(report: BuildReport, reportPath: string): Promise<void> {
+  await writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+}
+
+/**
+ * Count the words of rendered HTML (tags, comments and entities removed)
+ */
+export function countWords(html: string): number {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&[#\w]+;/g, ' ');
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/**
+ * Path relative to the project directory with forward slashes
+ * (bundled assets and files outside the project stay absolute)
+ */
+function toRelative(filePath: string, rootDir: string): string {
+  const relative = path.relative(rootDir, filePath);
+  return relative.startsWith('..') || path.isAbsolute(relative) ? filePath : relative.split(path.sep).join('/');
+}
+
+/**
+ * Round milliseconds to hundredths
+ */
+function round(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
@@ -2,20 +2,26 @@
  * Simplified build orchestration for pagedmd
  *
  * Orchestrates markdown→HTML→Output pipeline using format strategies
- * Supports output formats: PDF, HTML
+ * Supports output formats: PDF, HTML, EPUB
  */
 
 import path from 'path';
 import { generateHtmlFromMarkdown } from '../markdown/markdown.ts';
-import { fileExists, writeFile } from '../utils/file-utils.ts';
+import { fileExists, isDirectory, writeFile } from '../utils/file-utils.ts';
 import { info, error as logError, warn } from '../utils/logger.ts';
-import { BuildError } from '../utils/errors.ts';
+import { BuildError, ConfigError, throwIfAborted } from '../utils/errors.ts';
 import { ConfigurationManager } from '../config/config-state.ts';
-import { PdfFormatStrategy } from './formats/pdf-format.ts';
+import { getProfileNames } from '../config/profiles.ts';
+import { loadManifest } from '../utils/config.ts';
+import { PdfFormatStrategy, type PdfBuildOptions } from './formats/pdf-format.ts';
 import { HtmlFormatStrategy } from './formats/html-format.ts';
+import { EpubFormatStrategy, type EpubBuildOptions } from './formats/epub-format.ts';
 import { validateInputExists } from './build-validator.ts';
+import { getPreflightReportPath, runPreflight, writePreflightReport } from './preflight.ts';
 import { PerformanceMonitor, isSlow } from '../utils/performance.ts';
 import { MemoryMonitor } from '../utils/memory.ts';
+import { BuildReportCollector, writeBuildReport } from './build-report.ts';
+import { writeChromeTrace } from '../utils/trace.ts';
 import type { BuildOptions, PDFGenerationResult, FormatStrategy, OutputFormat } from '../types.ts';
 
 /**
@@ -27,8 +33,10 @@ function getFormatStrategy(format: OutputFormat): FormatStrategy {
       return new PdfFormatStrategy();
     case 'html' as OutputFormat:
       return new HtmlFormatStrategy();
+    case 'epub' as OutputFormat:
+      return new EpubFormatStrategy();
     default:
-      throw new Error(`Unknown format: ${format}. Valid formats: pdf, html`);
+      throw new Error(`Unknown format: ${format}. Valid formats: pdf, html, epub`);
   }
 }
 
@@ -40,19 +48,78 @@ function getFormatStrategy(format: OutputFormat): FormatStrategy {
  * 1. Validate input path exists (defaults to cwd)
  * 2. Load manifest configuration
  * 3. Process markdown files to HTML
- * 4. Validate output path (unless --force)
- * 5. Execute format-specific build strategy (PDF/HTML/Preview)
+ * 4. Validate output path (unless --force), then run the print preflight
+ *    (PDF only; with --strict, any problem fails the build)
+ * 5. Execute format-specific build strategy (PDF/HTML/EPUB)
  * 6. Clean up temporary files (format-dependent)
  *
+ * With `report` set, a JSON build report is written when the build succeeds
+ * or fails (see build-report.ts); with `trace` set, a Chrome trace of the
+ * build (see utils/trace.ts). `hooks` receive each finished stage and
+ * rendered file, and aborting `signal` stops the build between stages and
+ * kills the PDF engine (library API, see api.ts).
+ *
  * @param options BuildOptions with input path, output path, format, etc.
  * @returns PDFGenerationResult with output path and duration
  * @throws BuildError if build fails
  */
 export async function build(options: BuildOptions): Promise<PDFGenerationResult> {
-  // Initialize performance and memory monitoring
-  const perf = new PerformanceMonitor(options.profile || options.verbose);
-  const memory = new MemoryMonitor(options.profile || options.verbose);
+  // Initialize performance and memory monitoring (always on for the report and trace)
+  const onStage = options.hooks?.onStage;
+  const monitored = options.profile || options.verbose || Boolean(options.report || options.trace || onStage);
+  const perf = new PerformanceMonitor(
+    monitored,
+    onStage ? (measure) => onStage({ name: measure.name, duration: measure.duration }) : undefined
+  );
+  const memory = new MemoryMonitor(monitored);
+
+  if (!options.report && !options.trace) {
+    return runBuild(options, perf, memory);
+  }
+
+  const report = options.report ? new BuildReportCollector() : undefined;
+  try {
+    const result = await runBuild(options, perf, memory, report);
+    await writeDiagnostics(options, { perf, memory }, report, { outputPath: result.outputPath });
+    return result;
+  } catch (error) {
+    await writeDiagnostics(options, { perf, memory }, report, { error });
+    throw error;
+  }
+}
+
+/**
+ * Write the build report and Chrome trace requested in the options
+ */
+async function writeDiagnostics(
+  options: BuildOptions,
+  monitors: { perf: PerformanceMonitor; memory: MemoryMonitor },
+  report: BuildReportCollector | undefined,
+  outcome: { outputPath: string } | { error: unknown }
+): Promise<void> {
+  if (report && options.report) {
+    const reportPath = path.resolve(options.report);
+    await writeBuildReport(report.finish(options, monitors, outcome), reportPath);
+    info(`Build report written: ${reportPath}`);
+  }
+  if (options.trace) {
+    const tracePath = path.resolve(options.trace);
+    await writeChromeTrace(tracePath, monitors.perf, monitors.memory);
+    info(`Chrome trace written: ${tracePath} (open in chrome://tracing or ui.perfetto.dev)`);
+  }
+}
 
+/**
+ * Run the build stages, feeding timings, memory snapshots and report data
+ * to the monitors
+ */
+async function runBuild(
+  options: BuildOptions,
+  perf: PerformanceMonitor,
+  memory: MemoryMonitor,
+  report?: BuildReportCollector
+): Promise<PDFGenerationResult> {
+  throwIfAborted(options.signal);
   perf.mark('build-start');
   memory.snapshot('build-start');
 
@@ -66,8 +133,10 @@ export async function build(options: BuildOptions): Promise<PDFGenerationResult>
     info('Build options:', JSON.stringify(options, null, 2));
   }
 
-  // Simple validation: just check if input exists
-  validateInputExists(options.input);
+  // Simple validation: just check if input exists (in-memory sources have no input on disk)
+  if (!options.sources) {
+    validateInputExists(options.input);
+  }
 
   const formatName = options.format.toString().toUpperCase();
   info(`Building ${formatName} from: ${options.input}`);
@@ -77,14 +146,32 @@ export async function build(options: BuildOptions): Promise<PDFGenerationResult>
   const configManager = new ConfigurationManager(options.input, options);
   await configManager.initialize(); // Load manifest asynchronously
   const config = configManager.getConfig();
+  const profile = configManager.getProfile();
+  if (profile) {
+    info(`Edition: ${profile.name}`);
+  }
   perf.measure('Configuration Loading', 'config-start');
   memory.snapshot('config-loaded');
+  throwIfAborted(options.signal);
+
+  if (options.buildCover) {
+    if (options.format !== ('pdf' as OutputFormat)) {
+      throw new ConfigError('--cover requires PDF output', 'Build the cover with --format pdf');
+    }
+    if (!config.cover) {
+      throw new ConfigError(
+        '--cover needs a cover: section in manifest.yaml',
+        'Add cover: { front: images/front.jpg, blurb: back-cover.md, barcode: true }'
+      );
+    }
+  }
 
   // STAGE 3: Process Markdown Files to HTML
   perf.mark('markdown-start');
-  const html = await generateHtmlFromMarkdown(options.input, config);
+  const html = await generateHtmlFromMarkdown(options.input, config, { perf, report });
   perf.measure('Markdown Processing', 'markdown-start');
   memory.snapshot('markdown-processed');
+  throwIfAborted(options.signal);
 
   // Save HTML output if requested (debugging)
   if (options.htmlOutput) {
@@ -107,9 +194,42 @@ export async function build(options: BuildOptions): Promise<PDFGenerationResult>
     }
   }
 
+  // Print preflight (PDF only): image resolution, color space, alt text and bleed
+  // (skipped for in-memory sources, which have no image files to check)
+  if (options.format === ('pdf' as OutputFormat) && !options.sources) {
+    perf.mark('preflight-start');
+    const inputDir = (await isDirectory(options.input)) ? options.input : path.dirname(options.input);
+    const preflight = await runPreflight(html, config, inputDir);
+    const pdfPath = path.resolve(options.output ?? `${path.basename(options.input)}.pdf`);
+    await writePreflightReport(preflight, getPreflightReportPath(pdfPath, config.edition));
+    perf.measure('Print Preflight', 'preflight-start');
+
+    if (options.strict && preflight.problems.length > 0) {
+      throw new BuildError(
+        `Preflight found ${preflight.errors} error(s) and ${preflight.warnings} warning(s); ` +
+          'fix them or build without --strict'
+      );
+    }
+  }
+
   // STAGE 6: Execute format-specific build
+  // Manifest settings travel with the options: pdf and page format so engines
+  // receive the same size/bleed as the generated @page CSS, and book metadata
+  // for EPUB packaging
+  const strategyOptions: PdfBuildOptions & EpubBuildOptions = {
+    ...options,
+    pdfConfig: config.pdf,
+    pageFormat: config.pageFormat,
+    cover: config.cover,
+    title: config.title,
+    authors: config.authors,
+    metadata: config.metadata,
+    reportCollector: report,
+    perf,
+  };
+
   perf.mark('strategy-start');
-  const outputPath = await strategy.build(options, html);
+  const outputPath = await strategy.build(strategyOptions, html);
   perf.measure(`${formatName} Generation`, 'strategy-start');
   memory.snapshot('build-complete');
 
@@ -149,5 +269,65 @@ export async function build(options: BuildOptions): Promise<PDFGenerationResult>
   };
 }
 
+/**
+ * Build every manifest profile (--all-editions)
+ *
+ * Editions build one after another in manifest order. Each output gets the
+ * edition name appended (book.pdf → book-gm.pdf, see getEditionOutputPath).
+ *
+ * @param options BuildOptions shared by all editions
+ * @returns One result per edition
+ * @throws ConfigError if the manifest defines no profiles
+ */
+export async function buildAllEditions(options: BuildOptions): Promise<PDFGenerationResult[]> {
+  const editions = getProfileNames(await loadManifest(options.input ?? process.cwd()));
+  if (editions.length === 0) {
+    throw new ConfigError(
+      '--all-editions requires profiles in manifest.yaml',
+      'Add a profiles: section, e.g. profiles: { print: { pdf: { pressReady: true } }, screen: { styles: [screen.css] } }'
+    );
+  }
+
+  const results: PDFGenerationResult[] = [];
+  for (const [index, edition] of editions.entries()) {
+    info(`\nBuilding edition ${index + 1}/${editions.length}: ${edition}`);
+    results.push(
+      await build({
+        ...options,
+        edition,
+        output: getEditionOutputPath(options, edition),
+        report: options.report ? insertEditionName(options.report, edition) : undefined,
+        trace: options.trace ? insertEditionName(options.trace, edition) : undefined,
+      })
+    );
+  }
+
+  info(`Built ${results.length} editions: ${results.map((result) => result.outputPath).join(', ')}`);
+  return results;
+}
+
+/**
+ * Output path for one edition of an --all-editions build
+ *
+ * The edition name goes before the extension of the requested output, or
+ * of the format's default output (`<input>.pdf`, `<input>.epub`, `<input>-html`).
+ */
+export function getEditionOutputPath(options: BuildOptions, edition: string): string {
+  if (options.output) {
+    return insertEditionName(options.output, edition);
+  }
 
+  const inputBasename = path.basename(options.input ?? process.cwd());
+  const format = options.format ?? ('pdf' as OutputFormat);
+  return format === ('html' as OutputFormat)
+    ? path.join(process.cwd(), `${inputBasename}-${edition}-html`)
+    : path.join(process.cwd(), `${inputBasename}-${edition}.${format}`);
+}
 
+/**
+ * Put the edition name before a path's extension (build-report.json → build-report-gm.json)
+ */
+function insertEditionName(filePath: string, edition: string): string {
+  const extension = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - extension.length)}-${edition}${extension}`;
+}
@@ -0,0 +1,69 @@
+/**
+ * Tests for wraparound cover generation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { calculateCoverLayout, generateCoverHtml, getCoverOutputPath } from './cover.ts';
+
+describe('calculateCoverLayout', () => {
+  test('uses the preset paper for the spine width', () => {
+    const layout = calculateCoverLayout(
+      { pageFormat: { size: '6x9', bleed: '0.125in' }, pdf: { preset: 'kdp-6x9-cream' } },
+      300
+    );
+
+    expect(layout).toEqual({
+      trim: { width: 6, height: 9 },
+      spine: 0.75,
+      bleed: 0.125,
+      pageCount: 300,
+      paper: 'cream',
+      width: 12.75,
+      height: 9,
+    });
+  });
+
+  test('falls back to cover.paper and the default bleed', () => {
+    const layout = calculateCoverLayout({ pageFormat: { size: 'digest' }, cover: { paper: 'white' } }, 200);
+
+    expect(layout).toMatchObject({ spine: 0.45, bleed: 0.125, paper: 'white', width: 11.45, height: 8.5 });
+  });
+});
+
+describe('generateCoverHtml', () => {
+  const layout = calculateCoverLayout({ pageFormat: { size: '6x9' }, pdf: { preset: 'kdp-6x9-cream' } }, 300);
+
+  test('lays out back, spine and front with bleed', () => {
+    const html = generateCoverHtml(
+      { front: 'images/front.jpg', back: 'images/back.jpg', barcode: true },
+      layout,
+      { title: 'The Sunken Vault', authors: ['Ada'], blurbHtml: '<p>Dive in.</p>\n' }
+    );
+
+    expect(html).toContain('@page { size: 12.75in 9in; margin: 0; bleed: 0.125in; }');
+    expect(html).toContain('.cover-back { left: -0.125in; width: 6.125in; }');
+    expect(html).toContain('.cover-spine { left: 6in; width: 0.75in;');
+    expect(html).toContain('.cover-front { left: 6.75in; width: 6.125in; }');
+    expect(html).toContain('<img class="cover-art" src="images/back.jpg" alt="">');
+    expect(html).toContain('<div class="cover-blurb">\n<p>Dive in.</p>\n</div>');
+    expect(html).toContain('<div class="cover-barcode"></div>');
+    expect(html).toContain('<span class="cover-spine-text">The Sunken Vault — Ada</span>');
+    expect(html).toContain('<img class="cover-art" src="images/front.jpg" alt="The Sunken Vault">');
+  });
+
+  test('prints the title without a front image and drops text from narrow spines', () => {
+    const thin = calculateCoverLayout({ pageFormat: { size: '6x9' } }, 40);
+    const html = generateCoverHtml({ spineText: 'Vault', styles: ['cover.css'] }, thin, { title: 'A & B' });
+
+    expect(html).toContain('<h1 class="cover-title">A &amp; B</h1>');
+    expect(html).toContain('<link rel="stylesheet" href="cover.css">');
+    expect(html).not.toContain('cover-spine-text">');
+    expect(html).not.toContain('class="cover-barcode"');
+  });
+});
+
+describe('getCoverOutputPath', () => {
+  test('adds the cover suffix next to the interior PDF', () => {
+    expect(getCoverOutputPath('/books/vault.pdf')).toBe('/books/vault-cover.pdf');
+  });
+});
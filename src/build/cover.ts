@@ -0,0 +1,285 @@
+/**
+ * Wraparound cover generation (--cover)
+ *
+ * Lays out back cover, spine and front cover side by side on one page the
+ * size of the opened book: the spine width comes from the interior page
+ * count and paper (the pdf.preset paper, or cover.paper), and the panels
+ * extend into the bleed on the outer edges. The cover HTML is rendered
+ * through the same PDF engine as the interior and written as
+ * `<name>-cover.pdf` next to it.
+ *
+ * ```yaml
+ * cover:
+ *   front: images/front.jpg
+ *   back: images/back.jpg
+ *   blurb: back-cover.md
+ *   barcode: true   # ISBN barcode from metadata.isbn
+ * ```
+ */
+
+import path from 'path';
+import MarkdownIt from 'markdown-it';
+import { generatePdf, type PdfEngineOptions } from './formats/pdf-engine.ts';
+import { calculatePaperSpineWidth, calculateSpineWidth, resolvePrintPreset } from '../config/print-presets.ts';
+import { generateIsbnBarcode } from '../utils/barcode.ts';
+import { BuildError } from '../utils/errors.ts';
+import { fileExists, readFile, writeFile } from '../utils/file-utils.ts';
+import { info } from '../utils/logger.ts';
+import { lengthToInches, resolvePageSize } from '../utils/page-format.ts';
+import { COVER } from '../constants.ts';
+import type { CoverConfig, ManifestMetadata, PageFormat, PdfConfig } from '../types.ts';
+
+/**
+ * Cover dimensions in inches
+ */
+export interface CoverLayout {
+  /** Interior trim size (one cover panel) */
+  trim: { width: number; height: number };
+  spine: number;
+  bleed: number;
+  pageCount: number;
+  /** Paper the spine width was calculated for */
+  paper: string;
+  /** Cover trim: back + spine + front */
+  width: number;
+  height: number;
+}
+
+/**
+ * Book details printed on the cover
+ */
+export interface CoverContent {
+  title?: string;
+  authors?: string[];
+  /** Back cover text rendered from cover.blurb */
+  blurbHtml?: string;
+  /** ISBN barcode SVG for `barcode: true` */
+  barcodeSvg?: string;
+}
+
+/**
+ * Settings for building the cover PDF
+ */
+export interface CoverBuildOptions {
+  cover: CoverConfig;
+  pageFormat?: PageFormat;
+  pdfConfig?: PdfConfig;
+  title?: string;
+  authors?: string[];
+  /** Book metadata (isbn and priceCode for the barcode) */
+  metadata?: ManifestMetadata;
+  /** Project directory (cover paths are relative to it) */
+  inputDir: string;
+  /** Build directory holding the interior HTML and copied assets */
+  buildDir: string;
+  /** Interior PDF path */
+  pdfPath: string;
+  /** Page count reported by the PDF engine for the interior */
+  pageCount?: number;
+  /** Engine options used for the interior */
+  engineOptions: PdfEngineOptions;
+}
+
+/**
+ * Calculate the cover dimensions for an interior page count
+ *
+ * @param config - Page format, PDF and cover settings (pdf.preset decides the paper when set)
+ * @param pageCount - Interior page count
+ * @returns Cover layout in inches
+ * @throws ConfigError if pdf.preset is unknown
+ */
+export function calculateCoverLayout(
+  config: { pageFormat?: PageFormat; pdf?: PdfConfig; cover?: CoverConfig },
+  pageCount: number
+): CoverLayout {
+  const [width = 8.5, height = 11] = resolvePageSize(config.pageFormat?.size ?? 'letter')
+    .split(' ')
+    .map(lengthToInches);
+  const bleed = lengthToInches(config.pageFormat?.bleed ?? config.pdf?.bleed ?? COVER.DEFAULT_BLEED);
+
+  let paper: string;
+  let spine: number;
+  if (config.pdf?.preset) {
+    const preset = resolvePrintPreset(config.pdf.preset);
+    paper = preset.paperName;
+    spine = calculateSpineWidth(preset, pageCount);
+  } else {
+    paper = config.cover?.paper ?? 'white';
+    spine = calculatePaperSpineWidth(config.cover?.paper ?? 'white', pageCount);
+  }
+
+  return {
+    trim: { width, height },
+    spine,
+    bleed,
+    pageCount,
+    paper,
+    width: round(2 * width + spine),
+    height,
+  };
+}
+
+/**
+ * Generate the cover HTML
+ *
+ * Panels are absolutely positioned from the back cover's trim edge; text
+ * and the barcode box keep COVER.SAFE_MARGIN from the trim and folds.
+ * Classes (`.cover-back`, `.cover-spine`, `.cover-front`, `.cover-blurb`,
+ * `.cover-spine-text`, `.cover-barcode`) can be styled with cover.styles.
+ *
+ * @param cover - Cover configuration
+ * @param layout - Cover dimensions
+ * @param content - Title, authors and rendered blurb
+ * @returns Complete HTML document
+ */
+export function generateCoverHtml(cover: CoverConfig, layout: CoverLayout, content: CoverContent): string {
+  const { trim, spine, bleed } = layout;
+  const safe = COVER.SAFE_MARGIN;
+  const barcodeSpace = cover.barcode ? COVER.BARCODE_HEIGHT + safe : 0;
+  const spineText = cover.spineText ?? [content.title, content.authors?.join(', ')].filter(Boolean).join(' — ');
+  const title = escapeHtml(content.title ?? '');
+
+  const css = [
+    `@page { size: ${inches(layout.width)} ${inches(layout.height)}; margin: 0; bleed: ${inches(bleed)}; }`,
+    'html, body { margin: 0; padding: 0; }',
+    `body { background: ${cover.background ?? '#ffffff'}; }`,
+    `.cover { position: relative; width: ${inches(layout.width)}; height: ${inches(layout.height)}; }`,
+    `.cover-panel { position: absolute; top: ${inches(-bleed)}; height: ${inches(trim.height + 2 * bleed)}; overflow: hidden; }`,
+    '.cover-art { display: block; width: 100%; height: 100%; object-fit: cover; }',
+    `.cover-back { left: ${inches(-bleed)}; width: ${inches(trim.width + bleed)}; }`,
+    `.cover-spine { left: ${inches(trim.width)}; width: ${inches(spine)}; display: flex; align-items: center; justify-content: center; }`,
+    `.cover-front { left: ${inches(trim.width + spine)}; width: ${inches(trim.width + bleed)}; }`,
+    `.cover-blurb { position: absolute; top: ${inches(bleed + safe)}; left: ${inches(bleed + safe)}; right: ${inches(safe)}; bottom: ${inches(bleed + safe + barcodeSpace)}; overflow: hidden; }`,
+    `.cover-spine-text { writing-mode: vertical-rl; white-space: nowrap; font-size: ${inches(Math.min(spine * 0.45, 0.3))}; }`,
+    `.cover-barcode { position: absolute; right: ${inches(safe)}; bottom: ${inches(bleed + safe)}; width: ${inches(COVER.BARCODE_WIDTH)}; height: ${inches(COVER.BARCODE_HEIGHT)}; background: #ffffff; }`,
+    '.cover-barcode img, .cover-barcode svg { width: 100%; height: 100%; object-fit: contain; }',
+    `.cover-title-block { position: absolute; top: ${inches(bleed + safe)}; left: ${inches(safe)}; right: ${inches(bleed + safe)}; text-align: center; }`,
+  ].join('\n');
+
+  const back = [
+    cover.back ? `<img class="cover-art" src="${escapeHtml(cover.back)}" alt="">` : '',
+    content.blurbHtml ? `<div class="cover-blurb">\n${content.blurbHtml}</div>` : '',
+    typeof cover.barcode === 'string'
+      ? `<div class="cover-barcode"><img src="${escapeHtml(cover.barcode)}" alt="ISBN barcode"></div>`
+      : cover.barcode
+        ? `<div class="cover-barcode">${content.barcodeSvg ?? ''}</div>`
+        : '',
+  ].filter(Boolean);
+
+  const front = cover.front
+    ? `<img class="cover-art" src="${escapeHtml(cover.front)}" alt="${title}">`
+    : `<div class="cover-title-block"><h1 class="cover-title">${title}</h1>` +
+      `<p class="cover-authors">${escapeHtml(content.authors?.join(', ') ?? '')}</p></div>`;
+
+  const spineContent =
+    spineText && spine >= COVER.MIN_SPINE_TEXT_WIDTH ? `<span class="cover-spine-text">${escapeHtml(spineText)}</span>` : '';
+
+  const links = (cover.styles ?? []).map((style) => `<link rel="stylesheet" href="${escapeHtml(style)}">`);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title} (cover)</title>
+<style>
+${css}
+</style>
+${links.join('\n')}
+</head>
+<body>
+<div class="cover">
+<section class="cover-panel cover-back">
+${back.join('\n')}
+</section>
+<section class="cover-panel cover-spine">${spineContent}</section>
+<section class="cover-panel cover-front">
+${front}
+</section>
+</div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Path of the cover PDF for an interior PDF (`book.pdf` → `book-cover.pdf`)
+ */
+export function getCoverOutputPath(pdfPath: string): string {
+  const parsed = path.parse(pdfPath);
+  return path.join(parsed.dir, `${parsed.name}${COVER.OUTPUT_SUFFIX}${parsed.ext || '.pdf'}`);
+}
+
+/**
+ * Render the wraparound cover PDF next to the interior PDF
+ *
+ * @param options - Cover, page and engine settings plus the interior page count
+ * @returns Path to the cover PDF
+ * @throws BuildError if the page count is unknown or the blurb file is missing
+ */
+export async function buildCover(options: CoverBuildOptions): Promise<string> {
+  const { cover } = options;
+  const pageCount = options.pageCount ?? cover.pageCount;
+  if (!pageCount) {
+    throw new BuildError(
+      'The PDF engine did not report the interior page count needed for the spine width; set cover.pageCount in manifest.yaml'
+    );
+  }
+
+  const layout = calculateCoverLayout({ pageFormat: options.pageFormat, pdf: options.pdfConfig, cover }, pageCount);
+  const html = generateCoverHtml(cover, layout, {
+    title: options.title,
+    authors: options.authors,
+    blurbHtml: cover.blurb ? await renderBlurb(path.join(options.inputDir, cover.blurb)) : undefined,
+    barcodeSvg:
+      cover.barcode === true && options.metadata?.isbn
+        ? generateIsbnBarcode(options.metadata.isbn, { priceCode: options.metadata.priceCode })
+        : undefined,
+  });
+
+  const coverHtml = path.join(options.buildDir, COVER.HTML_FILENAME);
+  await writeFile(coverHtml, html);
+
+  const result = await generatePdf(
+    coverHtml,
+    getCoverOutputPath(options.pdfPath),
+    { ...options.engineOptions, size: `${inches(layout.width)} ${inches(layout.height)}`, bleed: inches(layout.bleed) },
+    html
+  );
+
+  info(
+    `Cover generated: ${result.outputPath} (${inches(layout.width)} × ${inches(layout.height)} plus ${inches(layout.bleed)} bleed, ` +
+      `spine ${inches(layout.spine)} for ${pageCount} pages on ${layout.paper} paper)`
+  );
+  return result.outputPath;
+}
+
+/**
+ * Render the back cover markdown
+ */
+async function renderBlurb(blurbPath: string): Promise<string> {
+  if (!(await fileExists(blurbPath))) {
+    throw new BuildError(`Cover blurb not found: ${blurbPath}`);
+  }
+  return new MarkdownIt({ html: true, typographer: true }).render(await readFile(blurbPath));
+}
+
+/**
+ * Format inches for CSS
+ */
+function inches(value: number): string {
+  return `${round(value)}in`;
+}
+
+/**
+ * Round to thousandths of an inch
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Escape text for HTML content and attributes
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -17,8 +17,10 @@
  */
 
 import { promises as fs } from 'fs';
-import { BuildError } from '../../utils/errors.ts';
-import { debug, info, warn } from '../../utils/logger.ts';
+import { BuildAbortedError, BuildError } from '../../utils/errors.ts';
+import { createLogger } from '../../utils/logger.ts';
+
+const { debug, info, warn } = createLogger('engine');
 
 /**
  * DocRaptor API endpoint
@@ -114,6 +116,11 @@ export interface DocRaptorPdfOptions {
    */
   timeout?: number;
 
+  /**
+   * Cancels the API request
+   */
+  signal?: AbortSignal;
+
   /**
    * Verbose output
    */
@@ -243,6 +250,8 @@ export async function generatePdfWithDocRaptor(
   try {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = (): void => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
 
     const response = await fetch(DOCRAPTOR_API_URL, {
       method: 'POST',
@@ -252,7 +261,7 @@ export async function generatePdfWithDocRaptor(
       },
       body: JSON.stringify(requestBody),
       signal: controller.signal,
-    });
+    }).finally(() => options.signal?.removeEventListener('abort', onAbort));
 
     clearTimeout(timeoutId);
 
@@ -311,6 +320,9 @@ export async function generatePdfWithDocRaptor(
     }
 
     if (error instanceof Error) {
+      if (error.name === 'AbortError' && options.signal?.aborted) {
+        throw new BuildAbortedError('DocRaptor API request aborted');
+      }
       if (error.name === 'AbortError') {
         throw new BuildError(`DocRaptor API request timed out after ${timeout}ms`);
       }
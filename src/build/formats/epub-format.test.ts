@@ -0,0 +1,206 @@
+/**
+ * Tests for EPUB format strategy
+ *
+ * Tests chapter splitting, nav/OPF generation, print-only stripping,
+ * image packaging and the zip container layout
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { join, basename } from 'path';
+import { promises as fs } from 'fs';
+import { mkdir, writeFile, remove, fileExists, readFile } from '../../utils/file-utils.ts';
+import { EpubFormatStrategy, type EpubBuildOptions } from './epub-format.ts';
+import { OutputFormat } from '../../types.ts';
+
+const SAMPLE_HTML = `<!DOCTYPE html>
+<html>
+<head>
+    <style>
+@page { size: 6in 9in; @top-center { content: "Header"; } }
+body { font-family: serif; }
+@page :left { margin-left: 1in; }
+h1 { color: black; }
+    </style>
+    <title>Ignored Title</title>
+</head>
+<body>
+    <article id="intro"><div class="directive-marker" data-directive="page" data-value="chapter" style="display: none;"></div>
+<h1 id="introduction">Introduction</h1>
+<p>See <a href="#rules">the rules</a>.<br>Line two&nbsp;here.</p>
+<p><img src="images/map.png" alt="Map"></p>
+<h2 id="background">Background</h2>
+</article>
+<article id="rules"><h1 id="rules-heading">Rules</h1>
+<div class="page-break" data-directive="break"></div>
+<h2 id="combat">Combat</h2>
+<h3 id="initiative">Initiative</h3>
+</article>
+</body>
+</html>`;
+
+describe('EPUB Format Strategy', () => {
+  let testDir: string;
+  let strategy: EpubFormatStrategy;
+  let options: EpubBuildOptions;
+  let stagingDir: string;
+
+  beforeEach(async () => {
+    testDir = join(process.cwd(), '.tmp', `epub-format-tests-${Date.now()}`);
+    await mkdir(join(testDir, 'images'));
+    await writeFile(join(testDir, 'images', 'map.png'), 'fake-image-data');
+    await writeFile(join(testDir, 'notes.txt'), 'not packaged');
+    strategy = new EpubFormatStrategy();
+    stagingDir = join(process.cwd(), '.tmp', `${basename(testDir)}-epub`, 'OEBPS');
+
+    options = {
+      input: testDir,
+      output: join(testDir, 'book.epub'),
+      format: OutputFormat.EPUB,
+      verbose: false,
+      debug: true,
+      title: 'The Book & Co',
+      authors: ['Author One', 'Author Two'],
+      metadata: { isbn: '978-3-16-148410-0', language: 'fr' },
+    };
+  });
+
+  afterEach(async () => {
+    await strategy.cleanup({ ...options, debug: false });
+    await remove(testDir);
+  });
+
+  test('writes a zip container with mimetype as the first stored entry', async () => {
+    const outputPath = await strategy.build(options, SAMPLE_HTML);
+
+    expect(outputPath).toBe(join(testDir, 'book.epub'));
+    const archive = await fs.readFile(outputPath);
+    expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+    expect(archive.readUInt16LE(8)).toBe(0); // stored
+    expect(archive.subarray(30, 38).toString()).toBe('mimetype');
+    expect(archive.subarray(38, 58).toString()).toBe('application/epub+zip');
+  });
+
+  test('splits articles into XHTML spine items', async () => {
+    await strategy.build(options, SAMPLE_HTML);
+
+    const opf = await readFile(join(stagingDir, 'content.opf'));
+    expect(opf).toContain('<item id="chapter-1" href="intro.xhtml" media-type="application/xhtml+xml"/>');
+    expect(opf).toContain('<item id="chapter-2" href="rules.xhtml" media-type="application/xhtml+xml"/>');
+    expect(opf).toContain('<itemref idref="chapter-1"/>\n    <itemref idref="chapter-2"/>');
+
+    const intro = await readFile(join(stagingDir, 'intro.xhtml'));
+    expect(intro).toContain('<html xmlns="http://www.w3.org/1999/xhtml"');
+    expect(intro).toContain('<article id="intro">');
+    expect(intro).toContain('Introduction');
+    expect(intro).not.toContain('Combat');
+  });
+
+  test('fills OPF metadata from manifest', async () => {
+    await strategy.build(options, SAMPLE_HTML);
+
+    const opf = await readFile(join(stagingDir, 'content.opf'));
+    expect(opf).toContain('<dc:identifier id="book-id">urn:isbn:9783161484100</dc:identifier>');
+    expect(opf).toContain('<dc:title>The Book &amp; Co</dc:title>');
+    expect(opf).toContain('<dc:creator>Author One</dc:creator>');
+    expect(opf).toContain('<dc:creator>Author Two</dc:creator>');
+    expect(opf).toContain('<dc:language>fr</dc:language>');
+    expect(opf).toMatch(/<meta property="dcterms:modified">\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z<\/meta>/);
+  });
+
+  test('uses a stable uuid identifier without ISBN', async () => {
+    options.metadata = undefined;
+
+    await strategy.build(options, SAMPLE_HTML);
+    const first = await readFile(join(stagingDir, 'content.opf'));
+    await strategy.build(options, SAMPLE_HTML);
+    const second = await readFile(join(stagingDir, 'content.opf'));
+
+    const identifier = first.match(/<dc:identifier id="book-id">([^<]+)</)?.[1];
+    expect(identifier).toMatch(/^urn:uuid:[0-9a-f-]{36}$/);
+    expect(second).toContain(identifier as string);
+    expect(first).toContain('<dc:language>en</dc:language>');
+  });
+
+  test('builds nested nav document from headings', async () => {
+    await strategy.build(options, SAMPLE_HTML);
+
+    const nav = await readFile(join(stagingDir, 'nav.xhtml'));
+    expect(nav).toContain('<nav epub:type="toc" id="toc">');
+    expect(nav).toContain(
+      '<li><a href="intro.xhtml#introduction">Introduction</a><ol><li><a href="intro.xhtml#background">Background</a></li></ol></li>'
+    );
+    expect(nav).toContain(
+      '<li><a href="rules.xhtml#combat">Combat</a><ol><li><a href="rules.xhtml#initiative">Initiative</a></li></ol></li>'
+    );
+  });
+
+  test('strips print-only markers and @page rules', async () => {
+    await strategy.build(options, SAMPLE_HTML);
+
+    const intro = await readFile(join(stagingDir, 'intro.xhtml'));
+    const rules = await readFile(join(stagingDir, 'rules.xhtml'));
+    expect(intro).not.toContain('directive-marker');
+    expect(rules).not.toContain('page-break');
+
+    const css = await readFile(join(stagingDir, 'styles.css'));
+    expect(css).not.toContain('@page');
+    expect(css).not.toContain('Header');
+    expect(css).toContain('body { font-family: serif; }');
+    expect(css).toContain('h1 { color: black; }');
+  });
+
+  test('produces well-formed XHTML and links across chapters', async () => {
+    await strategy.build(options, SAMPLE_HTML);
+
+    const intro = await readFile(join(stagingDir, 'intro.xhtml'));
+    expect(intro).toContain('<br />');
+    expect(intro).toContain('<img src="images/map.png" alt="Map" />');
+    expect(intro).toContain('Line two&#160;here.');
+    expect(intro).toContain('<a href="rules.xhtml#rules">the rules</a>');
+  });
+
+  test('converts named entities in chapter titles', async () => {
+    await strategy.build(
+      options,
+      '<html><body><article id="notes"><h1 id="errata">Notes&nbsp;&mdash; <em>Errata</em></h1></article></body></html>'
+    );
+
+    const notes = await readFile(join(stagingDir, 'notes.xhtml'));
+    const nav = await readFile(join(stagingDir, 'nav.xhtml'));
+    expect(notes).toContain('<title>Notes&#160;&#8212; Errata</title>');
+    expect(nav).toContain('<a href="notes.xhtml#errata">Notes&#160;&#8212; Errata</a>');
+  });
+
+  test('packages images copied from the input directory', async () => {
+    await strategy.build(options, SAMPLE_HTML);
+
+    const opf = await readFile(join(stagingDir, 'content.opf'));
+    expect(opf).toContain('<item id="image-1" href="images/map.png" media-type="image/png"/>');
+    expect(opf).not.toContain('notes.txt');
+
+    const archive = await fs.readFile(options.output as string);
+    expect(archive.includes('OEBPS/images/map.png')).toBe(true);
+    expect(archive.includes('notes.txt')).toBe(false);
+  });
+
+  test('throws when rendered HTML has no chapters', async () => {
+    const error = await strategy.build(options, '<html><body><p>No articles</p></body></html>').catch((e: Error) => e);
+
+    expect((error as Error).message).toContain('No chapters found');
+  });
+
+  test('rejects directory output path', () => {
+    const validation = strategy.validateOutputPath(testDir, false);
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.message).toContain('EPUB format requires a file path');
+  });
+
+  test('cleanup removes staging directory unless debug', async () => {
+    await strategy.build(options, SAMPLE_HTML);
+    expect(await fileExists(stagingDir)).toBe(true);
+
+    await strategy.cleanup({ ...options, debug: false });
+    expect(await fileExists(stagingDir)).toBe(false);
+  });
+});
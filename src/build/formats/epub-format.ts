@@ -0,0 +1,547 @@
+/**
+ * EPUB Format Strategy
+ *
+ * Packages the rendered HTML as an EPUB 3 ebook:
+ * - Each <article id="slug"> chapter becomes an XHTML spine item
+ * - The nav document is built from chapter headings
+ * - The OPF package is filled from manifest title, authors and metadata
+ * - Images copied by AssetCopier are packaged and listed in the manifest
+ * - Print-only directive markers and @page rules are stripped
+ *
+ * Staging files are written to .tmp/[basename]-epub/ before zipping.
+ */
+
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { writeFile, mkdir, remove } from '../../utils/file-utils.ts';
+import { info, debug, warn } from '../../utils/logger.ts';
+import { validateOutputPath } from '../../utils/path-validation.ts';
+import { BuildError } from '../../utils/errors.ts';
+import { createZip, type ZipEntry } from '../../utils/zip-writer.ts';
+import { AssetCopier } from '../asset-copier.ts';
+import { BUILD } from '../../constants.ts';
+import type { FormatStrategy, BuildOptions, OutputValidation, OutputFormat, ManifestMetadata } from '../../types.ts';
+
+/**
+ * Extended build options for EPUB generation
+ */
+export interface EpubBuildOptions extends BuildOptions {
+  /** Book title from manifest (falls back to the HTML <title>) */
+  title?: string;
+
+  /** Book authors from manifest */
+  authors?: string[];
+
+  /** Additional metadata from manifest (isbn, date, language) */
+  metadata?: ManifestMetadata;
+}
+
+/**
+ * A chapter extracted from the rendered HTML
+ */
+interface EpubChapter {
+  /** Article id (from the markdown file name) */
+  slug: string;
+  /** XHTML file name inside OEBPS/ */
+  fileName: string;
+  /** Chapter title as escaped XHTML text (front matter title, first heading, or slug) */
+  title: string;
+  /** Chapter body HTML */
+  body: string;
+}
+
+/**
+ * Nav document entry
+ */
+interface NavNode {
+  label: string;
+  href: string;
+  level: number;
+  children: NavNode[];
+}
+
+/** Directory for package content inside the container */
+const CONTENT_DIR = 'OEBPS';
+
+/** Deepest heading level included in the nav document */
+const NAV_MAX_LEVEL = 3;
+
+/** Media types for packaged images */
+const IMAGE_MEDIA_TYPES: Readonly<Record<string, string>> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+/** HTML void elements that must be self-closed in XHTML */
+const VOID_ELEMENTS = 'area|base|br|col|embed|hr|img|input|link|meta|source|track|wbr';
+
+/** Named entities commonly found in raw HTML that XML does not define */
+const NAMED_ENTITIES: Readonly<Record<string, string>> = {
+  nbsp: '&#160;',
+  ndash: '&#8211;',
+  mdash: '&#8212;',
+  hellip: '&#8230;',
+  lsquo: '&#8216;',
+  rsquo: '&#8217;',
+  ldquo: '&#8220;',
+  rdquo: '&#8221;',
+  copy: '&#169;',
+  reg: '&#174;',
+  trade: '&#8482;',
+  times: '&#215;',
+};
+
+export class EpubFormatStrategy implements FormatStrategy {
+  /**
+   * Build EPUB output
+   *
+   * Process:
+   * 1. Create .tmp/[basename]-epub/ staging directory
+   * 2. Copy assets into OEBPS/ (images are packaged)
+   * 3. Split articles into XHTML chapters and write nav, CSS and OPF
+   * 4. Zip the container with mimetype as the first, stored entry
+   * 5. Clean up staging directory (handled by cleanup() method)
+   */
+  async build(options: BuildOptions, htmlContent: string): Promise<string> {
+    const epubOptions = options as EpubBuildOptions;
+    const inputBasename = path.basename(options.input || process.cwd());
+    const buildDir = getBuildDir(options);
+    const contentDir = path.join(buildDir, CONTENT_DIR);
+
+    await remove(buildDir);
+    await mkdir(contentDir);
+    debug(`Created EPUB staging directory: ${buildDir}`);
+
+    // Copy assets and keep the images for packaging
+    const assetCopier = new AssetCopier({
+      sourceDir: options.input || process.cwd(),
+      destDir: contentDir,
+      verbose: options.verbose,
+    });
+    const { copiedPaths } = await assetCopier.copyAssets();
+    const images = copiedPaths
+      .filter((file) => path.extname(file).toLowerCase() in IMAGE_MEDIA_TYPES)
+      .map((file) => path.relative(contentDir, file).split(path.sep).join('/'));
+
+    const chapters = extractChapters(htmlContent);
+    if (chapters.length === 0) {
+      throw new BuildError('No chapters found in rendered HTML (expected <article id="..."> elements)');
+    }
+    linkAcrossChapters(chapters);
+
+    const language = epubOptions.metadata?.language || 'en';
+    const title = epubOptions.title || extractDocumentTitle(htmlContent) || inputBasename;
+    const css = stripPageRules(extractStyles(htmlContent));
+
+    // Container files
+    const files: Array<{ path: string; content: string }> = [
+      { path: 'mimetype', content: 'application/epub+zip' },
+      { path: 'META-INF/container.xml', content: renderContainer() },
+      { path: `${CONTENT_DIR}/content.opf`, content: renderPackage(epubOptions, title, language, chapters, images) },
+      { path: `${CONTENT_DIR}/nav.xhtml`, content: renderNav(title, language, chapters) },
+      { path: `${CONTENT_DIR}/styles.css`, content: css },
+      ...chapters.map((chapter) => ({
+        path: `${CONTENT_DIR}/${chapter.fileName}`,
+        content: renderChapter(chapter, language),
+      })),
+    ];
+
+    for (const file of files) {
+      await writeFile(path.join(buildDir, file.path), file.content);
+    }
+
+    // Zip staged files (mimetype must be first and uncompressed)
+    const entries: ZipEntry[] = files.map((file) => ({
+      path: file.path,
+      data: file.content,
+      compress: file.path !== 'mimetype',
+    }));
+    for (const image of images) {
+      entries.push({
+        path: `${CONTENT_DIR}/${image}`,
+        data: await fs.readFile(path.join(contentDir, image)),
+        compress: false,
+      });
+    }
+
+    const outputPath = options.output || `${inputBasename}.epub`;
+    const absoluteOutputPath = path.isAbsolute(outputPath)
+      ? outputPath
+      : path.resolve(process.cwd(), outputPath);
+
+    await mkdir(path.dirname(absoluteOutputPath));
+    await fs.writeFile(absoluteOutputPath, createZip(entries));
+
+    info(`EPUB generated: ${absoluteOutputPath}`);
+    info(`  Chapters: ${chapters.length}, images: ${images.length}`);
+
+    return absoluteOutputPath;
+  }
+
+  /**
+   * Validate output path for EPUB format
+   *
+   * EPUB format requires file path, not directory
+   */
+  validateOutputPath(path: string, force: boolean): OutputValidation {
+    return validateOutputPath('epub' as OutputFormat, path, force);
+  }
+
+  /**
+   * Clean up temporary files
+   *
+   * Removes .tmp/[basename]-epub/ directory unless debug mode
+   */
+  async cleanup(options: BuildOptions): Promise<void> {
+    const buildDir = getBuildDir(options);
+    if (!options.debug) {
+      await remove(buildDir);
+      debug(`Cleaned up EPUB staging directory: ${buildDir}`);
+    } else {
+      info(`Debug mode: EPUB staging files preserved at ${buildDir}`);
+    }
+  }
+}
+
+/**
+ * Get the staging directory for an EPUB build
+ */
+function getBuildDir(options: BuildOptions): string {
+  const inputBasename = path.basename(options.input || process.cwd());
+  return path.join(process.cwd(), BUILD.TEMP_DIR, `${inputBasename}-epub`);
+}
+
+/**
+ * Split rendered HTML into chapters, one per top-level <article id="slug">
+ */
+function extractChapters(html: string): EpubChapter[] {
+  const bodyMatch = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+  const body = bodyMatch?.[1] ?? html;
+  // Front matter adds data-* attributes after the id
+  const articleRegex = /<article id="([^"]+)"([^>]*)>([\s\S]*?)<\/article>(?=\s*(?:<article id="|$))/g;
+  const chapters: EpubChapter[] = [];
+  const usedNames = new Set<string>();
+
+  for (const match of body.matchAll(articleRegex)) {
+    const slug = match[1] ?? '';
+    const frontMatterTitle = match[2]?.match(/data-title="([^"]*)"/)?.[1];
+    const content = stripDirectiveMarkers(match[3] ?? '');
+    const firstHeading = extractHeadings(content)[0];
+
+    const baseName = slug.replace(/[^\w.-]/g, '_') || 'chapter';
+    let fileName = `${baseName}.xhtml`;
+    for (let n = 2; usedNames.has(fileName); n++) {
+      fileName = `${baseName}-${n}.xhtml`;
+    }
+    usedNames.add(fileName);
+
+    chapters.push({
+      slug,
+      fileName,
+      title: replaceNamedEntities(frontMatterTitle || firstHeading?.text || escapeXml(slug)),
+      body: toXhtml(content),
+    });
+  }
+
+  return chapters;
+}
+
+/**
+ * Extract headings (level, id, plain text) from chapter HTML
+ */
+function extractHeadings(html: string): Array<{ level: number; id?: string; text: string }> {
+  const headings: Array<{ level: number; id?: string; text: string }> = [];
+
+  for (const match of html.matchAll(/<h([1-6])([^>]*)>([\s\S]*?)<\/h\1>/gi)) {
+    const text = (match[3] ?? '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+    if (!text) {
+      continue;
+    }
+    headings.push({
+      level: Number(match[1]),
+      id: match[2]?.match(/\bid="([^"]+)"/)?.[1],
+      text,
+    });
+  }
+
+  return headings;
+}
+
+/**
+ * Remove print-only directive markers (page templates, breaks, spreads, columns)
+ */
+function stripDirectiveMarkers(html: string): string {
+  return html.replace(/<div class="(?:directive-marker|page-break)"[^>]*><\/div>\n?/g, '');
+}
+
+/**
+ * Make chapter HTML well-formed XHTML
+ */
+function toXhtml(html: string): string {
+  return replaceNamedEntities(
+    html.replace(new RegExp(`<(${VOID_ELEMENTS})(\\s[^>]*?)?\\s*/?>`, 'gi'), (_match, tag: string, attrs?: string) =>
+      `<${tag}${attrs ?? ''} />`
+    )
+  );
+}
+
+/**
+ * Replace HTML named entities that XML does not define with numeric ones
+ */
+function replaceNamedEntities(html: string): string {
+  return html.replace(/&([a-z]+);/gi, (entity, name: string) => NAMED_ENTITIES[name] ?? entity);
+}
+
+/**
+ * Rewrite same-document fragment links that now point into another chapter file
+ */
+function linkAcrossChapters(chapters: EpubChapter[]): void {
+  const idToFile = new Map<string, string>();
+  for (const chapter of chapters) {
+    idToFile.set(chapter.slug, chapter.fileName);
+    for (const match of chapter.body.matchAll(/\bid="([^"]+)"/g)) {
+      if (match[1] && !idToFile.has(match[1])) {
+        idToFile.set(match[1], chapter.fileName);
+      }
+    }
+  }
+
+  for (const chapter of chapters) {
+    chapter.body = chapter.body.replace(/href="#([^"]+)"/g, (original, id: string) => {
+      const file = idToFile.get(id);
+      return file && file !== chapter.fileName ? `href="${file}#${id}"` : original;
+    });
+  }
+}
+
+/**
+ * Collect inline <style> contents from the document head
+ */
+function extractStyles(html: string): string {
+  const styles: string[] = [];
+  for (const match of html.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/gi)) {
+    styles.push((match[1] ?? '').trim());
+  }
+  return styles.join('\n\n');
+}
+
+/**
+ * Remove @page rules (including nested margin boxes) from CSS
+ */
+function stripPageRules(css: string): string {
+  let result = '';
+  let index = 0;
+
+  for (const match of css.matchAll(/@page\b/g)) {
+    const start = match.index;
+    if (start < index) {
+      continue;
+    }
+
+    const open = css.indexOf('{', start);
+    if (open === -1) {
+      break;
+    }
+
+    let depth = 0;
+    let end = open;
+    for (; end < css.length; end++) {
+      if (css[end] === '{') depth++;
+      if (css[end] === '}' && --depth === 0) break;
+    }
+
+    result += css.slice(index, start);
+    index = end + 1;
+  }
+
+  return result + css.slice(index);
+}
+
+/**
+ * Read the <title> from the rendered document
+ */
+function extractDocumentTitle(html: string): string | undefined {
+  return html.match(/<title>([\s\S]*?)<\/title>/i)?.[1]?.trim() || undefined;
+}
+
+/**
+ * Build a stable identifier: urn:isbn when available, otherwise a UUID
+ * derived from title and authors so rebuilds keep the same identity
+ */
+function getBookIdentifier(title: string, authors: string[], isbn?: string): string {
+  if (isbn) {
+    return `urn:isbn:${isbn.replace(/[^0-9Xx]/g, '')}`;
+  }
+
+  const hash = createHash('sha1').update(`${title}\n${authors.join('\n')}`).digest('hex');
+  return `urn:uuid:${hash.slice(0, 8)}-${hash.slice(8, 12)}-5${hash.slice(13, 16)}-a${hash.slice(17, 20)}-${hash.slice(20, 32)}`;
+}
+
+/**
+ * Render META-INF/container.xml
+ */
+function renderContainer(): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="${CONTENT_DIR}/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+}
+
+/**
+ * Render the OPF package document
+ */
+function renderPackage(
+  options: EpubBuildOptions,
+  title: string,
+  language: string,
+  chapters: EpubChapter[],
+  images: string[]
+): string {
+  const authors = options.authors ?? (options.metadata?.author ? [options.metadata.author] : []);
+  const identifier = getBookIdentifier(title, authors, options.metadata?.isbn);
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const metadata = [
+    `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(title)}</dc:title>`,
+    ...authors.map((author) => `<dc:creator>${escapeXml(author)}</dc:creator>`),
+    `<dc:language>${escapeXml(language)}</dc:language>`,
+    ...(options.metadata?.date ? [`<dc:date>${escapeXml(options.metadata.date)}</dc:date>`] : []),
+    `<meta property="dcterms:modified">${modified}</meta>`,
+  ];
+
+  const items = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="css" href="styles.css" media-type="text/css"/>',
+    ...chapters.map((chapter, i) =>
+      `<item id="chapter-${i + 1}" href="${escapeXml(chapter.fileName)}" media-type="application/xhtml+xml"/>`
+    ),
+    ...images.map((image, i) =>
+      `<item id="image-${i + 1}" href="${escapeXml(image)}" media-type="${IMAGE_MEDIA_TYPES[path.extname(image).toLowerCase()]}"/>`
+    ),
+  ];
+
+  const spine = chapters.map((_chapter, i) => `<itemref idref="chapter-${i + 1}"/>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${metadata.join('\n    ')}
+  </metadata>
+  <manifest>
+    ${items.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.join('\n    ')}
+  </spine>
+</package>
+`;
+}
+
+/**
+ * Render the EPUB 3 nav document from chapter headings
+ */
+function renderNav(title: string, language: string, chapters: EpubChapter[]): string {
+  const roots: NavNode[] = [];
+  const stack: NavNode[] = [];
+
+  for (const chapter of chapters) {
+    const headings = extractHeadings(chapter.body).filter((h) => h.level <= NAV_MAX_LEVEL);
+
+    if (headings.length === 0) {
+      roots.push({ label: chapter.title, href: chapter.fileName, level: 0, children: [] });
+      stack.length = 0;
+      continue;
+    }
+
+    for (const heading of headings) {
+      const node: NavNode = {
+        label: heading.text,
+        href: heading.id ? `${chapter.fileName}#${heading.id}` : chapter.fileName,
+        level: heading.level,
+        children: [],
+      };
+      while (stack.length > 0 && (stack[stack.length - 1] as NavNode).level >= node.level) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1];
+      (parent ? parent.children : roots).push(node);
+      stack.push(node);
+    }
+  }
+
+  if (roots.length === 0) {
+    warn('EPUB nav document is empty');
+  }
+
+  return renderXhtmlDocument(
+    escapeXml(title),
+    language,
+    `<nav epub:type="toc" id="toc">
+  <h1>${escapeXml(title)}</h1>
+  ${renderNavList(roots)}
+</nav>`,
+    false
+  );
+}
+
+/**
+ * Render a nested nav <ol>
+ */
+function renderNavList(nodes: NavNode[]): string {
+  const items = nodes.map((node) => {
+    const children = node.children.length > 0 ? renderNavList(node.children) : '';
+    return `<li><a href="${escapeXml(node.href)}">${node.label}</a>${children}</li>`;
+  });
+  return `<ol>${items.join('')}</ol>`;
+}
+
+/**
+ * Render a chapter XHTML content document
+ */
+function renderChapter(chapter: EpubChapter, language: string): string {
+  return renderXhtmlDocument(
+    chapter.title,
+    language,
+    `<article id="${escapeXml(chapter.slug)}">${chapter.body}</article>`,
+    true
+  );
+}
+
+/**
+ * Wrap body content in an XHTML document (title must already be escaped)
+ */
+function renderXhtmlDocument(title: string, language: string, body: string, includeStyles: boolean): string {
+  const stylesheet = includeStyles ? '\n  <link rel="stylesheet" type="text/css" href="styles.css" />' : '';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+<head>
+  <meta charset="UTF-8" />
+  <title>${title}</title>${stylesheet}
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
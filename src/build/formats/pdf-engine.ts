@@ -18,8 +18,10 @@ import { spawn } from 'child_process';
 import { checkPrinceInstalled, getPrinceVersion, generatePdfWithPrince, type PrincePdfOptions, type PrincePdfResult } from './prince-wrapper.ts';
 import { checkVivliostyleInstalled, getVivliostyleVersion, generatePdfWithVivliostyle, type VivliostylePdfOptions, type VivliostylePdfResult } from './vivliostyle-wrapper.ts';
 import { isDocRaptorConfigured, generatePdfWithDocRaptor, type DocRaptorPdfOptions, type DocRaptorPdfResult } from './docraptor-wrapper.ts';
-import { BuildError } from '../../utils/errors.ts';
-import { debug, info, warn } from '../../utils/logger.ts';
+import { BuildError, throwIfAborted } from '../../utils/errors.ts';
+import { createLogger } from '../../utils/logger.ts';
+
+const { debug, info } = createLogger('engine');
 
 /**
  * Supported PDF engines
@@ -65,6 +67,11 @@ export interface PdfEngineOptions {
    */
   timeout?: number;
 
+  /**
+   * Cancels generation, killing the engine process (or the DocRaptor request)
+   */
+  signal?: AbortSignal;
+
   /**
    * Debug mode
    */
@@ -95,6 +102,11 @@ export interface PdfEngineOptions {
    */
   pressReady?: boolean;
 
+  /**
+   * Output color mode from manifest.format (cmyk enables color conversion)
+   */
+  colorMode?: 'rgb' | 'cmyk';
+
   /**
    * PDF profile (Prince/DocRaptor: 'PDF/X-1a', 'PDF/X-3', 'PDF/X-4')
    */
@@ -277,11 +289,13 @@ export async function selectPdfEngine(options: PdfEngineOptions = {}): Promise<P
 function toPrinceOptions(options: PdfEngineOptions): PrincePdfOptions {
   return {
     timeout: options.timeout,
+    signal: options.signal,
     debug: options.debug,
     verbose: options.verbose,
+    pageSize: options.size,
     pdfProfile: options.pdfProfile as PrincePdfOptions['pdfProfile'],
     outputIntent: options.outputIntent,
-    convertColors: options.convertColors,
+    convertColors: options.convertColors ?? (options.colorMode === 'cmyk' || undefined),
     stylesheets: options.stylesheets,
     javascript: options.javascript,
   };
@@ -293,12 +307,15 @@ function toPrinceOptions(options: PdfEngineOptions): PrincePdfOptions {
 function toVivliostyleOptions(options: PdfEngineOptions): VivliostylePdfOptions {
   return {
     timeout: options.timeout,
+    signal: options.signal,
     debug: options.debug,
     verbose: options.verbose,
-    size: options.size,
+    // Vivliostyle expects custom sizes comma separated (e.g., 6in,9in)
+    size: options.size?.trim().split(/\s+/).join(','),
     cropMarks: options.cropMarks,
     bleed: options.bleed,
-    pressReady: options.pressReady,
+    // PDF/X-1a output is CMYK, so cmyk color mode implies press-ready
+    pressReady: options.pressReady ?? (options.colorMode === 'cmyk' || undefined),
     stylesheets: options.stylesheets,
   };
 }
@@ -307,16 +324,18 @@ function toVivliostyleOptions(options: PdfEngineOptions): VivliostylePdfOptions
  * Convert unified options to DocRaptor-specific options
  */
 function toDocRaptorOptions(options: PdfEngineOptions): DocRaptorPdfOptions {
+  const convertColors = options.convertColors ?? (options.colorMode === 'cmyk' || undefined);
   return {
     apiKey: options.docraptorApiKey,
     test: options.docraptorTestMode,
     timeout: options.timeout,
+    signal: options.signal,
     debug: options.debug,
     verbose: options.verbose,
     javascript: options.javascript,
-    princeOptions: options.pdfProfile ? {
+    princeOptions: options.pdfProfile || convertColors ? {
       profile: options.pdfProfile,
-      convert_colors: options.convertColors,
+      convert_colors: convertColors,
     } : undefined,
   };
 }
@@ -337,6 +356,7 @@ export async function generatePdf(
   htmlContent?: string
 ): Promise<PdfEngineResult> {
   const engine = await selectPdfEngine(options);
+  throwIfAborted(options.signal);
 
   switch (engine) {
     case 'prince': {
@@ -11,6 +11,9 @@
  * - PDF/X profiles for print production
  * - ICC color profiles and color conversion
  * - Crop marks and bleed support
+ * - Print-on-demand presets: spine width and minimum gutter for the page count
+ * - Wraparound cover PDF (--cover)
+ * - Booklet imposition (pdf.imposition)
  *
  * Usage:
  *   pagedmd build --format pdf
@@ -22,10 +25,17 @@ import path from 'path';
 import { promises as fs } from 'fs';
 import { generatePdf, type PdfEngineOptions, type PdfEngine } from './pdf-engine.ts';
 import { writeFile, mkdir, remove, isDirectory, readDirectory, copyDirectory as copyDir } from '../../utils/file-utils.ts';
-import { info, debug } from '../../utils/logger.ts';
+import { info, debug, warn } from '../../utils/logger.ts';
+import { BuildError } from '../../utils/errors.ts';
 import { validateOutputPath } from '../../utils/path-validation.ts';
 import { BUILD, FILENAMES, EXTENSIONS } from '../../constants.ts';
-import type { FormatStrategy, BuildOptions, OutputValidation, OutputFormat, PdfEngineType, PdfConfig } from '../../types.ts';
+import { toPageEngineOptions } from '../../utils/page-format.ts';
+import { checkPrintPreset, resolvePrintPreset } from '../../config/print-presets.ts';
+import { buildCover } from '../cover.ts';
+import { imposePdf } from '../imposition.ts';
+import type { BuildReportCollector } from '../build-report.ts';
+import type { PerformanceMonitor } from '../../utils/performance.ts';
+import type { FormatStrategy, BuildOptions, OutputValidation, OutputFormat, PdfEngineType, PdfConfig, PageFormat, CoverConfig, ManifestMetadata } from '../../types.ts';
 
 /**
  * Extended build options for PDF generation
@@ -65,6 +75,33 @@ export interface PdfBuildOptions extends BuildOptions {
    * PDF configuration from manifest
    */
   pdfConfig?: PdfConfig;
+
+  /**
+   * Page format from manifest (size, bleed and color mode defaults)
+   */
+  pageFormat?: PageFormat;
+
+  /**
+   * Wraparound cover from manifest, built with --cover
+   */
+  cover?: CoverConfig;
+
+  /**
+   * Book title, authors and metadata for the cover
+   */
+  title?: string;
+  authors?: string[];
+  metadata?: ManifestMetadata;
+
+  /**
+   * Build report collector (--report) that receives the engine and page count
+   */
+  reportCollector?: BuildReportCollector;
+
+  /**
+   * Performance monitor that times the PDF engine (--profile=trace.json)
+   */
+  perf?: PerformanceMonitor;
 }
 
 /**
@@ -97,8 +134,10 @@ export class PdfFormatStrategy implements FormatStrategy {
     await mkdir(buildDir);
     debug(`Created build directory: ${buildDir}`);
 
-    // Copy assets to build directory
-    await this.copyAssets(buildDir, options.input || process.cwd(), options.debug || false);
+    // Copy assets to build directory (in-memory sources have none)
+    if (!options.sources) {
+      await this.copyAssets(buildDir, options.input || process.cwd(), options.debug || false);
+    }
 
     // Write HTML to build directory
     const tempHtml = path.join(buildDir, FILENAMES.OUTPUT_HTML);
@@ -114,7 +153,11 @@ export class PdfFormatStrategy implements FormatStrategy {
     // Build engine options from build options and manifest config
     const engineOptions = this.buildEngineOptions(options);
 
-    const result = await generatePdf(tempHtml, absoluteOutputPath, engineOptions, htmlContent);
+    const extendedOptions = options as PdfBuildOptions;
+    const endEngineSpan = extendedOptions.perf?.startSpan('PDF engine', 'engine', { engine: engineOptions.engine ?? 'auto' });
+    const result = await generatePdf(tempHtml, absoluteOutputPath, engineOptions, htmlContent).finally(() =>
+      endEngineSpan?.()
+    );
 
     info(`PDF generated: ${result.outputPath} (engine: ${result.engine})`);
     if (result.pageCount) {
@@ -124,22 +167,88 @@ export class PdfFormatStrategy implements FormatStrategy {
       info(`  Note: Generated in test mode (watermarked)`);
     }
 
+    extendedOptions.reportCollector?.recordPdf(result.engine, result.pageCount);
+
+    const presetName = extendedOptions.pdfConfig?.preset;
+    if (presetName) {
+      this.checkPrintPreset(options, presetName, result.pageCount);
+    }
+
+    // Booklet imposition of the reading-order PDF
+    const imposition = extendedOptions.pdfConfig?.imposition;
+    if (imposition) {
+      await imposePdf(result.outputPath, {
+        layout: imposition,
+        creep: extendedOptions.pdfConfig?.creep,
+        signaturePages: extendedOptions.pdfConfig?.signaturePages,
+      });
+    }
+
+    // Wraparound cover, sized for the interior page count
+    if (options.buildCover && extendedOptions.cover) {
+      const inputPath = options.input || process.cwd();
+      await buildCover({
+        cover: extendedOptions.cover,
+        pageFormat: extendedOptions.pageFormat,
+        pdfConfig: extendedOptions.pdfConfig,
+        title: extendedOptions.title,
+        authors: extendedOptions.authors,
+        metadata: extendedOptions.metadata,
+        inputDir: await isDirectory(inputPath) ? inputPath : path.dirname(inputPath),
+        buildDir,
+        pdfPath: result.outputPath,
+        pageCount: result.pageCount,
+        engineOptions,
+      });
+    }
+
     return result.outputPath;
   }
 
+  /**
+   * Report the spine width and validate the vendor's limits for the final page count
+   *
+   * Problems are warnings; with --strict they fail the build.
+   */
+  private checkPrintPreset(options: BuildOptions, presetName: string, pageCount: number | undefined): void {
+    if (!pageCount) {
+      warn(`Page count not reported by the PDF engine; spine width and gutter not checked for preset ${presetName}`);
+      return;
+    }
+
+    const preset = resolvePrintPreset(presetName);
+    const check = checkPrintPreset(preset, (options as PdfBuildOptions).pageFormat, pageCount);
+    info(`  Spine width: ${check.spineWidth}in (${pageCount} pages, ${preset.vendor.name} ${preset.paperName} paper)`);
+
+    if (check.problems.length === 0) {
+      return;
+    }
+    if (options.strict) {
+      throw new BuildError(`Print preset ${presetName}: ${check.problems.join('; ')}`);
+    }
+    for (const problem of check.problems) {
+      warn(`Print preset ${presetName}: ${problem}`);
+    }
+  }
+
   /**
    * Build PDF engine options from build options and manifest config
    */
   private buildEngineOptions(options: BuildOptions): PdfEngineOptions {
     const extendedOptions = options as PdfBuildOptions;
     const pdfConfig = extendedOptions.pdfConfig;
+    const pageOptions = toPageEngineOptions(extendedOptions.pageFormat);
 
-    // Start with strategy defaults
+    // Start with strategy defaults, then page format (same values as the generated @page CSS)
     const engineOptions: PdfEngineOptions = {
       ...this.options,
+      size: pageOptions.size ?? this.options.size,
+      bleed: pageOptions.bleed ?? this.options.bleed,
+      colorMode: pageOptions.colorMode ?? this.options.colorMode,
       timeout: options.timeout,
       debug: options.debug,
       verbose: options.verbose,
+      signal: options.signal,
     };
 
     // Apply CLI options (highest priority)
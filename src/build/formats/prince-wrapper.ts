@@ -16,8 +16,10 @@
  */
 
 import { spawn } from 'child_process';
-import { BuildError } from '../../utils/errors.ts';
-import { debug, info } from '../../utils/logger.ts';
+import { BuildAbortedError, BuildError } from '../../utils/errors.ts';
+import { createLogger } from '../../utils/logger.ts';
+
+const { debug, info } = createLogger('engine');
 
 /**
  * PDF profile options for print production
@@ -33,11 +35,21 @@ export interface PrincePdfOptions {
    */
   timeout?: number;
 
+  /**
+   * Cancels generation, killing the Prince process
+   */
+  signal?: AbortSignal;
+
   /**
    * Debug mode - preserve temp files and log extra info
    */
   debug?: boolean;
 
+  /**
+   * Page size (e.g., 'A4', '6in 9in')
+   */
+  pageSize?: string;
+
   /**
    * PDF profile for print production
    */
@@ -180,6 +192,11 @@ function buildPrinceArgs(
   // Output file
   args.push('-o', outputPath);
 
+  // Page size
+  if (options.pageSize) {
+    args.push(`--page-size=${options.pageSize}`);
+  }
+
   // PDF profile
   if (options.pdfProfile) {
     args.push('--pdf-profile', options.pdfProfile);
@@ -291,8 +308,19 @@ export async function generatePdfWithPrince(
       reject(new BuildError(`Prince PDF generation timed out after ${timeout}ms`));
     }, timeout);
 
+    // Cancellation
+    const onAbort = (): void => {
+      princeProcess.kill('SIGTERM');
+      reject(new BuildAbortedError('Prince PDF generation aborted'));
+    };
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
     princeProcess.on('close', (code) => {
       clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
       const duration = Date.now() - startTime;
 
       if (code === 0) {
@@ -319,6 +347,7 @@ export async function generatePdfWithPrince(
 
     princeProcess.on('error', (err) => {
       clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
       reject(new BuildError(`Failed to run Prince: ${err.message}`));
     });
   });
@@ -13,8 +13,10 @@
 
 import { spawn } from "child_process";
 import path from "path";
-import { BuildError } from "../../utils/errors.ts";
-import { debug, info } from "../../utils/logger.ts";
+import { BuildAbortedError, BuildError } from "../../utils/errors.ts";
+import { createLogger } from "../../utils/logger.ts";
+
+const { debug, info } = createLogger("engine");
 
 /**
  * Vivliostyle PDF generation options
@@ -25,6 +27,11 @@ export interface VivliostylePdfOptions {
    */
   timeout?: number;
 
+  /**
+   * Cancels generation, killing the Vivliostyle process
+   */
+  signal?: AbortSignal;
+
   /**
    * Debug mode - preserve temp files and log extra info
    */
@@ -372,7 +379,8 @@ export async function generatePdfWithVivliostyle(
 
   const args = buildVivliostyleArgs(inputPath, outputPath, { ...options, timeout: timeoutMs });
   const vivPath = path.join(process.cwd(), "node_modules", "@vivliostyle", "cli", "dist", "cli.js");
-  const cmd = `source ~/.nvm/nvm.sh && nvm use 22 >/dev/null 2>&1 && node "${vivPath}" ${args.join(" ")}`;
+  // exec replaces the shell with node, so killing the process stops Vivliostyle itself
+  const cmd = `source ~/.nvm/nvm.sh && nvm use 22 >/dev/null 2>&1 && exec node "${vivPath}" ${args.join(" ")}`;
 
   debug(`Running: ${cmd}`);
 
@@ -405,8 +413,19 @@ export async function generatePdfWithVivliostyle(
       reject(new BuildError(`Vivliostyle PDF generation timed out after ${timeoutMs}ms`));
     }, timeoutMs + 10000); // Give extra 10s buffer beyond vivliostyle's timeout
 
+    // Cancellation
+    const onAbort = (): void => {
+      vivliostyleProcess.kill("SIGTERM");
+      reject(new BuildAbortedError("Vivliostyle PDF generation aborted"));
+    };
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
     vivliostyleProcess.on("close", (code) => {
       clearTimeout(timeoutId);
+      options.signal?.removeEventListener("abort", onAbort);
       const duration = Date.now() - startTime;
 
       if (code === 0) {
@@ -433,6 +452,7 @@ export async function generatePdfWithVivliostyle(
 
     vivliostyleProcess.on("error", (err) => {
       clearTimeout(timeoutId);
+      options.signal?.removeEventListener("abort", onAbort);
       reject(new BuildError(`Failed to run Vivliostyle: ${err.message}`));
     });
   });
@@ -0,0 +1,105 @@
+/**
+ * Tests for booklet imposition
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { getImposedOutputPath, imposePages, imposePdf, type ImposedSide } from './imposition.ts';
+import { mkdir, remove } from '../utils/file-utils.ts';
+
+/**
+ * 1-based page numbers per side, 0 for blank pages
+ */
+function pageNumbers(sides: ImposedSide[]): number[][] {
+  return sides.map((side) => side.slots.map((slot) => (slot.page === null ? 0 : slot.page + 1)));
+}
+
+describe('imposePages', () => {
+  test('nests saddle-stitched sheets and pads to a multiple of 4', () => {
+    expect(pageNumbers(imposePages(8, 'saddle-stitch'))).toEqual([
+      [8, 1],
+      [2, 7],
+      [6, 3],
+      [4, 5],
+    ]);
+    expect(pageNumbers(imposePages(6, 'saddle-stitch'))).toEqual([
+      [0, 1],
+      [2, 0],
+      [6, 3],
+      [4, 5],
+    ]);
+  });
+
+  test('grows creep from the outermost to the innermost sheet', () => {
+    const sides = imposePages(12, 'saddle-stitch', { creep: 1 });
+
+    expect(sides.map((side) => side.slots[0]?.creep)).toEqual([0, 0, 0.5, 0.5, 1, 1]);
+  });
+
+  test('folds each signature separately', () => {
+    const sides = imposePages(12, 'perfect-bound-signatures', { signaturePages: 8 });
+
+    expect(pageNumbers(sides)).toEqual([
+      [8, 1],
+      [2, 7],
+      [6, 3],
+      [4, 5],
+      [12, 9],
+      [10, 11],
+    ]);
+  });
+
+  test('places consecutive pages for 2-up and 4-up', () => {
+    expect(pageNumbers(imposePages(3, '2-up'))).toEqual([
+      [1, 2],
+      [3, 0],
+    ]);
+
+    const [side] = imposePages(4, '4-up');
+    expect(side?.slots.map((slot) => [slot.page, slot.column, slot.row])).toEqual([
+      [0, 0, 0],
+      [1, 1, 0],
+      [2, 0, 1],
+      [3, 1, 1],
+    ]);
+  });
+});
+
+describe('imposePdf', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(process.cwd(), '.tmp', `imposition-tests-${Date.now()}`);
+    await mkdir(testDir);
+  });
+
+  afterEach(async () => {
+    await remove(testDir);
+  });
+
+  test('writes sheet sides twice the page width next to the PDF', async () => {
+    const source = await PDFDocument.create();
+    for (let i = 0; i < 6; i++) {
+      const page = source.addPage([432, 648]);
+      if (i !== 2) {
+        page.drawRectangle({ x: 36, y: 36, width: 360, height: 576 });
+      }
+    }
+    const pdfPath = join(testDir, 'zine.pdf');
+    await Bun.write(pdfPath, await source.save());
+
+    const result = await imposePdf(pdfPath, { layout: 'saddle-stitch', creep: '0.5mm' });
+
+    expect(result).toEqual({ outputPath: join(testDir, 'zine-imposed.pdf'), sheets: 2, blankPages: 2 });
+    const imposed = await PDFDocument.load(await Bun.file(result.outputPath).arrayBuffer());
+    expect(imposed.getPageCount()).toBe(4);
+    expect(imposed.getPage(0).getSize()).toEqual({ width: 864, height: 648 });
+  });
+});
+
+describe('getImposedOutputPath', () => {
+  test('adds the imposed suffix next to the reading-order PDF', () => {
+    expect(getImposedOutputPath('/books/zine.pdf')).toBe('/books/zine-imposed.pdf');
+  });
+});
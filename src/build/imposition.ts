@@ -0,0 +1,239 @@
+/**
+ * Booklet imposition (pdf.imposition)
+ *
+ * Places the pages of the reading-order PDF onto printer sheets, so a zine or
+ * booklet can be printed duplex and folded without a separate imposition
+ * tool. The page count is padded with blank pages to a multiple of 4, each
+ * output page is one side of a sheet, and the result is written as
+ * `<name>-imposed.pdf` next to the reading-order PDF.
+ *
+ * - saddle-stitch: nested folded sheets, two pages per side
+ * - perfect-bound-signatures: saddle-stitched signatures of `pdf.signaturePages`
+ *   pages, stacked in reading order
+ * - 2-up: consecutive pages side by side
+ * - 4-up: consecutive pages in a 2×2 grid
+ *
+ * ```yaml
+ * pdf:
+ *   imposition: saddle-stitch
+ *   creep: 0.5mm   # shift of the innermost pages toward the fold
+ * ```
+ */
+
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { BuildError } from '../utils/errors.ts';
+import { info } from '../utils/logger.ts';
+import { lengthToInches } from '../utils/page-format.ts';
+import { IMPOSITION } from '../constants.ts';
+import type { ImpositionLayout } from '../types.ts';
+
+/** PDF points per inch */
+const POINTS_PER_INCH = 72;
+
+/**
+ * A page position on one side of a sheet
+ */
+export interface ImposedSlot {
+  /** Zero-based page of the reading-order PDF, or null for a blank padding page */
+  page: number | null;
+  column: number;
+  /** Row from the top of the sheet */
+  row: number;
+  /** Creep compensation: shift toward the fold, in the unit passed to imposePages */
+  creep: number;
+}
+
+/**
+ * One side of a printer sheet (one page of the imposed PDF)
+ */
+export interface ImposedSide {
+  columns: number;
+  rows: number;
+  slots: ImposedSlot[];
+}
+
+/**
+ * Imposition settings from the manifest
+ */
+export interface ImpositionOptions {
+  layout: ImpositionLayout;
+  /** Shift of the innermost pages toward the fold (CSS length, e.g., '0.5mm') */
+  creep?: string;
+  /** Pages per signature for perfect-bound-signatures (multiple of 4) */
+  signaturePages?: number;
+}
+
+/**
+ * Imposed PDF summary
+ */
+export interface ImpositionResult {
+  outputPath: string;
+  /** Printer sheets (two sides each) */
+  sheets: number;
+  /** Blank pages added to reach a multiple of 4 */
+  blankPages: number;
+}
+
+/**
+ * Arrange pages onto sheet sides
+ *
+ * Sides alternate front and back of each sheet. In folded layouts (saddle
+ * stitch and signatures) creep grows linearly from 0 on the outermost sheet
+ * to `creep` on the innermost sheet of each fold.
+ *
+ * @param pageCount - Pages in the reading-order PDF
+ * @param layout - Sheet layout
+ * @param options - Creep (any unit) and pages per signature
+ * @returns Sheet sides in print order
+ */
+export function imposePages(
+  pageCount: number,
+  layout: ImpositionLayout,
+  options: { creep?: number; signaturePages?: number } = {}
+): ImposedSide[] {
+  const padded = Math.ceil(pageCount / 4) * 4;
+  const page = (index: number): number | null => (index < pageCount ? index : null);
+  const creep = options.creep ?? 0;
+
+  switch (layout) {
+    case 'saddle-stitch':
+      return foldSheets(0, padded, creep, page);
+
+    case 'perfect-bound-signatures': {
+      const signaturePages = options.signaturePages ?? IMPOSITION.DEFAULT_SIGNATURE_PAGES;
+      const sides: ImposedSide[] = [];
+      for (let start = 0; start < padded; start += signaturePages) {
+        sides.push(...foldSheets(start, Math.min(signaturePages, padded - start), creep, page));
+      }
+      return sides;
+    }
+
+    case '2-up':
+      return Array.from({ length: padded / 2 }, (_, side) => ({
+        columns: 2,
+        rows: 1,
+        slots: [0, 1].map((column) => ({ page: page(side * 2 + column), column, row: 0, creep: 0 })),
+      }));
+
+    case '4-up':
+      return Array.from({ length: padded / 4 }, (_, side) => ({
+        columns: 2,
+        rows: 2,
+        slots: [0, 1, 2, 3].map((slot) => ({
+          page: page(side * 4 + slot),
+          column: slot % 2,
+          row: Math.floor(slot / 2),
+          creep: 0,
+        })),
+      }));
+  }
+}
+
+/**
+ * Impose a block of pages as nested folded sheets (outermost sheet first)
+ *
+ * For 8 pages: 8|1 and 2|7 on the outer sheet, 6|3 and 4|5 on the inner one.
+ */
+function foldSheets(
+  start: number,
+  count: number,
+  creep: number,
+  page: (index: number) => number | null
+): ImposedSide[] {
+  const sheets = count / 4;
+  const sides: ImposedSide[] = [];
+  for (let sheet = 0; sheet < sheets; sheet++) {
+    const shift = sheets > 1 ? (creep * sheet) / (sheets - 1) : 0;
+    const first = start + 2 * sheet;
+    const last = start + count - 1 - 2 * sheet;
+    sides.push(
+      { columns: 2, rows: 1, slots: [slot(page(last), 0, shift), slot(page(first), 1, shift)] },
+      { columns: 2, rows: 1, slots: [slot(page(first + 1), 0, shift), slot(page(last - 1), 1, shift)] }
+    );
+  }
+  return sides;
+}
+
+/**
+ * Slot in a single-row folded layout
+ */
+function slot(page: number | null, column: number, creep: number): ImposedSlot {
+  return { page, column, row: 0, creep };
+}
+
+/**
+ * Path of the imposed PDF (`book.pdf` → `book-imposed.pdf`)
+ */
+export function getImposedOutputPath(pdfPath: string): string {
+  const parsed = path.parse(pdfPath);
+  return path.join(parsed.dir, `${parsed.name}${IMPOSITION.OUTPUT_SUFFIX}${parsed.ext || '.pdf'}`);
+}
+
+/**
+ * Write the imposed PDF next to the reading-order PDF
+ *
+ * Cells are sized from the first page's trim box, so bleed and crop marks
+ * are left out. Creep moves page content toward the fold, clipping it there
+ * so it never crosses onto the facing page.
+ *
+ * @param pdfPath - Reading-order PDF from generatePdf
+ * @param options - Layout, creep and signature size
+ * @returns Imposed PDF path and sheet count
+ * @throws BuildError if the PDF cannot be read or has no pages
+ */
+export async function imposePdf(pdfPath: string, options: ImpositionOptions): Promise<ImpositionResult> {
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(await Bun.file(pdfPath).arrayBuffer());
+  } catch (error) {
+    throw new BuildError(`Cannot impose ${pdfPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const pages = source.getPages();
+  const firstPage = pages[0];
+  if (!firstPage) {
+    throw new BuildError(`Cannot impose ${pdfPath}: the PDF has no pages`);
+  }
+
+  const cell = firstPage.getTrimBox();
+  const creep = options.creep ? lengthToInches(options.creep) * POINTS_PER_INCH : 0;
+  const sides = imposePages(pages.length, options.layout, { creep, signaturePages: options.signaturePages });
+
+  const output = await PDFDocument.create();
+  for (const side of sides) {
+    const sheet = output.addPage([cell.width * side.columns, cell.height * side.rows]);
+
+    for (const { page, column, row, creep: shift } of side.slots) {
+      // Padding and pages without a content stream stay blank
+      const sourcePage = page === null ? undefined : pages[page];
+      if (!sourcePage?.node.Contents()) continue;
+
+      // Column 0 sits left of the fold (content moves right), column 1 right of it
+      const trim = sourcePage.getTrimBox();
+      const embedded = await output.embedPage(sourcePage, {
+        left: trim.x + (column === 1 ? shift : 0),
+        bottom: trim.y,
+        right: trim.x + trim.width - (column === 0 ? shift : 0),
+        top: trim.y + trim.height,
+      });
+      sheet.drawPage(embedded, {
+        x: column * cell.width + (column === 0 ? shift : 0),
+        y: (side.rows - 1 - row) * cell.height,
+        width: trim.width - shift,
+        height: trim.height,
+      });
+    }
+  }
+
+  const outputPath = getImposedOutputPath(pdfPath);
+  await Bun.write(outputPath, await output.save());
+
+  const blankPages = Math.ceil(pages.length / 4) * 4 - pages.length;
+  const result = { outputPath, sheets: Math.ceil(sides.length / 2), blankPages };
+  info(
+    `Imposed PDF generated: ${outputPath} (${options.layout}, ${result.sheets} sheet(s)` +
+      `${blankPages ? `, ${blankPages} blank page(s) added` : ''})`
+  );
+  return result;
+}
@@ -0,0 +1,100 @@
+/**
+ * Tests for the print preflight report
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { getPreflightReportPath, runPreflight, writePreflightReport } from './preflight.ts';
+import { mkdir, readFile, remove } from '../utils/file-utils.ts';
+import type { ResolvedConfig } from '../config/config-state.ts';
+
+/**
+ * PNG signature and IHDR chunk (color type 0 = grayscale, 2 = RGB)
+ */
+function png(width: number, height: number, colorType: number): Buffer {
+  const buffer = Buffer.alloc(33);
+  buffer.writeUInt32BE(0x89504e47, 0);
+  buffer.writeUInt32BE(0x0d0a1a0a, 4);
+  buffer.writeUInt32BE(13, 8);
+  buffer.write('IHDR', 12, 'ascii');
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  buffer[24] = 8;
+  buffer[25] = colorType;
+  return buffer;
+}
+
+describe('runPreflight', () => {
+  let testDir: string;
+  const config = {
+    pageFormat: { size: '6in 9in', margins: '0.75in', bleed: '0.125in', colorMode: 'cmyk' },
+  } as ResolvedConfig;
+
+  beforeEach(async () => {
+    testDir = join(process.cwd(), '.tmp', `preflight-tests-${Date.now()}`);
+    await mkdir(join(testDir, 'images'));
+    await Bun.write(join(testDir, 'images', 'sharp.png'), png(1350, 900, 0));
+    await Bun.write(join(testDir, 'images', 'small.png'), png(600, 400, 2));
+    await Bun.write(join(testDir, 'images', 'art.png'), png(1800, 2700, 0));
+  });
+
+  afterEach(async () => {
+    await remove(testDir);
+  });
+
+  test('checks resolution, color space, alt text and bleed coverage', async () => {
+    const html = [
+      '<p><img src="images/sharp.png" alt="Map"></p>',
+      '<p><img src="images/small.png" alt=""></p>',
+      '<p><img src="images/art.png" alt="Art" class="auto-art-page"></p>',
+      '<p><img src="images/gone.png" alt="Gone"></p>',
+      '<p><img src="https://example.com/remote.png" alt="Remote"></p>',
+      '<p><img src="images/sharp.png" alt="Map"></p>',
+    ].join('\n');
+
+    const report = await runPreflight(html, config, testDir);
+
+    expect(report).toMatchObject({
+      trim: { width: 6, height: 9 },
+      bleed: 0.125,
+      textWidth: 4.5,
+      colorMode: 'cmyk',
+      minDpi: 300,
+      errors: 2,
+      warnings: 3,
+    });
+    expect(report.images.map((image) => [image.src, image.renderedWidth, image.effectiveDpi])).toEqual([
+      ['images/sharp.png', 4.5, 300],
+      ['images/small.png', 4.5, 133],
+      ['images/art.png', 6.25, 288],
+      ['images/gone.png', null, null],
+      ['https://example.com/remote.png', null, null],
+    ]);
+    expect(report.problems.map((problem) => [problem.severity, problem.code, problem.image])).toEqual([
+      ['warning', 'missing-alt', 'images/small.png'],
+      ['warning', 'color-space', 'images/small.png'],
+      ['warning', 'low-resolution', 'images/small.png'],
+      ['error', 'bleed-coverage', 'images/art.png'],
+      ['error', 'missing-image', 'images/gone.png'],
+    ]);
+    expect(report.problems[3]?.message).toContain('needs 1875×2775 px');
+  });
+
+  test('scales images by their width attribute', async () => {
+    const report = await runPreflight('<img src="images/small.png" alt="Icon" width="144">', config, testDir);
+
+    expect(report.images[0]).toMatchObject({ renderedWidth: 1.5, effectiveDpi: 400 });
+    expect(report.problems.map((problem) => problem.code)).toEqual(['color-space']);
+  });
+
+  test('writes the report as JSON next to the PDF', async () => {
+    const report = await runPreflight('<img src="images/sharp.png" alt="Map">', config, testDir);
+    const reportPath = getPreflightReportPath(join(testDir, 'out', 'book.pdf'), 'print');
+
+    await writePreflightReport(report, reportPath);
+
+    expect(reportPath).toBe(join(testDir, 'out', 'preflight-print.json'));
+    expect(JSON.parse(await readFile(reportPath))).toEqual(JSON.parse(JSON.stringify(report)));
+    expect(getPreflightReportPath('/books/book.pdf')).toBe('/books/preflight.json');
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Print preflight for PDF builds
+ *
+ * Inspects every image referenced by the generated HTML before the PDF
+ * engine runs:
+ * - effective resolution at the rendered size (images render at their CSS
+ *   pixel size, 96 per inch, limited to the text block width; full-bleed
+ *   images cover the trim plus bleed)
+ * - color space against `format.colorMode`
+ * - missing alt text
+ * - full-bleed art pages too small to cover the trim plus bleed
+ *
+ * The report is written as JSON next to the PDF and each problem is logged
+ * as a warning; with --strict any problem fails the build.
+ */
+
+import path from 'path';
+import { fileExists, writeFile } from '../utils/file-utils.ts';
+import { info, warn } from '../utils/logger.ts';
+import { readImageInfo, type ImageInfo } from '../utils/image-info.ts';
+import { lengthToInches, resolveMargins, resolvePageSize } from '../utils/page-format.ts';
+import { PREFLIGHT } from '../constants.ts';
+import type { ResolvedConfig } from '../config/config-state.ts';
+
+/**
+ * Kind of preflight problem
+ */
+export type PreflightCode =
+  | 'missing-image'
+  | 'unknown-format'
+  | 'low-resolution'
+  | 'bleed-coverage'
+  | 'color-space'
+  | 'missing-alt';
+
+/**
+ * A preflight problem for one image
+ */
+export interface PreflightProblem {
+  severity: 'error' | 'warning';
+  code: PreflightCode;
+  /** Image src as written in the markdown */
+  image: string;
+  message: string;
+}
+
+/**
+ * An image referenced by the book
+ */
+export interface PreflightImage {
+  src: string;
+  /** Absolute path, null for remote and inline images */
+  path: string | null;
+  alt: string | null;
+  /** Full-bleed art page (`.full-bleed` / `.auto-art-page`) */
+  fullBleed: boolean;
+  info: ImageInfo | null;
+  /** Rendered width in inches, null if unknown */
+  renderedWidth: number | null;
+  /** Pixels per inch at the rendered size, null for vector or unreadable images */
+  effectiveDpi: number | null;
+}
+
+/**
+ * Preflight report written as preflight.json
+ */
+export interface PreflightReport {
+  /** Trim size in inches */
+  trim: { width: number; height: number };
+  /** Bleed in inches */
+  bleed: number;
+  /** Text block width in inches (trim width minus inside and outside margins) */
+  textWidth: number;
+  colorMode: 'rgb' | 'cmyk';
+  minDpi: number;
+  images: PreflightImage[];
+  problems: PreflightProblem[];
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * CSS pixels per inch (images render at their pixel size unless scaled)
+ */
+const CSS_PIXELS_PER_INCH = 96;
+
+/**
+ * Image tags and their attributes in generated HTML
+ */
+const IMG_TAG_REGEX = /<img\b([^>]*)>/gi;
+const ATTRIBUTE_REGEX = /([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+/**
+ * Run the preflight checks on a book's HTML
+ *
+ * @param html - Generated HTML
+ * @param config - Resolved configuration (page format and PDF options)
+ * @param inputDir - Project directory that image paths are relative to
+ * @returns Report with every image and problem found
+ * @throws Error if the page size or margins are invalid
+ */
+export async function runPreflight(html: string, config: ResolvedConfig, inputDir: string): Promise<PreflightReport> {
+  const [trimWidth = 8.5, trimHeight = 11] = resolvePageSize(config.pageFormat?.size ?? 'letter')
+    .split(' ')
+    .map(lengthToInches);
+  const margins = config.pageFormat?.margins ? resolveMargins(config.pageFormat.margins) : null;
+  const textWidth = margins ? trimWidth - lengthToInches(margins.inside) - lengthToInches(margins.outside) : trimWidth;
+  const bleedValue = config.pageFormat?.bleed ?? config.pdf?.bleed;
+
+  const report: PreflightReport = {
+    trim: { width: trimWidth, height: trimHeight },
+    bleed: bleedValue ? lengthToInches(bleedValue) : 0,
+    textWidth,
+    colorMode: config.pageFormat?.colorMode ?? 'rgb',
+    minDpi: PREFLIGHT.MIN_DPI,
+    images: [],
+    problems: [],
+    errors: 0,
+    warnings: 0,
+  };
+
+  const seen = new Set<string>();
+  for (const [, attributeText = ''] of html.matchAll(IMG_TAG_REGEX)) {
+    const attributes = parseAttributes(attributeText);
+    const src = attributes.src;
+    const classes = (attributes.class ?? '').split(/\s+/);
+    const fullBleed = classes.includes('full-bleed') || classes.includes('auto-art-page');
+    const key = `${src}|${fullBleed}|${attributes.width ?? ''}|${attributes.alt ?? ''}`;
+    if (!src || seen.has(key)) continue;
+    seen.add(key);
+
+    report.images.push(await inspectImage(report, src, attributes, fullBleed, inputDir));
+  }
+
+  report.errors = report.problems.filter((problem) => problem.severity === 'error').length;
+  report.warnings = report.problems.length - report.errors;
+  return report;
+}
+
+/**
+ * Write the report as JSON and log each problem as a warning
+ *
+ * @param report - Preflight report
+ * @param reportPath - Path of the JSON file
+ */
+export async function writePreflightReport(report: PreflightReport, reportPath: string): Promise<void> {
+  await writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+
+  for (const problem of report.problems) {
+    warn(`Preflight ${problem.severity}: ${problem.image}: ${problem.message}`);
+  }
+  info(
+    `Preflight: ${report.images.length} image(s), ${report.errors} error(s), ${report.warnings} warning(s) → ${reportPath}`
+  );
+}
+
+/**
+ * Path of the preflight report for a PDF
+ *
+ * `preflight.json` in the PDF's directory, or `preflight-<edition>.json`
+ * so --all-editions builds keep one report per edition.
+ */
+export function getPreflightReportPath(pdfPath: string, edition?: string): string {
+  const filename = edition
+    ? PREFLIGHT.REPORT_FILENAME.replace(/\.json$/, `-${edition}.json`)
+    : PREFLIGHT.REPORT_FILENAME;
+  return path.join(path.dirname(pdfPath), filename);
+}
+
+/**
+ * Check one image and record its problems in the report
+ */
+async function inspectImage(
+  report: PreflightReport,
+  src: string,
+  attributes: Record<string, string | undefined>,
+  fullBleed: boolean,
+  inputDir: string
+): Promise<PreflightImage> {
+  const image: PreflightImage = {
+    src,
+    path: null,
+    alt: attributes.alt ?? null,
+    fullBleed,
+    info: null,
+    renderedWidth: null,
+    effectiveDpi: null,
+  };
+  const problem = (severity: PreflightProblem['severity'], code: PreflightCode, message: string): void => {
+    report.problems.push({ severity, code, image: src, message });
+  };
+
+  if (!image.alt?.trim()) {
+    problem('warning', 'missing-alt', 'Image has no alt text');
+  }
+
+  const data = await readImageData(src, inputDir, image);
+  if (data === undefined) {
+    // Remote images are fetched by the PDF engine and not checked here
+    return image;
+  }
+  if (data === null) {
+    problem('error', 'missing-image', `Image file not found: ${image.path}`);
+    return image;
+  }
+
+  image.info = readImageInfo(data);
+  const details = image.info;
+  if (!details) {
+    problem('warning', 'unknown-format', 'Image format not recognized (expected PNG, JPEG, GIF, WebP or SVG)');
+    return image;
+  }
+
+  if (details.colorSpace && details.colorSpace !== 'gray' && details.colorSpace !== report.colorMode) {
+    problem(
+      'warning',
+      'color-space',
+      report.colorMode === 'cmyk'
+        ? 'RGB image in a CMYK book; colors will shift when converted for print'
+        : 'CMYK image in an RGB book; colors display inaccurately on screen'
+    );
+  }
+
+  if (details.width === null || details.height === null) {
+    return image;
+  }
+
+  if (fullBleed) {
+    // Scaled to cover the trim plus bleed on every side
+    const coverWidth = report.trim.width + 2 * report.bleed;
+    const coverHeight = report.trim.height + 2 * report.bleed;
+    image.renderedWidth = round(coverWidth);
+    image.effectiveDpi = Math.floor(Math.min(details.width / coverWidth, details.height / coverHeight));
+    if (image.effectiveDpi < report.minDpi) {
+      problem(
+        'error',
+        'bleed-coverage',
+        `Full-bleed image is ${details.width}×${details.height} px (${image.effectiveDpi} dpi); covering ` +
+          `${round(coverWidth)}×${round(coverHeight)}in (trim plus bleed) at ${report.minDpi} dpi needs ` +
+          `${Math.ceil(coverWidth * report.minDpi)}×${Math.ceil(coverHeight * report.minDpi)} px`
+      );
+    }
+    return image;
+  }
+
+  const cssWidth = Number(attributes.width);
+  const naturalWidth = (Number.isFinite(cssWidth) && cssWidth > 0 ? cssWidth : details.width) / CSS_PIXELS_PER_INCH;
+  image.renderedWidth = round(Math.min(naturalWidth, report.textWidth));
+  image.effectiveDpi = Math.floor(details.width / image.renderedWidth);
+  if (image.effectiveDpi < report.minDpi) {
+    problem(
+      'warning',
+      'low-resolution',
+      `Image is ${image.effectiveDpi} dpi at its rendered width of ${image.renderedWidth}in ` +
+        `(${details.width} px); ${report.minDpi} dpi needs ${Math.ceil(image.renderedWidth * report.minDpi)} px`
+    );
+  }
+  return image;
+}
+
+/**
+ * Read an image referenced by src
+ *
+ * @returns Contents, null if the local file does not exist, undefined for remote images
+ */
+async function readImageData(src: string, inputDir: string, image: PreflightImage): Promise<Uint8Array | null | undefined> {
+  const dataUri = src.match(/^data:[^;,]*(;base64)?,(.*)$/s);
+  if (dataUri) {
+    return dataUri[1] ? Buffer.from(dataUri[2] ?? '', 'base64') : Buffer.from(decodeURIComponent(dataUri[2] ?? ''));
+  }
+  if (/^[a-z][a-z\d+.-]*:/i.test(src) || src.startsWith('//')) {
+    return undefined;
+  }
+
+  let relativePath = src.replace(/[?#].*$/, '');
+  try {
+    relativePath = decodeURIComponent(relativePath);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  image.path = path.join(inputDir, relativePath.replace(/^\/+/, ''));
+  return (await fileExists(image.path)) ? new Uint8Array(await Bun.file(image.path).arrayBuffer()) : null;
+}
+
+/**
+ * Parse HTML attributes, decoding entities in values
+ */
+function parseAttributes(text: string): Record<string, string | undefined> {
+  const attributes: Record<string, string | undefined> = {};
+  for (const [, name = '', double, single, bare] of text.matchAll(ATTRIBUTE_REGEX)) {
+    const value = double ?? single ?? bare;
+    attributes[name.toLowerCase()] = value === undefined ? '' : decodeEntities(value);
+  }
+  return attributes;
+}
+
+/**
+ * Decode the entities markdown-it escapes in attribute values
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Round inches to two decimals for display
+ */
+function round(inches: number): number {
+  return Math.round(inches * 100) / 100;
+}
@@ -10,6 +10,10 @@
  * - Rebuild queuing during active builds
  * - Automatic recovery after successful build
  * - Graceful shutdown after 5 consecutive failures
+ *
+ * watchBuild() never exits the process and reports builds through callbacks
+ * (library API, see api.ts); startWatchMode() adds the CLI behavior: Ctrl+C
+ * handling and exiting when watching stops.
  */
 
 import { watch as fsWatch } from 'fs';
@@ -18,7 +22,7 @@ import { build } from './build.ts';
 import { info, error as logError, debug, warn } from '../utils/logger.ts';
 import { isDirectory } from '../utils/file-utils.ts';
 import { EXTENSIONS, FILENAMES } from '../constants.ts';
-import type { BuildOptions, WatchContext, OutputFormat } from '../types.ts';
+import type { BuildOptions, WatchCallbacks, WatchContext, OutputFormat } from '../types.ts';
 
 /** Maximum number of consecutive build failures before stopping watch mode */
 const MAX_CONSECUTIVE_FAILURES = 5;
@@ -29,6 +33,14 @@ const BACKOFF_DELAYS = [1000, 2000, 5000, 10000, 30000];
 /** Error codes that indicate transient filesystem issues */
 const TRANSIENT_ERROR_CODES = ['EBUSY', 'ETXTBSY', 'EAGAIN', 'EWOULDBLOCK'];
 
+/**
+ * Running watch session
+ */
+export interface WatchHandle {
+  /** Stop watching; a build in progress still finishes */
+  close(): void;
+}
+
 /**
  * Start watch mode for automatic rebuilds
  *
@@ -40,6 +52,35 @@ const TRANSIENT_ERROR_CODES = ['EBUSY', 'ETXTBSY', 'EAGAIN', 'EWOULDBLOCK'];
  * @param options Build configuration
  */
 export async function startWatchMode(options: BuildOptions): Promise<void> {
+  const handle = await watchBuild(options, {
+    onStop: () => process.exit(1),
+  });
+
+  info('Press Ctrl+C to exit');
+
+  // Setup signal handlers for graceful shutdown
+  const shutdownHandler = () => {
+    info('\nShutting down watch mode...');
+    handle.close();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdownHandler);
+  process.on('SIGTERM', shutdownHandler);
+}
+
+/**
+ * Build, then rebuild whenever project files change
+ *
+ * Runs the initial build before returning. Failed builds are retried with
+ * backoff; after MAX_CONSECUTIVE_FAILURES in a row watching stops and
+ * `onStop` is called.
+ *
+ * @param options Build configuration
+ * @param callbacks Receive each build result and failure
+ * @returns Handle that stops watching
+ */
+export async function watchBuild(options: BuildOptions, callbacks: WatchCallbacks = {}): Promise<WatchHandle> {
   info('Starting watch mode...');
 
   // Resolve input directory
@@ -62,6 +103,8 @@ export async function startWatchMode(options: BuildOptions): Promise<void> {
     pendingRebuildRequest: false,
     consecutiveFailures: 0,
     lastFailureTime: 0,
+    closed: false,
+    callbacks,
   };
 
   // Perform initial build
@@ -88,30 +131,10 @@ export async function startWatchMode(options: BuildOptions): Promise<void> {
   });
 
   info(`Watching for changes in: ${inputDir}`);
-  info('Press Ctrl+C to exit');
 
-  // Setup signal handlers for graceful shutdown
-  const shutdownHandler = () => {
-    info('\nShutting down watch mode...');
-    cleanup(context);
-    process.exit(0);
+  return {
+    close: () => cleanup(context),
   };
-
-  process.on('SIGINT', shutdownHandler);
-  process.on('SIGTERM', shutdownHandler);
-
-  // Keep process alive using setInterval instead of infinite promise
-  // This allows proper event loop cleanup and garbage collection
-  const keepAliveInterval = setInterval(() => {
-    // Check if watcher is still active, exit if not
-    if (!context.watcher) {
-      clearInterval(keepAliveInterval);
-      process.exit(0);
-    }
-  }, 5000); // Check every 5 seconds
-
-  // Prevent interval from keeping process alive on its own
-  keepAliveInterval.unref();
 }
 
 /**
@@ -235,6 +258,10 @@ function handleFileChange(context: WatchContext, fullPath: string, filename: str
  * - On max failures: stops watch mode with clear message
  */
 async function performBuild(context: WatchContext): Promise<void> {
+  if (context.closed) {
+    return;
+  }
+
   // Skip if already building
   if (context.isBuilding) {
     debug('Build already in progress, skipping...');
@@ -246,7 +273,7 @@ async function performBuild(context: WatchContext): Promise<void> {
 
   try {
     info('Rebuilding...');
-    await build(context.buildOptions);
+    const result = await build(context.buildOptions);
     context.lastBuildTime = Date.now();
     const duration = Date.now() - startTime;
 
@@ -257,6 +284,7 @@ async function performBuild(context: WatchContext): Promise<void> {
     } else {
       info(`✓ Build complete (${duration}ms)`);
     }
+    context.callbacks.onBuild?.(result);
 
   } catch (error) {
     // Increment failure counter
@@ -276,11 +304,14 @@ async function performBuild(context: WatchContext): Promise<void> {
         console.error(err.stack);
       }
 
-      // Cleanup and exit
+      // Stop watching
       cleanup(context);
-      process.exit(1);
+      context.callbacks.onStop?.(err);
+      return;
     }
 
+    context.callbacks.onError?.(err);
+
     // Calculate backoff delay
     const delay = getBackoffDelay(context.consecutiveFailures);
     const delaySeconds = (delay / 1000).toFixed(1);
@@ -321,6 +352,9 @@ async function performBuild(context: WatchContext): Promise<void> {
  * Closes watcher and clears timers
  */
 function cleanup(context: WatchContext): void {
+  context.closed = true;
+  context.pendingRebuildRequest = false;
+
   if (context.debounceTimer) {
     clearTimeout(context.debounceTimer);
     context.debounceTimer = null;
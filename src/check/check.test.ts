@@ -0,0 +1,144 @@
+/**
+ * Tests for `pagedmd check`
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { checkProject, formatCheckJson, formatCheckTable } from './check.ts';
+import { mkdir, writeFile, remove } from '../utils/file-utils.ts';
+
+describe('checkProject', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(process.cwd(), '.tmp', `check-tests-${Date.now()}`);
+    await mkdir(testDir);
+  });
+
+  afterEach(async () => {
+    await remove(testDir);
+  });
+
+  test('reports no problems for a valid project', async () => {
+    await writeFile(join(testDir, 'manifest.yaml'), 'title: Vault\nauthors: [Ada]\nstyles: [themes/classic.css]');
+    await writeFile(join(testDir, 'intro.md'), '# Intro\n\n<!-- @page: chapter -->\n\nWelcome to {{ title }}.\n');
+
+    const result = await checkProject({ input: testDir });
+
+    expect(result).toEqual({ problems: [], errors: 0, warnings: 0, filesChecked: 1 });
+    expect(formatCheckTable(result)).toBe('No problems found in 1 file(s)');
+  });
+
+  test('accepts top-level includes', async () => {
+    await writeFile(join(testDir, 'manifest.yaml'), 'title: Vault\nauthors: [Ada]\nfiles: [intro.md]');
+    await writeFile(join(testDir, 'intro.md'), '# Intro\n\n<!-- @include: shared/rules.md -->\n');
+    await writeFile(join(testDir, 'shared', 'rules.md'), 'Roll two dice.\n');
+
+    const result = await checkProject({ input: testDir });
+
+    expect(result).toEqual({ problems: [], errors: 0, warnings: 0, filesChecked: 1 });
+  });
+
+  test('checks styles and files after schema issues', async () => {
+    await writeFile(join(testDir, 'manifest.yaml'), 'title: ""\nauthors: [Ada]\nstyles: [gone.css]\nfiles: [chaptr.md]');
+    await writeFile(join(testDir, 'chapter.md'), '# Chapter\n');
+
+    const result = await checkProject({ input: testDir });
+
+    expect(result.problems.map((p) => [p.severity, p.message])).toEqual([
+      ['error', 'title: Title is required and cannot be empty'],
+      ['warning', 'Custom CSS file not found: gone.css'],
+      ['error', 'File listed in files: not found: chaptr.md'],
+    ]);
+  });
+
+  test('collects problems from manifest, plugins, styles and every file', async () => {
+    await writeFile(
+      join(testDir, 'manifest.yaml'),
+      'title: Vault\nauthors: [Ada]\nstyles: [local.css]\nplugins: [ttrpgg]\nfiles: [intro.md, chaptr.md]'
+    );
+    await writeFile(join(testDir, 'local.css'), '@import "./gone.css";\n');
+    await writeFile(join(testDir, 'chapter.md'), '# Chapter\n');
+    await writeFile(
+      join(testDir, 'intro.md'),
+      '---\ntitle: Intro\n---\n# Intro\n\n<!-- @page: chaptr -->\n\n<!-- @pgae: art -->\n\n<!-- @columns: 7 -->\n'
+    );
+
+    const result = await checkProject({ input: testDir });
+
+    expect(result.problems.map((p) => [p.severity, p.file, p.line])).toEqual([
+      ['error', 'manifest.yaml', null],
+      ['error', 'local.css', null],
+      ['error', 'manifest.yaml', null],
+      ['error', 'intro.md', 6],
+      ['warning', 'intro.md', 8],
+      ['error', 'intro.md', 10],
+    ]);
+    expect(result.problems[0]?.suggestion).toContain('Did you mean the built-in plugin "ttrpg"?');
+    expect(result.problems[2]).toMatchObject({
+      message: 'File listed in files: not found: chaptr.md',
+      suggestion: 'Did you mean "chapter.md"?',
+    });
+    expect(result.problems[3]?.message).toBe('Invalid page template "chaptr".');
+    expect(result).toMatchObject({ errors: 5, warnings: 1, filesChecked: 1 });
+  });
+
+  test('reports schema issues, conditionals and undefined variables', async () => {
+    await writeFile(join(testDir, 'manifest.yaml'), 'title: ""\nauthors: [Ada]');
+    await writeFile(join(testDir, 'a.md'), 'Price: {{ price }}\n');
+    await writeFile(join(testDir, 'b.md'), 'Text\n\n<!-- @if: edition -->\nGM only\n');
+
+    const result = await checkProject({ input: testDir });
+
+    expect(result.problems).toEqual([
+      {
+        file: 'manifest.yaml',
+        line: null,
+        severity: 'error',
+        message: 'title: Title is required and cannot be empty',
+        suggestion: null,
+      },
+      {
+        file: 'a.md',
+        line: 1,
+        severity: 'warning',
+        message: 'Undefined variable "{{ price }}"',
+        suggestion: 'Define it under variables: in manifest.yaml or with --define price=value',
+      },
+      {
+        file: 'b.md',
+        line: 3,
+        severity: 'error',
+        message: '@if without a matching <!-- @endif -->',
+        suggestion: null,
+      },
+    ]);
+    expect(JSON.parse(formatCheckJson(result))).toEqual(result);
+  });
+
+  test('reports file lines after multi-line includes and unknown condition variables', async () => {
+    await writeFile(join(testDir, 'manifest.yaml'), 'title: Vault\nauthors: [Ada]\nfiles: [a.md]');
+    await writeFile(join(testDir, 'long.md'), 'One.\n\nTwo.\n\nThree.\n\nFour.\n\nFive.\n');
+    await writeFile(
+      join(testDir, 'a.md'),
+      '# A\n\n<!-- @include: long.md -->\n\n{{ missing }}\n\n<!-- @if: editon == "gm" -->\nGM only\n<!-- @endif -->\n'
+    );
+
+    const result = await checkProject({ input: testDir });
+
+    expect(result.problems.map((p) => [p.file, p.line, p.message])).toEqual([
+      ['a.md', 5, 'Undefined variable "{{ missing }}"'],
+      ['a.md', 7, 'Undefined variable "editon" in @if condition'],
+    ]);
+  });
+
+  test('formats problems as a table with suggestions and a summary', async () => {
+    await writeFile(join(testDir, 'intro.md'), '<!-- @spread: up -->\n');
+
+    const table = formatCheckTable(await checkProject({ input: testDir }));
+
+    expect(table).toStartWith('SEVERITY  LOCATION    MESSAGE\nerror     intro.md:1  Invalid spread value "up".\n');
+    expect(table).toContain('\n                      Valid values: left, right, blank\n');
+    expect(table).toEndWith('\n1 error(s), 0 warning(s) in 1 file(s)');
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * Project linting for `pagedmd check`
+ *
+ * Runs the validation a build performs along the way - manifest schema,
+ * plugin resolution, style @imports, includes, directives and template
+ * variables in every file - without rendering a PDF, and collects every
+ * problem instead of stopping at the first.
+ */
+
+import path from 'path';
+import MarkdownIt from 'markdown-it';
+import type { ZodError } from 'zod';
+import { createConfigManager, ConfigurationManager, type ResolvedConfig } from '../config/config-state.ts';
+import { resolveBookFiles, type BookFile } from '../markdown/book-files.ts';
+import { checkDirectives, findClosestMatch, parseIncludeDirective } from '../markdown/core/core-directives-plugin.ts';
+import { parseFrontMatter } from '../markdown/front-matter.ts';
+import { expandIncludes, type ExpandedMarkdown } from '../markdown/includes.ts';
+import {
+  createMarkdownEngineWithPlugins,
+  extensionsToPlugins,
+  resolveStyleFile,
+  type MarkdownRenderEnv,
+} from '../markdown/markdown.ts';
+import { createPluginLoader } from '../markdown/plugin-loader.ts';
+import { createTemplateVariables, findUndefinedVariables } from '../markdown/template-variables.ts';
+import { ManifestSchema } from '../schemas/manifest.schema.ts';
+import { findManifestOrigin, loadManifestLayers } from '../utils/config.ts';
+import { resolveImports } from '../utils/css-utils.ts';
+import { fileExists, isDirectory, readFile } from '../utils/file-utils.ts';
+import { EXTENSIONS, FILENAMES } from '../constants.ts';
+import type { LoadedPlugin, PluginConfig } from '../types/plugin-types.ts';
+
+/**
+ * Problem severity; errors make `pagedmd check` exit nonzero
+ */
+export type CheckSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in the project
+ */
+export interface CheckProblem {
+  /** File relative to the project directory */
+  file: string;
+  /** 1-based line, null when the problem is not tied to a line */
+  line: number | null;
+  severity: CheckSeverity;
+  message: string;
+  /** How to fix it (usage, valid values, did-you-mean; one hint per line), null if none */
+  suggestion: string | null;
+}
+
+/**
+ * Result of checking a project
+ */
+export interface CheckResult {
+  /** Problems in the order they were found (manifest, plugins, styles, files) */
+  problems: CheckProblem[];
+  errors: number;
+  warnings: number;
+  /** Markdown files checked */
+  filesChecked: number;
+}
+
+/**
+ * Options for checking a project
+ */
+export interface CheckOptions {
+  /** Input markdown file or directory (defaults to cwd) */
+  input?: string;
+  /** Edition (manifest profile) to check */
+  edition?: string;
+  /** Template variables from --define */
+  defines?: Record<string, string>;
+}
+
+/**
+ * Built-in plugin names, for did-you-mean suggestions
+ */
+const BUILTIN_PLUGINS = ['ttrpg', 'dimm-city'];
+
+/**
+ * Block-level parser used to locate directives
+ */
+const scanner = new MarkdownIt({ html: true });
+
+/**
+ * Check a project for problems without building it
+ *
+ * @param options - Input path, edition and defines as for `pagedmd build`
+ * @returns All problems found, with error and warning counts
+ */
+export async function checkProject(options: CheckOptions = {}): Promise<CheckResult> {
+  const inputPath = path.resolve(options.input ?? process.cwd());
+  const rootDir = (await isDirectory(inputPath)) ? inputPath : path.dirname(inputPath);
+  const problems: CheckProblem[] = [];
+  const report = (filePath: string, line: number | null, severity: CheckSeverity, text: string): void => {
+    problems.push({ file: path.relative(rootDir, filePath) || path.basename(filePath), line, severity, ...splitMessage(text) });
+  };
+
+  const config = await checkManifest(inputPath, rootDir, options, report);
+  const manifestPath = path.join(rootDir, FILENAMES.MANIFEST);
+  const loadedPlugins = await checkPlugins(config, rootDir, manifestPath, report);
+  await checkStyles(config, rootDir, manifestPath, report);
+
+  const md = createMarkdownEngineWithPlugins(loadedPlugins);
+  const variables = createTemplateVariables(config);
+  const files = await findMarkdownFiles(inputPath, rootDir, config, manifestPath, report);
+  for (const file of files) {
+    await checkMarkdownFile(file, files, rootDir, md, variables, report);
+  }
+
+  const errors = problems.filter((problem) => problem.severity === 'error').length;
+  return { problems, errors, warnings: problems.length - errors, filesChecked: files.length };
+}
+
+/**
+ * Format a check result as an aligned table with a summary line
+ */
+export function formatCheckTable(result: CheckResult): string {
+  if (result.problems.length === 0) {
+    return `No problems found in ${result.filesChecked} file(s)`;
+  }
+
+  const rows = result.problems.map((problem) => ({
+    severity: problem.severity,
+    location: problem.line ? `${problem.file}:${problem.line}` : problem.file,
+    problem,
+  }));
+  const severityWidth = Math.max('SEVERITY'.length, ...rows.map((row) => row.severity.length));
+  const locationWidth = Math.max('LOCATION'.length, ...rows.map((row) => row.location.length));
+  const indent = ' '.repeat(severityWidth + locationWidth + 4);
+
+  const lines = [`${'SEVERITY'.padEnd(severityWidth)}  ${'LOCATION'.padEnd(locationWidth)}  MESSAGE`];
+  for (const { severity, location, problem } of rows) {
+    lines.push(`${severity.padEnd(severityWidth)}  ${location.padEnd(locationWidth)}  ${problem.message}`);
+    for (const hint of problem.suggestion?.split('\n') ?? []) {
+      lines.push(`${indent}${hint}`);
+    }
+  }
+  lines.push('', `${result.errors} error(s), ${result.warnings} warning(s) in ${result.filesChecked} file(s)`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a check result as JSON for CI tools
+ */
+export function formatCheckJson(result: CheckResult): string {
+  return JSON.stringify(result, null, 2);
+}
+
+/**
+ * Problem reporter passed to the individual checks
+ */
+type Report = (filePath: string, line: number | null, severity: CheckSeverity, text: string) => void;
+
+/**
+ * Validate manifest.yaml (and the manifests it extends) against ManifestSchema
+ *
+ * @returns Resolved configuration; when the schema check fails, defaults plus the
+ * manifest fields that passed it, so plugins, styles and files are still checked
+ */
+async function checkManifest(
+  inputPath: string,
+  rootDir: string,
+  options: CheckOptions,
+  report: Report
+): Promise<ResolvedConfig> {
+  const manifestPath = path.join(rootDir, FILENAMES.MANIFEST);
+  const cliOptions = { input: inputPath, edition: options.edition, defines: options.defines };
+
+  if (await fileExists(manifestPath)) {
+    try {
+      const { data, origins } = await loadManifestLayers(manifestPath);
+      const result = ManifestSchema.safeParse(data);
+      if (!result.success) {
+        reportSchemaIssues(result.error, manifestPath, origins, report);
+        const { format: pageFormat, ...fields } = withoutInvalidFields(data, result.error);
+        return { ...new ConfigurationManager(inputPath, cliOptions).getConfig(), ...fields, pageFormat } as ResolvedConfig;
+      }
+    } catch (error) {
+      report(manifestPath, null, 'error', errorMessage(error));
+      return new ConfigurationManager(inputPath, cliOptions).getConfig();
+    }
+  }
+
+  // Front matter fields and the edition are validated while loading the configuration
+  try {
+    return (await createConfigManager(inputPath, cliOptions)).getConfig();
+  } catch (error) {
+    report(manifestPath, null, 'error', errorMessage(error));
+    return new ConfigurationManager(inputPath, cliOptions).getConfig();
+  }
+}
+
+/**
+ * Report each schema issue against the manifest file that set the field
+ */
+function reportSchemaIssues(error: ZodError, manifestPath: string, origins: Map<string, string>, report: Report): void {
+  for (const issue of error.issues) {
+    const fieldPath = issue.path.join('.');
+    const file = findManifestOrigin(origins, fieldPath) ?? manifestPath;
+    report(file, null, 'error', `${fieldPath || 'manifest'}: ${issue.message}`);
+  }
+}
+
+/**
+ * Top-level manifest fields without schema issues
+ */
+function withoutInvalidFields(data: unknown, error: ZodError): Record<string, unknown> {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return {};
+
+  const invalid = new Set(error.issues.map((issue) => issue.path[0]));
+  if (invalid.has(undefined)) return {};
+  return Object.fromEntries(Object.entries(data).filter(([field]) => !invalid.has(field)));
+}
+
+/**
+ * Resolve every configured plugin, reporting the ones that fail to load
+ *
+ * @returns Plugins that loaded, for rendering the markdown files
+ */
+async function checkPlugins(
+  config: ResolvedConfig,
+  rootDir: string,
+  manifestPath: string,
+  report: Report
+): Promise<LoadedPlugin[]> {
+  const configs: PluginConfig[] = config.plugins?.length ? config.plugins : extensionsToPlugins(config.extensions);
+  const loader = createPluginLoader(rootDir, { strict: true, verbose: config.verbose });
+  const loaded: LoadedPlugin[] = [];
+
+  for (const pluginConfig of configs) {
+    try {
+      const plugin = await loader.loadPlugin(pluginConfig);
+      if (plugin) loaded.push(plugin);
+    } catch (error) {
+      const name = typeof pluginConfig === 'string' ? pluginConfig : pluginConfig.name ?? '';
+      const builtin = findClosestMatch(name, BUILTIN_PLUGINS);
+      const hint = builtin ? `\nDid you mean the built-in plugin "${builtin}"?` : '';
+      report(manifestPath, null, 'error', `${errorMessage(error)}${hint}`);
+    }
+  }
+
+  return loaded.sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * Resolve every manifest style and its @imports
+ */
+async function checkStyles(config: ResolvedConfig, rootDir: string, manifestPath: string, report: Report): Promise<void> {
+  for (const styleFile of config.styles ?? []) {
+    const stylePath = await resolveStyleFile(styleFile, rootDir);
+    if (!stylePath) {
+      report(manifestPath, null, 'warning', `Custom CSS file not found: ${styleFile}\nCheck the path in styles: (relative to the project directory)`);
+      continue;
+    }
+
+    const result = await resolveImports(await readFile(stylePath), stylePath, { failOnMissing: true });
+    for (const problem of result.errors) {
+      report(stylePath, null, 'error', problem);
+    }
+    for (const problem of result.warnings) {
+      report(stylePath, null, 'warning', problem);
+    }
+  }
+}
+
+/**
+ * List the markdown files a build would render, reporting missing manifest.files entries
+ * and patterns that match nothing
+ */
+async function findMarkdownFiles(
+  inputPath: string,
+  rootDir: string,
+  config: ResolvedConfig,
+  manifestPath: string,
+  report: Report
+): Promise<BookFile[]> {
+  if (inputPath !== rootDir) {
+    return [
+      { path: inputPath, relativePath: path.basename(inputPath), slug: path.basename(inputPath, EXTENSIONS.MARKDOWN), part: false },
+    ];
+  }
+
+  const resolution = await resolveBookFiles(rootDir, config.files);
+  if (resolution.missing.length > 0) {
+    const discovered = (await resolveBookFiles(rootDir)).files.map((file) => file.relativePath);
+    for (const file of resolution.missing) {
+      const suggestion = findClosestMatch(file, discovered);
+      report(
+        manifestPath,
+        null,
+        'error',
+        `File listed in files: not found: ${file}\n${suggestion ? `Did you mean "${suggestion}"?` : 'Check the path relative to the project directory'}`
+      );
+    }
+  }
+  for (const pattern of resolution.unmatched) {
+    report(manifestPath, null, 'warning', `Pattern in files: matches no markdown files: ${pattern}\nCheck the pattern relative to the project directory`);
+  }
+  return resolution.files;
+}
+
+/**
+ * Check front matter, includes, directives and template variables of one file
+ */
+async function checkMarkdownFile(
+  file: BookFile,
+  files: BookFile[],
+  rootDir: string,
+  md: MarkdownIt,
+  variables: ReturnType<typeof createTemplateVariables>,
+  report: Report
+): Promise<void> {
+  const filePath = file.path;
+  let source: { frontMatter: MarkdownRenderEnv['frontMatter']; body: string; lineOffset: number };
+  try {
+    source = parseFrontMatter(await readFile(filePath), filePath);
+  } catch (error) {
+    report(filePath, null, 'error', errorMessage(error));
+    return;
+  }
+  if (source.frontMatter.exclude) return;
+
+  // Every directive, not just the first invalid one; top-level includes are
+  // expanded below, so only nested ones are reported
+  const directiveErrors = new Set<string>();
+  const tokens = scanner
+    .parse(source.body, {})
+    .filter((token) => token.type !== 'html_block' || token.level > 0 || !parseIncludeDirective(token.content));
+  for (const problem of checkDirectives(tokens)) {
+    if (problem.severity === 'error') directiveErrors.add(problem.message);
+    report(filePath, problem.line === null ? null : source.lineOffset + problem.line + 1, problem.severity, problem.message);
+  }
+
+  let expanded: ExpandedMarkdown;
+  try {
+    expanded = await expandIncludes(source.body, filePath, rootDir);
+  } catch (error) {
+    report(filePath, null, 'error', errorMessage(error));
+    return;
+  }
+
+  // Rendering finds conditional and plugin errors; skip the directive error reported above
+  let html: string;
+  try {
+    const env: MarkdownRenderEnv = {
+      slug: file.slug,
+      frontMatter: source.frontMatter,
+      lineOffset: source.lineOffset,
+      lineMap: expanded.lineMap,
+      variables,
+      files,
+    };
+    html = md.render(expanded.source, env);
+  } catch (error) {
+    const match = errorMessage(error).match(/^Directive parsing error at line (\d+): ([\s\S]*)$/);
+    if (!match || !directiveErrors.has(match[2] ?? '')) {
+      report(filePath, match ? Number(match[1]) : null, 'error', match?.[2] ?? errorMessage(error));
+    }
+    return;
+  }
+
+  for (const { name, line, condition } of findUndefinedVariables(html)) {
+    const usage = condition ? `"${name}" in @if condition` : `"{{ ${name} }}"`;
+    report(
+      filePath,
+      line,
+      'warning',
+      `Undefined variable ${usage}\nDefine it under variables: in manifest.yaml or with --define ${name}=value`
+    );
+  }
+}
+
+/**
+ * Split a multi-line error into its first line and the hints that follow
+ */
+function splitMessage(text: string): { message: string; suggestion: string | null } {
+  const [message = '', ...rest] = text.trim().split('\n');
+  const suggestion = rest.map((line) => line.trim().replace(/^Suggestion:\s*/, '')).filter(Boolean).join('\n');
+  return { message: message.trim(), suggestion: suggestion || null };
+}
+
+/**
+ * Message of a thrown value
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
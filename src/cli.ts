@@ -11,16 +11,18 @@ import { program } from 'commander';
 import { readFileSync } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { build } from './build/build.ts';
+import { build, buildAllEditions } from './build/build.ts';
 import { startWatchMode } from './build/watch.ts';
 import { startPreviewServer } from './server.ts';
-import { createBuildOptions, ensureManifest, validateFormatOption } from './utils/config.ts';
+import { createBuildOptions, ensureManifest, parseDefines, validateFormatOption } from './utils/config.ts';
 import { fileExists } from './utils/file-utils.ts';
-import { BuildError, ConfigError } from './utils/errors.ts';
-import { setLogLevel, error as logError } from './utils/logger.ts';
+import { BuildError, ConfigError, SourceError } from './utils/errors.ts';
+import { createLogger, setLogFormat, setLogLevel, silence, error as logError, LOG_FORMATS, type LogFormat } from './utils/logger.ts';
 import { DEFAULTS, NETWORK } from './constants.ts';
 import { OutputFormat, type PdfEngineType } from './types.ts';
 import { getEngineInfo } from './build/formats/pdf-engine.ts';
+import { checkProject, formatCheckJson, formatCheckTable } from './check/check.ts';
+import { initProject, promptInitOptions, parseAuthors, PROJECT_TEMPLATES, DEFAULT_TEMPLATE, type InitOptions } from './init/init.ts';
 
 // Get package version
 const SOURCE_FOLDER = path.dirname(fileURLToPath(import.meta.url));
@@ -39,11 +41,36 @@ interface BuildCommandOptions {
   format?: string;
   watch?: boolean;
   force?: boolean;
-  profile?: boolean;
+  profile?: boolean | string;
   pdfEngine?: string;
   princePath?: string;
   docraptorApiKey?: string;
   docraptorTestMode?: boolean;
+  define?: string[];
+  edition?: string;
+  allEditions?: boolean;
+  strict?: boolean;
+  cover?: boolean;
+  report?: string;
+  logFormat?: string;
+}
+
+interface InitCommandOptions {
+  template?: string;
+  title?: string;
+  authors?: string;
+  theme?: string;
+  interactive: boolean;
+  force: boolean;
+  verbose: boolean;
+}
+
+interface CheckCommandOptions {
+  format: string;
+  edition?: string;
+  define: string[];
+  verbose: boolean;
+  logFormat?: string;
 }
 
 interface PreviewCommandOptions {
@@ -52,15 +79,27 @@ interface PreviewCommandOptions {
   open: string | boolean;
   verbose: boolean;
   debug: boolean;
+  logFormat?: string;
 }
 
 /**
- * Configure logging level based on verbose flag
+ * Configure logging level based on verbose flag, and the log format from
+ * --log-format or PAGEDMD_LOG_FORMAT
  */
-function setupLogging(verbose: boolean): void {
+function setupLogging(verbose: boolean, logFormat = process.env.PAGEDMD_LOG_FORMAT): void {
   if (verbose) {
     setLogLevel('DEBUG');
   }
+  if (logFormat) {
+    if (!isLogFormat(logFormat)) {
+      handleError(new ConfigError(`Invalid log format '${logFormat}'`, `Valid formats: ${LOG_FORMATS.join(', ')}`), verbose);
+    }
+    setLogFormat(logFormat);
+  }
+}
+
+function isLogFormat(value: string): value is LogFormat {
+  return (LOG_FORMATS as readonly string[]).includes(value);
 }
 
 /**
@@ -70,9 +109,9 @@ program
   .command('build')
   .description('Generate output from markdown file(s) in specified format (configure custom CSS via manifest.yaml)')
   .argument('[input]', 'Input markdown file or directory (defaults to current directory)')
-  .option('-o, --output <path>', 'Output path (file for PDF, directory for HTML)')
+  .option('-o, --output <path>', 'Output path (file for PDF/EPUB, directory for HTML)')
   .option('--html-output <path>', 'Save intermediate HTML to specified path (for debugging)')
-  .option('--format <format>', 'Output format: html or pdf (default: pdf)', 'pdf')
+  .option('--format <format>', 'Output format: html, pdf or epub (default: pdf)', 'pdf')
   .option('--pdf-engine <engine>', 'PDF engine: auto, vivliostyle, prince, docraptor (default: auto)')
   .option('--prince-path <path>', 'Path to Prince binary (if not in PATH)')
   .option('--docraptor-api-key <key>', 'DocRaptor API key (or use DOCRAPTOR_API_KEY env var)')
@@ -82,9 +121,107 @@ program
   .option('--timeout <ms>', 'Timeout for PDF generation in milliseconds', String(DEFAULTS.TIMEOUT))
   .option('--verbose', 'Enable verbose output', false)
   .option('--debug', 'Debug mode (preserve temporary files)', false)
-  .option('--profile', 'Enable detailed performance profiling', false)
+  .option('--profile [path]', 'Enable detailed performance profiling; with a path, also write a Chrome trace (--profile=trace.json)', false)
+  .option(
+    '-D, --define <key=value>',
+    'Set a template variable, overriding manifest variables (repeatable)',
+    (value: string, previous: string[]) => [...previous, value],
+    [] as string[]
+  )
+  .option('--edition <name>', 'Build one edition from the profiles in manifest.yaml')
+  .option('--all-editions', 'Build every edition from the profiles in manifest.yaml', false)
+  .option('--strict', 'Fail PDF builds when the print preflight or print preset checks find problems', false)
+  .option('--cover', 'Also generate the wraparound cover PDF from cover: in manifest.yaml', false)
+  .option('--report <path>', 'Write a JSON build report (engine, pages, timings, memory, files, plugins, CSS, warnings)')
+  .option('--log-format <format>', 'Log output: text or json (one JSON object per line; default: PAGEDMD_LOG_FORMAT or text)')
   .action(async (input: string | undefined, opts: BuildCommandOptions) => {
-    await executeBuildProcess(opts, input);
+    const args = resolveProfileArgument(opts, input, process.argv);
+    await executeBuildProcess(args.opts, args.input);
+  });
+
+/**
+ * Init command - Scaffold a new project from a bundled template
+ */
+program
+  .command('init')
+  .description('Create a new project from a starter template')
+  .argument('[dir]', 'Project directory (defaults to current directory)')
+  .option('-t, --template <name>', `Template: ${Object.keys(PROJECT_TEMPLATES).join(', ')} (default: ${DEFAULT_TEMPLATE})`)
+  .option('--title <title>', 'Book title (defaults to directory name)')
+  .option('--authors <names>', 'Comma separated list of authors')
+  .option('--theme <name>', 'Theme from the bundled themes (e.g., classic, modern, parchment)')
+  .option('-i, --interactive', 'Prompt for template, title, authors and theme', false)
+  .option('--force', 'Overwrite an existing project', false)
+  .option('--verbose', 'Enable verbose output', false)
+  .action(async (dir: string | undefined, opts: InitCommandOptions) => {
+    setupLogging(opts.verbose);
+
+    try {
+      let initOptions: InitOptions = {
+        directory: dir ? path.resolve(process.cwd(), dir) : process.cwd(),
+        template: opts.template,
+        title: opts.title,
+        authors: opts.authors ? parseAuthors(opts.authors) : undefined,
+        theme: opts.theme,
+        force: opts.force,
+      };
+
+      if (opts.interactive) {
+        initOptions = await promptInitOptions(initOptions);
+      }
+
+      const result = await initProject(initOptions);
+      process.stdout.write(`\nNext steps:\n  cd ${path.relative(process.cwd(), result.directory) || '.'}\n  pagedmd preview\n`);
+    } catch (error) {
+      handleError(error, opts.verbose);
+    }
+  });
+
+/**
+ * Check command - Report problems in a project without building it
+ */
+program
+  .command('check')
+  .description('Check manifest, plugins, styles and markdown files for problems without building')
+  .argument('[input]', 'Input markdown file or directory (defaults to current directory)')
+  .option('--format <format>', 'Output format: table or json', 'table')
+  .option('--edition <name>', 'Check one edition from the profiles in manifest.yaml')
+  .option(
+    '-D, --define <key=value>',
+    'Set a template variable, overriding manifest variables (repeatable)',
+    (value: string, previous: string[]) => [...previous, value],
+    [] as string[]
+  )
+  .option('--verbose', 'Enable verbose output', false)
+  .option('--log-format <format>', 'Log output: text or json (default: PAGEDMD_LOG_FORMAT or text)')
+  .action(async (input: string | undefined, opts: CheckCommandOptions) => {
+    // Problems are part of the report, so only show log output when asked to
+    setupLogging(opts.verbose, opts.logFormat);
+    if (!opts.verbose) {
+      silence();
+    }
+
+    try {
+      if (opts.format !== 'table' && opts.format !== 'json') {
+        throw new ConfigError(`Invalid check format '${opts.format}'`, 'Valid formats: table, json');
+      }
+      const inputPath = input ? path.resolve(process.cwd(), input) : process.cwd();
+      if (!(await fileExists(inputPath))) {
+        throw new ConfigError(`Input path not found: ${inputPath}`);
+      }
+
+      const result = await checkProject({
+        input: inputPath,
+        edition: opts.edition,
+        defines: parseDefines(opts.define),
+      });
+      process.stdout.write(`${opts.format === 'json' ? formatCheckJson(result) : formatCheckTable(result)}\n`);
+      if (result.errors > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      handleError(error, opts.verbose);
+    }
   });
 
 /**
@@ -109,8 +246,9 @@ program
   .option('--open <boolean>', 'Automatically open browser (default: true)', 'true')
   .option('--verbose', 'Enable verbose output', false)
   .option('--debug', 'Debug mode (preserve temporary files)', false)
+  .option('--log-format <format>', 'Log output: text or json (default: PAGEDMD_LOG_FORMAT or text)')
   .action(async (input: string | undefined, opts: PreviewCommandOptions) => {
-    setupLogging(opts.verbose);
+    setupLogging(opts.verbose, opts.logFormat);
 
     try {
       let inputPath: string | undefined = undefined;
@@ -158,7 +296,7 @@ program
     setupLogging(opts.verbose);
     try {
       const info = await getEngineInfo();
-      console.log(info);
+      process.stdout.write(`${info}\n`);
     } catch (error) {
       handleError(error, opts.verbose);
     }
@@ -185,7 +323,15 @@ Examples:
   $ pagedmd build --output my-book.pdf      # Custom output path
   $ pagedmd build --pdf-engine vivliostyle  # Use Vivliostyle for PDF
   $ pagedmd build --pdf-engine prince       # Use Prince for PDF (if installed)
+  $ pagedmd build --define edition=gm       # Set a template variable
+  $ pagedmd build --edition print           # Build the "print" profile
+  $ pagedmd build --all-editions            # Build every profile (book-print.pdf, ...)
+  $ pagedmd build --cover                   # Also build the wraparound cover (book-cover.pdf)
+  $ pagedmd check                           # Report problems without building
+  $ pagedmd check --format json             # Machine-readable problems for CI
   $ pagedmd pdf-engines                     # Show available PDF engines
+  $ pagedmd init my-book --template novel   # Scaffold a project from a template
+  $ pagedmd init -i                         # Scaffold interactively
 
 Custom CSS Configuration:
   Create manifest.yaml in your project directory:
@@ -205,8 +351,29 @@ Custom CSS Configuration:
 `
   );
 
+/**
+ * Tell a --profile trace path from a build input
+ *
+ * --profile takes an optional value, so `--profile ./book` hands ./book to
+ * --profile. The value is a trace path only when given as --profile=<file>,
+ * when it ends in .json or when the input was given too; otherwise it is the input.
+ *
+ * @param argv - Raw command line, to see whether the value was attached with =
+ */
+export function resolveProfileArgument(
+  opts: BuildCommandOptions,
+  input: string | undefined,
+  argv: string[]
+): { opts: BuildCommandOptions; input: string | undefined } {
+  const value = opts.profile;
+  if (typeof value !== 'string' || input !== undefined || value.endsWith('.json') || argv.includes(`--profile=${value}`)) {
+    return { opts, input };
+  }
+  return { opts: { ...opts, profile: true }, input: value };
+}
+
 export async function executeBuildProcess(opts: BuildCommandOptions, input: string | undefined) {
-  setupLogging(opts.verbose);
+  setupLogging(opts.verbose, opts.logFormat);
 
   try {
     // Validate timeout value
@@ -260,7 +427,33 @@ export async function executeBuildProcess(opts: BuildCommandOptions, input: stri
     buildOptions.format = OutputFormat[validatedFormat.toUpperCase() as keyof typeof OutputFormat];
     buildOptions.watch = opts.watch || false;
     buildOptions.force = opts.force || false;
-    buildOptions.profile = opts.profile || false;
+    buildOptions.profile = Boolean(opts.profile);
+    if (typeof opts.profile === 'string') {
+      buildOptions.trace = path.resolve(opts.profile);
+    }
+    buildOptions.defines = parseDefines(opts.define ?? []);
+    buildOptions.strict = opts.strict || false;
+    buildOptions.buildCover = opts.cover || false;
+    if (opts.report) {
+      buildOptions.report = path.resolve(opts.report);
+    }
+
+    // Edition options
+    if (opts.allEditions && opts.edition) {
+      throw new ConfigError(
+        '--edition and --all-editions cannot be used together',
+        'Use --edition <name> for one edition or --all-editions for all of them'
+      );
+    }
+    if (opts.allEditions && buildOptions.watch) {
+      throw new ConfigError(
+        '--all-editions cannot be used with --watch',
+        'Watch a single edition with --edition <name> --watch'
+      );
+    }
+    if (opts.edition) {
+      buildOptions.edition = opts.edition;
+    }
 
     // PDF engine options
     if (opts.pdfEngine) {
@@ -291,6 +484,8 @@ export async function executeBuildProcess(opts: BuildCommandOptions, input: stri
     // Handle watch mode vs single build
     if (buildOptions.watch) {
       await startWatchMode(buildOptions);
+    } else if (opts.allEditions) {
+      await buildAllEditions(buildOptions);
     } else {
       await build(buildOptions);
     }
@@ -303,7 +498,9 @@ export async function executeBuildProcess(opts: BuildCommandOptions, input: stri
  * Error handling
  */
 function handleError(error: unknown, verbose: boolean): never {
-  if (error instanceof BuildError || error instanceof ConfigError) {
+  if (error instanceof SourceError) {
+    createLogger('markdown').error(error.message, { file: error.file, line: error.line });
+  } else if (error instanceof BuildError || error instanceof ConfigError) {
     logError(error.message);
   } else if (error instanceof Error) {
     logError(`Unexpected error: ${error.message}`);
@@ -120,6 +120,24 @@ describe('ConfigurationManager', () => {
     expect(config.input).toBe(testFile);
   });
 
+  test('single file front matter supplies manifest fields', async () => {
+    const testFile = join(testDir, 'story.md');
+    await writeFile(
+      testFile,
+      '---\ntitle: Short Story\nauthors: [Jane Doe]\npage: chapter\nmetadata:\n  language: de\n---\n# Story'
+    );
+    await writeFile(manifestPath, YAML.dump({ title: 'Manifest Title', authors: ['Someone'], styles: ['book.css'] }));
+
+    const manager = new ConfigurationManager(testFile, {});
+    await manager.initialize();
+
+    const config = manager.getConfig();
+    expect(config.title).toBe('Short Story');
+    expect(config.authors).toEqual(['Jane Doe']);
+    expect(config.metadata?.language).toBe('de');
+    expect(config.styles).toEqual(['book.css']);
+  });
+
   test('createConfigManager helper function', async () => {
     const manifest: Manifest = {
       title: 'Helper Test',
@@ -144,6 +162,7 @@ describe('ConfigurationManager', () => {
       format: OutputFormat.PDF,
       watch: true,
       force: true,
+      defines: { edition: 'gm' },
     });
     await manager.initialize();
 
@@ -156,6 +175,7 @@ describe('ConfigurationManager', () => {
     expect(config.format).toBe(OutputFormat.PDF);
     expect(config.watch).toBe(true);
     expect(config.force).toBe(true);
+    expect(config.defines).toEqual({ edition: 'gm' });
   });
 
   test('handles manifest with styles', async () => {
@@ -212,4 +232,40 @@ describe('ConfigurationManager', () => {
     expect(config.verbose).toBe(false);
     expect(config.format).toBe(OutputFormat.PDF);
   });
+
+  test('applies the selected edition and exposes its profile', async () => {
+    await writeFile(
+      manifestPath,
+      YAML.dump({
+        title: 'Vault',
+        authors: ['Ada'],
+        styles: ['base.css'],
+        profiles: { screen: { styles: ['screen.css'], variables: { edition: 'screen' } } },
+      })
+    );
+
+    const manager = new ConfigurationManager(testDir, { edition: 'screen' });
+    await manager.initialize();
+
+    expect(manager.getProfile()).toEqual({
+      name: 'screen',
+      overrides: { styles: ['screen.css'], variables: { edition: 'screen' } },
+    });
+    expect(manager.getConfig().styles).toEqual(['screen.css']);
+    expect(manager.getConfig().edition).toBe('screen');
+
+    const base = new ConfigurationManager(testDir, {});
+    await base.initialize();
+    expect(base.getProfile()).toBeNull();
+    expect(base.getConfig().styles).toEqual(['base.css']);
+  });
+
+  test('rejects unknown editions', async () => {
+    await writeFile(manifestPath, YAML.dump({ title: 'Vault', authors: ['Ada'] }));
+
+    const manager = new ConfigurationManager(testDir, { edition: 'print' });
+    const error = await manager.initialize().catch((e: Error) => e);
+
+    expect((error as Error).message).toContain('Unknown edition "print"');
+  });
 });
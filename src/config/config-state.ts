@@ -2,14 +2,15 @@
  * Simplified Configuration Manager
  *
  * Merges CLI options with manifest.yaml settings and provides defaults.
+ * With --edition, the selected manifest profile is merged onto the manifest
+ * first (see profiles.ts).
  * This is a personal tool - no complex validation, just basic merging.
  */
 
-import path from "path";
 import { type BuildOptions, type Manifest, OutputFormat } from "../types.ts";
-import { loadManifest } from "../utils/config.ts";
-import { isDirectory } from "../utils/file-utils.ts";
 import { DEFAULTS } from "../constants.ts";
+import { applyManifestProfile, loadBaseManifest, resolveProfile, type ResolvedProfile } from "./profiles.ts";
+import { applyPrintPreset } from "./print-presets.ts";
 
 /**
  * Resolved configuration combining BuildOptions with Manifest properties
@@ -26,6 +27,7 @@ export type ResolvedConfig = BuildOptions & Omit<Manifest, 'format'> & {
  */
 export class ConfigurationManager {
   private manifest: Manifest | null = null;
+  private profile: ResolvedProfile | null = null;
   private inputDir: string;
   private mergedConfig: BuildOptions;
 
@@ -51,12 +53,18 @@ export class ConfigurationManager {
    * Call this before using getConfig()
    */
   async initialize(): Promise<void> {
-    // Determine input directory
-    const isDir = await isDirectory(this.inputDir);
-    const inputDir = isDir ? this.inputDir : path.dirname(this.inputDir);
+    // Load manifest if it exists (resolves the directory itself so a
+    // single-file input can contribute front matter fields), with any
+    // manifest overrides merged in
+    const manifest = await loadBaseManifest(this.inputDir, this.cliOptions);
 
-    // Load manifest if it exists
-    this.manifest = await loadManifest(inputDir);
+    // Apply the selected edition's overrides (throws for unknown editions)
+    const edition = this.cliOptions.edition;
+    this.profile = edition ? resolveProfile(manifest, edition) : null;
+    const profiled = edition ? applyManifestProfile(manifest, edition) : manifest;
+
+    // Fill page format and PDF defaults from pdf.preset (throws for unknown presets)
+    this.manifest = applyPrintPreset(profiled);
 
     // Merge all configuration sources
     this.mergedConfig = this.mergeConfiguration();
@@ -89,11 +97,19 @@ export class ConfigurationManager {
 
   /**
    * Get the loaded manifest (may be null)
+   * With an edition selected, this is the manifest with the profile applied
    */
   getManifest(): Manifest | null {
     return this.manifest;
   }
 
+  /**
+   * Get the manifest profile selected with --edition (null for the base manifest)
+   */
+  getProfile(): ResolvedProfile | null {
+    return this.profile;
+  }
+
   /**
    * Create default configuration from input path and CLI options
    */
@@ -108,6 +124,12 @@ export class ConfigurationManager {
       format: this.cliOptions.format ?? OutputFormat.PDF,
       watch: this.cliOptions.watch ?? false,
       force: this.cliOptions.force ?? false,
+      defines: this.cliOptions.defines,
+      edition: this.cliOptions.edition,
+      manifestOverrides: this.cliOptions.manifestOverrides,
+      sources: this.cliOptions.sources,
+      signal: this.cliOptions.signal,
+      hooks: this.cliOptions.hooks,
     };
   }
 
@@ -0,0 +1,98 @@
+/**
+ * Tests for print-on-demand presets
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  applyPrintPreset,
+  calculateSpineWidth,
+  checkPrintPreset,
+  getPrintPresetNames,
+  resolvePrintPreset,
+} from './print-presets.ts';
+import { ConfigError } from '../utils/errors.ts';
+
+describe('resolvePrintPreset', () => {
+  test('resolves vendor, trim size and paper', () => {
+    const preset = resolvePrintPreset('kdp-6x9-cream');
+
+    expect(preset.vendor.name).toBe('Amazon KDP');
+    expect(preset.trim).toBe('6x9');
+    expect(preset.paperName).toBe('cream');
+    expect(getPrintPresetNames()).toContain('ingramspark-6.14x9.21-white');
+  });
+
+  test('suggests the closest preset for typos', () => {
+    expect(() => resolvePrintPreset('kdp-6x9-creme')).toThrow(ConfigError);
+    expect(() => resolvePrintPreset('kdp-6x9-creme')).toThrow('Did you mean "kdp-6x9-cream"?');
+    expect(() => resolvePrintPreset('lulu-9x12-white')).toThrow('Lulu presets use trim sizes');
+    expect(() => resolvePrintPreset('blurb')).toThrow('Use <vendor>-<trim>-<paper>');
+  });
+});
+
+describe('applyPrintPreset', () => {
+  test('fills page format and PDF defaults the manifest leaves unset', () => {
+    const manifest = applyPrintPreset({
+      title: 'Vault',
+      pdf: { preset: 'ingramspark-6x9-white', engine: 'prince', pressReady: false },
+      format: { bleed: '3mm' },
+    });
+
+    expect(manifest?.format).toEqual({
+      size: '6x9',
+      margins: { top: '0.75in', bottom: '0.75in', inside: '0.75in', outside: '0.5in' },
+      bleed: '3mm',
+      colorMode: 'cmyk',
+    });
+    expect(manifest?.pdf).toEqual({
+      preset: 'ingramspark-6x9-white',
+      engine: 'prince',
+      pressReady: false,
+      profile: 'PDF/X-1a',
+      cropMarks: false,
+    });
+  });
+
+  test('leaves manifests without a preset unchanged', () => {
+    const manifest = { title: 'Vault', format: { size: 'a5' } };
+
+    expect(applyPrintPreset(manifest)).toBe(manifest);
+    expect(applyPrintPreset(null)).toBeNull();
+  });
+});
+
+describe('checkPrintPreset', () => {
+  test('calculates the spine width from page count and paper', () => {
+    expect(calculateSpineWidth(resolvePrintPreset('kdp-6x9-cream'), 300)).toBe(0.75);
+    expect(calculateSpineWidth(resolvePrintPreset('kdp-6x9-white'), 300)).toBe(0.676);
+    expect(calculateSpineWidth(resolvePrintPreset('lulu-6x9-cream'), 200)).toBe(0.56);
+  });
+
+  test('validates the minimum gutter for the page count', () => {
+    const preset = resolvePrintPreset('kdp-6x9-cream');
+    const format = { margins: { top: '0.75in', bottom: '0.75in', inside: '0.5in', outside: '0.5in' } };
+
+    expect(checkPrintPreset(preset, format, 280)).toEqual({
+      pageCount: 280,
+      spineWidth: 0.7,
+      minimumGutter: '0.5in',
+      problems: [],
+    });
+    expect(checkPrintPreset(preset, format, 320).problems).toEqual([
+      "Inside margin 0.5in is below Amazon KDP's minimum gutter of 0.625in for 320 pages; " +
+        'set format.margins.inside to at least 0.625in',
+    ]);
+  });
+
+  test('reports page counts outside the vendor range', () => {
+    const preset = resolvePrintPreset('kdp-6x9-cream');
+    const format = { margins: '0.75in 0.5in 0.75in 1in' };
+
+    expect(checkPrintPreset(preset, format, 12).problems).toEqual([
+      'Amazon KDP needs at least 24 pages; the book has 12',
+    ]);
+    expect(checkPrintPreset(preset, format, 800).problems).toEqual([
+      'Amazon KDP binds at most 776 pages on cream paper; the book has 800',
+    ]);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Print-on-demand presets
+ *
+ * `pdf.preset: <vendor>-<trim>-<paper>` (e.g., `kdp-6x9-cream`) picks a
+ * printer, trim size and paper stock. The preset fills the `format` (trim,
+ * bleed, margins, color mode) and `pdf` settings the manifest leaves unset;
+ * once the PDF is rendered, its page count gives the spine width and the
+ * vendor's minimum inside (gutter) margin.
+ *
+ * ```yaml
+ * pdf:
+ *   preset: kdp-6x9-cream
+ * format:
+ *   margins: { top: 0.75in, bottom: 0.75in, inside: 0.875in, outside: 0.5in }
+ * ```
+ */
+
+import { ConfigError } from '../utils/errors.ts';
+import { findClosestMatch } from '../markdown/core/core-directives-plugin.ts';
+import { lengthToInches, resolveMargins } from '../utils/page-format.ts';
+import type { Manifest, PageFormat, PdfConfig } from '../types.ts';
+
+/**
+ * Thickness of one page (half a sheet) in inches by paper
+ */
+export const PAGE_THICKNESS = {
+  white: 0.002252,
+  cream: 0.0025,
+  color: 0.002347,
+} as const;
+
+/**
+ * Paper stock offered by a vendor
+ */
+export interface PaperStock {
+  /** Thickness of one page (half a sheet) in inches */
+  pageThickness: number;
+  /** Most pages the vendor binds on this paper */
+  maxPages: number;
+}
+
+/**
+ * Minimum inside margin for books up to a page count
+ */
+export interface GutterTier {
+  maxPages: number;
+  inside: string;
+}
+
+/**
+ * Print-on-demand vendor specification
+ */
+export interface PrintVendor {
+  /** Display name */
+  name: string;
+  /** Supported trim sizes as width x height in inches */
+  trimSizes: readonly string[];
+  papers: Readonly<Record<string, PaperStock>>;
+  /** Fewest pages the vendor binds */
+  minPages: number;
+  bleed: string;
+  /** Minimum inside margin by page count, ascending */
+  gutters: readonly GutterTier[];
+  /** Spine thickness added to the pages (cover stock), in inches */
+  spineAllowance: number;
+  /** Default margins for books that do not set their own */
+  margins: { top: string; bottom: string; inside: string; outside: string };
+  colorMode?: PageFormat['colorMode'];
+  /** PDF defaults the vendor expects */
+  pdf: PdfConfig;
+}
+
+/**
+ * Vendor specifications, keyed by the first part of the preset name
+ */
+export const PRINT_VENDORS: Readonly<Record<string, PrintVendor>> = {
+  kdp: {
+    name: 'Amazon KDP',
+    trimSizes: [
+      '5x8', '5.06x7.81', '5.25x8', '5.5x8.5', '6x9', '6.14x9.21',
+      '6.69x9.61', '7x10', '7.44x9.69', '7.5x9.25', '8x10', '8.5x11',
+    ],
+    papers: {
+      white: { pageThickness: PAGE_THICKNESS.white, maxPages: 828 },
+      cream: { pageThickness: PAGE_THICKNESS.cream, maxPages: 776 },
+      color: { pageThickness: PAGE_THICKNESS.color, maxPages: 828 },
+    },
+    minPages: 24,
+    bleed: '0.125in',
+    gutters: [
+      { maxPages: 150, inside: '0.375in' },
+      { maxPages: 300, inside: '0.5in' },
+      { maxPages: 500, inside: '0.625in' },
+      { maxPages: 700, inside: '0.75in' },
+      { maxPages: Infinity, inside: '0.875in' },
+    ],
+    spineAllowance: 0,
+    margins: { top: '0.75in', bottom: '0.75in', inside: '0.75in', outside: '0.5in' },
+    pdf: { cropMarks: false },
+  },
+  ingramspark: {
+    name: 'IngramSpark',
+    trimSizes: ['5x8', '5.5x8.5', '6x9', '6.14x9.21', '6.69x9.61', '7x10', '7.5x9.25', '8.5x11'],
+    papers: {
+      white: { pageThickness: PAGE_THICKNESS.white, maxPages: 840 },
+      cream: { pageThickness: PAGE_THICKNESS.cream, maxPages: 740 },
+      color: { pageThickness: PAGE_THICKNESS.color, maxPages: 840 },
+    },
+    minPages: 18,
+    bleed: '0.125in',
+    gutters: [
+      { maxPages: 300, inside: '0.5in' },
+      { maxPages: 600, inside: '0.625in' },
+      { maxPages: Infinity, inside: '0.75in' },
+    ],
+    spineAllowance: 0,
+    margins: { top: '0.75in', bottom: '0.75in', inside: '0.75in', outside: '0.5in' },
+    colorMode: 'cmyk',
+    pdf: { pressReady: true, profile: 'PDF/X-1a', cropMarks: false },
+  },
+  lulu: {
+    name: 'Lulu',
+    trimSizes: ['4.25x6.87', '5.5x8.5', '6x9', '6.14x9.21', '7.5x9.25', '8.5x11'],
+    papers: {
+      white: { pageThickness: PAGE_THICKNESS.white, maxPages: 800 },
+      cream: { pageThickness: PAGE_THICKNESS.cream, maxPages: 800 },
+    },
+    minPages: 32,
+    bleed: '0.125in',
+    // 0.5in safety margin plus Lulu's recommended gutter
+    gutters: [
+      { maxPages: 60, inside: '0.5in' },
+      { maxPages: 150, inside: '0.625in' },
+      { maxPages: 400, inside: '1in' },
+      { maxPages: 600, inside: '1.125in' },
+      { maxPages: Infinity, inside: '1.25in' },
+    ],
+    spineAllowance: 0.06,
+    margins: { top: '0.75in', bottom: '0.75in', inside: '1in', outside: '0.5in' },
+    pdf: { cropMarks: false },
+  },
+};
+
+/**
+ * A resolved preset
+ */
+export interface PrintPreset {
+  /** Preset name as written in the manifest */
+  name: string;
+  vendor: PrintVendor;
+  /** Trim size as width x height in inches (e.g., '6x9') */
+  trim: string;
+  /** Paper name (e.g., 'cream') */
+  paperName: string;
+  paper: PaperStock;
+}
+
+/**
+ * Spine width and problems for a rendered book
+ */
+export interface PrintPresetCheck {
+  /** Page count the check used */
+  pageCount: number;
+  /** Spine width in inches */
+  spineWidth: number;
+  /** Minimum inside margin for the page count */
+  minimumGutter: string;
+  problems: string[];
+}
+
+/**
+ * Every preset name, in vendor, trim and paper order
+ */
+export function getPrintPresetNames(): string[] {
+  return Object.entries(PRINT_VENDORS).flatMap(([id, vendor]) =>
+    vendor.trimSizes.flatMap((trim) => Object.keys(vendor.papers).map((paper) => `${id}-${trim}-${paper}`))
+  );
+}
+
+/**
+ * Look up a preset by name
+ *
+ * @throws ConfigError if the vendor, trim size or paper is unknown
+ */
+export function resolvePrintPreset(name: string): PrintPreset {
+  const [, vendorId = '', trim = '', paperName = ''] = name.trim().toLowerCase().match(/^([a-z]+)-([\d.]+x[\d.]+)-([a-z]+)$/) ?? [];
+  const vendor = PRINT_VENDORS[vendorId];
+  const paper = vendor?.papers[paperName];
+
+  if (!vendor || !paper || !vendor.trimSizes.includes(trim)) {
+    const closest = findClosestMatch(name, getPrintPresetNames());
+    throw new ConfigError(
+      `Unknown print preset "${name}"`,
+      closest
+        ? `Did you mean "${closest}"?`
+        : vendor
+          ? `${vendor.name} presets use trim sizes ${vendor.trimSizes.join(', ')} and papers ${Object.keys(vendor.papers).join(', ')} (e.g., ${vendorId}-6x9-${Object.keys(vendor.papers)[0]})`
+          : `Use <vendor>-<trim>-<paper> with vendor ${Object.keys(PRINT_VENDORS).join(', ')} (e.g., kdp-6x9-cream)`
+    );
+  }
+
+  return { name, vendor, trim, paperName, paper };
+}
+
+/**
+ * Fill page format and PDF defaults from the manifest's pdf.preset
+ *
+ * Values set in the manifest win over the preset, key by key.
+ *
+ * @param manifest - Manifest, possibly with an edition applied
+ * @returns Manifest with preset defaults, or the manifest unchanged without a preset
+ * @throws ConfigError if the preset is unknown
+ */
+export function applyPrintPreset(manifest: Manifest | null): Manifest | null {
+  const name = manifest?.pdf?.preset;
+  if (!manifest || !name) {
+    return manifest;
+  }
+
+  const { vendor, trim } = resolvePrintPreset(name);
+  return {
+    ...manifest,
+    format: {
+      size: trim,
+      margins: vendor.margins,
+      bleed: vendor.bleed,
+      ...(vendor.colorMode ? { colorMode: vendor.colorMode } : {}),
+      ...definedValues(manifest.format ?? {}),
+    },
+    pdf: { ...vendor.pdf, ...definedValues(manifest.pdf) },
+  };
+}
+
+/**
+ * Spine width for a page count
+ *
+ * @returns Width in inches, rounded to thousandths
+ */
+export function calculateSpineWidth(preset: PrintPreset, pageCount: number): number {
+  return Math.round((pageCount * preset.paper.pageThickness + preset.vendor.spineAllowance) * 1000) / 1000;
+}
+
+/**
+ * Spine width for a page count on a paper without a vendor preset
+ *
+ * @returns Width in inches, rounded to thousandths
+ */
+export function calculatePaperSpineWidth(paper: keyof typeof PAGE_THICKNESS, pageCount: number): number {
+  return Math.round(pageCount * PAGE_THICKNESS[paper] * 1000) / 1000;
+}
+
+/**
+ * Check a rendered book against the preset's vendor limits
+ *
+ * @param preset - Resolved preset
+ * @param pageFormat - Page format with the preset applied
+ * @param pageCount - Page count reported by the PDF engine
+ * @returns Spine width, minimum gutter and any problems (page count range, inside margin)
+ */
+export function checkPrintPreset(preset: PrintPreset, pageFormat: PageFormat | undefined, pageCount: number): PrintPresetCheck {
+  const { vendor, paper, paperName } = preset;
+  const tier = vendor.gutters.find((gutter) => pageCount <= gutter.maxPages) ?? vendor.gutters[vendor.gutters.length - 1];
+  const minimumGutter = tier?.inside ?? '0in';
+  const problems: string[] = [];
+
+  if (pageCount < vendor.minPages) {
+    problems.push(`${vendor.name} needs at least ${vendor.minPages} pages; the book has ${pageCount}`);
+  }
+  if (pageCount > paper.maxPages) {
+    problems.push(`${vendor.name} binds at most ${paper.maxPages} pages on ${paperName} paper; the book has ${pageCount}`);
+  }
+
+  const inside = pageFormat?.margins ? resolveMargins(pageFormat.margins).inside : '0in';
+  if (lengthToInches(inside) < lengthToInches(minimumGutter)) {
+    problems.push(
+      `Inside margin ${inside} is below ${vendor.name}'s minimum gutter of ${minimumGutter} for ${pageCount} pages; ` +
+        `set format.margins.inside to at least ${minimumGutter}`
+    );
+  }
+
+  return { pageCount, spineWidth: calculateSpineWidth(preset, pageCount), minimumGutter, problems };
+}
+
+/**
+ * Copy an object without its undefined values, so they do not hide preset defaults
+ */
+function definedValues<T extends object>(value: T | undefined): Partial<T> {
+  return Object.fromEntries(Object.entries(value ?? {}).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
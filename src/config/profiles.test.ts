@@ -0,0 +1,67 @@
+/**
+ * Tests for manifest build profiles (editions)
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { applyManifestProfile, getProfileNames, mergeManifest, resolveProfile } from './profiles.ts';
+import { ConfigError } from '../utils/errors.ts';
+import type { Manifest } from '../types.ts';
+
+const manifest: Manifest = {
+  title: 'The Sunken Vault',
+  authors: ['Ada'],
+  styles: ['base.css'],
+  files: ['intro.md', 'rules.md'],
+  variables: { edition: 'player', price: '$20' },
+  pdf: { engine: 'vivliostyle', pressReady: false },
+  profiles: {
+    print: { pdf: { engine: 'prince', pressReady: true } },
+    'gm-edition': { files: ['intro.md', 'secrets.md'], variables: { edition: 'gm' } },
+  },
+};
+
+describe('getProfileNames', () => {
+  test('lists profiles in manifest order', () => {
+    expect(getProfileNames(manifest)).toEqual(['print', 'gm-edition']);
+    expect(getProfileNames(null)).toEqual([]);
+  });
+});
+
+describe('applyManifestProfile', () => {
+  test('deep-merges nested settings', () => {
+    const print = applyManifestProfile(manifest, 'print');
+
+    expect(print.pdf).toEqual({ engine: 'prince', pressReady: true });
+    expect(print.styles).toEqual(['base.css']);
+    expect(print.variables).toEqual({ edition: 'player', price: '$20' });
+  });
+
+  test('replaces lists and merges variables', () => {
+    const gm = applyManifestProfile(manifest, 'gm-edition');
+
+    expect(gm.files).toEqual(['intro.md', 'secrets.md']);
+    expect(gm.variables).toEqual({ edition: 'gm', price: '$20' });
+    expect(gm.pdf).toEqual({ engine: 'vivliostyle', pressReady: false });
+  });
+
+  test('does not modify the base manifest', () => {
+    applyManifestProfile(manifest, 'gm-edition');
+
+    expect(manifest.files).toEqual(['intro.md', 'rules.md']);
+    expect(manifest.variables?.edition).toBe('player');
+  });
+
+  test('rejects unknown editions with the available names', () => {
+    expect(() => resolveProfile(manifest, 'gm')).toThrow(ConfigError);
+    expect(() => resolveProfile(manifest, 'gm')).toThrow('Available editions: print, gm-edition');
+    expect(() => resolveProfile(null, 'print')).toThrow('Define it under profiles:');
+  });
+});
+
+describe('mergeManifest', () => {
+  test('keeps base values for undefined overrides', () => {
+    expect(mergeManifest({ title: 'A', metadata: { isbn: '1' } }, { title: undefined, metadata: { date: '2025' } })).toEqual(
+      { title: 'A', metadata: { isbn: '1', date: '2025' } }
+    );
+  });
+});
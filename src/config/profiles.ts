@@ -0,0 +1,146 @@
+/**
+ * Build profiles (editions)
+ *
+ * `profiles:` in manifest.yaml maps edition names to partial manifests that
+ * are deep-merged onto the base manifest: nested objects (pdf, format,
+ * variables, metadata) merge key by key, while lists (styles, files, plugins)
+ * and scalar values replace the base value.
+ *
+ * ```yaml
+ * profiles:
+ *   print:
+ *     pdf: { engine: prince, pressReady: true }
+ *   gm-edition:
+ *     files: [intro.md, secrets.md]
+ *     variables: { edition: gm }
+ * ```
+ */
+
+import path from 'path';
+import { loadManifest, validateManifest } from '../utils/config.ts';
+import { ConfigError } from '../utils/errors.ts';
+import { applyPrintPreset } from './print-presets.ts';
+import { FILENAMES } from '../constants.ts';
+import type { BuildOptions, Manifest, ManifestProfile } from '../types.ts';
+
+/**
+ * Profile selected for a build
+ */
+export interface ResolvedProfile {
+  /** Profile name from manifest.profiles */
+  name: string;
+  /** Overrides the profile applies to the base manifest */
+  overrides: ManifestProfile;
+}
+
+/**
+ * Names of the profiles defined in a manifest, in manifest order
+ */
+export function getProfileNames(manifest: Manifest | null): string[] {
+  return Object.keys(manifest?.profiles ?? {});
+}
+
+/**
+ * Look up a profile by name
+ *
+ * @throws ConfigError if the manifest has no profile with that name
+ */
+export function resolveProfile(manifest: Manifest | null, name: string): ResolvedProfile {
+  const overrides = manifest?.profiles?.[name];
+  if (!overrides) {
+    const names = getProfileNames(manifest);
+    throw new ConfigError(
+      `Unknown edition "${name}"`,
+      names.length > 0
+        ? `Available editions: ${names.join(', ')}`
+        : `Define it under profiles: in manifest.yaml (e.g., profiles: { ${name}: { variables: { edition: ${name} } } })`
+    );
+  }
+  return { name, overrides };
+}
+
+/**
+ * Apply a profile's overrides to the base manifest
+ *
+ * @param manifest - Base manifest (null when there is no manifest.yaml)
+ * @param name - Profile name
+ * @returns Merged manifest
+ * @throws ConfigError if the profile does not exist
+ */
+export function applyManifestProfile(manifest: Manifest | null, name: string): Manifest {
+  const { overrides } = resolveProfile(manifest, name);
+  return mergeManifest(manifest ?? {}, overrides);
+}
+
+/**
+ * Load the base manifest of a build: manifest.yaml with `manifestOverrides`
+ * deep-merged onto it
+ *
+ * With in-memory `sources` (library API), manifest.yaml is not read and the
+ * overrides are the whole manifest.
+ *
+ * @param inputPath - Input markdown file or directory path
+ * @param options - Build options with the sources and manifest overrides
+ * @returns Manifest, or null when there is none
+ * @throws Error if the merged manifest is invalid
+ */
+export async function loadBaseManifest(
+  inputPath: string,
+  options: Pick<BuildOptions, 'sources' | 'manifestOverrides'> = {}
+): Promise<Manifest | null> {
+  const manifest = options.sources ? null : await loadManifest(inputPath);
+  if (!options.manifestOverrides) {
+    return manifest;
+  }
+  const merged = mergeManifest(manifest ?? {}, options.manifestOverrides);
+  const manifestPath = path.join(inputPath, FILENAMES.MANIFEST);
+  return validateManifest(merged, options.sources ? 'manifest overrides' : `${manifestPath} (with manifest overrides)`);
+}
+
+/**
+ * Load manifest.yaml with an optional profile and its print preset applied
+ *
+ * @param inputPath - Input markdown file or directory path
+ * @param edition - Profile name, or undefined for the base manifest
+ * @param options - Build options with in-memory sources and manifest overrides (see loadBaseManifest)
+ */
+export async function loadManifestProfile(
+  inputPath: string,
+  edition?: string,
+  options?: Pick<BuildOptions, 'sources' | 'manifestOverrides'>
+): Promise<Manifest | null> {
+  const manifest = await loadBaseManifest(inputPath, options);
+  return applyPrintPreset(edition ? applyManifestProfile(manifest, edition) : manifest);
+}
+
+/**
+ * Deep-merge overrides onto a manifest
+ *
+ * Plain objects merge recursively; lists and scalars replace; undefined
+ * override values keep the base value.
+ */
+export function mergeManifest(base: Manifest, overrides: ManifestProfile): Manifest {
+  return mergeObjects(base as Record<string, unknown>, overrides as Record<string, unknown>) as Manifest;
+}
+
+/**
+ * Recursively merge two plain objects
+ */
+function mergeObjects(base: Record<string, unknown>, overrides: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value) ? mergeObjects(current, value) : value;
+  }
+
+  return merged;
+}
+
+/**
+ * Whether a value is a plain object (not a list or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -98,6 +98,45 @@ export const FILENAMES = {
   OUTPUT_HTML: 'index.html',
 } as const;
 
+/**
+ * Print preflight thresholds
+ */
+export const PREFLIGHT = {
+  /** Minimum effective image resolution for print */
+  MIN_DPI: 300,
+  /** Report file written next to the PDF */
+  REPORT_FILENAME: 'preflight.json',
+} as const;
+
+/**
+ * Wraparound cover layout (inches)
+ */
+export const COVER = {
+  /** Bleed when neither format.bleed nor pdf.bleed is set */
+  DEFAULT_BLEED: '0.125in',
+  /** Distance of text and barcode from the trim and spine folds */
+  SAFE_MARGIN: 0.25,
+  /** Narrowest spine that carries text */
+  MIN_SPINE_TEXT_WIDTH: 0.2,
+  /** Barcode box on the back cover */
+  BARCODE_WIDTH: 2,
+  BARCODE_HEIGHT: 1.2,
+  /** Suffix added to the interior PDF name */
+  OUTPUT_SUFFIX: '-cover',
+  /** Generated cover HTML in the build directory */
+  HTML_FILENAME: 'cover.html',
+} as const;
+
+/**
+ * Booklet imposition (pdf.imposition)
+ */
+export const IMPOSITION = {
+  /** Pages per signature for perfect-bound-signatures when pdf.signaturePages is not set */
+  DEFAULT_SIGNATURE_PAGES: 16,
+  /** Suffix added to the reading-order PDF name */
+  OUTPUT_SUFFIX: '-imposed',
+} as const;
+
 /**
  * Build directory configuration
  */
@@ -1,3 +1,28 @@
 export { startPreviewServer } from './server.ts';
 export { build } from './build/build.ts';
-export { startWatchMode } from './build/watch.ts';
\ No newline at end of file
+export { startWatchMode, watchBuild, type WatchHandle } from './build/watch.ts';
+export {
+  createPagedmd,
+  Pagedmd,
+  type BuildPdfOptions,
+  type PagedmdDoneEvent,
+  type PagedmdEvents,
+  type PagedmdOptions,
+  type RenderHtmlOptions,
+} from './api.ts';
+export { BuildAbortedError, BuildError, ConfigError, SourceError } from './utils/errors.ts';
+export {
+  addLogSink,
+  createLogger,
+  jsonSink,
+  setLogFormat,
+  setLogLevel,
+  setLogSinks,
+  textSink,
+  type LogEntry,
+  type LogFields,
+  type LogFormat,
+  type LogLevel,
+  type LogSink,
+  type LogSubsystem,
+} from './utils/logger.ts';
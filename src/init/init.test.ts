@@ -0,0 +1,116 @@
+/**
+ * Tests for project scaffolding (pagedmd init)
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import YAML from 'js-yaml';
+import { mkdir, writeFile, remove, fileExists, readFile } from '../utils/file-utils.ts';
+import { initProject, listThemes, parseAuthors, MANIFEST_SCHEMA_URL } from './init.ts';
+import type { Manifest } from '../types.ts';
+
+describe('initProject', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(process.cwd(), '.tmp', `init-tests-${Date.now()}`);
+    await mkdir(testDir);
+  });
+
+  afterEach(async () => {
+    await remove(testDir);
+  });
+
+  test('copies the template and writes a schema-linked manifest', async () => {
+    const projectDir = join(testDir, 'my-novel');
+
+    const result = await initProject({
+      directory: projectDir,
+      template: 'novel',
+      title: 'The Long Night',
+      authors: ['Jane Doe'],
+      theme: 'modern',
+    });
+
+    expect(result.template).toBe('novel');
+    expect(result.theme).toBe('modern');
+    expect(await fileExists(join(projectDir, 'chapter-01.md'))).toBe(true);
+
+    const content = await readFile(result.manifestPath);
+    expect(content.startsWith(`# yaml-language-server: $schema=${MANIFEST_SCHEMA_URL}\n`)).toBe(true);
+
+    const manifest = YAML.load(content) as Manifest;
+    expect(manifest.title).toBe('The Long Night');
+    expect(manifest.authors).toEqual(['Jane Doe']);
+    expect(manifest.styles).toEqual(['themes/modern.css', 'novel.css']);
+  });
+
+  test('keeps template settings and theme when not overridden', async () => {
+    const result = await initProject({ directory: join(testDir, 'module'), template: 'ttrpg-module' });
+
+    const manifest = YAML.load(await readFile(result.manifestPath)) as Manifest;
+    expect(manifest.title).toBe('module');
+    expect(manifest.extensions).toEqual(['ttrpg']);
+    expect(manifest.styles?.[0]).toBe('themes/classic.css');
+  });
+
+  test('defaults to the minimal template', async () => {
+    const result = await initProject({ directory: join(testDir, 'starter') });
+
+    expect(result.template).toBe('template');
+    expect(await fileExists(join(testDir, 'starter', 'chapter-01.md'))).toBe(true);
+  });
+
+  test('refuses to overwrite an existing project without force', async () => {
+    await writeFile(join(testDir, 'manifest.yaml'), 'title: Existing\n');
+
+    const error = await initProject({ directory: testDir }).catch((e: Error) => e);
+
+    expect((error as Error).message).toContain('already exists');
+    expect(await readFile(join(testDir, 'manifest.yaml'))).toBe('title: Existing\n');
+  });
+
+  test('treats a directory with markdown files as an existing project', async () => {
+    await writeFile(join(testDir, 'notes.md'), '# Notes');
+
+    const error = await initProject({ directory: testDir }).catch((e: Error) => e);
+
+    expect((error as Error).message).toContain('already exists');
+  });
+
+  test('overwrites an existing project with force', async () => {
+    await writeFile(join(testDir, 'manifest.yaml'), 'title: Existing\n');
+
+    await initProject({ directory: testDir, title: 'Fresh', force: true });
+
+    const manifest = YAML.load(await readFile(join(testDir, 'manifest.yaml'))) as Manifest;
+    expect(manifest.title).toBe('Fresh');
+  });
+
+  test('rejects unknown templates and themes', async () => {
+    const templateError = await initProject({ directory: join(testDir, 'a'), template: 'cookbook' }).catch(
+      (e: Error) => e
+    );
+    const themeError = await initProject({ directory: join(testDir, 'b'), theme: 'neon' }).catch((e: Error) => e);
+
+    expect((templateError as Error).message).toContain('Unknown template "cookbook"');
+    expect((themeError as Error).message).toContain('Unknown theme "neon"');
+    expect(await fileExists(join(testDir, 'b'))).toBe(false);
+  });
+});
+
+describe('listThemes', () => {
+  test('lists bundled themes without extension', async () => {
+    const themes = await listThemes();
+
+    expect(themes).toContain('classic');
+    expect(themes).toContain('parchment');
+    expect(themes.every((theme) => !theme.endsWith('.css'))).toBe(true);
+  });
+});
+
+describe('parseAuthors', () => {
+  test('splits and trims comma separated names', () => {
+    expect(parseAuthors(' Jane Doe, John Smith ,, ')).toEqual(['Jane Doe', 'John Smith']);
+  });
+});
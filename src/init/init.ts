@@ -0,0 +1,286 @@
+/**
+ * Project scaffolding for `pagedmd init`
+ *
+ * Copies a starter project from the bundled examples/ templates, fills in
+ * title and authors, selects a theme from the bundled themes and writes a
+ * schema-linked manifest.yaml.
+ */
+
+import path from 'path';
+import { existsSync } from 'fs';
+import { createInterface } from 'readline';
+import YAML from 'js-yaml';
+import { copyDirectory, fileExists, isDirectory, mkdir, readDirectory, readFile, writeFile } from '../utils/file-utils.ts';
+import { info, debug } from '../utils/logger.ts';
+import { ConfigError } from '../utils/errors.ts';
+import { EXTENSIONS, FILENAMES } from '../constants.ts';
+import type { Manifest } from '../types.ts';
+
+/**
+ * Starter templates bundled in examples/ with a short description
+ */
+export const PROJECT_TEMPLATES = {
+  template: 'Minimal starter with a single chapter',
+  novel: 'Fiction with front matter and chapters',
+  'ttrpg-module': 'Tabletop RPG adventure module with stat blocks',
+  'technical-documentation': 'Technical manual or API documentation',
+} as const;
+
+export type ProjectTemplate = keyof typeof PROJECT_TEMPLATES;
+
+/** Template used when none is specified */
+export const DEFAULT_TEMPLATE: ProjectTemplate = 'template';
+
+/** Theme used when neither the user nor the template picks one */
+export const DEFAULT_THEME = 'classic';
+
+/** JSON schema referenced from generated manifests (editor autocomplete) */
+export const MANIFEST_SCHEMA_URL =
+  'https://raw.githubusercontent.com/dimm-city/pagedmd/main/manifest.schema.json';
+
+/**
+ * Options for scaffolding a project
+ */
+export interface InitOptions {
+  /** Target directory (created if missing) */
+  directory: string;
+  /** Template name from PROJECT_TEMPLATES */
+  template?: string;
+  /** Book title (defaults to the directory name) */
+  title?: string;
+  /** Book authors */
+  authors?: string[];
+  /** Theme name from src/assets/themes (without .css) */
+  theme?: string;
+  /** Overwrite an existing project */
+  force?: boolean;
+}
+
+/**
+ * Result of scaffolding a project
+ */
+export interface InitResult {
+  /** Absolute project directory */
+  directory: string;
+  /** Path to the written manifest.yaml */
+  manifestPath: string;
+  /** Template that was copied */
+  template: ProjectTemplate;
+  /** Theme referenced by the manifest */
+  theme: string;
+}
+
+/**
+ * Scaffold a new project from a bundled template
+ *
+ * @param options Init options
+ * @returns Result with project directory and manifest path
+ * @throws ConfigError for unknown templates/themes or an existing project without force
+ */
+export async function initProject(options: InitOptions): Promise<InitResult> {
+  const directory = path.resolve(options.directory);
+  const template = resolveTemplate(options.template);
+  const themes = await listThemes();
+
+  if (!options.force && (await isExistingProject(directory))) {
+    throw new ConfigError(
+      `A pagedmd project already exists in ${directory}`,
+      'Use --force to overwrite it, or choose an empty directory'
+    );
+  }
+
+  const templateDir = path.join(getTemplatesDir(), template);
+  const templateManifest = await readTemplateManifest(templateDir);
+  const theme = options.theme ?? findThemeInStyles(templateManifest.styles) ?? DEFAULT_THEME;
+  if (!themes.includes(theme)) {
+    throw new ConfigError(`Unknown theme "${theme}"`, `Available themes: ${themes.join(', ')}`);
+  }
+
+  await mkdir(directory);
+  await copyDirectory(templateDir, directory, true);
+  debug(`Copied template "${template}" from ${templateDir}`);
+
+  const localStyles = await findLocalStyles(directory, templateManifest.styles);
+  const manifest: Manifest = {
+    ...templateManifest,
+    title: options.title || path.basename(directory),
+    authors: options.authors && options.authors.length > 0 ? options.authors : ['Author Name'],
+    styles: [`themes/${theme}.css`, ...localStyles],
+  };
+
+  const manifestPath = path.join(directory, FILENAMES.MANIFEST);
+  await writeFile(manifestPath, renderManifest(manifest));
+  info(`Created ${template} project in ${directory} (theme: ${theme})`);
+
+  return { directory, manifestPath, template, theme };
+}
+
+/**
+ * Prompt for init options on the terminal
+ *
+ * Values already provided are used as defaults.
+ *
+ * @param defaults Options from CLI flags
+ * @returns Options with user answers applied
+ */
+export async function promptInitOptions(defaults: InitOptions): Promise<InitOptions> {
+  const themes = await listThemes();
+  const templates = Object.keys(PROJECT_TEMPLATES) as ProjectTemplate[];
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  // Line iterator buffers input, so piped answers are not lost between questions
+  const lines = rl[Symbol.asyncIterator]();
+
+  try {
+    const ask = async (question: string, fallback: string): Promise<string> => {
+      process.stdout.write(`${question} (${fallback}): `);
+      const { value } = await lines.next();
+      const answer = typeof value === 'string' ? value.trim() : '';
+      return answer || fallback;
+    };
+
+    process.stdout.write('Templates:\n');
+    for (const name of templates) {
+      process.stdout.write(`  ${name.padEnd(24)} ${PROJECT_TEMPLATES[name]}\n`);
+    }
+
+    const template = await ask('Template', defaults.template ?? DEFAULT_TEMPLATE);
+    const title = await ask('Title', defaults.title ?? path.basename(path.resolve(defaults.directory)));
+    const authors = await ask('Authors (comma separated)', defaults.authors?.join(', ') ?? 'Author Name');
+    const theme = await ask(`Theme [${themes.join(', ')}]`, defaults.theme ?? DEFAULT_THEME);
+
+    return {
+      ...defaults,
+      template,
+      title,
+      authors: parseAuthors(authors),
+      theme,
+    };
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * List bundled theme names (src/assets/themes/*.css without extension)
+ */
+export async function listThemes(): Promise<string[]> {
+  const entries = await readDirectory(path.join(getAssetsDir(), 'themes'));
+  return entries
+    .filter((entry) => entry.isFile() && entry.name.endsWith(EXTENSIONS.CSS))
+    .map((entry) => path.basename(entry.name, EXTENSIONS.CSS))
+    .sort();
+}
+
+/**
+ * Split a comma separated author list
+ */
+export function parseAuthors(value: string): string[] {
+  return value
+    .split(',')
+    .map((author) => author.trim())
+    .filter((author) => author.length > 0);
+}
+
+/**
+ * Validate a template name
+ */
+function resolveTemplate(template: string | undefined): ProjectTemplate {
+  const name = template ?? DEFAULT_TEMPLATE;
+  if (!(name in PROJECT_TEMPLATES)) {
+    throw new ConfigError(
+      `Unknown template "${name}"`,
+      `Available templates: ${Object.keys(PROJECT_TEMPLATES).join(', ')}`
+    );
+  }
+  return name as ProjectTemplate;
+}
+
+/**
+ * A directory is an existing project if it has a manifest or markdown files
+ */
+async function isExistingProject(directory: string): Promise<boolean> {
+  if (!(await isDirectory(directory))) {
+    return false;
+  }
+  if (await fileExists(path.join(directory, FILENAMES.MANIFEST))) {
+    return true;
+  }
+  const entries = await readDirectory(directory);
+  return entries.some((entry) => entry.isFile() && entry.name.endsWith(EXTENSIONS.MARKDOWN));
+}
+
+/**
+ * Read the template's own manifest, if it has one
+ *
+ * The template manifest is trusted input shipped with pagedmd, so it is
+ * parsed without schema validation (title/authors are replaced anyway).
+ */
+async function readTemplateManifest(templateDir: string): Promise<Manifest> {
+  const manifestPath = path.join(templateDir, FILENAMES.MANIFEST);
+  if (!(await fileExists(manifestPath))) {
+    return {};
+  }
+  const parsed = YAML.load(await readFile(manifestPath));
+  return parsed && typeof parsed === 'object' ? (parsed as Manifest) : {};
+}
+
+/**
+ * Find the bundled theme referenced in a styles list (themes/<name>.css)
+ */
+function findThemeInStyles(styles: string[] | undefined): string | undefined {
+  const themeStyle = styles?.find((style) => /^themes\/[\w-]+\.css$/.test(style));
+  return themeStyle ? path.basename(themeStyle, EXTENSIONS.CSS) : undefined;
+}
+
+/**
+ * Collect project stylesheets that exist after copying the template
+ *
+ * Keeps non-theme styles from the template manifest and adds top-level
+ * .css files (e.g. novel.css) so template styling is applied after the theme.
+ */
+async function findLocalStyles(directory: string, templateStyles: string[] | undefined): Promise<string[]> {
+  const styles: string[] = [];
+
+  for (const style of templateStyles ?? []) {
+    if (!style.startsWith('themes/') && (await fileExists(path.join(directory, style)))) {
+      styles.push(style);
+    }
+  }
+
+  const entries = await readDirectory(directory);
+  for (const entry of entries) {
+    if (entry.isFile() && entry.name.endsWith(EXTENSIONS.CSS) && !styles.includes(entry.name)) {
+      styles.push(entry.name);
+    }
+  }
+
+  return styles;
+}
+
+/**
+ * Serialize a manifest with the yaml-language-server schema modeline
+ */
+function renderManifest(manifest: Manifest): string {
+  const yamlOptions = { indent: 2, lineWidth: 80, noRefs: true };
+  return `# yaml-language-server: $schema=${MANIFEST_SCHEMA_URL}\n${YAML.dump(manifest, yamlOptions)}`;
+}
+
+/**
+ * Locate the bundled examples/ directory
+ * When running from dist/cli.js: examples/ is next to dist/
+ * When running from src/init/: examples/ is at the repository root
+ */
+function getTemplatesDir(): string {
+  const thisFileDir = import.meta.dir;
+  const fromDist = path.join(thisFileDir, '../examples');
+  return existsSync(fromDist) ? fromDist : path.join(thisFileDir, '../../examples');
+}
+
+/**
+ * Locate the bundled assets directory (same resolution as markdown.ts)
+ */
+function getAssetsDir(): string {
+  const thisFileDir = import.meta.dir;
+  const assetsInSameDir = path.join(thisFileDir, 'assets');
+  return existsSync(assetsInSameDir) ? assetsInSameDir : path.join(thisFileDir, '../assets');
+}
@@ -0,0 +1,45 @@
+/**
+ * Tests for @barcode placeholders
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { insertBarcodes } from './barcodes.ts';
+import { createMarkdownEngineWithPlugins } from './markdown.ts';
+import type { ProcessedArticle } from './markdown.ts';
+
+function article(slug: string, html: string): ProcessedArticle {
+  return { slug, html, frontMatter: {}, sourcePath: `${slug}.md` };
+}
+
+describe('@barcode directive', () => {
+  const md = createMarkdownEngineWithPlugins([]);
+
+  test('renders a placeholder with the optional price add-on', () => {
+    expect(md.render('<!-- @barcode -->\n')).toBe('<div class="isbn-barcode" data-directive="barcode"></div>\n');
+    expect(md.render('<!-- @barcode: 52495 -->\n')).toBe(
+      '<div class="isbn-barcode" data-directive="barcode" data-price-code="52495"></div>\n'
+    );
+    expect(() => md.render('<!-- @barcode: 2495 -->\n')).toThrow('Invalid barcode price add-on "2495"');
+  });
+});
+
+describe('insertBarcodes', () => {
+  test('fills placeholders with the manifest ISBN', () => {
+    const articles = [
+      article('copyright', '<div class="isbn-barcode" data-directive="barcode"></div>\n'),
+      article('back', '<div class="isbn-barcode" data-directive="barcode" data-price-code="52495"></div>\n'),
+    ];
+
+    const [copyright, back] = insertBarcodes(articles, { isbn: '978-3-16-148410-0', priceCode: '90000' });
+
+    expect(copyright?.html).toStartWith('<div class="isbn-barcode" data-directive="barcode"><svg ');
+    expect(copyright?.html).toContain('>90000</text>');
+    expect(back?.html).toContain('>52495</text>');
+  });
+
+  test('leaves placeholders empty without an ISBN', () => {
+    const articles = [article('copyright', '<div class="isbn-barcode" data-directive="barcode"></div>\n')];
+
+    expect(insertBarcodes(articles, {})).toEqual(articles);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * ISBN barcodes in the book
+ *
+ * The core directives plugin turns `<!-- @barcode -->` into an empty
+ * <div class="isbn-barcode"> placeholder (with `data-price-code` for
+ * `<!-- @barcode: 52495 -->`). Once every file is rendered, placeholders are
+ * filled with an EAN-13 SVG of `metadata.isbn`, so the barcode can sit on the
+ * copyright page or an in-book cover.
+ */
+
+import type { ProcessedArticle } from './markdown.ts';
+import type { ManifestMetadata } from '../types.ts';
+import { generateIsbnBarcode } from '../utils/barcode.ts';
+import { createLogger } from '../utils/logger.ts';
+
+const { warn } = createLogger('markdown');
+
+/**
+ * Placeholder emitted by the @barcode directive
+ * Captures the optional price add-on
+ */
+const BARCODE_PLACEHOLDER_REGEX = /<div class="isbn-barcode" data-directive="barcode"(?: data-price-code="(\d{5})")?><\/div>/g;
+
+/**
+ * Fill @barcode placeholders in rendered articles
+ *
+ * Without `metadata.isbn` the placeholders are left empty and a warning is
+ * logged.
+ *
+ * @param articles - Rendered articles in document order
+ * @param metadata - Manifest metadata (isbn and default priceCode)
+ * @returns Articles with placeholders replaced (unchanged if there are none)
+ */
+export function insertBarcodes(articles: ProcessedArticle[], metadata?: ManifestMetadata): ProcessedArticle[] {
+  if (!articles.some((article) => article.html.includes('data-directive="barcode"'))) {
+    return articles;
+  }
+
+  const isbn = metadata?.isbn;
+  if (!isbn) {
+    warn('<!-- @barcode --> needs metadata.isbn in manifest.yaml; the barcode was left empty');
+    return articles;
+  }
+
+  return articles.map((article) => ({
+    ...article,
+    html: article.html.replace(BARCODE_PLACEHOLDER_REGEX, (_match, priceCode: string | undefined) => {
+      const svg = generateIsbnBarcode(isbn, { priceCode: priceCode ?? metadata.priceCode });
+      return `<div class="isbn-barcode" data-directive="barcode">${svg}</div>`;
+    }),
+  }));
+}
@@ -0,0 +1,108 @@
+/**
+ * Tests for book file discovery and ordering
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { compareBookPaths, resolveBookFiles } from './book-files.ts';
+import { mkdir, remove, writeFile } from '../utils/file-utils.ts';
+
+describe('compareBookPaths', () => {
+  test('sorts numeric prefixes by value and part dividers first', () => {
+    const paths = ['10-appendix.md', 'part-2/01-a.md', '2-rules.md', 'part-1/02-b.md', 'part-1/_part.md', 'part-10/x.md'];
+
+    expect(paths.sort(compareBookPaths)).toEqual([
+      '2-rules.md',
+      '10-appendix.md',
+      'part-1/_part.md',
+      'part-1/02-b.md',
+      'part-2/01-a.md',
+      'part-10/x.md',
+    ]);
+  });
+});
+
+describe('resolveBookFiles', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(process.cwd(), '.tmp', `book-files-tests-${Date.now()}`);
+    for (const file of [
+      '00-preface.md',
+      'part-1/_part.md',
+      'part-1/01-intro.md',
+      'part-1/10-rules.md',
+      'part-1/2-setup.md',
+      'part-2/_part.md',
+      'part-2/01-intro.md',
+      'drafts/idea.md',
+      '.notes/todo.md',
+      'images/map.png',
+    ]) {
+      await mkdir(join(testDir, file, '..'));
+      await writeFile(join(testDir, file), '# File');
+    }
+  });
+
+  afterEach(async () => {
+    await remove(testDir);
+  });
+
+  test('discovers files recursively in reading order', async () => {
+    const { files, discovered } = await resolveBookFiles(testDir);
+
+    expect(discovered).toBe(true);
+    expect(files.map((file) => [file.relativePath, file.slug, file.part])).toEqual([
+      ['00-preface.md', '00-preface', false],
+      ['drafts/idea.md', 'idea', false],
+      ['part-1/_part.md', 'part-1', true],
+      ['part-1/01-intro.md', 'part-1-01-intro', false],
+      ['part-1/2-setup.md', '2-setup', false],
+      ['part-1/10-rules.md', '10-rules', false],
+      ['part-2/_part.md', 'part-2', true],
+      ['part-2/01-intro.md', 'part-2-01-intro', false],
+    ]);
+    expect(files[0]?.path).toBe(join(testDir, '00-preface.md'));
+  });
+
+  test('applies exclusions to discovered files', async () => {
+    const { files, discovered } = await resolveBookFiles(testDir, ['!drafts/**']);
+
+    expect(discovered).toBe(true);
+    expect(files.map((file) => file.relativePath)).not.toContain('drafts/idea.md');
+    expect(files).toHaveLength(7);
+  });
+
+  test('expands globs and keeps listed order', async () => {
+    const result = await resolveBookFiles(testDir, [
+      '00-preface.md',
+      'part-1/**/*.md',
+      '!part-1/10-*.md',
+      'part-1/01-intro.md',
+      'appendix/*.md',
+      'missing.md',
+    ]);
+
+    expect(result.files.map((file) => [file.relativePath, file.slug])).toEqual([
+      ['00-preface.md', '00-preface'],
+      ['part-1/_part.md', 'part-1'],
+      ['part-1/01-intro.md', '01-intro'],
+      ['part-1/2-setup.md', '2-setup'],
+    ]);
+    expect(result.missing).toEqual(['missing.md']);
+    expect(result.unmatched).toEqual(['appendix/*.md']);
+    expect(result.discovered).toBe(false);
+  });
+
+  test('resolves in-memory sources without reading the directory', async () => {
+    const sources = { 'b.md': '', 'a.md': '', 'part-1/_part.md': '', '.notes/todo.md': '', 'style.css': '' };
+
+    const discovered = await resolveBookFiles('/virtual/book', [], sources);
+    const listed = await resolveBookFiles('/virtual/book', ['part-1/*.md', 'b.md', 'missing.md'], sources);
+
+    expect(discovered.files.map((file) => file.relativePath)).toEqual(['a.md', 'b.md', 'part-1/_part.md']);
+    expect(discovered.files[0]?.path).toBe(join('/virtual/book', 'a.md'));
+    expect(listed.files.map((file) => file.relativePath)).toEqual(['part-1/_part.md', 'b.md']);
+    expect(listed.missing).toEqual(['missing.md']);
+  });
+});
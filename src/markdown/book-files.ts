@@ -0,0 +1,226 @@
+/**
+ * Book file discovery and ordering
+ *
+ * Without `manifest.files`, every `.md` file under the project directory is a
+ * chapter, found recursively (hidden folders and node_modules are skipped) and
+ * sorted naturally per path segment, so `2-rules.md` comes before
+ * `10-appendix.md` and `part-1/` before `part-2/`. A `_part.md` file comes
+ * first in its folder and renders as a part divider page.
+ *
+ * `manifest.files` entries may be paths or glob patterns (`chapters/*.md`,
+ * `part-[0-9]/**`; matches follow the same natural order), and entries
+ * starting with `!` exclude matching files; a list of only exclusions applies
+ * them to the discovered files.
+ *
+ * Article ids are the file name without `.md`. When two files share a name
+ * (`part-1/01-intro.md`, `part-2/01-intro.md`) the folder path is prefixed
+ * (`part-1-01-intro`); part dividers take the folder's id (`part-1`).
+ */
+
+import path from 'path';
+import { readDirectory } from '../utils/file-utils.ts';
+import { EXTENSIONS } from '../constants.ts';
+import { sourceExists, type BookSources } from './sources.ts';
+
+/**
+ * Part divider file name
+ */
+export const PART_FILE = '_part.md';
+
+/**
+ * A markdown file of the book, in reading order
+ */
+export interface BookFile {
+  /** Absolute path */
+  path: string;
+  /** Path relative to the project directory, with forward slashes */
+  relativePath: string;
+  /** Article id */
+  slug: string;
+  /** Part divider page (`_part.md`) */
+  part: boolean;
+}
+
+/**
+ * Resolved book files plus manifest.files entries that found nothing
+ */
+export interface BookFileResolution {
+  files: BookFile[];
+  /** Listed paths that do not exist */
+  missing: string[];
+  /** Glob patterns that matched no markdown files */
+  unmatched: string[];
+  /** Files were discovered (no manifest.files paths or patterns, only exclusions if any) */
+  discovered: boolean;
+}
+
+/**
+ * Resolve the markdown files of a project directory in reading order
+ *
+ * @param rootDir - Project directory
+ * @param entries - manifest.files entries (paths, globs and `!` exclusions)
+ * @param sources - In-memory files to resolve instead of the directory (see sources.ts)
+ * @returns Files in reading order, with missing paths and unmatched patterns
+ */
+export async function resolveBookFiles(
+  rootDir: string,
+  entries: string[] = [],
+  sources?: BookSources
+): Promise<BookFileResolution> {
+  const includes = entries.filter((entry) => !entry.startsWith('!'));
+  const excludes = entries.filter((entry) => entry.startsWith('!')).map((entry) => new Bun.Glob(toPosix(entry.slice(1))));
+  const missing: string[] = [];
+  const unmatched: string[] = [];
+
+  let relativePaths: string[];
+  if (includes.length === 0) {
+    relativePaths = sources
+      ? Object.keys(sources).filter(isChapterPath).sort(compareBookPaths)
+      : await discoverMarkdownFiles(rootDir);
+  } else {
+    relativePaths = [];
+    for (const entry of includes) {
+      if (isGlobPattern(entry)) {
+        const matches = sources
+          ? matchSources(sources, toPosix(entry))
+          : await scanMarkdownFiles(rootDir, toPosix(entry));
+        if (matches.length === 0) unmatched.push(entry);
+        relativePaths.push(...matches);
+      } else if (await sourceExists(path.join(rootDir, entry), rootDir, sources)) {
+        relativePaths.push(toPosix(entry));
+      } else {
+        missing.push(entry);
+      }
+    }
+  }
+
+  const ordered = [...new Set(relativePaths)].filter((file) => !excludes.some((glob) => glob.match(file)));
+  return { files: assignSlugs(rootDir, ordered), missing, unmatched, discovered: includes.length === 0 };
+}
+
+/**
+ * Compare names naturally: digit runs by value, letters case-insensitively
+ */
+export function compareNatural(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }) || a.localeCompare(b);
+}
+
+/**
+ * Compare relative paths in reading order
+ *
+ * Segments are compared naturally without the `.md` extension; `_part.md`
+ * sorts first in its folder.
+ */
+export function compareBookPaths(a: string, b: string): number {
+  const aSegments = a.split('/');
+  const bSegments = b.split('/');
+
+  for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+    const aSegment = aSegments[i] ?? '';
+    const bSegment = bSegments[i] ?? '';
+    if (aSegment === bSegment) continue;
+
+    if (aSegment === PART_FILE && i === aSegments.length - 1) return -1;
+    if (bSegment === PART_FILE && i === bSegments.length - 1) return 1;
+    return compareNatural(stripExtension(aSegment), stripExtension(bSegment)) || compareNatural(aSegment, bSegment);
+  }
+  return aSegments.length - bSegments.length;
+}
+
+/**
+ * Find all markdown files under a directory, in reading order
+ */
+async function discoverMarkdownFiles(rootDir: string, prefix = ''): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readDirectory(path.join(rootDir, prefix))) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!isSkippedDirectory(entry.name)) {
+        files.push(...(await discoverMarkdownFiles(rootDir, relativePath)));
+      }
+    } else if (entry.isFile() && entry.name.endsWith(EXTENSIONS.MARKDOWN)) {
+      files.push(relativePath);
+    }
+  }
+  return prefix ? files : files.sort(compareBookPaths);
+}
+
+/**
+ * Markdown files matching a glob pattern, in reading order
+ */
+async function scanMarkdownFiles(rootDir: string, pattern: string): Promise<string[]> {
+  const matches: string[] = [];
+  for await (const file of new Bun.Glob(pattern).scan({ cwd: rootDir, onlyFiles: true })) {
+    const relativePath = toPosix(file);
+    if (isChapterPath(relativePath)) {
+      matches.push(relativePath);
+    }
+  }
+  return matches.sort(compareBookPaths);
+}
+
+/**
+ * In-memory markdown files matching a glob pattern, in reading order
+ */
+function matchSources(sources: BookSources, pattern: string): string[] {
+  const glob = new Bun.Glob(pattern);
+  return Object.keys(sources)
+    .filter((file) => isChapterPath(file) && glob.match(file))
+    .sort(compareBookPaths);
+}
+
+/**
+ * Whether a relative path is a markdown file outside skipped folders
+ */
+function isChapterPath(relativePath: string): boolean {
+  return relativePath.endsWith(EXTENSIONS.MARKDOWN) && !relativePath.split('/').some(isSkippedDirectory);
+}
+
+/**
+ * Give each file its article id, prefixing the folder path only where file names repeat
+ */
+function assignSlugs(rootDir: string, relativePaths: string[]): BookFile[] {
+  const names = relativePaths.map((file) => stripExtension(path.posix.basename(file)));
+  const repeated = new Set(names.filter((name, i) => names.indexOf(name) !== i));
+
+  return relativePaths.map((relativePath, i) => {
+    const part = path.posix.basename(relativePath) === PART_FILE;
+    const folder = path.posix.dirname(relativePath);
+    const name = names[i] ?? '';
+    let slug: string;
+    if (part) {
+      slug = folder === '.' ? 'part' : folder.replace(/\//g, '-');
+    } else {
+      slug = repeated.has(name) ? stripExtension(relativePath).replace(/\//g, '-') : name;
+    }
+    return { path: path.join(rootDir, relativePath), relativePath, slug, part };
+  });
+}
+
+/**
+ * Folders never searched for chapters
+ */
+function isSkippedDirectory(name: string): boolean {
+  return name.startsWith('.') || name === 'node_modules';
+}
+
+/**
+ * Whether a manifest.files entry is a glob pattern
+ */
+function isGlobPattern(entry: string): boolean {
+  return /[*?[\]{}]/.test(entry);
+}
+
+/**
+ * Normalize a relative path to forward slashes without a leading ./
+ */
+function toPosix(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * File name without the .md extension
+ */
+function stripExtension(name: string): string {
+  return name.endsWith(EXTENSIONS.MARKDOWN) ? name.slice(0, -EXTENSIONS.MARKDOWN.length) : name;
+}
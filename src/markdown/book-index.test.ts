@@ -0,0 +1,102 @@
+/**
+ * Tests for back-of-book index generation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { buildIndex, insertIndex, renderIndex } from './book-index.ts';
+import { createMarkdownEngineWithPlugins } from './markdown.ts';
+import type { ProcessedArticle } from './markdown.ts';
+
+function marker(id: string, term: string): string {
+  return `<span class="index-marker" id="${id}" data-index-term="${term}"></span>`;
+}
+
+function article(slug: string, html: string): ProcessedArticle {
+  return { slug, html, frontMatter: {}, sourcePath: `${slug}.md` };
+}
+
+describe('index markers', () => {
+  const md = createMarkdownEngineWithPlugins([]);
+
+  test('renders invisible anchored markers with book-wide ids', () => {
+    const html = md.render('Roll for {^Initiative} at the start of {^Combat!Initiative}.', { slug: 'rules' });
+
+    expect(html).toContain('Roll for <span class="index-marker" id="idx-rules-1" data-index-term="Initiative"></span> at');
+    expect(html).toContain('<span class="index-marker" id="idx-rules-2" data-index-term="Combat!Initiative"></span>.');
+  });
+
+  test('leaves other braces alone', () => {
+    const html = md.render('Plain {braces} and {^} stay', { slug: 'x' });
+
+    expect(html).toContain('Plain {braces} and {^} stay');
+    expect(html).not.toContain('index-marker');
+  });
+
+  test('renders the @index placeholder', () => {
+    expect(md.render('<!-- @index -->\n')).toContain('<section class="book-index" data-directive="index"></section>');
+  });
+});
+
+describe('buildIndex', () => {
+  test('groups, sorts and merges terms across articles', () => {
+    const groups = buildIndex([
+      article('a', marker('idx-a-1', 'Initiative') + marker('idx-a-2', 'combat!Surprise')),
+      article('b', marker('idx-b-1', 'Combat!Initiative') + marker('idx-b-2', 'Armor') + marker('idx-b-3', '10-foot pole')),
+      article('c', marker('idx-c-1', 'Combat') + marker('idx-c-2', 'initiative')),
+    ]);
+
+    expect(groups.map((group) => group.letter)).toEqual(['#', 'A', 'C', 'I']);
+    expect(groups[2]?.entries).toEqual([
+      {
+        term: 'combat',
+        refs: ['idx-c-1'],
+        subentries: [
+          { term: 'Initiative', refs: ['idx-b-1'], subentries: [] },
+          { term: 'Surprise', refs: ['idx-a-2'], subentries: [] },
+        ],
+      },
+    ]);
+    expect(groups[3]?.entries[0]?.refs).toEqual(['idx-a-1', 'idx-c-2']);
+  });
+});
+
+describe('renderIndex', () => {
+  test('renders page reference links and nested sub-entries', () => {
+    const html = renderIndex([
+      {
+        letter: 'C',
+        entries: [
+          {
+            term: 'Combat',
+            refs: ['idx-a-1', 'idx-b-4'],
+            subentries: [{ term: 'Initiative', refs: ['idx-a-2'], subentries: [] }],
+          },
+        ],
+      },
+    ]);
+
+    expect(html).toContain('<h2 class="index-letter no-toc">C</h2>');
+    expect(html).toContain(
+      '<li class="index-entry"><span class="index-term">Combat</span> <span class="index-refs"><a class="index-ref" href="#idx-a-1"></a>, <a class="index-ref" href="#idx-b-4"></a></span><ul class="index-subentries"><li class="index-entry"><span class="index-term">Initiative</span> <span class="index-refs"><a class="index-ref" href="#idx-a-2"></a></span></li></ul></li>'
+    );
+  });
+});
+
+describe('insertIndex', () => {
+  test('replaces the placeholder and keeps other articles', () => {
+    const articles = [
+      article('rules', `<p>Text${marker('idx-rules-1', 'Dice')}</p>`),
+      article('index', '<section class="book-index" data-directive="index"></section>\n'),
+    ];
+
+    const result = insertIndex(articles);
+
+    expect(result[0]).toEqual(articles[0] as ProcessedArticle);
+    expect(result[1]?.html).toContain('<a class="index-ref" href="#idx-rules-1"></a>');
+  });
+
+  test('returns articles unchanged without a placeholder', () => {
+    const articles = [article('rules', marker('idx-rules-1', 'Dice'))];
+    expect(insertIndex(articles)).toBe(articles);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Back-of-book index
+ *
+ * Inline `{^Term}` / `{^Term!Subterm}` markers render as empty
+ * <span class="index-marker"> anchors (core-directives-plugin.ts). Once every
+ * file is rendered, markers are collected across all articles and the
+ * `<!-- @index -->` placeholder is filled with an alphabetical index grouped
+ * by first letter. Page numbers come from CSS `target-counter()` on links to
+ * the markers, and the index uses the `glossary` page template.
+ */
+
+import type { ProcessedArticle } from './markdown.ts';
+
+/**
+ * Placeholder emitted by the @index directive
+ */
+const INDEX_PLACEHOLDER = '<section class="book-index" data-directive="index"></section>';
+
+/**
+ * Index marker rendered by the core directives plugin
+ */
+const INDEX_MARKER_REGEX = /<span class="index-marker" id="([^"]+)" data-index-term="([^"]*)"><\/span>/g;
+
+/**
+ * Index entry with its marker references and sub-entries
+ */
+export interface IndexEntry {
+  /** Display term (HTML-escaped, as written in the first marker) */
+  term: string;
+  /** Marker ids referencing this term directly */
+  refs: string[];
+  /** Sub-entries (from Term!Subterm markers), sorted */
+  subentries: IndexEntry[];
+}
+
+/**
+ * Entries that share a first letter
+ */
+export interface IndexGroup {
+  /** Uppercase letter, or "#" for numbers and symbols */
+  letter: string;
+  entries: IndexEntry[];
+}
+
+/**
+ * Fill @index placeholders in rendered articles
+ *
+ * @param articles - Rendered articles in document order
+ * @returns Articles with placeholders replaced (unchanged if there are none)
+ */
+export function insertIndex(articles: ProcessedArticle[]): ProcessedArticle[] {
+  if (!articles.some((article) => article.html.includes(INDEX_PLACEHOLDER))) {
+    return articles;
+  }
+
+  const indexHtml = renderIndex(buildIndex(articles));
+  return articles.map((article) => ({
+    ...article,
+    html: article.html.split(INDEX_PLACEHOLDER).join(indexHtml),
+  }));
+}
+
+/**
+ * Collect index markers from all articles into sorted letter groups
+ *
+ * Terms are merged case-insensitively; the first spelling wins.
+ */
+export function buildIndex(articles: ProcessedArticle[]): IndexGroup[] {
+  const entries = new Map<string, IndexEntry>();
+
+  for (const article of articles) {
+    for (const match of article.html.matchAll(INDEX_MARKER_REGEX)) {
+      const id = match[1] ?? '';
+      const [mainTerm = '', ...rest] = (match[2] ?? '').split('!');
+      const main = getOrCreateEntry(entries, mainTerm.trim());
+
+      if (rest.length === 0) {
+        main.refs.push(id);
+      } else {
+        const subterm = rest.join('!').trim();
+        const existing = main.subentries.find((sub) => sortKey(sub.term) === sortKey(subterm));
+        if (existing) {
+          existing.refs.push(id);
+        } else {
+          main.subentries.push({ term: subterm, refs: [id], subentries: [] });
+        }
+      }
+    }
+  }
+
+  const groups = new Map<string, IndexEntry[]>();
+  for (const entry of [...entries.values()].sort(compareEntries)) {
+    entry.subentries.sort(compareEntries);
+    const letter = getIndexLetter(entry.term);
+    groups.set(letter, [...(groups.get(letter) ?? []), entry]);
+  }
+
+  return [...groups].map(([letter, groupEntries]) => ({ letter, entries: groupEntries }));
+}
+
+/**
+ * Render letter groups as the index section
+ */
+export function renderIndex(groups: IndexGroup[]): string {
+  const body = groups
+    .map(
+      (group) =>
+        `<div class="index-group">\n<h2 class="index-letter no-toc">${group.letter}</h2>\n` +
+        `<ul class="index-entries">${group.entries.map(renderEntry).join('')}</ul>\n</div>`
+    )
+    .join('\n');
+
+  return `<section class="book-index" data-directive="index">\n${body}\n</section>`;
+}
+
+/**
+ * Render one entry with page references and nested sub-entries
+ */
+function renderEntry(entry: IndexEntry): string {
+  const refs = entry.refs.map((id) => `<a class="index-ref" href="#${id}"></a>`).join(', ');
+  const refsHtml = refs ? ` <span class="index-refs">${refs}</span>` : '';
+  const subentries =
+    entry.subentries.length > 0 ? `<ul class="index-subentries">${entry.subentries.map(renderEntry).join('')}</ul>` : '';
+
+  return `<li class="index-entry"><span class="index-term">${entry.term}</span>${refsHtml}${subentries}</li>`;
+}
+
+/**
+ * Find or add a top-level entry by case-insensitive term
+ */
+function getOrCreateEntry(entries: Map<string, IndexEntry>, term: string): IndexEntry {
+  const key = sortKey(term);
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { term, refs: [], subentries: [] };
+    entries.set(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Sort entries alphabetically, ignoring case and accents
+ */
+function compareEntries(a: IndexEntry, b: IndexEntry): number {
+  return a.term.localeCompare(b.term, undefined, { sensitivity: 'base', numeric: true });
+}
+
+/**
+ * Normalized term used for merging entries
+ */
+function sortKey(term: string): string {
+  return term.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Group letter for a term ("#" for digits and symbols)
+ */
+function getIndexLetter(term: string): string {
+  const first = sortKey(term).replace(/^&(amp|lt|gt|quot);/, '#').charAt(0).toUpperCase();
+  return /\p{L}/u.test(first) ? first : '#';
+}
@@ -14,29 +14,66 @@
  * - <!-- @break --> - Create page break
  * - <!-- @spread: left|right|blank --> - Force page spread
  * - <!-- @columns: 1|2|3 --> - Set column layout
+ * - <!-- @toc --> or <!-- @toc: depth --> - Table of contents placeholder (filled by toc.ts)
+ * - <!-- @index --> - Back-of-book index placeholder (filled by book-index.ts)
+ * - <!-- @list-of-figures --> / <!-- @list-of-tables --> - Figure and table list placeholders (filled by figures.ts)
+ * - <!-- @barcode --> or <!-- @barcode: 52495 --> - ISBN barcode placeholder with optional price add-on (filled by barcodes.ts)
+ * - <!-- @include: file.md --> or <!-- @include: file.md#section --> - Transclusion (expanded before rendering by includes.ts)
+ * - <!-- @if: condition --> ... <!-- @else --> ... <!-- @endif --> - Conditional content (see template-variables.ts)
+ *
+ * Inline syntax:
+ * - {^Term} or {^Term!Subterm} - Invisible index marker
+ * - {{ name }} or {{ metadata.isbn }} - Template variable from env.variables
  *
  * This plugin uses a core rule to process tokens after parsing but before rendering.
+ * Conditionals are evaluated right after block parsing, so dropped content is
+ * never inline-parsed. Index markers and template variables use inline rules so
+ * they are tokenized before other plugins (such as markdown-it-attrs) see the braces.
  */
 
 import type MarkdownIt from 'markdown-it';
 import type StateCore from 'markdown-it/lib/rules_core/state_core.mjs';
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline.mjs';
 import type Token from 'markdown-it/lib/token.mjs';
 import TokenClass from 'markdown-it/lib/token.mjs';
 import type { DirectiveType, PageTemplateName } from '../../types.ts';
-import { warn } from '../../utils/logger.ts';
+import { createLogger } from '../../utils/logger.ts';
+import { evaluateCondition, formatVariable, lookupVariable } from '../template-variables.ts';
+import type { TemplateVariables } from '../template-variables.ts';
+import { toSourceLine } from './source-lines.ts';
+
+const logger = createLogger('markdown');
 
 /**
  * Regular expression to match directive HTML comments
  * Matches: <!-- @directive --> or <!-- @directive: value -->
- * Value can include letters, numbers, hyphens, and underscores
+ * Names and values can include letters, numbers, hyphens, and underscores
+ */
+const DIRECTIVE_REGEX = /<!--\s*@([\w-]+)(?::\s*([\w-]+))?\s*-->/;
+
+/**
+ * Regular expression to match include directives
+ * Matches: <!-- @include: path/to/file.md --> or <!-- @include: file.md#section-id -->
  */
-const DIRECTIVE_REGEX = /<!--\s*@(\w+)(?::\s*([\w-]+))?\s*-->/;
+const INCLUDE_REGEX = /^<!--\s*@include:\s*([^\s#]+)(?:#([\w-]+))?\s*-->\s*$/;
+
+/**
+ * Regular expression to match conditional directives on their own line
+ * Matches: <!-- @if: condition -->, <!-- @else -->, <!-- @endif -->
+ */
+const CONDITIONAL_REGEX = /^<!--\s*@(if|else|endif)\b(?::\s*([\s\S]*?))?\s*-->\s*$/;
+
+/**
+ * Regular expression to match a template variable at the start of input
+ * Matches: {{ name }} or {{ metadata.isbn }}
+ */
+const TEMPLATE_VARIABLE_REGEX = /^\{\{\s*([A-Za-z_][\w-]*(?:\.[A-Za-z_][\w-]*)*)\s*\}\}/;
 
 /**
  * Valid page template names
  * Includes both universal templates and common book sections
  */
-const VALID_TEMPLATES: PageTemplateName[] = [
+export const VALID_TEMPLATES: PageTemplateName[] = [
     'chapter', 'art', 'body', 'appendix', 'frontmatter',
     'cover', 'title-page', 'credits', 'toc', 'glossary', 'blank'
 ];
@@ -115,8 +152,9 @@ function levenshteinDistance(a: string, b: string): number {
 
 /**
  * Find closest match from a list of valid options
+ * Used for "did you mean" suggestions (max 2 edits)
  */
-function findClosestMatch(input: string, validOptions: readonly string[]): string | null {
+export function findClosestMatch(input: string, validOptions: readonly string[]): string | null {
     let closestMatch: string | null = null;
     let minDistance = Infinity;
 
@@ -131,11 +169,45 @@ function findClosestMatch(input: string, validOptions: readonly string[]): strin
     return closestMatch;
 }
 
+/**
+ * Parse an include directive from HTML comment content
+ * Returns null if the content is not an include directive
+ */
+export function parseIncludeDirective(content: string): { path: string; section: string | null } | null {
+    const match = content.trim().match(INCLUDE_REGEX);
+    if (!match?.[1]) return null;
+    return { path: match[1], section: match[2] ?? null };
+}
+
 /**
  * Parse a directive from HTML comment content
  * Returns null if not a directive or if invalid
+ *
+ * @param onWarning - Receives warnings for ignored and unknown directives
  */
-function parseDirective(content: string): { type: DirectiveType; value: string | number | null } | null {
+function parseDirective(
+    content: string,
+    onWarning: (message: string) => void
+): { type: DirectiveType; value: string | number | null } | null {
+    // Top-level includes are expanded before rendering; any left over are nested
+    const include = parseIncludeDirective(content);
+    if (include) {
+        onWarning(
+            `Ignoring "@include: ${include.path}" inside a list or blockquote.\n` +
+            `Includes must start at the beginning of a line, outside other blocks.`
+        );
+        return null;
+    }
+
+    // Block conditionals are removed by applyConditionals; any left over are inline
+    const conditional = content.match(/<!--\s*@(if|else|endif)\b/);
+    if (conditional) {
+        throw new Error(
+            `@${conditional[1]} must be on its own line, outside paragraphs.\n` +
+            `Usage: <!-- @if: edition == "gm" --> ... <!-- @else --> ... <!-- @endif -->`
+        );
+    }
+
     const match = content.match(DIRECTIVE_REGEX);
     if (!match) return null;
 
@@ -208,12 +280,44 @@ function parseDirective(content: string): { type: DirectiveType; value: string |
             }
             return { type: 'columns', value: columnCount };
 
+        case 'toc':
+            if (value && !/^[1-6]$/.test(value)) {
+                throw new Error(
+                    `Invalid table of contents depth "${value}".\n` +
+                    `Usage: <!-- @toc --> or <!-- @toc: depth -->\n` +
+                    `Valid depths: 1-6\n` +
+                    `Example: <!-- @toc: 2 -->`
+                );
+            }
+            return { type: 'toc', value: value ? parseInt(value, 10) : null };
+
+        case 'index':
+            return { type: 'index', value: null };
+
+        case 'list-of-figures':
+        case 'list-of-tables':
+            return { type, value: null };
+
+        case 'barcode':
+            if (value && !/^\d{5}$/.test(value)) {
+                throw new Error(
+                    `Invalid barcode price add-on "${value}".\n` +
+                    `Usage: <!-- @barcode --> or <!-- @barcode: price-code -->\n` +
+                    `The price add-on is 5 digits: currency then price (52495 = US$24.95, 90000 = no price)\n` +
+                    `Example: <!-- @barcode: 52495 -->`
+                );
+            }
+            return { type: 'barcode', value };
+
         default:
             // Unknown directive type - warn with helpful message
-            const validDirectives = ['page', 'break', 'spread', 'columns'];
+            const validDirectives = [
+                'page', 'break', 'spread', 'columns', 'toc', 'index', 'list-of-figures', 'list-of-tables',
+                'barcode', 'include', 'if', 'else', 'endif'
+            ];
             const suggestion = findClosestMatch(type, validDirectives);
             const didYouMean = suggestion ? ` Did you mean "@${suggestion}"?` : '';
-            warn(
+            onWarning(
                 `Unknown directive "@${type}".${didYouMean}\n` +
                 `Valid directives: ${validDirectives.map(d => `@${d}`).join(', ')}\n` +
                 `See docs/markdown-style-guide.md for usage examples.`
@@ -222,6 +326,44 @@ function parseDirective(content: string): { type: DirectiveType; value: string |
     }
 }
 
+/**
+ * Invalid or unknown directive found by checkDirectives
+ */
+export interface DirectiveProblem {
+    /** 0-based line in the parsed source (token.map), null if unknown */
+    line: number | null;
+    severity: 'error' | 'warning';
+    /** Message with usage and suggestions on the following lines */
+    message: string;
+}
+
+/**
+ * Validate every directive in parsed block tokens without rendering
+ *
+ * Used by `pagedmd check` to collect all invalid and unknown directives of a
+ * file instead of stopping at the first. Conditionals are skipped; their
+ * nesting is checked by applyConditionals when the file is rendered.
+ *
+ * @param tokens - Tokens from md.parse()
+ * @returns Problems in document order
+ */
+export function checkDirectives(tokens: Token[]): DirectiveProblem[] {
+    const problems: DirectiveProblem[] = [];
+
+    for (const token of tokens) {
+        if (token.type !== 'html_block' || CONDITIONAL_REGEX.test(token.content.trim())) continue;
+
+        const line = token.map?.[0] ?? null;
+        try {
+            parseDirective(token.content, (message) => problems.push({ line, severity: 'warning', message }));
+        } catch (error) {
+            problems.push({ line, severity: 'error', message: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    return problems;
+}
+
 /**
  * Create a marker div for a directive
  * These are minimal, invisible elements that carry data attributes for CSS
@@ -244,6 +386,27 @@ function createMarkerDiv(type: DirectiveType, value: string | number | null): st
         case 'columns':
             return `<div class="directive-marker" data-columns="${value}" style="${baseStyle}"></div>\n`;
 
+        case 'toc':
+            // Placeholder filled once all files are rendered (headings span articles)
+            return value
+                ? `<nav class="toc" data-directive="toc" data-depth="${value}"></nav>\n`
+                : '<nav class="toc" data-directive="toc"></nav>\n';
+
+        case 'index':
+            // Placeholder filled once all files are rendered (markers span articles)
+            return '<section class="book-index" data-directive="index"></section>\n';
+
+        case 'list-of-figures':
+        case 'list-of-tables':
+            // Placeholder filled once all files are rendered (figures span articles)
+            return `<nav class="figure-list" data-directive="${type}"></nav>\n`;
+
+        case 'barcode':
+            // Placeholder filled with the manifest ISBN once all files are rendered
+            return value
+                ? `<div class="isbn-barcode" data-directive="barcode" data-price-code="${value}"></div>\n`
+                : '<div class="isbn-barcode" data-directive="barcode"></div>\n';
+
         default:
             return '';
     }
@@ -454,8 +617,9 @@ function applyAutoRules(state: StateCore): boolean {
         // Parse explicit directives from HTML comments FIRST
         // This must happen before auto-rules so hasExplicitDirectiveNearby works correctly
         if (token.type === 'html_block' || token.type === 'html_inline') {
+            const location = getTokenLocation(state, token);
             try {
-                const directive = parseDirective(token.content);
+                const directive = parseDirective(token.content, (message) => logger.warn(message, location));
                 if (directive) {
                     // Replace the HTML comment with a marker div
                     token.content = createMarkerDiv(directive.type, directive.value);
@@ -463,7 +627,7 @@ function applyAutoRules(state: StateCore): boolean {
             } catch (error) {
                 // Validation errors - throw with helpful message
                 if (error instanceof Error) {
-                    throw new Error(`Directive parsing error at line ${token.map?.[0] ?? 'unknown'}: ${error.message}`);
+                    throw new Error(`Directive parsing error at line ${location.line ?? 'unknown'}: ${error.message}`);
                 }
                 throw error;
             }
@@ -525,6 +689,245 @@ function applyAutoRules(state: StateCore): boolean {
     return true;
 }
 
+/**
+ * Read template variables from the render env
+ */
+function getTemplateVariables(state: StateCore): TemplateVariables {
+    const env = state.env as { variables?: unknown } | undefined;
+    return env?.variables && typeof env.variables === 'object' ? env.variables as TemplateVariables : {};
+}
+
+/**
+ * Source file (absolute path) and 1-based line of a block token, for log fields
+ *
+ * The file comes from the render env (the article with env.slug in env.files);
+ * inline tokens have no line.
+ */
+function getTokenLocation(state: StateCore, token: Token): { file?: string; line: number | null } {
+    const env = state.env as { slug?: unknown; files?: unknown } | undefined;
+    const files = Array.isArray(env?.files) ? env.files as Array<{ slug: string; path: string }> : [];
+    const file = files.find((bookFile) => bookFile.slug === env?.slug)?.path;
+    const line = token.map ? toSourceLine(state.env, token.map[0]) : null;
+    return file ? { file, line } : { line };
+}
+
+/**
+ * Open @if block while evaluating conditionals
+ */
+interface ConditionalBlock {
+    /** 1-based file line of the @if */
+    line: number;
+    /** Enclosing block token (list item, blockquote, ...), null at top level */
+    parent: Token | null;
+    /** Whether the current branch is kept */
+    active: boolean;
+    hasElse: boolean;
+}
+
+/**
+ * Core rule that keeps or drops content between @if / @else / @endif
+ *
+ * Runs after block parsing. Directives must be html blocks inside the same
+ * parent block (top level, or the same list item or blockquote), so dropping
+ * the tokens between them always leaves a balanced token stream.
+ */
+function applyConditionals(state: StateCore): boolean {
+    if (!/<!--\s*@(if|else|endif)\b/.test(state.src)) return true;
+
+    const variables = getTemplateVariables(state);
+    const open: ConditionalBlock[] = [];
+    const parents: Token[] = [];
+    const kept: Token[] = [];
+
+    for (const token of state.tokens) {
+        const match = token.type === 'html_block' ? token.content.match(CONDITIONAL_REGEX) : null;
+        if (!match) {
+            if (open.every((block) => block.active)) kept.push(token);
+            if (token.nesting === 1) parents.push(token);
+            if (token.nesting === -1) parents.pop();
+            continue;
+        }
+
+        const [, keyword, condition] = match;
+        const line = toSourceLine(state.env, token.map?.[0] ?? 0);
+        const parent = parents[parents.length - 1] ?? null;
+        const current = open[open.length - 1];
+
+        try {
+            if (keyword === 'if') {
+                if (!condition) {
+                    throw new Error(
+                        `@if directive requires a condition.\n` +
+                        `Usage: <!-- @if: condition -->\n` +
+                        `Example: <!-- @if: edition == "gm" -->`
+                    );
+                }
+                const undefinedNames = new Set<string>();
+                const active = evaluateCondition(condition, variables, (name) => undefinedNames.add(name));
+                open.push({ line, parent, active, hasElse: false });
+                // Marks undefined names for reportUndefinedVariables(), like {{ name }} placeholders
+                for (const name of undefinedNames) {
+                    const marker = new TokenClass('html_block', '', 0);
+                    marker.content = `<span class="template-variable-undefined" data-variable="${name}"` +
+                        ` data-source-line="${line}" data-condition></span>\n`;
+                    kept.push(marker);
+                }
+                continue;
+            }
+
+            if (!current || current.parent !== parent) {
+                const hint = current ? ` (the @if at line ${current.line} is in a different block)` : '';
+                throw new Error(`@${keyword} without a matching <!-- @if: condition -->${hint}`);
+            }
+            if (keyword === 'else') {
+                if (current.hasElse) {
+                    throw new Error(`Second @else for the @if at line ${current.line}`);
+                }
+                current.active = !current.active;
+                current.hasElse = true;
+            } else {
+                open.pop();
+            }
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Directive parsing error at line ${line}: ${error.message}`);
+            }
+            throw error;
+        }
+    }
+
+    const unclosed = open[open.length - 1];
+    if (unclosed) {
+        throw new Error(`Directive parsing error at line ${unclosed.line}: @if without a matching <!-- @endif -->`);
+    }
+
+    state.tokens = kept;
+    return true;
+}
+
+/**
+ * Parse a template variable: {{ name }} or {{ metadata.isbn }}
+ */
+function parseTemplateVariable(state: StateInline, silent: boolean): boolean {
+    const start = state.pos;
+
+    // Check for {{
+    if (state.src.charCodeAt(start) !== 0x7b /* { */) return false;
+    if (state.src.charCodeAt(start + 1) !== 0x7b /* { */) return false;
+
+    const match = state.src.slice(start, state.posMax).match(TEMPLATE_VARIABLE_REGEX);
+    if (!match?.[1]) return false;
+
+    if (!silent) {
+        const token = state.push('template_variable', 'span', 0);
+        token.content = match[1];
+    }
+
+    state.pos = start + match[0].length;
+    return true;
+}
+
+/**
+ * Core rule that replaces template variables with their values
+ *
+ * Defined variables become plain text, so later rules (anchors, attrs,
+ * typographer) see the value. Undefined ones keep their token and record
+ * their 1-based file line for reportUndefinedVariables().
+ */
+function resolveTemplateVariables(state: StateCore): boolean {
+    if (!state.src.includes('{{')) return true;
+
+    const variables = getTemplateVariables(state);
+
+    for (const blockToken of state.tokens) {
+        if (blockToken.type !== 'inline' || !blockToken.map || !blockToken.children) continue;
+
+        let line = blockToken.map[0];
+        for (const child of blockToken.children) {
+            if (child.type === 'softbreak' || child.type === 'hardbreak') {
+                line++;
+            } else if (child.type === 'template_variable') {
+                const value = formatVariable(lookupVariable(variables, child.content));
+                if (value !== undefined) {
+                    child.type = 'text';
+                    child.tag = '';
+                    child.content = value;
+                } else {
+                    child.attrSet('data-source-line', String(toSourceLine(state.env, line)));
+                }
+            }
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Render an undefined template variable as visible, marked placeholder text
+ */
+function renderTemplateVariable(tokens: Token[], idx: number): string {
+    const token = tokens[idx];
+    if (!token) return '';
+
+    const line = token.attrGet('data-source-line');
+    return `<span class="template-variable-undefined" data-variable="${token.content}"` +
+        `${line ? ` data-source-line="${line}"` : ''}>{{ ${token.content} }}</span>`;
+}
+
+/**
+ * Per-render index marker counters, keyed by the markdown-it env object
+ */
+const indexMarkerCounts = new WeakMap<object, number>();
+
+/**
+ * Parse an index marker: {^Term} or {^Term!Subterm}
+ */
+function parseIndexMarker(state: StateInline, silent: boolean): boolean {
+    const start = state.pos;
+    const max = state.posMax;
+
+    // Check for {^
+    if (state.src.charCodeAt(start) !== 0x7b /* { */) return false;
+    if (start + 1 >= max || state.src.charCodeAt(start + 1) !== 0x5e /* ^ */) return false;
+
+    const end = state.src.indexOf('}', start + 2);
+    if (end === -1 || end >= max) return false;
+
+    const term = state.src.slice(start + 2, end).trim();
+    if (!term || term.startsWith('!') || term.endsWith('!')) return false;
+
+    if (!silent) {
+        const token = state.push('index_marker', 'span', 0);
+        token.content = term;
+    }
+
+    state.pos = end + 1;
+    return true;
+}
+
+/**
+ * Render an index marker as an empty anchor target
+ *
+ * Ids combine the article slug (from env) with a per-file counter so they
+ * stay unique across the whole book.
+ */
+function renderIndexMarker(tokens: Token[], idx: number, _options: unknown, env: unknown): string {
+    const token = tokens[idx];
+    if (!token) return '';
+
+    const renderEnv = (env && typeof env === 'object' ? env : {}) as { slug?: unknown };
+    const slug = typeof renderEnv.slug === 'string' ? renderEnv.slug : 'doc';
+    const count = (indexMarkerCounts.get(renderEnv) ?? 0) + 1;
+    indexMarkerCounts.set(renderEnv, count);
+
+    const term = token.content
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+    return `<span class="index-marker" id="idx-${slug}-${count}" data-index-term="${term}"></span>`;
+}
+
 /**
  * Core Directives Plugin
  *
@@ -535,6 +938,18 @@ function coreDirectivesPlugin(md: MarkdownIt): void {
     // Register the core rule
     // Using 'push' adds it to the end of the core rules chain
     md.core.ruler.push('core_auto_rules', applyAutoRules);
+
+    // Conditionals drop block tokens before they are inline-parsed
+    md.core.ruler.after('block', 'conditional_content', applyConditionals);
+
+    // Index markers ({^Term}) must be tokenized before emphasis and text rules
+    md.inline.ruler.before('emphasis', 'index_marker', parseIndexMarker);
+    md.renderer.rules.index_marker = renderIndexMarker;
+
+    // Template variables ({{ name }}) likewise, then resolved right after inline parsing
+    md.inline.ruler.before('emphasis', 'template_variable', parseTemplateVariable);
+    md.core.ruler.after('inline', 'template_variables', resolveTemplateVariables);
+    md.renderer.rules.template_variable = renderTemplateVariable;
 }
 
 export default coreDirectivesPlugin;
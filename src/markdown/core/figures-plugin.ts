@@ -0,0 +1,191 @@
+/**
+ * Figures Markdown-it Plugin
+ *
+ * Captioned, numbered figures and tables:
+ * - An image with a title, alone in its paragraph, becomes a <figure> whose
+ *   <figcaption> is the title: `![Alt](chart.png "Requests per second"){#fig-rps}`
+ * - A `Table: caption` paragraph directly before a table becomes the
+ *   table's <figcaption>: `Table: API key types {#tbl-keys}`
+ * - `@[fig:id]` and `@[tbl:id]` link to `#fig-id` / `#tbl-id`
+ *
+ * Figures and tables are numbered per file ("Figure 2"); the chapter prefix
+ * ("Figure 3.2"), the @list-of-figures / @list-of-tables lists and reference
+ * labels are filled in after rendering by figures.ts and cross-references.ts.
+ * Figures without an explicit id get `fig-<slug>-<n>` / `tbl-<slug>-<n>`.
+ *
+ * Images with the .full-bleed class become art pages instead of figures.
+ */
+
+import type MarkdownIt from 'markdown-it';
+import type StateCore from 'markdown-it/lib/rules_core/state_core.mjs';
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline.mjs';
+import type Token from 'markdown-it/lib/token.mjs';
+import { toSourceLine } from './source-lines.ts';
+
+/**
+ * Caption line before a table
+ */
+const TABLE_CAPTION_REGEX = /^Table:\s*/;
+
+/**
+ * Figure reference: @[fig:id] or @[tbl:id]
+ */
+const FIGURE_REFERENCE_REGEX = /^@\[(fig|tbl):([^\]\s]+)\]/i;
+
+/**
+ * Figure kinds with their id prefix and label
+ */
+const FIGURE_KINDS = {
+    figure: { prefix: 'fig', label: 'Figure', className: 'figure' },
+    table: { prefix: 'tbl', label: 'Table', className: 'table-figure' },
+} as const;
+
+type FigureKind = keyof typeof FIGURE_KINDS;
+
+/**
+ * Render the caption label for a figure or table
+ * figures.ts replaces the text with the chapter-qualified number
+ */
+export function renderFigureLabel(kind: FigureKind, number: number): string {
+    return (
+        `<span class="figure-label" data-figure-kind="${kind}" data-figure-number="${number}">` +
+        `${FIGURE_KINDS[kind].label} ${number}</span>`
+    );
+}
+
+/**
+ * Turn titled images and captioned tables into numbered figures
+ */
+function applyFigureCaptions(state: StateCore): boolean {
+    const tokens = state.tokens;
+    const env = state.env as { slug?: unknown } | undefined;
+    const slug = typeof env?.slug === 'string' ? env.slug : 'doc';
+    const counts: Record<FigureKind, number> = { figure: 0, table: 0 };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const open = tokens[i];
+        const inline = tokens[i + 1];
+        const close = tokens[i + 2];
+        if (open?.type !== 'paragraph_open' || open.hidden || !inline?.children || close?.type !== 'paragraph_close') {
+            continue;
+        }
+
+        // Titled image alone in its paragraph
+        const content = inline.children.filter((child) => !(child.type === 'text' && !child.content.trim()));
+        const image = content.length === 1 && content[0]?.type === 'image' ? content[0] : undefined;
+        const title = image?.attrGet('title');
+        if (image && title && !(image.attrGet('class') ?? '').split(/\s+/).includes('full-bleed')) {
+            const number = ++counts.figure;
+            const id = image.attrGet('id') ?? `fig-${slug}-${number}`;
+            image.attrs = image.attrs?.filter(([name]) => name !== 'id' && name !== 'title') ?? null;
+
+            open.tag = close.tag = 'figure';
+            open.attrs = [['class', FIGURE_KINDS.figure.className], ['id', id]];
+
+            const caption = new state.Token('html_inline', '', 0);
+            caption.content =
+                `<figcaption>${renderFigureLabel('figure', number)} ` +
+                `${state.md.utils.escapeHtml(title)}</figcaption>`;
+            inline.children.push(caption);
+            continue;
+        }
+
+        // Table: caption paragraph followed by a table
+        const first = inline.children[0];
+        if (tokens[i + 3]?.type === 'table_open' && first?.type === 'text' && TABLE_CAPTION_REGEX.test(first.content)) {
+            const tableClose = tokens.findIndex((token, index) => index > i + 3 && token.type === 'table_close');
+            if (tableClose === -1) continue;
+
+            const number = ++counts.table;
+            const id = open.attrGet('id') ?? `tbl-${slug}-${number}`;
+
+            open.tag = close.tag = 'figcaption';
+            open.attrs = open.attrs?.filter(([name]) => name !== 'id') ?? null;
+            first.content = first.content.replace(TABLE_CAPTION_REGEX, '');
+
+            const label = new state.Token('html_inline', '', 0);
+            label.content = `${renderFigureLabel('table', number)} `;
+            inline.children.unshift(label);
+
+            const figureOpen = new state.Token('html_block', '', 0);
+            figureOpen.content = `<figure class="${FIGURE_KINDS.table.className}" id="${id}">\n`;
+            const figureClose = new state.Token('html_block', '', 0);
+            figureClose.content = '</figure>\n';
+
+            tokens.splice(tableClose + 1, 0, figureClose);
+            tokens.splice(i, 0, figureOpen);
+            i = tableClose + 1;
+        }
+    }
+
+    annotateFigureReferenceLines(state);
+    return true;
+}
+
+/**
+ * Record the 1-based source line of each figure reference (see
+ * annotateCrossReferenceLines in the TTRPG plugin)
+ */
+function annotateFigureReferenceLines(state: StateCore): void {
+    for (const blockToken of state.tokens) {
+        if (blockToken.type !== 'inline' || !blockToken.map || !blockToken.children) continue;
+
+        let line = blockToken.map[0];
+        for (const child of blockToken.children) {
+            if (child.type === 'softbreak' || child.type === 'hardbreak') {
+                line++;
+            } else if (child.type === 'figure_reference') {
+                child.attrSet('data-source-line', String(toSourceLine(state.env, line)));
+            }
+        }
+    }
+}
+
+/**
+ * Parse a figure or table reference: @[fig:id] or @[tbl:id]
+ */
+function parseFigureReference(state: StateInline, silent: boolean): boolean {
+    if (state.src.charCodeAt(state.pos) !== 0x40 /* @ */) return false;
+
+    const match = FIGURE_REFERENCE_REGEX.exec(state.src.slice(state.pos, state.posMax));
+    if (!match?.[1] || !match[2]) return false;
+
+    if (!silent) {
+        const token = state.push('figure_reference', 'a', 0);
+        token.meta = { type: match[1].toLowerCase(), id: match[2] };
+    }
+
+    state.pos += match[0].length;
+    return true;
+}
+
+/**
+ * Render a figure reference as a cross-reference link
+ * cross-references.ts replaces the text with the figure's label
+ */
+function renderFigureReference(tokens: Token[], idx: number): string {
+    const token = tokens[idx];
+    if (!token) return '';
+
+    const { type, id } = token.meta as { type: string; id: string };
+    const line = token.attrGet('data-source-line');
+    const lineAttr = line ? ` data-source-line="${line}"` : '';
+
+    return `<a href="#${type}-${id}" class="xref xref-${type}" data-ref-type="${type}" data-ref-id="${id}"${lineAttr}>${id}</a>`;
+}
+
+/**
+ * Figures Plugin
+ *
+ * Registers the figure reference inline rule and the caption core rule.
+ */
+function figuresPlugin(md: MarkdownIt): void {
+    // Ahead of the TTRPG plugin's general @[TYPE:id] cross-references
+    md.inline.ruler.before('emphasis', 'figure_reference', parseFigureReference);
+    md.renderer.rules.figure_reference = renderFigureReference;
+
+    // Pushed to the end so ids from markdown-it-attrs are already applied
+    md.core.ruler.push('figure_captions', applyFigureCaptions);
+}
+
+export default figuresPlugin;
@@ -0,0 +1,216 @@
+/**
+ * Footnotes Markdown-it Plugin
+ *
+ * Syntax:
+ * - Reference: `Text[^1]` (labels may be any non-space text, e.g. [^note])
+ * - Definition: `[^1]: Footnote text` on its own line; following non-blank
+ *   lines continue the definition
+ *
+ * Footnotes render in place as <span class="footnote">, which Prince and
+ * Vivliostyle move to the foot of the page with `float: footnote`. Numbers
+ * restart in every file; book-wide numbering and the endnote fallback for
+ * HTML/EPUB output are applied after rendering by footnotes.ts.
+ *
+ * References without a matching definition are left as plain text.
+ */
+
+import type MarkdownIt from 'markdown-it';
+import type { Options } from 'markdown-it';
+import type StateBlock from 'markdown-it/lib/rules_block/state_block.mjs';
+import type StateCore from 'markdown-it/lib/rules_core/state_core.mjs';
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline.mjs';
+import type Token from 'markdown-it/lib/token.mjs';
+import type Renderer from 'markdown-it/lib/renderer.mjs';
+
+/**
+ * Footnote definition at the start of a line: [^label]:
+ */
+const FOOTNOTE_DEFINITION_REGEX = /^\[\^([^\]\s]+)\]:[ \t]*/;
+
+/**
+ * Footnotes collected while rendering one file (stored on env)
+ */
+interface FootnoteState {
+    /** Raw markdown of each definition, by label */
+    definitions: Map<string, string>;
+    /** Labels in order of first reference */
+    order: string[];
+}
+
+/**
+ * Metadata attached to footnote_ref tokens
+ */
+interface FootnoteMeta {
+    label: string;
+    /** Per-file number (1-based), assigned by the numbering core rule */
+    number?: number;
+    /** True for the first reference to a label (renders the footnote body) */
+    first?: boolean;
+    /** Parsed inline content of the definition */
+    children?: Token[];
+}
+
+/**
+ * Per-render footnote state, keyed by the markdown-it env object
+ */
+const footnoteStates = new WeakMap<object, FootnoteState>();
+
+/**
+ * Get (or create) the footnote state for a render
+ */
+function getFootnoteState(env: object): FootnoteState {
+    let footnotes = footnoteStates.get(env);
+    if (!footnotes) {
+        footnotes = { definitions: new Map(), order: [] };
+        footnoteStates.set(env, footnotes);
+    }
+    return footnotes;
+}
+
+/**
+ * Parse a footnote definition block: [^label]: text
+ *
+ * Definitions produce no tokens; their content is rendered where they
+ * are first referenced.
+ */
+function parseFootnoteDefinition(state: StateBlock, startLine: number, endLine: number, silent: boolean): boolean {
+    // Indented code, not a definition
+    if ((state.sCount[startLine] ?? 0) - state.blkIndent >= 4) return false;
+
+    const start = (state.bMarks[startLine] ?? 0) + (state.tShift[startLine] ?? 0);
+    const line = state.src.slice(start, state.eMarks[startLine]);
+    const match = FOOTNOTE_DEFINITION_REGEX.exec(line);
+    if (!match?.[1]) return false;
+    if (silent) return true;
+
+    const lines = [line.slice(match[0].length)];
+    let nextLine = startLine + 1;
+    while (nextLine < endLine && !state.isEmpty(nextLine)) {
+        const next = state.src
+            .slice((state.bMarks[nextLine] ?? 0) + (state.tShift[nextLine] ?? 0), state.eMarks[nextLine])
+            .trimEnd();
+        if (FOOTNOTE_DEFINITION_REGEX.test(next)) break;
+        lines.push(next);
+        nextLine++;
+    }
+
+    // First definition of a label wins
+    const footnotes = getFootnoteState(state.env as object);
+    if (!footnotes.definitions.has(match[1])) {
+        footnotes.definitions.set(match[1], lines.join('\n').trim());
+    }
+
+    state.line = nextLine;
+    return true;
+}
+
+/**
+ * Parse a footnote reference: [^label]
+ */
+function parseFootnoteReference(state: StateInline, silent: boolean): boolean {
+    const start = state.pos;
+    const max = state.posMax;
+
+    // Check for [^
+    if (state.src.charCodeAt(start) !== 0x5b /* [ */) return false;
+    if (start + 1 >= max || state.src.charCodeAt(start + 1) !== 0x5e /* ^ */) return false;
+
+    const end = state.src.indexOf(']', start + 2);
+    if (end === -1 || end >= max) return false;
+
+    const label = state.src.slice(start + 2, end);
+    if (!label || /\s/.test(label)) return false;
+    if (!getFootnoteState(state.env as object).definitions.has(label)) return false;
+
+    if (!silent) {
+        const token = state.push('footnote_ref', 'span', 0);
+        token.meta = { label } satisfies FootnoteMeta;
+    }
+
+    state.pos = end + 1;
+    return true;
+}
+
+/**
+ * Number footnotes in order of first reference and parse their content
+ *
+ * Runs after inline parsing, so every definition in the file is known.
+ */
+function numberFootnotes(state: StateCore): boolean {
+    const footnotes = getFootnoteState(state.env as object);
+    if (footnotes.definitions.size === 0) return true;
+
+    const content = new Map<string, Token[]>();
+
+    for (const blockToken of state.tokens) {
+        if (blockToken.type !== 'inline' || !blockToken.children) continue;
+
+        for (const token of blockToken.children) {
+            if (token.type !== 'footnote_ref') continue;
+
+            const meta = token.meta as FootnoteMeta;
+            let index = footnotes.order.indexOf(meta.label);
+            meta.first = index === -1;
+            if (index === -1) {
+                index = footnotes.order.push(meta.label) - 1;
+                const parsed = state.md.parseInline(footnotes.definitions.get(meta.label) ?? '', state.env);
+                content.set(meta.label, parsed[0]?.children ?? []);
+            }
+            meta.number = index + 1;
+            meta.children = content.get(meta.label);
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Render a footnote reference
+ *
+ * The first reference carries the footnote body; repeated references to
+ * the same label only show its number.
+ */
+function renderFootnoteReference(
+    tokens: Token[],
+    idx: number,
+    options: Options,
+    env: unknown,
+    self: Renderer
+): string {
+    const token = tokens[idx];
+    if (!token) return '';
+
+    const meta = token.meta as FootnoteMeta;
+    const renderEnv = (env && typeof env === 'object' ? env : {}) as { slug?: unknown };
+    const slug = typeof renderEnv.slug === 'string' ? renderEnv.slug : 'doc';
+    const number = meta.number ?? 0;
+    const id = `fn-${slug}-${number}`;
+
+    if (!meta.first) {
+        return `<sup class="footnote-ref"><a href="#${id}">${number}</a></sup>`;
+    }
+
+    const body = self.renderInline(meta.children ?? [], options, env);
+    return `<span class="footnote" id="${id}" data-footnote-number="${number}">${body}</span>`;
+}
+
+/**
+ * Footnotes Plugin
+ *
+ * Registers the definition block rule, the reference inline rule and the
+ * numbering core rule.
+ */
+function footnotesPlugin(md: MarkdownIt): void {
+    // Before link reference definitions, which would otherwise claim [^1]: lines
+    md.block.ruler.before('reference', 'footnote_definition', parseFootnoteDefinition, {
+        alt: ['paragraph', 'reference'],
+    });
+
+    // Before links, which would otherwise parse [^1] as a shortcut reference
+    md.inline.ruler.before('link', 'footnote_ref', parseFootnoteReference);
+
+    md.core.ruler.after('inline', 'footnote_numbering', numberFootnotes);
+    md.renderer.rules.footnote_ref = renderFootnoteReference;
+}
+
+export default footnotesPlugin;
@@ -0,0 +1,32 @@
+/**
+ * Map token lines back to lines of the markdown file
+ *
+ * markdown-it token lines count from the start of the rendered source, which
+ * differs from the file when front matter was removed (`env.lineOffset`) or
+ * includes were expanded (`env.lineMap`, see includes.ts).
+ */
+
+/**
+ * Render env fields used for line mapping
+ */
+interface SourceLineEnv {
+  lineOffset?: unknown;
+  lineMap?: unknown;
+}
+
+/**
+ * Convert a 0-based line of the rendered source to a 1-based file line
+ *
+ * Lines that came from an included file map to the line of the include
+ * directive.
+ *
+ * @param env - markdown-it env (`state.env`)
+ * @param line - 0-based line in the rendered source (e.g. `token.map[0]`)
+ * @returns 1-based line in the markdown file
+ */
+export function toSourceLine(env: unknown, line: number): number {
+  const { lineOffset, lineMap } = (env ?? {}) as SourceLineEnv;
+  const offset = typeof lineOffset === 'number' ? lineOffset : 0;
+  const mapped = Array.isArray(lineMap) ? (lineMap as number[])[line] : undefined;
+  return (mapped ?? line) + 1 + offset;
+}
@@ -0,0 +1,119 @@
+/**
+ * Tests for build-wide cross-reference resolution
+ */
+
+import { describe, test, expect } from 'bun:test';
+import MarkdownIt from 'markdown-it';
+import ttrpgDirectivesPlugin from './plugins/ttrpg-directives-plugin.ts';
+import { applyCrossReferences, collectReferenceTargets, resolveCrossReferences } from './cross-references.ts';
+import { BuildError } from '../utils/errors.ts';
+import { reset, setLogSinks, type LogEntry } from '../utils/logger.ts';
+import type { ProcessedArticle } from './markdown.ts';
+
+function article(slug: string, html: string): ProcessedArticle {
+  return { slug, html, frontMatter: {}, sourcePath: `${slug}.md` };
+}
+
+const md = new MarkdownIt({ html: true }).use(ttrpgDirectivesPlugin);
+
+describe('cross-reference source lines', () => {
+  test('records the source line, including lines removed as front matter', () => {
+    const html = md.render('Intro\nSee @[NPC:investigator] here.', { lineOffset: 3 });
+
+    expect(html).toContain('data-ref-id="investigator"');
+    expect(html).toContain('data-source-line="5"');
+  });
+});
+
+describe('collectReferenceTargets', () => {
+  test('labels headings and profile containers', () => {
+    const targets = collectReferenceTargets([
+      article('a', '<h2 id="npc-warden">The <em>Warden</em></h2><p id="plain">x</p>'),
+      article(
+        'b',
+        '<div id="npc-investigator" class="profile-container"><h3 class="profile-name">Investigator</h3></div>'
+      ),
+    ]);
+
+    expect(targets.get('npc-warden')).toBe('The Warden');
+    expect(targets.get('npc-investigator')).toBe('Investigator');
+    expect(targets.has('plain')).toBe(true);
+    expect(targets.get('plain')).toBeUndefined();
+  });
+
+  test('only takes a profile name from inside the container', () => {
+    const targets = collectReferenceTargets([
+      article(
+        'npcs',
+        '<div id="npc-guard" class="profile-container"><div class="profile-stats"><p>No name</p></div></div>' +
+          '<div id="npc-captain" class="profile-container"><h3 class="profile-name">Captain</h3></div>'
+      ),
+    ]);
+
+    expect(targets.has('npc-guard')).toBe(true);
+    expect(targets.get('npc-guard')).toBeUndefined();
+    expect(targets.get('npc-captain')).toBe('Captain');
+  });
+});
+
+describe('resolveCrossReferences', () => {
+  test('labels resolved references with the target name across files', () => {
+    const result = resolveCrossReferences([
+      article('rules', md.render('See @[NPC:investigator].')),
+      article('npcs', '<h2 id="npc-investigator">Investigator</h2>'),
+    ]);
+
+    expect(result.unresolved).toEqual([]);
+    expect(result.articles[0]?.html).toContain('class="xref xref-npc xref-resolved"');
+    expect(result.articles[0]?.html).toMatch(/>Investigator<\/a>/);
+  });
+
+  test('keeps the link text when the target has no name', () => {
+    const result = resolveCrossReferences([
+      article('rules', md.render('See @[ITEM:flickerblade].')),
+      article('items', '<div id="item-flickerblade"></div>'),
+    ]);
+
+    expect(result.articles[0]?.html).toMatch(/xref-resolved"[^>]*>flickerblade<\/a>/);
+  });
+
+  test('reports unresolved references with file, line and suggestion', () => {
+    const result = resolveCrossReferences([
+      article('rules', md.render('Intro\n\nSee @[NPC:investigatr].')),
+      article('npcs', '<h2 id="npc-investigator">Investigator</h2>'),
+    ]);
+
+    expect(result.unresolved).toEqual([
+      { target: 'npc-investigatr', file: 'rules.md', line: 3, suggestion: 'npc-investigator' },
+    ]);
+    expect(result.articles[0]?.html).toContain('xref-unresolved');
+  });
+});
+
+describe('applyCrossReferences', () => {
+  const broken = [article('rules', md.render('See @[NPC:nobody].'))];
+
+  test('warns about unresolved references by default', () => {
+    const entries: LogEntry[] = [];
+    setLogSinks([(entry) => entries.push(entry)]);
+
+    applyCrossReferences(broken);
+    reset();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]?.message).toContain('rules.md:1: no anchor "#npc-nobody"');
+    expect(entries[0]?.fields).toMatchObject({ line: 1, target: 'npc-nobody' });
+  });
+
+  test('throws a BuildError listing every problem when unresolved is error', () => {
+    const articles = [...broken, article('more', md.render('@[NPC:other]'))];
+
+    expect(() => applyCrossReferences(articles, { unresolved: 'error' })).toThrow(BuildError);
+    expect(() => applyCrossReferences(articles, { unresolved: 'error' })).toThrow('2 unresolved cross-reference(s)');
+  });
+
+  test('leaves articles without references untouched', () => {
+    const articles = [article('a', '<p>No references</p>')];
+    expect(applyCrossReferences(articles, { unresolved: 'error' })).toBe(articles);
+  });
+});
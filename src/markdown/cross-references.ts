@@ -0,0 +1,233 @@
+/**
+ * Build-wide cross-reference resolution
+ *
+ * `@[TYPE:id]` references (ttrpg-directives-plugin.ts, and `@[fig:id]` /
+ * `@[tbl:id]` from core/figures-plugin.ts) link to `#type-id` without knowing
+ * whether that anchor exists. Once every file is rendered, this pass collects
+ * all anchors in the book (heading ids, explicit `{#id}` attributes, profile
+ * containers, figures), labels resolved references with their target's name,
+ * and reports unresolved ones with file, line and a did-you-mean suggestion.
+ * Page numbers are added by CSS (`target-counter()` on `.xref-resolved`).
+ */
+
+import path from 'path';
+import { BuildError } from '../utils/errors.ts';
+import { createLogger } from '../utils/logger.ts';
+import { findClosestMatch } from './core/core-directives-plugin.ts';
+import { collectFigureEntries } from './figures.ts';
+import type { ProcessedArticle } from './markdown.ts';
+import type { CrossReferenceConfig } from '../types.ts';
+
+const { warn } = createLogger('markdown');
+
+/**
+ * Cross-reference link rendered by the TTRPG or figures plugin
+ * Captures the opening tag attributes and the link text
+ */
+const XREF_REGEX = /<a ([^>]*\bclass="xref[^"]*"[^>]*)>([\s\S]*?)<\/a>/g;
+
+/**
+ * Any element id in rendered HTML
+ */
+const ID_REGEX = /<(\w+)\b[^>]*?\sid="([^"]+)"[^>]*>/g;
+
+/**
+ * Heading with an id, capturing id and inner HTML
+ */
+const HEADING_REGEX = /<h[1-6]\b[^>]*?\sid="([^"]+)"[^>]*>([\s\S]*?)<\/h[1-6]>/g;
+
+/**
+ * Profile container opening tag with an id
+ */
+const PROFILE_REGEX = /<div\b[^>]*?\bclass="[^"]*\bprofile-container\b[^"]*"[^>]*>/g;
+
+/**
+ * A reference whose target anchor does not exist
+ */
+export interface UnresolvedReference {
+  /** Missing anchor id (without #) */
+  target: string;
+  /** Markdown file containing the reference */
+  file: string;
+  /** 1-based line in the file, if known */
+  line?: number;
+  /** Closest existing anchor, if any */
+  suggestion?: string;
+}
+
+/**
+ * Result of resolving cross-references
+ */
+export interface CrossReferenceResult {
+  /** Articles with references labeled and marked resolved/unresolved */
+  articles: ProcessedArticle[];
+  /** References without a target */
+  unresolved: UnresolvedReference[];
+}
+
+/**
+ * Resolve cross-references and report unresolved ones
+ *
+ * @param articles - Rendered articles in document order
+ * @param config - Manifest crossReferences settings
+ * @returns Articles with resolved references
+ * @throws BuildError listing every unresolved reference when `unresolved: error`
+ */
+export function applyCrossReferences(
+  articles: ProcessedArticle[],
+  config?: CrossReferenceConfig
+): ProcessedArticle[] {
+  if (!articles.some((article) => article.html.includes('class="xref'))) {
+    return articles;
+  }
+
+  const result = resolveCrossReferences(articles);
+  const mode = config?.unresolved ?? 'warn';
+  if (result.unresolved.length === 0 || mode === 'ignore') {
+    return result.articles;
+  }
+
+  const messages = result.unresolved.map(formatUnresolved);
+  if (mode === 'error') {
+    throw new BuildError(
+      `${messages.length} unresolved cross-reference(s):\n${messages.map((m) => `  - ${m}`).join('\n')}`
+    );
+  }
+
+  result.unresolved.forEach((ref, i) => {
+    warn(`Unresolved cross-reference: ${messages[i]}`, {
+      file: ref.file,
+      line: ref.line ?? null,
+      target: ref.target,
+    });
+  });
+  return result.articles;
+}
+
+/**
+ * Match references against anchors across all articles
+ *
+ * Resolved references get the `xref-resolved` class and, when the target
+ * has a name (heading text, profile name or figure label), that name as
+ * link text.
+ * Unresolved references get the `xref-unresolved` class.
+ */
+export function resolveCrossReferences(articles: ProcessedArticle[]): CrossReferenceResult {
+  const targets = collectReferenceTargets(articles);
+  const targetIds = [...targets.keys()];
+  const unresolved: UnresolvedReference[] = [];
+
+  const resolved = articles.map((article) => ({
+    ...article,
+    html: article.html.replace(XREF_REGEX, (match, attributes: string, text: string) => {
+      const target = attributes.match(/\bhref="#([^"]+)"/)?.[1];
+      if (!target) {
+        return match;
+      }
+
+      if (targets.has(target)) {
+        const label = targets.get(target) || text;
+        return `<a ${addClass(attributes, 'xref-resolved')}>${label}</a>`;
+      }
+
+      const line = attributes.match(/\bdata-source-line="(\d+)"/)?.[1];
+      unresolved.push({
+        target,
+        file: article.sourcePath,
+        line: line ? Number(line) : undefined,
+        suggestion: findClosestMatch(target, targetIds) ?? undefined,
+      });
+      return `<a ${addClass(attributes, 'xref-unresolved')}>${text}</a>`;
+    }),
+  }));
+
+  return { articles: resolved, unresolved };
+}
+
+/**
+ * Collect every anchor id in the book with an optional display label
+ *
+ * Headings are labeled with their text; profile containers with their
+ * `.profile-name` text; figures and tables with their label ("Figure 3.2").
+ * Other ids (explicit attributes, markers) have no label.
+ */
+export function collectReferenceTargets(articles: ProcessedArticle[]): Map<string, string | undefined> {
+  const targets = new Map<string, string | undefined>();
+
+  for (const article of articles) {
+    const html = article.html;
+
+    for (const match of html.matchAll(ID_REGEX)) {
+      const id = match[2];
+      if (id && !targets.has(id)) {
+        targets.set(id, undefined);
+      }
+    }
+
+    for (const match of html.matchAll(HEADING_REGEX)) {
+      const [, id, inner] = match;
+      if (id && targets.get(id) === undefined) {
+        targets.set(id, stripTags(inner ?? '') || undefined);
+      }
+    }
+
+    for (const match of html.matchAll(PROFILE_REGEX)) {
+      const id = match[0].match(/\sid="([^"]+)"/)?.[1];
+      if (!id) continue;
+      const contents = containerContents(html, (match.index ?? 0) + match[0].length);
+      const name = contents.match(/<(\w+)\b[^>]*\bclass="[^"]*\bprofile-name\b[^"]*"[^>]*>([\s\S]*?)<\/\1>/)?.[2];
+      if (name) {
+        targets.set(id, stripTags(name));
+      }
+    }
+  }
+
+  for (const figure of collectFigureEntries(articles)) {
+    targets.set(figure.id, figure.label || undefined);
+  }
+
+  return targets;
+}
+
+/**
+ * Inner HTML of a <div> up to its matching closing tag
+ *
+ * @param html - Article HTML
+ * @param start - Index just after the opening tag
+ */
+function containerContents(html: string, start: number): string {
+  const tags = /<(\/?)div\b[^>]*>/g;
+  tags.lastIndex = start;
+  let depth = 1;
+
+  for (let tag = tags.exec(html); tag; tag = tags.exec(html)) {
+    depth += tag[1] ? -1 : 1;
+    if (depth === 0) {
+      return html.slice(start, tag.index);
+    }
+  }
+  return html.slice(start);
+}
+
+/**
+ * Format an unresolved reference as "file:line: #target (Did you mean ...?)"
+ */
+function formatUnresolved(ref: UnresolvedReference): string {
+  const location = `${path.relative(process.cwd(), ref.file) || ref.file}${ref.line ? `:${ref.line}` : ''}`;
+  const didYouMean = ref.suggestion ? ` Did you mean "#${ref.suggestion}"?` : '';
+  return `${location}: no anchor "#${ref.target}".${didYouMean}`;
+}
+
+/**
+ * Append a class to the class attribute in an attribute string
+ */
+function addClass(attributes: string, className: string): string {
+  return attributes.replace(/\bclass="([^"]*)"/, (_m, classes: string) => `class="${classes} ${className}"`);
+}
+
+/**
+ * Remove HTML tags from heading/profile content
+ */
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, '').trim();
+}
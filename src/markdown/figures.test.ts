@@ -0,0 +1,112 @@
+/**
+ * Tests for figure and table captions, numbering and lists
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { collectFigureEntries, insertFigureLists, insertFigureNumbers } from './figures.ts';
+import { resolveCrossReferences } from './cross-references.ts';
+import { createMarkdownEngineWithPlugins } from './markdown.ts';
+import type { ProcessedArticle } from './markdown.ts';
+
+const md = createMarkdownEngineWithPlugins([]);
+
+function article(slug: string, markdown: string): ProcessedArticle {
+  return { slug, html: md.render(markdown, { slug }), frontMatter: {}, sourcePath: `${slug}.md` };
+}
+
+const TABLE = '| Key | Use |\n|-----|-----|\n| a | b |\n';
+
+describe('figures plugin', () => {
+  test('turns titled images into numbered figures', () => {
+    const html = md.render('![Chart](chart.png "Requests per second"){#fig-rps}\n', { slug: 'api' });
+
+    expect(html).toContain(
+      '<figure class="figure" id="fig-rps"><img src="chart.png" alt="Chart"><figcaption>' +
+        '<span class="figure-label" data-figure-kind="figure" data-figure-number="1">Figure 1</span> ' +
+        'Requests per second</figcaption></figure>'
+    );
+  });
+
+  test('leaves untitled, inline and full-bleed images alone', () => {
+    const html = md.render(
+      '![Plain](a.png)\n\nText ![Inline](b.png "Title") text.\n\n![Art](c.png "Art"){.full-bleed}\n',
+      { slug: 'x' }
+    );
+
+    expect(html).not.toContain('<figure');
+  });
+
+  test('captions tables from a preceding Table: line', () => {
+    const html = md.render(`Table: Key *types* {#tbl-keys}\n\n${TABLE}\nTable: Second\n${TABLE}`, { slug: 'api' });
+
+    expect(html).toContain(
+      '<figure class="table-figure" id="tbl-keys">\n<figcaption>' +
+        '<span class="figure-label" data-figure-kind="table" data-figure-number="1">Table 1</span> ' +
+        'Key <em>types</em></figcaption>\n<table>'
+    );
+    expect(html).toContain('<figure class="table-figure" id="tbl-api-2">');
+    expect(html.match(/<\/table>\n<\/figure>/g)).toHaveLength(2);
+  });
+
+  test('renders @[fig:id] and @[tbl:id] as cross-references', () => {
+    const html = md.render('See @[fig:rps] and @[TBL:keys].', { slug: 'x' });
+
+    expect(html).toContain('<a href="#fig-rps" class="xref xref-fig" data-ref-type="fig" data-ref-id="rps"');
+    expect(html).toContain('<a href="#tbl-keys" class="xref xref-tbl"');
+  });
+});
+
+describe('insertFigureNumbers', () => {
+  test('prefixes labels with the chapter number', () => {
+    const articles = insertFigureNumbers([
+      article('contents', '# Contents {.no-toc}\n'),
+      article('intro', '# Intro\n\n![A](a.png "First")\n'),
+      article('api', `# API\n\n![B](b.png "Second")\n\n![C](c.png "Third")\n\nTable: Keys\n\n${TABLE}`),
+    ]);
+
+    expect(collectFigureEntries(articles).map((entry) => entry.label)).toEqual([
+      'Figure 1.1',
+      'Figure 2.1',
+      'Figure 2.2',
+      'Table 2.1',
+    ]);
+  });
+
+  test('keeps plain numbers outside chapters', () => {
+    const articles = insertFigureNumbers([article('preface', '![A](a.png "Map")\n')]);
+
+    expect(articles[0]?.html).toContain('>Figure 1</span>');
+  });
+});
+
+describe('insertFigureLists', () => {
+  test('fills list placeholders with linked entries', () => {
+    const articles = insertFigureLists(
+      insertFigureNumbers([
+        article('front', '<!-- @list-of-figures -->\n\n<!-- @list-of-tables -->\n'),
+        article('api', `# API\n\n![B](b.png "Flow"){#fig-flow}\n\nTable: Keys\n\n${TABLE}`),
+      ])
+    );
+    const html = articles[0]?.html ?? '';
+
+    expect(html).toContain(
+      '<nav class="figure-list" data-directive="list-of-figures" aria-label="List of figures">\n' +
+        '<ol class="figure-list-items"><li><a href="#fig-flow"><span class="figure-label">Figure 1.1</span> Flow</a></li></ol>'
+    );
+    expect(html).toContain('<li><a href="#tbl-api-1"><span class="figure-label">Table 1.1</span> Keys</a></li>');
+  });
+});
+
+describe('figure cross-references', () => {
+  test('labels references with the chapter-qualified number', () => {
+    const result = resolveCrossReferences(
+      insertFigureNumbers([
+        article('intro', '# Intro\n\nSee @[fig:flow].\n'),
+        article('api', '# API\n\n![B](b.png "Flow"){#fig-flow}\n'),
+      ])
+    );
+
+    expect(result.unresolved).toEqual([]);
+    expect(result.articles[0]?.html).toMatch(/class="xref xref-fig xref-resolved"[^>]*>Figure 2\.1<\/a>/);
+  });
+});
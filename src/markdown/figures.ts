@@ -0,0 +1,157 @@
+/**
+ * Chapter-numbered figures and tables, and lists of figures/tables
+ *
+ * The figures plugin (core/figures-plugin.ts) numbers captioned figures and
+ * tables per file ("Figure 2"). Once every file is rendered, labels get
+ * their chapter number ("Figure 3.2") and the `<!-- @list-of-figures -->` /
+ * `<!-- @list-of-tables -->` placeholders are filled with linked lists.
+ * Page numbers come from CSS `target-counter(attr(href), page)`.
+ *
+ * A chapter is a file with a top-level heading, unless that heading has the
+ * `no-toc` or `unnumbered` class or the file is a part divider (`_part.md`);
+ * figures outside chapters keep plain numbers.
+ */
+
+import type { ProcessedArticle } from './markdown.ts';
+
+/**
+ * Placeholder emitted by the list directives, capturing the directive name
+ */
+const LIST_PLACEHOLDER_REGEX = /<nav class="figure-list" data-directive="(list-of-figures|list-of-tables)"><\/nav>/g;
+
+/**
+ * Caption label rendered by the figures plugin, capturing kind and number
+ */
+const FIGURE_LABEL_REGEX =
+  /<span class="figure-label" data-figure-kind="(figure|table)" data-figure-number="(\d+)">[^<]*<\/span>/g;
+
+/**
+ * Figure or table element, capturing its class and id
+ */
+const FIGURE_REGEX = /<figure class="(figure|table-figure)" id="([^"]+)">/g;
+
+/**
+ * First top-level heading, capturing its attributes
+ */
+const CHAPTER_HEADING_REGEX = /<h1\b([^>]*)>/;
+
+/**
+ * Figure or table entry for lists and cross-reference labels
+ */
+export interface FigureEntry {
+  kind: 'figure' | 'table';
+  /** Target element id */
+  id: string;
+  /** Label text, e.g. "Figure 3.2" */
+  label: string;
+  /** Caption without the label (HTML tags removed) */
+  caption: string;
+}
+
+/**
+ * Prefix figure and table numbers with their chapter number
+ *
+ * @param articles - Rendered articles in document order
+ * @returns Articles with chapter-qualified labels (unchanged if there are none)
+ */
+export function insertFigureNumbers(articles: ProcessedArticle[]): ProcessedArticle[] {
+  if (!articles.some((article) => article.html.includes('class="figure-label"'))) {
+    return articles;
+  }
+
+  let chapter = 0;
+
+  return articles.map((article) => {
+    const chapterNumber = !article.part && isChapter(article.html) ? ++chapter : undefined;
+    if (chapterNumber === undefined) {
+      return article;
+    }
+
+    return {
+      ...article,
+      html: article.html.replace(
+        FIGURE_LABEL_REGEX,
+        (_match, kind: 'figure' | 'table', number: string) =>
+          `<span class="figure-label" data-figure-kind="${kind}" data-figure-number="${chapterNumber}.${number}">` +
+          `${kind === 'figure' ? 'Figure' : 'Table'} ${chapterNumber}.${number}</span>`
+      ),
+    };
+  });
+}
+
+/**
+ * Fill @list-of-figures and @list-of-tables placeholders
+ *
+ * Run after insertFigureNumbers so lists show chapter-qualified labels.
+ */
+export function insertFigureLists(articles: ProcessedArticle[]): ProcessedArticle[] {
+  if (!articles.some((article) => article.html.includes('<nav class="figure-list" '))) {
+    return articles;
+  }
+
+  const entries = collectFigureEntries(articles);
+
+  return articles.map((article) => ({
+    ...article,
+    html: article.html.replace(LIST_PLACEHOLDER_REGEX, (_match, directive: string) =>
+      renderFigureList(
+        entries.filter((entry) => entry.kind === (directive === 'list-of-figures' ? 'figure' : 'table')),
+        directive
+      )
+    ),
+  }));
+}
+
+/**
+ * Collect captioned figures and tables from all articles in document order
+ */
+export function collectFigureEntries(articles: ProcessedArticle[]): FigureEntry[] {
+  const entries: FigureEntry[] = [];
+
+  for (const article of articles) {
+    for (const match of article.html.matchAll(FIGURE_REGEX)) {
+      const rest = article.html.slice((match.index ?? 0) + match[0].length);
+      const caption = rest.match(/<figcaption>([\s\S]*?)<\/figcaption>/)?.[1] ?? '';
+      const label = caption.match(/<span class="figure-label"[^>]*>([^<]*)<\/span>/)?.[1] ?? '';
+
+      entries.push({
+        kind: match[1] === 'figure' ? 'figure' : 'table',
+        id: match[2] ?? '',
+        label,
+        caption: caption
+          .replace(/<span class="figure-label"[^>]*>[^<]*<\/span>/, '')
+          .replace(/<[^>]+>/g, '')
+          .trim(),
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Render figure or table entries as a list of links
+ */
+export function renderFigureList(entries: FigureEntry[], directive: string): string {
+  const ariaLabel = directive === 'list-of-figures' ? 'List of figures' : 'List of tables';
+  const items = entries
+    .map(
+      (entry) =>
+        `<li><a href="#${entry.id}"><span class="figure-label">${entry.label}</span> ${entry.caption}</a></li>`
+    )
+    .join('');
+
+  return `<nav class="figure-list" data-directive="${directive}" aria-label="${ariaLabel}">\n<ol class="figure-list-items">${items}</ol>\n</nav>`;
+}
+
+/**
+ * Whether an article starts a numbered chapter
+ */
+function isChapter(html: string): boolean {
+  const attributes = html.match(CHAPTER_HEADING_REGEX)?.[1];
+  if (attributes === undefined) {
+    return false;
+  }
+  const classes = attributes.match(/\sclass="([^"]*)"/)?.[1]?.split(/\s+/) ?? [];
+  return !classes.includes('no-toc') && !classes.includes('unnumbered');
+}
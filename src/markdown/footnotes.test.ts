@@ -0,0 +1,95 @@
+/**
+ * Tests for footnote rendering, numbering and endnotes
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { applyFootnotes, convertToEndnotes } from './footnotes.ts';
+import { createMarkdownEngineWithPlugins } from './markdown.ts';
+import type { ProcessedArticle } from './markdown.ts';
+
+const md = createMarkdownEngineWithPlugins([]);
+
+function article(slug: string, markdown: string): ProcessedArticle {
+  return { slug, html: md.render(markdown, { slug }), frontMatter: {}, sourcePath: `${slug}.md` };
+}
+
+describe('footnotes plugin', () => {
+  test('renders footnotes in place with per-file numbers', () => {
+    const html = md.render('First[^a] and second[^b].\n\n[^b]: Note *B*.\n[^a]: Note A\ncontinued.\n', {
+      slug: 'rules',
+    });
+
+    expect(html).toContain(
+      'First<span class="footnote" id="fn-rules-1" data-footnote-number="1">Note A\ncontinued.</span>'
+    );
+    expect(html).toContain(
+      'second<span class="footnote" id="fn-rules-2" data-footnote-number="2">Note <em>B</em>.</span>'
+    );
+    expect(html).not.toContain('[^a]:');
+  });
+
+  test('repeated references show the number only', () => {
+    const html = md.render('One[^1], again[^1].\n\n[^1]: Note.\n', { slug: 'x' });
+
+    expect(html.match(/class="footnote"/g)).toHaveLength(1);
+    expect(html).toContain('again<sup class="footnote-ref"><a href="#fn-x-1">1</a></sup>');
+  });
+
+  test('leaves undefined references and link references alone', () => {
+    const html = md.render('Missing[^nope] and [a link][ref].\n\n[ref]: https://example.com\n', { slug: 'x' });
+
+    expect(html).toContain('Missing[^nope]');
+    expect(html).toContain('<a href="https://example.com">a link</a>');
+  });
+});
+
+describe('applyFootnotes', () => {
+  const articles = [
+    article('one', 'A[^1] B[^2]\n\n[^1]: One.\n[^2]: Two.\n'),
+    article('two', 'C[^1] again[^1]\n\n[^1]: Three.\n'),
+  ];
+
+  test('keeps per-chapter numbering by default', () => {
+    const result = applyFootnotes(articles);
+
+    expect(result[1]?.html).toContain('id="fn-two-1" data-footnote-number="1"');
+  });
+
+  test('numbers through the book', () => {
+    const result = applyFootnotes(articles, { numbering: 'book' });
+
+    expect(result[0]?.html).toContain('id="fn-one-2" data-footnote-number="2"');
+    expect(result[1]?.html).toContain('id="fn-two-1" data-footnote-number="3"');
+    expect(result[1]?.html).toContain('<sup class="footnote-ref"><a href="#fn-two-1">3</a></sup>');
+  });
+
+  test('leaves articles without footnotes untouched', () => {
+    const plain = [article('plain', 'No notes here.')];
+    expect(applyFootnotes(plain, { numbering: 'book' }, { endnotes: true })).toBe(plain);
+  });
+
+  test('adds no endnotes section to chapters without footnotes', () => {
+    const chapters = [article('notes', 'A[^1]\n\n[^1]: One.\n'), article('plain', 'No notes here.')];
+
+    const result = applyFootnotes(chapters, undefined, { endnotes: true });
+
+    expect(result[0]?.html).toContain('<section class="footnotes" role="doc-endnotes">');
+    expect(result[1]?.html).toBe(chapters[1]?.html ?? '');
+  });
+});
+
+describe('convertToEndnotes', () => {
+  test('moves footnotes with nested markup into an endnotes list', () => {
+    const html = convertToEndnotes(
+      '<p>Text<span class="footnote" id="fn-a-1" data-footnote-number="4">See <span class="dice">2d6</span>.</span> more.</p>'
+    );
+
+    expect(html).toContain('<p>Text<sup class="footnote-ref"><a href="#fn-a-1" id="ref-fn-a-1">4</a></sup> more.</p>');
+    expect(html).toContain('<li id="fn-a-1" value="4">See <span class="dice">2d6</span>. <a href="#ref-fn-a-1"');
+    expect(html).toContain('<section class="footnotes" role="doc-endnotes">');
+  });
+
+  test('returns html without footnotes unchanged', () => {
+    expect(convertToEndnotes('<p>No notes.</p>')).toBe('<p>No notes.</p>');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Book-wide footnote numbering and endnotes
+ *
+ * The footnotes plugin (core/footnotes-plugin.ts) renders each footnote in
+ * place as <span class="footnote">, numbered per file. Print engines float
+ * these to the foot of the page (`float: footnote`). Once every file is
+ * rendered, this pass renumbers footnotes continuously for
+ * `footnotes.numbering: book`, and for HTML/EPUB output - where there are no
+ * pages to float to - moves them into an endnotes list at the end of each
+ * chapter.
+ */
+
+import type { ProcessedArticle } from './markdown.ts';
+import type { FootnoteConfig } from '../types.ts';
+
+/**
+ * Opening tag of an in-place footnote, capturing id and number
+ */
+const FOOTNOTE_OPEN_REGEX = /<span class="footnote" id="([^"]+)" data-footnote-number="(\d+)">/g;
+
+/**
+ * Repeated reference to a footnote, capturing id and number
+ */
+const FOOTNOTE_REF_REGEX = /<sup class="footnote-ref"><a href="#([^"]+)">(\d+)<\/a><\/sup>/g;
+
+/**
+ * Options for the footnote pass
+ */
+export interface FootnoteOptions {
+  /** Move footnotes into per-chapter endnotes (HTML and EPUB output) */
+  endnotes?: boolean;
+}
+
+/**
+ * Renumber footnotes and optionally convert them to endnotes
+ *
+ * @param articles - Rendered articles in document order
+ * @param config - Manifest footnotes settings
+ * @param options - Output-specific behavior
+ * @returns Articles with final footnote markup (unchanged if there are none)
+ */
+export function applyFootnotes(
+  articles: ProcessedArticle[],
+  config?: FootnoteConfig,
+  options: FootnoteOptions = {}
+): ProcessedArticle[] {
+  if (!articles.some((article) => article.html.includes('<span class="footnote" '))) {
+    return articles;
+  }
+
+  const bookNumbering = config?.numbering === 'book';
+  let offset = 0;
+
+  return articles.map((article) => {
+    const count = article.html.match(FOOTNOTE_OPEN_REGEX)?.length ?? 0;
+    let html = bookNumbering && offset > 0 ? renumberFootnotes(article.html, offset) : article.html;
+    if (options.endnotes && count > 0) {
+      html = convertToEndnotes(html);
+    }
+    if (bookNumbering) {
+      offset += count;
+    }
+    return { ...article, html };
+  });
+}
+
+/**
+ * Shift footnote numbers in one article by the count of earlier footnotes
+ */
+export function renumberFootnotes(html: string, offset: number): string {
+  return html
+    .replace(
+      FOOTNOTE_OPEN_REGEX,
+      (_match, id: string, number: string) =>
+        `<span class="footnote" id="${id}" data-footnote-number="${Number(number) + offset}">`
+    )
+    .replace(
+      FOOTNOTE_REF_REGEX,
+      (_match, id: string, number: string) =>
+        `<sup class="footnote-ref"><a href="#${id}">${Number(number) + offset}</a></sup>`
+    );
+}
+
+/**
+ * Replace in-place footnotes with references and append an endnotes list
+ *
+ * HTML without footnotes is returned unchanged.
+ */
+export function convertToEndnotes(html: string): string {
+  const notes: string[] = [];
+  let result = '';
+  let position = 0;
+
+  for (const match of html.matchAll(FOOTNOTE_OPEN_REGEX)) {
+    const start = match.index ?? 0;
+    // Earlier footnotes' content (nested matches) was already consumed
+    if (start < position) continue;
+
+    const [openTag, id, number] = match;
+    const contentStart = start + openTag.length;
+    const contentEnd = findClosingSpan(html, contentStart);
+    const content = html.slice(contentStart, contentEnd);
+
+    result +=
+      html.slice(position, start) + `<sup class="footnote-ref"><a href="#${id}" id="ref-${id}">${number}</a></sup>`;
+    notes.push(
+      `<li id="${id}" value="${number}">${content} ` +
+        `<a href="#ref-${id}" class="footnote-backref" aria-label="Back to text">&#8617;</a></li>`
+    );
+    position = contentEnd + '</span>'.length;
+  }
+
+  if (notes.length === 0) {
+    return html;
+  }
+
+  result += html.slice(position);
+  return `${result}\n<section class="footnotes" role="doc-endnotes">\n<ol class="footnotes-list">\n${notes.join('\n')}\n</ol>\n</section>\n`;
+}
+
+/**
+ * Find the </span> matching an already-opened span
+ *
+ * @returns Index of the closing tag (end of string if unbalanced)
+ */
+function findClosingSpan(html: string, from: number): number {
+  const tagRegex = /<span\b[^>]*>|<\/span>/g;
+  tagRegex.lastIndex = from;
+  let depth = 1;
+
+  for (let match = tagRegex.exec(html); match; match = tagRegex.exec(html)) {
+    depth += match[0] === '</span>' ? -1 : 1;
+    if (depth === 0) {
+      return match.index;
+    }
+  }
+
+  return html.length;
+}
@@ -0,0 +1,65 @@
+/**
+ * Tests for per-file YAML front matter
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { parseFrontMatter, frontMatterToAttributes } from './front-matter.ts';
+
+describe('parseFrontMatter', () => {
+  test('splits front matter from the markdown body', () => {
+    const result = parseFrontMatter('---\ntitle: Intro\npage: chapter\n---\n# Heading\n', 'intro.md');
+
+    expect(result.frontMatter).toEqual({ title: 'Intro', page: 'chapter' });
+    expect(result.body).toBe('# Heading\n');
+    expect(result.lineOffset).toBe(4);
+  });
+
+  test('returns the source unchanged without front matter', () => {
+    const source = '# Heading\n\n---\n\nAfter break';
+    const result = parseFrontMatter(source, 'plain.md');
+
+    expect(result.frontMatter).toEqual({});
+    expect(result.body).toBe(source);
+    expect(result.lineOffset).toBe(0);
+  });
+
+  test('accepts an empty block and CRLF line endings', () => {
+    expect(parseFrontMatter('---\n---\nBody', 'empty.md').body).toBe('Body');
+    expect(parseFrontMatter('---\r\ndraft: true\r\n---\r\nBody', 'crlf.md')).toEqual({
+      frontMatter: { draft: true },
+      body: 'Body',
+      lineOffset: 3,
+    });
+  });
+
+  test('throws for invalid YAML and non-object front matter', () => {
+    expect(() => parseFrontMatter('---\ntitle: [unclosed\n---\n', 'bad.md')).toThrow('Invalid front matter in bad.md');
+    expect(() => parseFrontMatter('---\n- a\n- b\n---\n', 'list.md')).toThrow('expected key/value pairs');
+  });
+
+  test('validates known keys', () => {
+    expect(() => parseFrontMatter('---\npage: chaptr\n---\n', 'a.md')).toThrow('unknown page template "chaptr"');
+    expect(() => parseFrontMatter('---\ncolumns: 4\n---\n', 'a.md')).toThrow('"columns" must be 1, 2 or 3');
+    expect(() => parseFrontMatter('---\ndraft: yes please\n---\n', 'a.md')).toThrow('"draft" must be true or false');
+  });
+});
+
+describe('frontMatterToAttributes', () => {
+  test('maps scalar keys to kebab-case data attributes', () => {
+    const attributes = frontMatterToAttributes({
+      title: 'Rules & "Tips"',
+      page: 'appendix',
+      columns: 2,
+      draft: true,
+      chapterNumber: 3,
+    });
+
+    expect(attributes).toBe(
+      ' data-title="Rules &amp; &quot;Tips&quot;" data-page="appendix" data-columns="2" data-draft="true" data-chapter-number="3"'
+    );
+  });
+
+  test('skips nested values, false flags and exclude', () => {
+    expect(frontMatterToAttributes({ tags: ['a'], npc: { name: 'x' }, draft: false, exclude: false })).toBe('');
+  });
+});
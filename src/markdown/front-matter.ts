@@ -0,0 +1,145 @@
+/**
+ * Per-file YAML front matter
+ *
+ * A markdown file may start with a `---` delimited YAML block. It is
+ * removed before rendering (otherwise the HR auto-rule turns it into a
+ * page break), exposed to plugins as `env.frontMatter`, and mapped to
+ * data attributes on the file's wrapping <article>.
+ */
+
+import YAML from 'js-yaml';
+import { BuildError } from '../utils/errors.ts';
+import { VALID_TEMPLATES } from './core/core-directives-plugin.ts';
+import type { FrontMatter } from '../types.ts';
+
+/**
+ * Matches a leading front matter block: `---` on the first line, YAML,
+ * then a closing `---` (or `...`) line
+ */
+const FRONT_MATTER_REGEX = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Result of splitting a markdown file into front matter and body
+ */
+export interface ParsedMarkdownFile {
+  /** Parsed front matter (empty object when the file has none) */
+  frontMatter: FrontMatter;
+  /** Markdown without the front matter block */
+  body: string;
+  /** Number of lines removed from the top (for mapping line numbers) */
+  lineOffset: number;
+}
+
+/**
+ * Split and validate front matter at the top of a markdown file
+ *
+ * @param source - Raw file content
+ * @param filePath - File path for error messages
+ * @returns Front matter and remaining markdown
+ * @throws BuildError if the YAML is invalid or known keys have wrong types
+ */
+export function parseFrontMatter(source: string, filePath: string): ParsedMarkdownFile {
+  const match = source.match(FRONT_MATTER_REGEX);
+  if (!match) {
+    return { frontMatter: {}, body: source, lineOffset: 0 };
+  }
+
+  let data: unknown;
+  try {
+    data = YAML.load(match[1] ?? '');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new BuildError(`Invalid front matter in ${filePath}: ${message}`);
+  }
+
+  // An empty block (---\n---) is allowed
+  const frontMatter = data ?? {};
+  if (typeof frontMatter !== 'object' || Array.isArray(frontMatter)) {
+    throw new BuildError(`Invalid front matter in ${filePath}: expected key/value pairs`);
+  }
+
+  validateFrontMatter(frontMatter as FrontMatter, filePath);
+
+  return {
+    frontMatter: frontMatter as FrontMatter,
+    body: source.slice(match[0].length),
+    lineOffset: match[0].split('\n').length - 1,
+  };
+}
+
+/**
+ * Render front matter as attributes for the wrapping <article>
+ *
+ * Known keys map to `data-title`, `data-page`, `data-columns` and
+ * `data-draft`; other scalar keys become `data-<kebab-case-key>`.
+ * Nested values are only available to plugins through `env`.
+ *
+ * @param frontMatter - Parsed front matter
+ * @returns Attribute string with a leading space, or empty string
+ */
+export function frontMatterToAttributes(frontMatter: FrontMatter): string {
+  const attributes: string[] = [];
+
+  for (const [key, value] of Object.entries(frontMatter)) {
+    if (key === 'exclude' || value === null || value === undefined || value === false) {
+      continue;
+    }
+    if (typeof value === 'object' && !(value instanceof Date)) {
+      continue;
+    }
+
+    const name = toKebabCase(key);
+    if (!name) {
+      continue;
+    }
+    const text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+    attributes.push(`data-${name}="${escapeAttribute(text)}"`);
+  }
+
+  return attributes.length > 0 ? ` ${attributes.join(' ')}` : '';
+}
+
+/**
+ * Check types of the keys pagedmd interprets
+ */
+function validateFrontMatter(frontMatter: FrontMatter, filePath: string): void {
+  const { title, page, columns, exclude, draft } = frontMatter;
+
+  if (title !== undefined && typeof title !== 'string') {
+    throw new BuildError(`Invalid front matter in ${filePath}: "title" must be a string`);
+  }
+  // Same templates as the @page directive
+  if (page !== undefined && !VALID_TEMPLATES.includes(page)) {
+    throw new BuildError(
+      `Invalid front matter in ${filePath}: unknown page template "${String(page)}"\n` +
+        `Valid templates: ${VALID_TEMPLATES.join(', ')}`
+    );
+  }
+  if (columns !== undefined && ![1, 2, 3].includes(columns)) {
+    throw new BuildError(`Invalid front matter in ${filePath}: "columns" must be 1, 2 or 3`);
+  }
+  if (exclude !== undefined && typeof exclude !== 'boolean') {
+    throw new BuildError(`Invalid front matter in ${filePath}: "exclude" must be true or false`);
+  }
+  if (draft !== undefined && typeof draft !== 'boolean') {
+    throw new BuildError(`Invalid front matter in ${filePath}: "draft" must be true or false`);
+  }
+}
+
+/**
+ * Convert camelCase/snake_case keys to kebab-case attribute names
+ */
+function toKebabCase(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^a-zA-Z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Escape a value for use inside a double-quoted attribute
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,60 @@
+/**
+ * Tests for book-wide unique heading ids
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { uniqueHeadingIds } from './heading-ids.ts';
+import type { ProcessedArticle } from './markdown.ts';
+
+function article(slug: string, html: string): ProcessedArticle {
+  return { slug, html, frontMatter: {}, sourcePath: `${slug}.md` };
+}
+
+describe('uniqueHeadingIds', () => {
+  test('prefixes ids repeated in later articles with the article slug', () => {
+    const articles = [
+      article('01-city', '<h1 id="city">City</h1>\n<h2 id="equipment">Equipment</h2>\n'),
+      article(
+        '02-gear',
+        '<h1 id="gear">Gear</h1>\n<h2 id="equipment">Equipment</h2>\n<p><a href="#equipment">See above</a></p>\n'
+      ),
+      article('03-more', '<h2 id="02-gear-equipment">Equipment</h2>\n'),
+    ];
+
+    const [city, gear, more] = uniqueHeadingIds(articles);
+
+    expect(city).toBe(articles[0]);
+    expect(gear?.html).toBe(
+      '<h1 id="gear">Gear</h1>\n<h2 id="02-gear-equipment">Equipment</h2>\n<p><a href="#02-gear-equipment">See above</a></p>\n'
+    );
+    expect(more?.html).toBe('<h2 id="03-more-02-gear-equipment">Equipment</h2>\n');
+  });
+
+  test('renames heading ids that clash with article slugs', () => {
+    const articles = [
+      article('rules', '<h1 id="rules">Rules</h1>\n'),
+      article('gear', '<h1 id="gear">Gear</h1>\n<h2 id="rules">Rules</h2>\n'),
+    ];
+
+    const [rules, gear] = uniqueHeadingIds(articles);
+
+    expect(rules?.html).toBe('<h1 id="rules-rules">Rules</h1>\n');
+    expect(gear?.html).toBe('<h1 id="gear-gear">Gear</h1>\n<h2 id="gear-rules">Rules</h2>\n');
+  });
+
+  test('renames heading ids that clash with other element ids', () => {
+    const articles = [
+      article('01-intro', '<div id="sidebar">Note</div>\n'),
+      article(
+        '02-city',
+        '<h2 id="sidebar">Sidebar</h2>\n<h2 id="map">Map</h2>\n<figure id="map"></figure>\n<a href="#map">Map</a>\n'
+      ),
+    ];
+
+    const [, city] = uniqueHeadingIds(articles);
+
+    expect(city?.html).toBe(
+      '<h2 id="02-city-sidebar">Sidebar</h2>\n<h2 id="02-city-map">Map</h2>\n<figure id="map"></figure>\n<a href="#map">Map</a>\n'
+    );
+  });
+});
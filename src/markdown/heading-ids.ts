@@ -0,0 +1,95 @@
+/**
+ * Book-wide unique heading ids
+ *
+ * markdown-it-anchor only keeps heading ids unique within a file, but every
+ * file ends up as an <article id="<slug>"> in one HTML document. Before any
+ * cross-article pass (table of contents, cross-references) builds links,
+ * heading ids that clash with an article slug, with an id from an earlier
+ * article or with another element in the same article are renamed.
+ */
+
+import type { ProcessedArticle } from './markdown.ts';
+
+/**
+ * Heading element (h1-h6), capturing level, attributes and inner HTML
+ */
+const HEADING_REGEX = /<h([1-6])([^>]*)>([\s\S]*?)<\/h\1>/g;
+
+/**
+ * Opening tag with an id attribute, capturing tag name and id
+ */
+const ELEMENT_ID_REGEX = /<([a-zA-Z][\w-]*)\b[^>]*?\sid="([^"]+)"/g;
+
+/**
+ * id attribute of a heading
+ */
+const ID_ATTRIBUTE_REGEX = /\sid="([^"]+)"/;
+
+/**
+ * Make heading ids unique across the book
+ *
+ * A clashing heading id becomes `<slug>-<id>` (`02-gear-equipment`, with a
+ * numeric suffix if that is taken too), and links to it within the article
+ * are updated. Ids of other elements are never changed.
+ *
+ * @param articles - Rendered articles in document order
+ * @returns Articles with unique heading ids (unchanged articles are reused)
+ */
+export function uniqueHeadingIds(articles: ProcessedArticle[]): ProcessedArticle[] {
+  const slugs = new Set(articles.map((article) => article.slug));
+  const seen = new Set<string>();
+
+  return articles.map((article) => {
+    const elementIds = collectElementIds(article.html);
+    const taken = (id: string): boolean => seen.has(id) || slugs.has(id) || elementIds.has(id);
+    const renamed = new Map<string, string>();
+
+    const html = article.html.replace(HEADING_REGEX, (heading, level: string, attributes: string, content: string) => {
+      const id = attributes.match(ID_ATTRIBUTE_REGEX)?.[1];
+      if (!id) {
+        return heading;
+      }
+      if (!taken(id)) {
+        seen.add(id);
+        return heading;
+      }
+
+      let unique = `${article.slug}-${id}`;
+      for (let suffix = 2; taken(unique); suffix++) {
+        unique = `${article.slug}-${id}-${suffix}`;
+      }
+      seen.add(unique);
+      renamed.set(id, unique);
+      return `<h${level}${attributes.replace(`id="${id}"`, `id="${unique}"`)}>${content}</h${level}>`;
+    });
+
+    for (const id of elementIds) {
+      seen.add(id);
+    }
+
+    if (renamed.size === 0) {
+      return article;
+    }
+    return {
+      ...article,
+      html: html.replace(/href="#([^"]+)"/g, (link, id: string) => {
+        const unique = renamed.get(id);
+        // A link to an id another element in this article still has stays as is
+        return unique && !elementIds.has(id) ? `href="#${unique}"` : link;
+      }),
+    };
+  });
+}
+
+/**
+ * Collect ids of non-heading elements in an article
+ */
+function collectElementIds(html: string): Set<string> {
+  const ids = new Set<string>();
+  for (const match of html.matchAll(ELEMENT_ID_REGEX)) {
+    if (!/^h[1-6]$/i.test(match[1] ?? '')) {
+      ids.add(match[2] ?? '');
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,200 @@
+/**
+ * Tests for markdown transclusion
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { symlink } from 'fs/promises';
+import { mkdir, writeFile, remove } from '../utils/file-utils.ts';
+import { expandIncludes, extractSection } from './includes.ts';
+import { processMarkdownFiles } from './markdown.ts';
+import { getRenderCachePath } from './render-cache.ts';
+import type { ResolvedConfig } from '../config/config-state.ts';
+import type { OutputFormat } from '../types.ts';
+
+/**
+ * Message of the error expandIncludes rejects with
+ */
+async function expandError(...args: Parameters<typeof expandIncludes>): Promise<string> {
+  const error = await expandIncludes(...args).catch((e: Error) => e);
+  return (error as Error).message;
+}
+
+const RULES = '# Rules\n\nIntro.\n\n## Combat {#combat}\n\nRoll dice.\n\n### Initiative\n\nHighest first.\n\n## Magic\n\nSpells.\n';
+
+describe('expandIncludes', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(process.cwd(), '.tmp', `includes-tests-${Date.now()}`);
+    await mkdir(join(testDir, 'shared'));
+    await writeFile(join(testDir, 'shared', 'rules.md'), `---\ntitle: Rules\n---\n${RULES}`);
+  });
+
+  afterEach(async () => {
+    await remove(testDir);
+  });
+
+  test('inlines files relative to the including file, without front matter', async () => {
+    const chapter = join(testDir, 'chapter.md');
+    const result = await expandIncludes('Before\n<!-- @include: shared/rules.md -->\nAfter\n', chapter, testDir);
+
+    expect(result.source).toBe(`Before\n\n${RULES.trimEnd()}\n\nAfter\n`);
+    expect(result.includes).toEqual([join(testDir, 'shared', 'rules.md')]);
+  });
+
+  test('inlines a heading-delimited section', async () => {
+    const result = await expandIncludes(
+      '<!-- @include: shared/rules.md#combat -->\n',
+      join(testDir, 'chapter.md'),
+      testDir
+    );
+
+    expect(result.source).toContain('## Combat {#combat}\n\nRoll dice.\n\n### Initiative\n\nHighest first.');
+    expect(result.source).not.toContain('Magic');
+  });
+
+  test('expands nested includes relative to the included file', async () => {
+    await writeFile(join(testDir, 'shared', 'appendix.md'), '<!-- @include: rules.md#magic -->\n');
+
+    const result = await expandIncludes('<!-- @include: shared/appendix.md -->', join(testDir, 'a.md'), testDir);
+
+    expect(result.source).toContain('## Magic\n\nSpells.');
+    expect(result.includes).toHaveLength(2);
+  });
+
+  test('includes in-memory sources instead of files', async () => {
+    const sources = { 'shared/rules.md': '---\ntitle: Rules\n---\nFrom memory.\n' };
+
+    const result = await expandIncludes('<!-- @include: shared/rules.md -->', '/virtual/a.md', '/virtual', sources);
+
+    expect(result.source).toContain('From memory.');
+    expect(result.includes).toEqual([join('/virtual', 'shared', 'rules.md')]);
+    expect(await expandError('<!-- @include: nope.md -->', '/virtual/a.md', '/virtual', sources)).toContain(
+      'Included file not found: nope.md'
+    );
+  });
+
+  test('ignores directives in code', async () => {
+    const source = '```\n<!-- @include: missing.md -->\n```\n\n    <!-- @include: missing.md -->\n';
+
+    expect((await expandIncludes(source, join(testDir, 'a.md'), testDir)).source).toBe(source);
+  });
+
+  test('rejects paths outside the project directory', async () => {
+    expect(
+      await expandError('<!-- @include: ../../secret.md -->', join(testDir, 'shared', 'a.md'), join(testDir, 'shared'))
+    ).toContain('Included files must be inside');
+  });
+
+  test('uses paths as written, without decoding or normalizing them', async () => {
+    await writeFile(join(testDir, 'café.md'), 'Accented.\n');
+    await writeFile(join(testDir, '100%25.md'), 'Percent.\n');
+
+    const result = await expandIncludes(
+      '<!-- @include: café.md -->\n\n<!-- @include: 100%25.md -->\n',
+      join(testDir, 'a.md'),
+      testDir
+    );
+
+    expect(result.source).toContain('Accented.');
+    expect(result.source).toContain('Percent.');
+  });
+
+  test('rejects symlinks that lead outside the project directory', async () => {
+    const shared = join(testDir, 'shared');
+    await writeFile(join(testDir, 'secret.md'), 'Secret.\n');
+    await symlink(join(shared, 'rules.md'), join(shared, 'inside.md'));
+    await symlink(join(testDir, 'secret.md'), join(shared, 'outside.md'));
+
+    const result = await expandIncludes('<!-- @include: inside.md -->', join(shared, 'a.md'), shared);
+    expect(result.source).toContain('Roll dice.');
+    expect(await expandError('<!-- @include: outside.md -->', join(shared, 'a.md'), shared)).toContain(
+      'Included files must be inside'
+    );
+  });
+
+  test('maps expanded lines to the line of the include directive', async () => {
+    const result = await expandIncludes(
+      'Before\n<!-- @include: shared/rules.md -->\nAfter\n',
+      join(testDir, 'a.md'),
+      testDir
+    );
+    const lines = result.source.split('\n');
+
+    expect(result.lineMap).toHaveLength(lines.length);
+    expect(result.lineMap[lines.indexOf('Roll dice.')]).toBe(1);
+    expect(result.lineMap[lines.indexOf('After')]).toBe(2);
+  });
+
+  test('reports missing files and sections', async () => {
+    expect(await expandError('<!-- @include: nope.md -->', join(testDir, 'a.md'), testDir)).toContain(
+      'Included file not found: nope.md'
+    );
+    expect(await expandError('<!-- @include: shared/rules.md#combta -->', join(testDir, 'a.md'), testDir)).toContain(
+      'Section "#combta" not found in rules.md'
+    );
+  });
+
+  test('detects circular includes', async () => {
+    await writeFile(join(testDir, 'a.md'), '<!-- @include: b.md -->\n');
+    await writeFile(join(testDir, 'b.md'), '<!-- @include: a.md -->\n');
+
+    expect(await expandError('<!-- @include: b.md -->\n', join(testDir, 'a.md'), testDir)).toContain(
+      'Circular include detected: a.md → b.md → a.md'
+    );
+  });
+});
+
+describe('extractSection', () => {
+  test('matches generated and explicit heading ids', () => {
+    expect(extractSection(RULES, 'magic', 'rules.md')).toBe('## Magic\n\nSpells.\n');
+    expect(extractSection(RULES, 'initiative', 'rules.md')).toBe('### Initiative\n\nHighest first.\n');
+  });
+});
+
+describe('processMarkdownFiles with includes', () => {
+  let testDir: string;
+  let config: ResolvedConfig;
+
+  beforeEach(async () => {
+    testDir = join(process.cwd(), '.tmp', `includes-build-${Date.now()}`);
+    await mkdir(testDir);
+    await writeFile(join(testDir, '01-intro.md'), '# Introduction\n\n<!-- @include: sidebar.md -->\n');
+    await writeFile(join(testDir, 'sidebar.md'), 'Original sidebar.\n');
+    config = { input: testDir, format: 'html' as OutputFormat, verbose: false };
+  });
+
+  afterEach(async () => {
+    await remove(testDir);
+    await remove(getRenderCachePath(testDir));
+  });
+
+  test('skips discovered files that are included elsewhere', async () => {
+    const { content } = await processMarkdownFiles(testDir, config);
+
+    expect(content.map((c) => c.slug)).toEqual(['01-intro']);
+    expect(content[0]?.html).toContain('<p>Original sidebar.</p>');
+  });
+
+  test('reports source lines after a multi-line include', async () => {
+    await writeFile(join(testDir, 'sidebar.md'), 'One.\n\nTwo.\n\nThree.\n');
+    await writeFile(
+      join(testDir, '01-intro.md'),
+      '---\ntitle: Intro\n---\n# Introduction\n\n<!-- @include: sidebar.md -->\n\nSee @[NPC:ghost].\n'
+    );
+
+    const { content } = await processMarkdownFiles(testDir, config);
+
+    expect(content[0]?.html).toContain('data-source-line="8"');
+  });
+
+  test('re-renders the including file when an included file changes', async () => {
+    await processMarkdownFiles(testDir, config);
+    await writeFile(join(testDir, 'sidebar.md'), 'Edited sidebar.\n');
+
+    const { content } = await processMarkdownFiles(testDir, config);
+
+    expect(content[0]?.html).toContain('<p>Edited sidebar.</p>');
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Markdown transclusion
+ *
+ * `<!-- @include: path.md -->` inlines another markdown file, and
+ * `<!-- @include: path.md#section-id -->` only the section under the heading
+ * with that id (up to the next heading of the same or a higher level).
+ * Paths are relative to the including file and must stay inside the project
+ * directory.
+ *
+ * Includes are expanded in the markdown source before rendering, so the
+ * render cache key covers included content and a change to an included file
+ * re-renders every file that includes it. Only top-level directives are
+ * expanded (not inside lists or blockquotes, or in code); core-directives-plugin.ts
+ * warns about the rest.
+ */
+
+import path from 'path';
+import { realpath } from 'fs/promises';
+import MarkdownIt from 'markdown-it';
+import anchors from 'markdown-it-anchor';
+import attrs from 'markdown-it-attrs';
+import type Token from 'markdown-it/lib/token.mjs';
+import { BuildError } from '../utils/errors.ts';
+import { parseIncludeDirective } from './core/core-directives-plugin.ts';
+import { parseFrontMatter } from './front-matter.ts';
+import { readSource, sourceExists, type BookSources } from './sources.ts';
+
+/**
+ * Block-level parser used to locate directives and headings
+ * Anchors and attrs match the heading ids of the rendering engine
+ */
+const scanner = new MarkdownIt({ html: true }).use(anchors).use(attrs);
+
+/**
+ * Markdown with includes expanded
+ */
+export interface ExpandedMarkdown {
+  /** Markdown with every top-level include replaced by the included content */
+  source: string;
+  /** Absolute paths of all included files (including nested includes) */
+  includes: string[];
+  /**
+   * 0-based line in the original source for each line of the expanded
+   * source; lines from an included file map to the include directive
+   */
+  lineMap: number[];
+}
+
+/**
+ * Expand include directives in markdown
+ *
+ * @param source - Markdown content (without front matter)
+ * @param filePath - Absolute path of the file the content came from
+ * @param rootDir - Project directory that included files must be inside
+ * @param sources - In-memory files to include from instead of the disk (see sources.ts)
+ * @param chain - Files currently being expanded (for cycle detection)
+ * @returns Expanded markdown and the files it includes
+ * @throws BuildError on missing files, paths outside the project, unknown sections or cycles
+ */
+export async function expandIncludes(
+  source: string,
+  filePath: string,
+  rootDir: string,
+  sources?: BookSources,
+  chain: string[] = []
+): Promise<ExpandedMarkdown> {
+  const lines = source.split('\n');
+  const lineMap = lines.map((_, index) => index);
+  if (!source.includes('@include')) {
+    return { source, includes: [], lineMap };
+  }
+
+  const includingChain = [...chain, path.resolve(filePath)];
+  const includes: string[] = [];
+
+  const directives = scanner
+    .parse(source, {})
+    .filter((token) => token.type === 'html_block' && token.level === 0 && token.map)
+    .map((token) => ({ map: token.map as [number, number], include: parseIncludeDirective(token.content) }))
+    .filter((directive) => directive.include !== null);
+
+  // Replace from the bottom up so earlier line numbers stay valid
+  for (const { map, include } of directives.reverse()) {
+    if (!include) continue;
+
+    const includedPath = await resolveIncludePath(include.path, filePath, rootDir, sources);
+    if (includingChain.includes(includedPath)) {
+      const cycle = [...includingChain, includedPath].map((file) => path.relative(rootDir, file)).join(' → ');
+      throw new BuildError(`Circular include detected: ${cycle}`);
+    }
+
+    const { body } = parseFrontMatter(await readSource(includedPath, rootDir, sources), includedPath);
+    const content = include.section ? extractSection(body, include.section, includedPath) : body;
+    const nested = await expandIncludes(content, includedPath, rootDir, sources, includingChain);
+
+    includes.push(includedPath, ...nested.includes);
+    // Blank lines keep the included blocks separate from surrounding ones
+    const included = ['', ...nested.source.replace(/\n+$/, '').split('\n'), ''];
+    lines.splice(map[0], map[1] - map[0], ...included);
+    lineMap.splice(map[0], map[1] - map[0], ...included.map(() => map[0]));
+  }
+
+  return { source: lines.join('\n'), includes: [...new Set(includes)], lineMap };
+}
+
+/**
+ * Resolve an include path relative to the including file
+ *
+ * Paths are used as written (no URL decoding or Unicode normalization).
+ * On disk, the containment check is repeated on the real path, so a symlink
+ * inside the project cannot point outside it.
+ *
+ * @throws BuildError if the path leaves the project directory or does not exist
+ */
+async function resolveIncludePath(
+  includePath: string,
+  filePath: string,
+  rootDir: string,
+  sources?: BookSources
+): Promise<string> {
+  const resolved = path.resolve(path.dirname(filePath), includePath);
+  const relativeSource = path.relative(rootDir, filePath);
+  const outsideError = (): BuildError =>
+    new BuildError(
+      `Cannot include "${includePath}" in ${relativeSource}: path is outside the project directory\n` +
+        `Included files must be inside ${rootDir}`
+    );
+
+  if (!isInside(resolved, rootDir)) {
+    throw outsideError();
+  }
+  if (!(await sourceExists(resolved, rootDir, sources))) {
+    throw new BuildError(`Included file not found: ${includePath} (in ${relativeSource})`);
+  }
+  // In-memory sources have no symlinks to follow
+  if (!sources && !isInside(await realpath(resolved), await realpath(rootDir))) {
+    throw outsideError();
+  }
+
+  return resolved;
+}
+
+/**
+ * Whether a path is inside (or equal to) a directory
+ */
+function isInside(target: string, dir: string): boolean {
+  const relative = path.relative(path.resolve(dir), target);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Extract the section under the heading with the given id
+ *
+ * The section runs from the heading to the next heading of the same or a
+ * higher level, or to the end of the file.
+ *
+ * @throws BuildError if no heading has that id
+ */
+export function extractSection(source: string, sectionId: string, filePath: string): string {
+  const headings = scanner
+    .parse(source, {})
+    .filter((token): token is Token & { map: [number, number] } => token.type === 'heading_open' && !!token.map);
+
+  const index = headings.findIndex((heading) => heading.attrGet('id') === sectionId);
+  const start = headings[index];
+  if (!start) {
+    const ids = headings.map((heading) => heading.attrGet('id')).filter(Boolean);
+    throw new BuildError(
+      `Section "#${sectionId}" not found in ${path.basename(filePath)}\n` +
+        `Available sections: ${ids.map((id) => `#${id}`).join(', ') || '(none)'}`
+    );
+  }
+
+  const end = headings.slice(index + 1).find((heading) => heading.tag <= start.tag);
+  return source
+    .split('\n')
+    .slice(start.map[0], end?.map[0])
+    .join('\n');
+}
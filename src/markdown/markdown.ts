@@ -6,17 +6,41 @@ import { imgSize } from "@mdit/plugin-img-size";
 import dimmCityPlugin from "./plugins/dimm-city-plugin.ts";
 import ttrpgDirectivesPlugin from "./plugins/ttrpg-directives-plugin.ts";
 import coreDirectivesPlugin from "./core/core-directives-plugin.ts";
-import { BuildError, ConfigError } from "../utils/errors.ts";
+import footnotesPlugin from "./core/footnotes-plugin.ts";
+import figuresPlugin from "./core/figures-plugin.ts";
+import { BuildError, ConfigError, SourceError, throwIfAborted } from "../utils/errors.ts";
 import path from "path";
-import { readFile, fileExists, isDirectory, readDirectory } from "../utils/file-utils.ts";
-import { debug, info, warn } from "../utils/logger.ts";
+import { readFile, fileExists, isDirectory } from "../utils/file-utils.ts";
+import { createLogger } from "../utils/logger.ts";
 import { type ResolvedConfig } from "../config/config-state.ts";
 import { resolveImports } from "../utils/css-utils.ts";
+import { generatePageCss } from "../utils/page-format.ts";
 import { defaultStyles } from "./core/assets.ts";
-import { loadManifest } from "../utils/config.ts";
+import { loadManifestProfile } from "../config/profiles.ts";
+import { loadManifestLayers } from "../utils/config.ts";
 import { createPluginLoader } from "./plugin-loader.ts";
+import { RenderCache, captureWarnings, createRenderFingerprint, getRenderCachePath } from "./render-cache.ts";
+import { FILENAMES } from "../constants.ts";
+import type { PerformanceMonitor } from "../utils/performance.ts";
+import type { BuildReportCollector } from "../build/build-report.ts";
+import { parseFrontMatter, frontMatterToAttributes } from "./front-matter.ts";
+import { uniqueHeadingIds } from "./heading-ids.ts";
+import { expandIncludes } from "./includes.ts";
+import { resolveBookFiles, type BookFile } from "./book-files.ts";
+import { getSourceRoot, readSource, type BookSources } from "./sources.ts";
+import { createTemplateVariables, reportUndefinedVariables } from "./template-variables.ts";
+import type { TemplateVariables } from "./template-variables.ts";
+import { insertTableOfContents } from "./toc.ts";
+import { insertIndex } from "./book-index.ts";
+import { insertBarcodes } from "./barcodes.ts";
+import { insertFigureNumbers, insertFigureLists } from "./figures.ts";
+import { applyCrossReferences } from "./cross-references.ts";
+import { applyFootnotes } from "./footnotes.ts";
+import { OutputFormat, type BuildHooks, type FrontMatter } from "../types.ts";
 import type { PluginConfig, LoadedPlugin } from "../types/plugin-types.ts";
 
+const { debug, info, warn } = createLogger("markdown");
+
 /**
  * Extension configuration options for markdown engine
  */
@@ -52,12 +76,14 @@ export function parseExtensionOptions(extensions?: string[]): MarkdownExtensionO
  * @param inputPath - Input file or directory path (used as baseDir for plugin resolution)
  * @param pluginConfigs - Array of plugin configurations from manifest
  * @param verbose - Enable verbose logging
+ * @param perf - Optional performance monitor that times each plugin load
  * @returns Array of loaded plugins with their CSS
  */
 export async function loadPluginsFromConfig(
   inputPath: string,
   pluginConfigs: PluginConfig[] | undefined,
-  verbose: boolean = false
+  verbose: boolean = false,
+  perf?: PerformanceMonitor
 ): Promise<LoadedPlugin[]> {
   if (!pluginConfigs || pluginConfigs.length === 0) {
     return [];
@@ -72,6 +98,7 @@ export async function loadPluginsFromConfig(
     strict: false, // Don't fail build on plugin errors, just warn
     verbose,
     cache: true,
+    perf,
   });
 
   // Load all plugins
@@ -119,7 +146,12 @@ export function createMarkdownEngineWithPlugins(loadedPlugins: LoadedPlugin[]):
   };
 
   // Start with base markdown instance with core plugins
-  let md = new MarkdownIt(options).use(imgSize).use(anchors).use(coreDirectivesPlugin);
+  let md = new MarkdownIt(options)
+    .use(imgSize)
+    .use(anchors)
+    .use(coreDirectivesPlugin)
+    .use(footnotesPlugin)
+    .use(figuresPlugin);
 
   // Register container syntax BEFORE other plugins (part of base engine)
   // These are always available regardless of which plugins are loaded
@@ -168,7 +200,12 @@ export function createPagedMarkdownEngine(extensions?: MarkdownExtensionOptions)
     html: true,
   };
 
-  let markdownLib = new MarkdownIt(options).use(imgSize).use(anchors).use(coreDirectivesPlugin);
+  let markdownLib = new MarkdownIt(options)
+    .use(imgSize)
+    .use(anchors)
+    .use(coreDirectivesPlugin)
+    .use(footnotesPlugin)
+    .use(figuresPlugin);
 
   // Legacy container syntax (optional)
   if (enableContainers || enableDimmCity || enableTtrpg) {
@@ -263,30 +300,94 @@ function configureMarkdownRules(md: MarkdownIt, extensions?: MarkdownExtensionOp
   }
 }
 
+/**
+ * A rendered markdown file, wrapped in an <article> in the final document
+ */
+export interface ProcessedArticle {
+  /** Article id (file name without .md) */
+  slug: string;
+  /** Rendered HTML */
+  html: string;
+  /** Per-file front matter (empty object when the file has none) */
+  frontMatter: FrontMatter;
+  /** Markdown file the article was rendered from */
+  sourcePath: string;
+  /** Part divider page rendered from a _part.md file */
+  part?: boolean;
+}
+
+/**
+ * Environment passed to markdown-it (`state.env`) for each file
+ */
+export interface MarkdownRenderEnv {
+  /** Article id of the file being rendered */
+  slug: string;
+  /** Front matter of the file being rendered */
+  frontMatter: FrontMatter;
+  /** Lines removed above the rendered body (front matter), for mapping token lines to file lines */
+  lineOffset: number;
+  /** Body line for each rendered line when includes were expanded (see core/source-lines.ts) */
+  lineMap?: number[];
+  /** Values for `{{ name }}` and `@if` conditions (see template-variables.ts) */
+  variables: TemplateVariables;
+  /** All files of the book in reading order (see book-files.ts) */
+  files: BookFile[];
+}
+
+/**
+ * Shared state for rendering the files of one build
+ */
+interface RenderContext {
+  md: MarkdownIt;
+  cache: RenderCache;
+  /** Project directory that included files must be inside */
+  rootDir: string;
+  /** Receives the absolute paths of all included files */
+  includedFiles: Set<string>;
+  variables: TemplateVariables;
+  /** Files of the book in reading order, passed to plugins as `env.files` */
+  files: BookFile[];
+  /** In-memory files read instead of the disk (see sources.ts) */
+  sources?: BookSources;
+  signal?: AbortSignal;
+  hooks?: BuildHooks;
+}
+
 /**
  * Process markdown files from input directory
- * Reads all .md files and converts them to HTML articles
+ * Reads the book's .md files in reading order (see book-files.ts) and
+ * converts them to HTML articles
+ *
+ * Front matter is stripped before rendering (see front-matter.ts); files
+ * with `exclude: true` are skipped. Rendered HTML is cached per file
+ * content (see render-cache.ts), so only changed files are re-rendered
+ * on rebuilds.
  *
  * @param inputPath - Input file or directory path
  * @param config - Resolved configuration object
- * @returns Array of processed content with slug and HTML, plus collected plugin CSS
+ * @param perf - Optional performance monitor that receives cache hit/miss counts and
+ *   times plugin loads and each file render
+ * @returns Array of processed content with slug and HTML, plus collected plugin CSS and the loaded plugins
  */
 export async function processMarkdownFiles(
   inputPath: string,
-  config: ResolvedConfig
+  config: ResolvedConfig,
+  perf?: PerformanceMonitor
 ): Promise<{
-  content: Array<{ slug: string; html: string }>;
+  content: ProcessedArticle[];
   pluginCSS: string[];
+  plugins: LoadedPlugin[];
 }> {
   let md: MarkdownIt;
   let pluginCSS: string[] = [];
+  let loadedPlugins: LoadedPlugin[] = [];
 
   // Check if plugins are configured (new approach)
   if (config.plugins && config.plugins.length > 0) {
     info(`Loading ${config.plugins.length} plugin(s)...`);
 
     // Load plugins from configuration
-    const loadedPlugins = await loadPluginsFromConfig(inputPath, config.plugins, config.verbose);
+    loadedPlugins = await loadPluginsFromConfig(inputPath, config.plugins, config.verbose, perf);
 
     // Create markdown engine with loaded plugins
     md = createMarkdownEngineWithPlugins(loadedPlugins);
@@ -306,7 +407,7 @@ export async function processMarkdownFiles(
     const pluginConfigs = extensionsToPlugins(config.extensions);
 
     if (pluginConfigs.length > 0) {
-      const loadedPlugins = await loadPluginsFromConfig(inputPath, pluginConfigs, config.verbose);
+      loadedPlugins = await loadPluginsFromConfig(inputPath, pluginConfigs, config.verbose, perf);
 
       md = createMarkdownEngineWithPlugins(loadedPlugins);
 
@@ -326,88 +427,272 @@ export async function processMarkdownFiles(
     md = getGlobalMarkdownEngine();
   }
 
-  const content: Array<{ slug: string; html: string }> = [];
+  const content: ProcessedArticle[] = [];
+  const variables = createTemplateVariables(config);
+  const cache = await openRenderCache(inputPath, config, loadedPlugins, variables);
+  // In-memory sources are always a project directory
+  const inputIsDirectory = Boolean(config.sources) || (await isDirectory(inputPath));
+  const context: RenderContext = {
+    md,
+    cache,
+    rootDir: inputIsDirectory ? inputPath : path.dirname(inputPath),
+    includedFiles: new Set<string>(),
+    variables,
+    files: [],
+    sources: config.sources,
+    signal: config.signal,
+    hooks: config.hooks,
+  };
 
   // Check if input is a directory
-  if (await isDirectory(inputPath)) {
-    let markdownFiles: Array<{ name: string; path: string }> = [];
-
-    if (config.files && config.files.length > 0) {
-      // Use manifest file ordering
-      debug(`Using manifest.files ordering (${config.files.length} files)`);
-      markdownFiles = config.files.map((file) => ({
-        name: path.basename(file),
-        path: path.join(inputPath, file),
-      }));
-
-      // Verify all files exist
-      for (const file of markdownFiles) {
-        if (!(await fileExists(file.path))) {
-          throw new BuildError(`File not found: ${file.path}`);
-        }
-      }
-    } else {
-      // Process all markdown files in alphabetical order (default behavior)
-      const files = await readDirectory(inputPath);
-      markdownFiles = files
-        .filter((file) => file.isFile() && file.name.endsWith(".md"))
-        .sort((a, b) => a.name.localeCompare(b.name))
-        .map((file) => ({
-          name: file.name,
-          path: path.join(inputPath, file.name),
-        }));
+  if (inputIsDirectory) {
+    const resolution = await resolveBookFiles(inputPath, config.files, config.sources);
+    const [missing] = resolution.missing;
+    if (missing !== undefined) {
+      throw new BuildError(`File not found: ${path.join(inputPath, missing)}`);
+    }
+    for (const pattern of resolution.unmatched) {
+      warn(`No markdown files match "${pattern}" in manifest.files`, { pattern });
     }
 
-    for (const file of markdownFiles) {
-      const markdownContent = await readFile(file.path);
-      const slug = file.name.replace(".md", "");
+    context.files = resolution.files;
+    debug(
+      `${resolution.discovered ? "Discovered" : "Using manifest.files ordering for"} ${resolution.files.length} file(s):\n` +
+        resolution.files
+          .map((file, i) => `  ${i + 1}. ${file.relativePath}${file.part ? " (part)" : ""}`)
+          .join("\n")
+    );
 
-      try {
-        const html = md.render(markdownContent);
-        content.push({ slug, html });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        throw new BuildError(`Failed to process markdown file ${file.path}: ${message}`);
+    for (const file of resolution.files) {
+      const article = await renderTimedFile(context, file, perf);
+      if (article) {
+        content.push(article);
       }
     }
+
+    // Discovered files that are included elsewhere are not chapters of their own
+    if (resolution.discovered) {
+      const standalone = content.filter((article) => !context.includedFiles.has(path.resolve(article.sourcePath)));
+      for (const article of content.filter((a) => !standalone.includes(a))) {
+        debug(`Skipping ${article.sourcePath} (included by another file)`);
+      }
+      content.splice(0, content.length, ...standalone);
+    }
   } else {
     // Process single markdown file
-    const markdownContent = await readFile(inputPath);
-    const slug = path.basename(inputPath, ".md");
-
-    try {
-      const html = md.render(markdownContent);
-      content.push({ slug, html });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      throw new BuildError(`Failed to process markdown file ${inputPath}: ${message}`);
+    const file: BookFile = {
+      path: inputPath,
+      relativePath: path.basename(inputPath),
+      slug: path.basename(inputPath, ".md"),
+      part: false,
+    };
+    context.files = [file];
+    const article = await renderTimedFile(context, file, perf);
+    if (article) {
+      content.push(article);
     }
   }
 
-  return { content, pluginCSS };
+  await cache.save();
+  debug(`Render cache: ${cache.hits} hit(s), ${cache.misses} miss(es)`);
+  perf?.count("Render Cache Hits", cache.hits);
+  perf?.count("Render Cache Misses", cache.misses);
+
+  return { content, pluginCSS, plugins: loadedPlugins };
+}
+
+/**
+ * Render one file of the book, timing it and reporting it to the build hooks
+ *
+ * @throws BuildAbortedError if the build was cancelled
+ */
+async function renderTimedFile(
+  context: RenderContext,
+  file: BookFile,
+  perf?: PerformanceMonitor
+): Promise<ProcessedArticle | null> {
+  throwIfAborted(context.signal);
+  const hits = context.cache.hits;
+  const endSpan = perf?.startSpan(file.relativePath, "markdown");
+  const article = await renderMarkdownFile(context, file);
+  endSpan?.();
+  if (article) {
+    context.hooks?.onFileRendered?.({ path: file.path, slug: file.slug, cached: context.cache.hits > hits });
+  }
+  return article;
+}
+
+/**
+ * Read and render one markdown file, reusing cached HTML for unchanged content
+ *
+ * @returns Rendered article, or null if front matter excludes the file
+ * @throws BuildError if front matter or an include is invalid, or rendering fails
+ */
+async function renderMarkdownFile(context: RenderContext, file: BookFile): Promise<ProcessedArticle | null> {
+  const { md, cache } = context;
+  const { path: filePath, slug, part } = file;
+  const source = await readSource(filePath, context.rootDir, context.sources);
+  const { frontMatter, body, lineOffset } = parseFrontMatter(source, filePath);
+
+  if (frontMatter.exclude) {
+    debug(`Skipping ${filePath} (excluded by front matter)`);
+    return null;
+  }
+
+  const expanded = await expandIncludes(body, filePath, context.rootDir, context.sources);
+  for (const included of expanded.includes) {
+    context.includedFiles.add(included);
+  }
+
+  // Slug and the book's file order are part of the render env, so they are
+  // part of the key; expanded includes are too, so editing an included file
+  // re-renders this one
+  const order = context.files.map((bookFile) => bookFile.relativePath).join("\n");
+  const key = RenderCache.hashContent(
+    `${slug}\n${order}\n${source}${expanded.includes.length > 0 ? `\n${expanded.source}` : ""}`
+  );
+  const cached = cache.get(key);
+  if (cached !== undefined) {
+    return { slug, html: cached, frontMatter, sourcePath: filePath, part };
+  }
+
+  try {
+    const env: MarkdownRenderEnv = {
+      slug,
+      frontMatter,
+      lineOffset,
+      lineMap: expanded.lineMap,
+      variables: context.variables,
+      files: context.files,
+    };
+    const html = cache.set(key, captureWarnings(() => md.render(expanded.source, env)));
+    return { slug, html, frontMatter, sourcePath: filePath, part };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const line = message.match(/^Directive parsing error at line (\d+):/)?.[1];
+    throw new SourceError(
+      `Failed to process markdown file ${filePath}: ${message}`,
+      filePath,
+      line ? Number(line) : null
+    );
+  }
+}
+
+/**
+ * Resolve a manifest.styles entry to a file
+ *
+ * Two-tier resolution: bundled styles (themes/, plugins/) first, then the
+ * input directory (user custom styles).
+ *
+ * @param styleFile - Entry from manifest.styles
+ * @param inputDir - Project directory
+ * @returns Absolute path, or null if neither location has the file
+ */
+export async function resolveStyleFile(styleFile: string, inputDir: string): Promise<string | null> {
+  // Get bundled assets directory
+  // When running from dist/cli.js: assets are in dist/assets/
+  // When running from src/: assets are in src/assets/
+  const { existsSync } = await import("fs");
+  const thisFileDir = import.meta.dir;
+  const assetsInSameDir = path.join(thisFileDir, "assets");
+  const assetsInParent = path.join(thisFileDir, "../assets");
+  const bundledStylesDir = existsSync(assetsInSameDir) ? assetsInSameDir : assetsInParent;
+
+  // Tier 1: Check bundled styles directory (themes/, plugins/)
+  const bundledPath = path.join(bundledStylesDir, styleFile);
+  if (await fileExists(bundledPath)) {
+    return bundledPath;
+  }
+
+  // Tier 2: Check input directory (user custom styles)
+  const userPath = path.join(inputDir, styleFile);
+  return (await fileExists(userPath)) ? userPath : null;
+}
+
+/**
+ * Open the render cache for an input path
+ *
+ * The fingerprint covers everything besides file content that changes the
+ * rendered HTML: pagedmd version, plugin/extension configuration, loaded
+ * plugin versions, the manifest (with any manifests it extends) and template variables (which include
+ * `--define` values). In-memory sources get a cache that is not persisted.
+ */
+async function openRenderCache(
+  inputPath: string,
+  config: ResolvedConfig,
+  loadedPlugins: LoadedPlugin[],
+  variables: TemplateVariables
+): Promise<RenderCache> {
+  if (config.sources) {
+    return RenderCache.inMemory();
+  }
+
+  const manifestDir = (await isDirectory(inputPath)) ? inputPath : path.dirname(inputPath);
+  const manifestPath = path.join(manifestDir, FILENAMES.MANIFEST);
+  // Merged with any manifests it extends, so changes to a shared base manifest count too
+  const manifest = (await fileExists(manifestPath))
+    ? JSON.stringify((await loadManifestLayers(manifestPath)).data)
+    : null;
+
+  const fingerprint = createRenderFingerprint({
+    plugins: config.plugins ?? null,
+    extensions: config.extensions ?? null,
+    loadedPlugins: loadedPlugins.map((p) => `${p.metadata.name}@${p.metadata.version}`),
+    manifest,
+    variables,
+  });
+
+  return RenderCache.load(getRenderCachePath(inputPath), fingerprint);
 }
 
 export async function generateHtmlFromMarkdown(
   inputPath: string,
   inputConfig: ResolvedConfig,
-  options?: { includePreviewAssets?: boolean }
+  options?: { includePreviewAssets?: boolean; perf?: PerformanceMonitor; report?: BuildReportCollector }
 ) {
-  // Load manifest from input directory
+  // Load manifest from input directory (with the selected edition applied)
   info(`Generating HTML from markdown in: ${inputPath}`);
-  const manifest = await loadManifest(inputPath);
+  const manifest = await loadManifestProfile(inputPath, inputConfig.edition, inputConfig);
   // Rename manifest.format to pageFormat to avoid conflict with BuildOptions.format
   const { format: pageFormat, ...manifestRest } = manifest || {};
-  const config: ResolvedConfig = { ...inputConfig, ...manifestRest, pageFormat };
-  const { content, pluginCSS } = await processMarkdownFiles(inputPath, config);
+  const config: ResolvedConfig = {
+    ...inputConfig,
+    ...manifestRest,
+    pageFormat: pageFormat ?? inputConfig.pageFormat,
+  };
+  const processed = await processMarkdownFiles(inputPath, config, options?.perf);
+  const { pluginCSS } = processed;
 
-  if (content.length === 0) {
+  if (processed.content.length === 0) {
     throw new BuildError("No markdown files found in input path");
   }
 
+  // Cross-article passes run on rendered (possibly cached) HTML, once
+  // heading ids are unique across the book
+  const articles = uniqueHeadingIds(processed.content);
+  let content = insertTableOfContents(articles, config.toc);
+  content = insertIndex(content);
+  content = insertFigureLists(insertFigureNumbers(content));
+  content = insertBarcodes(content, config.metadata);
+  content = applyCrossReferences(content, config.crossReferences);
+  reportUndefinedVariables(content);
+  // No pages to float footnotes to in HTML and EPUB output
+  content = applyFootnotes(content, config.footnotes, {
+    endnotes: config.format === OutputFormat.HTML || config.format === OutputFormat.EPUB,
+  });
+
   info(`Processed ${content.length} markdown file(s)`);
+  const rootDir = await getSourceRoot(inputPath, config.sources);
+  options?.report?.recordFiles(content, rootDir);
+  options?.report?.recordPlugins(processed.plugins);
 
   // STAGE 6: Create HTML with concatenated articles
-  const htmlBody = content.map((c) => `<article id="${c.slug}">${c.html}</article>`).join("\n");
+  const htmlBody = content
+    .map(
+      (c) =>
+        `<article id="${c.slug}"${c.part ? ' class="part-divider"' : ""}${frontMatterToAttributes(c.frontMatter)}>${c.html}</article>`
+    )
+    .join("\n");
 
   // STAGE 7: Build head content with CSS cascade
   /**
@@ -421,7 +706,11 @@ export async function generateHtmlFromMarkdown(
    *    - ttrpg-components.css - Callouts, stat blocks, profiles
    *    - layouts.css - Layout utilities
    *
-   * 2. CUSTOM CSS (linked) - Designer overrides
+   * 2. PAGE FORMAT (generated) - @page size, mirrored margins and bleed
+   *    - Generated from manifest.format
+   *    - Replaces the default page setup, still overridable by custom CSS
+   *
+   * 3. CUSTOM CSS (linked) - Designer overrides
    *    - Paths from manifest.styles array (relative to input directory)
    *    - Includes theme CSS files (e.g., themes/classic.css, themes/modern.css)
    *    - Final authority - can override any default styling
@@ -447,51 +736,48 @@ export async function generateHtmlFromMarkdown(
     debug(`Included CSS from ${pluginCSS.length} plugin(s)`);
   }
 
-  // Layer 3: Theme styles, migrated to styles
-  // Layer 4: Custom CSS from manifest (inlined with resolved @imports)
+  // Layer 3: Generated @page rules from manifest.format
+  let pageCss: string;
+  try {
+    pageCss = generatePageCss(config.pageFormat);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Invalid manifest format: ${message}`);
+  }
+  if (pageCss) {
+    headContent += `\n    <style>\n/* Page format: manifest.yaml format */\n${pageCss}\n    </style>`;
+    debug("Included generated @page rules from manifest format");
+  }
+
+  // Layer 4: Theme styles, migrated to styles
+  // Layer 5: Custom CSS from manifest (inlined with resolved @imports)
   // Two-tier resolution: bundled styles (themes/, plugins/) -> user custom styles
   // This matches preview mode behavior - all @imports are resolved and inlined
+  // In-memory sources are looked up first and inlined as they are (@imports
+  // are not resolved)
   if (config.styles && config.styles.length > 0) {
-    const inputDir = (await isDirectory(inputPath)) ? inputPath : path.dirname(inputPath);
-
-    // Get bundled assets directory
-    // When running from dist/cli.js: assets are in dist/assets/
-    // When running from src/: assets are in src/assets/
-    const { existsSync } = await import("fs");
-    const thisFileDir = import.meta.dir;
-    const assetsInSameDir = path.join(thisFileDir, "assets");
-    const assetsInParent = path.join(thisFileDir, "../assets");
-    const bundledStylesDir = existsSync(assetsInSameDir) ? assetsInSameDir : assetsInParent;
-
     for (const styleFile of config.styles) {
-      let resolvedPath: string | null = null;
-      let cssContent: string | null = null;
-
-      // Tier 1: Check bundled styles directory (themes/, plugins/)
-      const bundledPath = path.join(bundledStylesDir, styleFile);
-      if (await fileExists(bundledPath)) {
-        resolvedPath = bundledPath;
-        cssContent = await readFile(bundledPath);
+      const inMemoryCss = config.sources?.[styleFile];
+      if (inMemoryCss !== undefined) {
+        headContent += `\n    <style>\n/* Custom CSS: ${styleFile} */\n${inMemoryCss}\n    </style>`;
+        debug(`Custom CSS inlined from sources: ${styleFile}`);
+        continue;
       }
 
-      // Tier 2: Check input directory (user custom styles)
-      if (!resolvedPath) {
-        const userPath = path.join(inputDir, styleFile);
-        if (await fileExists(userPath)) {
-          resolvedPath = userPath;
-          cssContent = await readFile(userPath);
-        }
-      }
+      const resolvedPath = await resolveStyleFile(styleFile, rootDir);
+      const cssContent = resolvedPath ? await readFile(resolvedPath) : null;
 
       if (resolvedPath && cssContent) {
         // Resolve @import statements recursively (matches preview mode)
+        const endSpan = options?.perf?.startSpan(styleFile, "css");
         const result = await resolveImports(cssContent, resolvedPath, {
           failOnMissing: true, // Build mode should fail on missing imports
         });
+        endSpan?.({ files: result.files.length });
 
         // Log warnings (non-critical issues)
         for (const warning of result.warnings) {
-          warn(`CSS import warning in ${styleFile}: ${warning}`);
+          warn(`CSS import warning in ${styleFile}: ${warning}`, { file: styleFile });
         }
 
         // Throw on errors (critical issues like circular imports or missing files)
@@ -503,10 +789,11 @@ export async function generateHtmlFromMarkdown(
           );
         }
 
+        options?.report?.recordCss(result.files, rootDir);
         headContent += `\n    <style>\n/* Custom CSS: ${styleFile} */\n${result.resolvedCSS}\n    </style>`;
         debug(`Custom CSS inlined: ${styleFile}`);
       } else {
-        warn(`Custom CSS file not found: ${styleFile}`);
+        warn(`Custom CSS file not found: ${styleFile}`, { file: styleFile });
       }
     }
   }
@@ -13,7 +13,8 @@ import { pathToFileURL } from "url";
 import type MarkdownIt from "markdown-it";
 import { fileExists, readFile } from "../utils/file-utils.js";
 import { validateStaticPath } from "../utils/path-security.js";
-import { info, warn, debug } from "../utils/logger.js";
+import { createLogger } from "../utils/logger.js";
+import type { PerformanceMonitor } from "../utils/performance.js";
 import type {
   PluginConfig,
   PluginType,
@@ -31,6 +32,8 @@ import { PluginError, PluginSecurityError } from "../types/plugin-types.js";
 import ttrpgPlugin from "./plugins/ttrpg-directives-plugin.js";
 import dimmCityPlugin from "./plugins/dimm-city-plugin.js";
 
+const { info, warn, debug } = createLogger("plugin");
+
 /**
  * Plugin loader class
  *
@@ -42,6 +45,7 @@ export class PluginLoader {
   private verbose: boolean;
   private enableCache: boolean;
   private cache: Map<string, LoadedPlugin>;
+  private perf?: PerformanceMonitor;
   private builtinPlugins: Map<string, MarkdownItPlugin>;
 
   constructor(options: PluginLoaderOptions) {
@@ -50,6 +54,7 @@ export class PluginLoader {
     this.verbose = options.verbose ?? false;
     this.enableCache = options.cache ?? true;
     this.cache = new Map();
+    this.perf = options.perf;
 
     // Register built-in plugins (cast to MarkdownItPlugin to allow different option types)
     this.builtinPlugins = new Map<string, MarkdownItPlugin>([
@@ -85,6 +90,11 @@ export class PluginLoader {
 
     // Determine plugin type
     const type = normalized.type || this.detectType(normalized);
+    const endSpan = this.perf?.startSpan(
+      `Load plugin ${normalized.name || normalized.path || normalized.url || "unknown"}`,
+      "plugin",
+      { type }
+    );
 
     try {
       let loaded: LoadedPlugin;
@@ -120,9 +130,11 @@ export class PluginLoader {
       }
 
       this.log(`✓ Loaded ${type} plugin: ${loaded.metadata.name} v${loaded.metadata.version}`);
+      endSpan?.({ version: loaded.metadata.version });
 
       return loaded;
     } catch (error) {
+      endSpan?.({ error: true });
       const errorMessage = error instanceof Error ? error.message : String(error);
       const pluginName = normalized.name || normalized.path || normalized.url || "unknown";
 
@@ -134,7 +146,7 @@ export class PluginLoader {
           error instanceof Error ? error : undefined
         );
       } else {
-        warn(`Failed to load plugin ${pluginName}: ${errorMessage}`);
+        warn(`Failed to load plugin ${pluginName}: ${errorMessage}`, { plugin: pluginName });
         return null;
       }
     }
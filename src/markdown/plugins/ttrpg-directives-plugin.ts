@@ -14,6 +14,8 @@
 
 import type MarkdownIt from 'markdown-it';
 import type { StateInline, Token } from 'markdown-it/index.js';
+import type StateCore from 'markdown-it/lib/rules_core/state_core.mjs';
+import { toSourceLine } from '../core/source-lines.ts';
 
 
 export interface TTRPGPluginOptions {
@@ -204,11 +206,38 @@ function renderCrossReference(tokens: Token[], idx: number): string {
     const type = token.attrGet("data-ref-type") ?? "ref";
     const id = token.attrGet("data-ref-id") ?? "";
     const className = token.attrGet("class") ?? "";
+    const line = token.attrGet("data-source-line");
 
     // Generate link based on type
     const href = `#${type}-${id.toLowerCase().replace(/\s+/g, "-")}`;
+    const lineAttr = line ? ` data-source-line="${line}"` : "";
 
-    return `<a href="${href}" class="${className}" data-ref-type="${type}" data-ref-id="${id}" title="See ${type}: ${id}">${id}</a>`;
+    return `<a href="${href}" class="${className}" data-ref-type="${type}" data-ref-id="${id}" title="See ${type}: ${id}"${lineAttr}>${id}</a>`;
+}
+
+/**
+ * Record the source line of each cross-reference so the build-wide
+ * resolution pass (cross-references.ts) can report file and line
+ *
+ * Lines are 1-based file lines: the inline block's start line plus line
+ * breaks before the reference, mapped back to the file with the render env
+ * (front matter offset, expanded includes).
+ */
+function annotateCrossReferenceLines(state: StateCore): boolean {
+    for (const blockToken of state.tokens) {
+        if (blockToken.type !== "inline" || !blockToken.map || !blockToken.children) continue;
+
+        let line = blockToken.map[0];
+        for (const child of blockToken.children) {
+            if (child.type === "softbreak" || child.type === "hardbreak") {
+                line++;
+            } else if (child.type === "cross_reference") {
+                child.attrSet("data-source-line", String(toSourceLine(state.env, line)));
+            }
+        }
+    }
+
+    return true;
 }
 
 // ============================================================================
@@ -357,6 +386,7 @@ function ttrpgPlugin(
             parseCrossReference,
         );
         md.renderer.rules.cross_reference = renderCrossReference;
+        md.core.ruler.push("cross_reference_lines", annotateCrossReferenceLines);
     }
 
     if (config.traitCallouts) {
@@ -0,0 +1,178 @@
+/**
+ * Tests for the incremental markdown render cache
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { join } from 'path';
+import { mkdir, writeFile, remove, readFile } from '../utils/file-utils.ts';
+import { RenderCache, captureWarnings, createRenderFingerprint, getRenderCachePath } from './render-cache.ts';
+import { processMarkdownFiles } from './markdown.ts';
+import { PerformanceMonitor } from '../utils/performance.ts';
+import { addLogListener, createLogger, silence, reset, warn, type LogEntry } from '../utils/logger.ts';
+import type { ResolvedConfig } from '../config/config-state.ts';
+import type { OutputFormat } from '../types.ts';
+
+describe('RenderCache', () => {
+  let testDir: string;
+  let cachePath: string;
+
+  beforeEach(async () => {
+    testDir = join(process.cwd(), '.tmp', `render-cache-tests-${Date.now()}`);
+    cachePath = join(testDir, 'cache.json');
+    await mkdir(testDir);
+  });
+
+  afterEach(async () => {
+    await remove(testDir);
+  });
+
+  test('persists entries and counts hits and misses', async () => {
+    const key = RenderCache.hashContent('# Title');
+
+    const first = await RenderCache.load(cachePath, 'fp');
+    expect(first.get(key)).toBeUndefined();
+    first.set(key, { html: '<h1>Title</h1>', warnings: [] });
+    await first.save();
+
+    const second = await RenderCache.load(cachePath, 'fp');
+    expect(second.get(key)).toBe('<h1>Title</h1>');
+    expect(second.get(RenderCache.hashContent('# Other'))).toBeUndefined();
+    expect(second.hits).toBe(1);
+    expect(second.misses).toBe(1);
+  });
+
+  test('discards entries when the fingerprint changes', async () => {
+    const key = RenderCache.hashContent('# Title');
+    const cache = await RenderCache.load(cachePath, 'fp-1');
+    cache.set(key, { html: '<h1>Title</h1>', warnings: [] });
+    await cache.save();
+
+    const reloaded = await RenderCache.load(cachePath, 'fp-2');
+    expect(reloaded.get(key)).toBeUndefined();
+  });
+
+  test('drops entries not used by the last build', async () => {
+    const oldKey = RenderCache.hashContent('old');
+    const newKey = RenderCache.hashContent('new');
+    const cache = await RenderCache.load(cachePath, 'fp');
+    cache.set(oldKey, { html: '<p>old</p>', warnings: [] });
+    await cache.save();
+
+    const next = await RenderCache.load(cachePath, 'fp');
+    next.set(newKey, { html: '<p>new</p>', warnings: [] });
+    await next.save();
+
+    const saved = JSON.parse(await readFile(cachePath)) as { entries: Record<string, unknown> };
+    expect(Object.keys(saved.entries)).toEqual([newKey]);
+  });
+
+  test('captures warnings and logs them again on a hit', async () => {
+    const key = RenderCache.hashContent('<!-- @bogus -->');
+    const entry = captureWarnings(() => {
+      warn('Unknown directive "@bogus"');
+      createLogger('markdown').warn('Undefined variable', { line: 3 });
+      return '';
+    });
+    expect(entry.warnings).toEqual([
+      { message: 'Unknown directive "@bogus"', subsystem: undefined, fields: undefined },
+      { message: 'Undefined variable', subsystem: 'markdown', fields: { line: 3 } },
+    ]);
+
+    const cache = await RenderCache.load(cachePath, 'fp');
+    cache.set(key, entry);
+    await cache.save();
+
+    const entries: LogEntry[] = [];
+    const removeListener = addLogListener((logged) => entries.push(logged));
+    silence();
+    try {
+      (await RenderCache.load(cachePath, 'fp')).get(key);
+    } finally {
+      removeListener();
+      reset();
+    }
+    expect(entries.map(({ message, subsystem, fields }) => ({ message, subsystem, fields }))).toEqual([
+      { message: 'Unknown directive "@bogus"', subsystem: undefined, fields: undefined },
+      { message: 'Undefined variable', subsystem: 'markdown', fields: { line: 3 } },
+    ]);
+  });
+
+  test('ignores corrupt cache files', async () => {
+    await writeFile(cachePath, '{not json');
+
+    const cache = await RenderCache.load(cachePath, 'fp');
+    expect(cache.get(RenderCache.hashContent('x'))).toBeUndefined();
+  });
+
+  test('fingerprint changes with plugin configuration', () => {
+    expect(createRenderFingerprint({ plugins: ['ttrpg'] })).toBe(createRenderFingerprint({ plugins: ['ttrpg'] }));
+    expect(createRenderFingerprint({ plugins: ['ttrpg'] })).not.toBe(createRenderFingerprint({ plugins: [] }));
+  });
+});
+
+describe('processMarkdownFiles with render cache', () => {
+  let testDir: string;
+  let config: ResolvedConfig;
+
+  beforeEach(async () => {
+    testDir = join(process.cwd(), '.tmp', `render-cache-build-${Date.now()}`);
+    await mkdir(testDir);
+    await writeFile(join(testDir, '01-intro.md'), '# Introduction');
+    await writeFile(join(testDir, '02-rules.md'), '# Rules');
+    config = { input: testDir, format: 'html' as OutputFormat, verbose: false };
+  });
+
+  afterEach(async () => {
+    await remove(testDir);
+    await remove(getRenderCachePath(testDir));
+  });
+
+  test('re-renders only changed files', async () => {
+    const firstPerf = new PerformanceMonitor();
+    await processMarkdownFiles(testDir, config, firstPerf);
+    expect(firstPerf.getCounters()).toEqual({ 'Render Cache Hits': 0, 'Render Cache Misses': 2 });
+
+    await writeFile(join(testDir, '02-rules.md'), '# Combat Rules');
+    const secondPerf = new PerformanceMonitor();
+    const { content } = await processMarkdownFiles(testDir, config, secondPerf);
+
+    expect(secondPerf.getCounters()).toEqual({ 'Render Cache Hits': 1, 'Render Cache Misses': 1 });
+    expect(content.map((c) => c.slug)).toEqual(['01-intro', '02-rules']);
+    expect(content[1]?.html).toContain('Combat Rules');
+  });
+
+  test('reports render warnings on cached rebuilds', async () => {
+    await writeFile(join(testDir, '02-rules.md'), '# Rules\n\n<!-- @bogus -->');
+    const warnings: string[] = [];
+    const removeListener = addLogListener((entry) => {
+      if (entry.level === 'WARN') {
+        warnings.push(entry.message);
+      }
+    });
+    silence();
+
+    try {
+      await processMarkdownFiles(testDir, config);
+      const perf = new PerformanceMonitor();
+      await processMarkdownFiles(testDir, config, perf);
+      expect(perf.getCounters()).toEqual({ 'Render Cache Hits': 2, 'Render Cache Misses': 0 });
+    } finally {
+      removeListener();
+      reset();
+    }
+
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain('Unknown directive "@bogus"');
+    expect(warnings[1]).toBe(warnings[0]);
+  });
+
+  test('invalidates cache when the manifest changes', async () => {
+    await processMarkdownFiles(testDir, config);
+
+    await writeFile(join(testDir, 'manifest.yaml'), 'title: Changed\n');
+    const perf = new PerformanceMonitor();
+    await processMarkdownFiles(testDir, config, perf);
+
+    expect(perf.getCounters()).toEqual({ 'Render Cache Hits': 0, 'Render Cache Misses': 2 });
+  });
+});
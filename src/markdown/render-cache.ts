@@ -0,0 +1,251 @@
+/**
+ * Incremental markdown render cache
+ *
+ * Stores rendered HTML per markdown file keyed by a hash of the file
+ * content, so rebuilds (watch mode, preview) only re-render changed
+ * chapters. Warnings logged while rendering are stored with the HTML and
+ * logged again on a cache hit, so they are not lost on rebuilds. The cache is persisted under .tmp/render-cache/ and is
+ * discarded as a whole when its fingerprint (pagedmd version, plugin
+ * configuration, manifest) no longer matches.
+ */
+
+import path from 'path';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { fileExists, mkdir, readFile, writeFile } from '../utils/file-utils.ts';
+import { addLogListener, createLogger, warn, type LogEntry } from '../utils/logger.ts';
+import { BUILD } from '../constants.ts';
+
+const { debug } = createLogger('markdown');
+
+/** Bump when the on-disk layout changes */
+const CACHE_FORMAT_VERSION = 2;
+
+/**
+ * Rendered HTML and the warnings logged while rendering it
+ */
+export interface RenderCacheEntry {
+  html: string;
+  /** Subsystem and fields are kept so replayed warnings match the originals */
+  warnings: Array<Pick<LogEntry, 'message' | 'subsystem' | 'fields'>>;
+}
+
+/**
+ * On-disk cache file layout
+ */
+interface RenderCacheFile {
+  formatVersion: number;
+  fingerprint: string;
+  entries: Record<string, RenderCacheEntry>;
+}
+
+/**
+ * Content-hash keyed cache of rendered markdown
+ *
+ * @example
+ * const cache = await RenderCache.load(cachePath, fingerprint);
+ * const key = RenderCache.hashContent(markdown);
+ * const html = cache.get(key) ?? cache.set(key, captureWarnings(() => md.render(markdown)));
+ * await cache.save();
+ */
+export class RenderCache {
+  private entries: Map<string, RenderCacheEntry>;
+  private used = new Set<string>();
+  private dirty = false;
+  private hitCount = 0;
+  private missCount = 0;
+
+  private constructor(
+    private readonly cachePath: string | null,
+    private readonly fingerprint: string,
+    entries: Map<string, RenderCacheEntry>
+  ) {
+    this.entries = entries;
+  }
+
+  /**
+   * Load a cache from disk
+   *
+   * Missing, unreadable or stale (fingerprint mismatch) cache files
+   * yield an empty cache.
+   *
+   * @param cachePath - Path to the cache JSON file
+   * @param fingerprint - Fingerprint of everything that affects rendering
+   * @returns Loaded cache
+   */
+  static async load(cachePath: string, fingerprint: string): Promise<RenderCache> {
+    const entries = new Map<string, RenderCacheEntry>();
+
+    if (await fileExists(cachePath)) {
+      try {
+        const data = JSON.parse(await readFile(cachePath)) as Partial<RenderCacheFile>;
+        if (data.formatVersion === CACHE_FORMAT_VERSION && data.fingerprint === fingerprint && data.entries) {
+          for (const [key, entry] of Object.entries(data.entries)) {
+            entries.set(key, entry);
+          }
+        } else {
+          debug('Render cache invalidated (configuration changed)');
+        }
+      } catch {
+        debug(`Ignoring unreadable render cache: ${cachePath}`);
+      }
+    }
+
+    const cache = new RenderCache(cachePath, fingerprint, entries);
+    // A discarded cache must be rewritten even if nothing new is rendered
+    cache.dirty = entries.size === 0;
+    return cache;
+  }
+
+  /**
+   * Create an empty cache that is never written to disk (in-memory sources)
+   */
+  static inMemory(): RenderCache {
+    return new RenderCache(null, '', new Map());
+  }
+
+  /**
+   * Hash markdown content into a cache key
+   */
+  static hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Get cached HTML for a content hash (counts a hit or miss)
+   *
+   * Warnings stored with the entry are logged again.
+   */
+  get(key: string): string | undefined {
+    const entry = this.entries.get(key);
+    if (entry === undefined) {
+      this.missCount++;
+      return undefined;
+    }
+    this.hitCount++;
+    this.used.add(key);
+    for (const { message, subsystem, fields } of entry.warnings) {
+      if (subsystem) {
+        createLogger(subsystem).warn(message, fields);
+      } else {
+        warn(message);
+      }
+    }
+    return entry.html;
+  }
+
+  /**
+   * Store rendered HTML and its warnings for a content hash
+   *
+   * @returns The stored HTML (for chaining)
+   */
+  set(key: string, entry: RenderCacheEntry): string {
+    this.entries.set(key, entry);
+    this.used.add(key);
+    this.dirty = true;
+    return entry.html;
+  }
+
+  /**
+   * Persist the cache, keeping only entries used in this build
+   *
+   * Write failures are logged and ignored - the cache is an optimization.
+   */
+  async save(): Promise<void> {
+    const unused = [...this.entries.keys()].filter((key) => !this.used.has(key));
+    if (this.cachePath === null || (!this.dirty && unused.length === 0)) {
+      return;
+    }
+
+    const data: RenderCacheFile = {
+      formatVersion: CACHE_FORMAT_VERSION,
+      fingerprint: this.fingerprint,
+      entries: Object.fromEntries([...this.entries].filter(([key]) => this.used.has(key))),
+    };
+
+    try {
+      await mkdir(path.dirname(this.cachePath));
+      await writeFile(this.cachePath, JSON.stringify(data));
+      this.dirty = false;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      debug(`Failed to write render cache: ${message}`);
+    }
+  }
+
+  /** Number of cache hits since load */
+  get hits(): number {
+    return this.hitCount;
+  }
+
+  /** Number of cache misses since load */
+  get misses(): number {
+    return this.missCount;
+  }
+}
+
+/**
+ * Run a render function, recording the warnings it logs
+ *
+ * @param render - Renders markdown to HTML
+ * @returns Cache entry with the HTML and logged warnings
+ */
+export function captureWarnings(render: () => string): RenderCacheEntry {
+  const warnings: RenderCacheEntry['warnings'] = [];
+  const stopListening = addLogListener((entry) => {
+    if (entry.level === 'WARN') {
+      warnings.push({ message: entry.message, subsystem: entry.subsystem, fields: entry.fields });
+    }
+  });
+
+  try {
+    return { html: render(), warnings };
+  } finally {
+    stopListening();
+  }
+}
+
+/**
+ * Location of the render cache for an input path
+ *
+ * Lives next to (not inside) the per-build .tmp/<basename> directory,
+ * which format strategies remove after each build.
+ */
+export function getRenderCachePath(inputPath: string): string {
+  const resolved = path.resolve(inputPath);
+  const pathHash = createHash('sha1').update(resolved).digest('hex').slice(0, 8);
+  return path.join(process.cwd(), BUILD.TEMP_DIR, 'render-cache', `${path.basename(resolved)}-${pathHash}.json`);
+}
+
+/**
+ * Build a cache fingerprint from everything besides file content that
+ * affects rendered HTML
+ *
+ * @param parts - Plugin configuration, manifest contents, etc.
+ * @returns Hex digest including the pagedmd version
+ */
+export function createRenderFingerprint(parts: Record<string, unknown>): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ pagedmd: getPackageVersion(), ...parts }))
+    .digest('hex');
+}
+
+/**
+ * Read the pagedmd version from package.json
+ * When running from dist/cli.js: package.json is one level up
+ * When running from src/markdown/: package.json is two levels up
+ */
+export function getPackageVersion(): string {
+  const thisFileDir = import.meta.dir;
+  const candidates = [path.join(thisFileDir, '../package.json'), path.join(thisFileDir, '../../package.json')];
+  const packageJsonPath = candidates.find((candidate) => existsSync(candidate));
+  if (!packageJsonPath) {
+    return '0.0.0';
+  }
+  try {
+    const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8')) as { version?: string };
+    return packageJson.version ?? '0.0.0';
+  } catch {
+    return '0.0.0';
+  }
+}
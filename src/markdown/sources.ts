@@ -0,0 +1,64 @@
+/**
+ * In-memory book sources
+ *
+ * The library API (see api.ts) can build a book from memory: `sources` maps
+ * paths relative to the input directory (`chapters/01-intro.md`,
+ * `styles/book.css`) to their content. Chapter discovery, includes and
+ * manifest.styles then look files up in the map and nothing is read from the
+ * input directory. Without sources, these helpers read from disk.
+ */
+
+import path from 'path';
+import { fileExists, isDirectory, readFile } from '../utils/file-utils.ts';
+import { BuildError } from '../utils/errors.ts';
+
+/**
+ * File contents keyed by path relative to the input directory, with forward slashes
+ */
+export type BookSources = Record<string, string>;
+
+/**
+ * Normalize source keys to forward slashes without a leading ./
+ */
+export function normalizeSources(sources: BookSources): BookSources {
+  return Object.fromEntries(
+    Object.entries(sources).map(([file, content]) => [file.replace(/\\/g, '/').replace(/^\.\//, ''), content])
+  );
+}
+
+/**
+ * Project directory of an input path (in-memory input is always a directory)
+ */
+export async function getSourceRoot(inputPath: string, sources?: BookSources): Promise<string> {
+  return sources || (await isDirectory(inputPath)) ? inputPath : path.dirname(inputPath);
+}
+
+/**
+ * Key of a file in the sources: its path relative to the project directory
+ */
+export function toSourceKey(filePath: string, rootDir: string): string {
+  return path.relative(rootDir, filePath).split(path.sep).join('/');
+}
+
+/**
+ * Whether a file exists in the sources, or on disk without sources
+ */
+export async function sourceExists(filePath: string, rootDir: string, sources?: BookSources): Promise<boolean> {
+  return sources ? toSourceKey(filePath, rootDir) in sources : fileExists(filePath);
+}
+
+/**
+ * Read a file from the sources, or from disk without sources
+ *
+ * @throws BuildError if an in-memory file does not exist
+ */
+export async function readSource(filePath: string, rootDir: string, sources?: BookSources): Promise<string> {
+  if (!sources) {
+    return readFile(filePath);
+  }
+  const content = sources[toSourceKey(filePath, rootDir)];
+  if (content === undefined) {
+    throw new BuildError(`File not found in sources: ${toSourceKey(filePath, rootDir)}`);
+  }
+  return content;
+}
@@ -0,0 +1,151 @@
+/**
+ * Tests for template variables and conditional content
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  createTemplateVariables,
+  evaluateCondition,
+  lookupVariable,
+  reportUndefinedVariables,
+} from './template-variables.ts';
+import { createMarkdownEngineWithPlugins } from './markdown.ts';
+import { reset, setLogSinks, type LogEntry } from '../utils/logger.ts';
+import type { TemplateVariables } from './template-variables.ts';
+import type { ResolvedConfig } from '../config/config-state.ts';
+
+const md = createMarkdownEngineWithPlugins([]);
+
+const variables: TemplateVariables = {
+  title: 'The Sunken Vault',
+  authors: ['Ada', 'Grace'],
+  metadata: { isbn: '978-1-23456-789-7' },
+  edition: 'gm',
+  printing: '2',
+};
+
+function render(markdown: string, lineOffset = 0): string {
+  return md.render(markdown, { slug: 'vault', frontMatter: {}, lineOffset, variables });
+}
+
+describe('createTemplateVariables', () => {
+  test('layers book fields, manifest variables and defines', () => {
+    const config = {
+      title: 'Vault',
+      metadata: { isbn: '111' },
+      variables: { edition: 'player', price: 20 },
+      defines: { edition: 'gm', 'metadata.isbn': '222', draft: 'false' },
+    } as ResolvedConfig;
+
+    const result = createTemplateVariables(config);
+
+    expect(result).toMatchObject({ title: 'Vault', edition: 'gm', price: 20, draft: false });
+    expect(lookupVariable(result, 'metadata.isbn')).toBe('222');
+    expect(config.metadata?.isbn).toBe('111');
+  });
+});
+
+describe('evaluateCondition', () => {
+  test.each([
+    ['edition == "gm"', true],
+    ["edition != 'gm'", false],
+    ['printing == 2', true],
+    ['edition', true],
+    ['!missing', true],
+    ['missing == "x"', false],
+    ['edition == "player" || printing != 1', true],
+    ['!(edition == "gm" && metadata.isbn)', false],
+    ['false || true', true],
+  ])('%s is %p', (expression, expected) => {
+    expect(evaluateCondition(expression, variables)).toBe(expected);
+  });
+
+  test('reports names that are not defined at all', () => {
+    const names: string[] = [];
+    const withUnset = { ...variables, cover: undefined };
+
+    evaluateCondition('editon == "gm" || !draft && metadata.isbm || edition || cover', withUnset, (name) =>
+      names.push(name)
+    );
+
+    expect(names).toEqual(['editon', 'draft', 'metadata.isbm']);
+  });
+
+  test('rejects malformed conditions', () => {
+    expect(() => evaluateCondition('edition ==', variables)).toThrow('Invalid condition "edition =="');
+    expect(() => evaluateCondition('edition = "gm"', variables)).toThrow('unexpected "= "gm""');
+    expect(() => evaluateCondition('(edition', variables)).toThrow('missing ")"');
+  });
+});
+
+describe('template variables in markdown', () => {
+  test('substitutes values in text and headings but not code', () => {
+    const html = render('# {{ title }}\n\nBy {{ authors }}, ISBN {{metadata.isbn}}. `{{ title }}`\n');
+
+    expect(html).toContain('<h1 id="the-sunken-vault"');
+    expect(html).toContain('>The Sunken Vault</h1>');
+    expect(html).toContain('By Ada, Grace, ISBN 978-1-23456-789-7. <code>{{ title }}</code>');
+  });
+
+  test('marks undefined variables with their file line', () => {
+    const html = render('Intro\nPrice: {{ price }}\n', 3);
+
+    expect(html).toContain(
+      '<span class="template-variable-undefined" data-variable="price" data-source-line="5">{{ price }}</span>'
+    );
+  });
+
+  test('reports undefined variables with file and line', () => {
+    const entries: LogEntry[] = [];
+    setLogSinks([(entry) => entries.push(entry)]);
+    reportUndefinedVariables([{ slug: 'vault', html: render('{{ price }}\n'), frontMatter: {}, sourcePath: 'vault.md' }]);
+    reset();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]?.message).toContain('vault.md:1: "{{ price }}" has no value');
+    expect(entries[0]?.fields).toEqual({ file: 'vault.md', line: 1, variable: 'price' });
+  });
+
+  test('reports undefined variables in @if conditions', () => {
+    const entries: LogEntry[] = [];
+    setLogSinks([(entry) => entries.push(entry)]);
+    const html = render('Intro\n<!-- @if: editon == "gm" -->\nSecret\n<!-- @endif -->\n', 2);
+    reportUndefinedVariables([{ slug: 'vault', html, frontMatter: {}, sourcePath: 'vault.md' }]);
+    reset();
+
+    expect(html).not.toContain('Secret');
+    expect(entries).toHaveLength(1);
+    expect(entries[0]?.message).toContain('vault.md:4: "editon" in an @if condition has no value');
+    expect(entries[0]?.fields).toEqual({ file: 'vault.md', line: 4, variable: 'editon' });
+  });
+});
+
+describe('conditional content', () => {
+  test('keeps the matching branch', () => {
+    const html = render(
+      '<!-- @if: edition == "gm" -->\nThe vault is *empty*.\n<!-- @else -->\nNobody knows.\n<!-- @endif -->\n'
+    );
+
+    expect(html).toBe('<p>The vault is <em>empty</em>.</p>\n');
+  });
+
+  test('supports nesting and conditionals inside list items', () => {
+    const html = render(
+      '<!-- @if: edition -->\n- Map\n  <!-- @if: printing == 1 -->\n  First printing\n  <!-- @endif -->\n<!-- @endif -->\n'
+    );
+
+    expect(html).toBe('<ul>\n<li>Map</li>\n</ul>\n');
+  });
+
+  test('reports unbalanced directives with their line', () => {
+    expect(() => render('<!-- @if: edition -->\nText\n')).toThrow(
+      'Directive parsing error at line 1: @if without a matching <!-- @endif -->'
+    );
+    expect(() => render('Text\n\n<!-- @endif -->\n')).toThrow(
+      'Directive parsing error at line 3: @endif without a matching <!-- @if: condition -->'
+    );
+    expect(() => render('- a\n  <!-- @if: edition -->\n- b\n  <!-- @endif -->\n')).toThrow(
+      'the @if at line 2 is in a different block'
+    );
+  });
+});
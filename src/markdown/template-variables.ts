@@ -0,0 +1,286 @@
+/**
+ * Template variables and conditional content
+ *
+ * `{{ title }}`, `{{ metadata.isbn }}` and `{{ edition }}` in markdown text are
+ * replaced with values from the manifest (`title`, `authors`, `metadata`)
+ * and the `--edition` name (`edition`), its `variables:` section and
+ * `--define key=value` options, in increasing priority.
+ * `<!-- @if: edition == "gm" -->` ... `<!-- @else -->` ... `<!-- @endif -->`
+ * blocks are kept or dropped by the core directives plugin
+ * (core/core-directives-plugin.ts), which uses the helpers below.
+ *
+ * Undefined variables are left in the output and reported with their file
+ * and line once every file is rendered, like unresolved cross-references.
+ * Unknown names in `@if` conditions are reported the same way (a typo would
+ * otherwise silently drop content).
+ */
+
+import path from 'path';
+import { createLogger } from '../utils/logger.ts';
+import type { ResolvedConfig } from '../config/config-state.ts';
+import type { ProcessedArticle } from './markdown.ts';
+
+const { warn } = createLogger('markdown');
+
+/**
+ * Values available to `{{ name }}` and `@if` conditions
+ */
+export type TemplateVariables = Record<string, unknown>;
+
+/**
+ * Placeholder rendered for an undefined variable, capturing name, line and
+ * whether it was used in an `@if` condition
+ */
+const UNDEFINED_VARIABLE_REGEX =
+  /<span class="template-variable-undefined" data-variable="([^"]+)"(?: data-source-line="(\d+)")?( data-condition)?>/g;
+
+/**
+ * Tokens of a condition: quoted strings, numbers, operators and variable names
+ */
+const CONDITION_TOKEN_REGEX = /\s*(?:"([^"]*)"|'([^']*)'|(-?\d+(?:\.\d+)?)(?![\w.])|(==|!=|&&|\|\||!|\(|\))|([A-Za-z_][\w-]*(?:\.[A-Za-z_][\w-]*)*))/y;
+
+/**
+ * Collect template variables from the resolved configuration
+ *
+ * @param config - Resolved configuration (manifest fields and CLI defines)
+ * @returns Variables with defines overriding manifest `variables`, which override book fields
+ */
+export function createTemplateVariables(config: ResolvedConfig): TemplateVariables {
+  const variables: TemplateVariables = {
+    title: config.title,
+    authors: config.authors,
+    metadata: config.metadata ?? {},
+    edition: config.edition,
+    ...config.variables,
+  };
+
+  for (const [name, value] of Object.entries(config.defines ?? {})) {
+    setVariable(variables, name, value === 'true' ? true : value === 'false' ? false : value);
+  }
+
+  return variables;
+}
+
+/**
+ * Look up a variable by dotted name (`metadata.isbn`)
+ *
+ * @returns The value, or undefined if any part of the path is missing
+ */
+export function lookupVariable(variables: TemplateVariables, name: string): unknown {
+  return findVariable(variables, name)?.value;
+}
+
+/**
+ * Format a variable value as text
+ *
+ * Lists are joined with commas ("Ada, Grace").
+ *
+ * @returns Text, or undefined if the value is missing or not a scalar or list
+ */
+export function formatVariable(value: unknown): string | undefined {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(formatVariable);
+    return items.every((item) => item !== undefined) ? items.join(', ') : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate an `@if` condition
+ *
+ * Supports variable names, quoted strings, numbers, `true`/`false`, `==`, `!=`, `!`, `&&`,
+ * `||` and parentheses. Values are compared as text, so `printing == 2`
+ * matches `--define printing=2`. Undefined variables are false.
+ *
+ * @param onUndefined - Called with each variable name that is not defined at all
+ * @throws Error if the condition cannot be parsed
+ */
+export function evaluateCondition(
+  expression: string,
+  variables: TemplateVariables,
+  onUndefined?: (name: string) => void
+): boolean {
+  const tokens = tokenizeCondition(expression);
+  let position = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(
+      `Invalid condition "${expression}": ${reason}\n` +
+        `Example: <!-- @if: edition == "gm" --> or <!-- @if: !draft && printing != 1 -->`
+    );
+  };
+
+  const parseOperand = (): unknown => {
+    const token = tokens[position++];
+    if (!token) return fail('expected a value');
+    if (token.kind === 'operator') {
+      if (token.value === '!') return !isTruthy(parseOperand());
+      if (token.value === '(') {
+        const value = parseOr();
+        if (tokens[position++]?.value !== ')') fail('missing ")"');
+        return value;
+      }
+      return fail(`unexpected "${token.value}"`);
+    }
+    if (token.kind === 'name') {
+      if (token.value === 'true' || token.value === 'false') return token.value === 'true';
+      const variable = findVariable(variables, token.value);
+      if (!variable) onUndefined?.(token.value);
+      return variable?.value;
+    }
+    return token.value;
+  };
+
+  const parseComparison = (): unknown => {
+    const left = parseOperand();
+    const operator = tokens[position]?.value;
+    if (operator !== '==' && operator !== '!=') return left;
+    position++;
+    const equal = valuesEqual(left, parseOperand());
+    return operator === '==' ? equal : !equal;
+  };
+
+  const parseAnd = (): boolean => {
+    let result = isTruthy(parseComparison());
+    while (tokens[position]?.value === '&&') {
+      position++;
+      result = isTruthy(parseComparison()) && result;
+    }
+    return result;
+  };
+
+  const parseOr = (): boolean => {
+    let result = parseAnd();
+    while (tokens[position]?.value === '||') {
+      position++;
+      result = parseAnd() || result;
+    }
+    return result;
+  };
+
+  const result = parseOr();
+  if (position < tokens.length) {
+    fail(`unexpected "${tokens[position]?.value}"`);
+  }
+  return result;
+}
+
+/**
+ * Warn about variables that were not defined when their file was rendered
+ *
+ * @param articles - Rendered articles in document order
+ */
+export function reportUndefinedVariables(articles: ProcessedArticle[]): void {
+  for (const article of articles) {
+    const file = path.relative(process.cwd(), article.sourcePath) || article.sourcePath;
+    for (const { name, line, condition } of findUndefinedVariables(article.html)) {
+      const usage = condition ? `"${name}" in an @if condition` : `"{{ ${name} }}"`;
+      warn(
+        `Undefined variable: ${file}${line ? `:${line}` : ''}: ${usage} has no value.
+` +
+          `Define it under variables: in manifest.yaml or with --define ${name}=value`,
+        { file: article.sourcePath, line, variable: name }
+      );
+    }
+  }
+}
+
+/**
+ * Find the undefined variables left in rendered HTML
+ *
+ * @param html - Rendered HTML of one file
+ * @returns Variable names with their 1-based file line and whether they were
+ *   used in an `@if` condition, in document order
+ */
+export function findUndefinedVariables(
+  html: string
+): Array<{ name: string; line: number | null; condition: boolean }> {
+  if (!html.includes('template-variable-undefined')) return [];
+
+  return [...html.matchAll(UNDEFINED_VARIABLE_REGEX)].map(([, name = '', line, condition]) => ({
+    name,
+    line: line ? Number(line) : null,
+    condition: condition !== undefined,
+  }));
+}
+
+/**
+ * Find a variable by dotted name
+ *
+ * @returns The value wrapped in an object (the value itself may be undefined),
+ *   or undefined if any part of the path is missing
+ */
+function findVariable(variables: TemplateVariables, name: string): { value: unknown } | undefined {
+  let value: unknown = variables;
+  for (const key of name.split('.')) {
+    if (!value || typeof value !== 'object' || !Object.hasOwn(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return { value };
+}
+
+/**
+ * Set a variable by dotted name, creating nested objects as needed
+ */
+function setVariable(variables: TemplateVariables, name: string, value: unknown): void {
+  const keys = name.split('.');
+  const last = keys.pop() ?? name;
+  let target = variables;
+  for (const key of keys) {
+    const next = target[key];
+    // Copy nested objects so defines never modify the manifest
+    target[key] = next && typeof next === 'object' && !Array.isArray(next) ? { ...(next as TemplateVariables) } : {};
+    target = target[key] as TemplateVariables;
+  }
+  target[last] = value;
+}
+
+/**
+ * Split a condition into tokens
+ */
+function tokenizeCondition(
+  expression: string
+): Array<{ kind: 'literal' | 'operator' | 'name'; value: string }> {
+  const tokens: Array<{ kind: 'literal' | 'operator' | 'name'; value: string }> = [];
+  CONDITION_TOKEN_REGEX.lastIndex = 0;
+
+  while (CONDITION_TOKEN_REGEX.lastIndex < expression.trimEnd().length) {
+    const start = CONDITION_TOKEN_REGEX.lastIndex;
+    const match = CONDITION_TOKEN_REGEX.exec(expression);
+    if (!match) {
+      throw new Error(
+        `Invalid condition "${expression}": unexpected "${expression.slice(start).trim()}"\n` +
+          `Example: <!-- @if: edition == "gm" -->`
+      );
+    }
+    const [, double, single, number, operator, name] = match;
+    if (operator !== undefined) tokens.push({ kind: 'operator', value: operator });
+    else if (name !== undefined) tokens.push({ kind: 'name', value: name });
+    else tokens.push({ kind: 'literal', value: double ?? single ?? number ?? '' });
+  }
+
+  return tokens;
+}
+
+/**
+ * Compare two condition values as text (undefined only equals undefined)
+ */
+function valuesEqual(left: unknown, right: unknown): boolean {
+  if (left === undefined || right === undefined) {
+    return left === right;
+  }
+  return (formatVariable(left) ?? '') === (formatVariable(right) ?? '');
+}
+
+/**
+ * Condition truthiness: missing, false, empty and zero values are false
+ */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value) && value !== '0';
+}
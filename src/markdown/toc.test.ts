@@ -0,0 +1,102 @@
+/**
+ * Tests for automatic table of contents generation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { collectTocEntries, insertTableOfContents, renderToc, resolveTocLevels } from './toc.ts';
+import { uniqueHeadingIds } from './heading-ids.ts';
+import type { ProcessedArticle } from './markdown.ts';
+
+function article(slug: string, html: string): ProcessedArticle {
+  return { slug, html, frontMatter: {}, sourcePath: `${slug}.md` };
+}
+
+const ARTICLES = [
+  article('00-contents', '<h1 id="contents" class="no-toc">Contents</h1>\n<nav class="toc" data-directive="toc"></nav>\n'),
+  article(
+    '01-intro',
+    '<h1 id="introduction" class="auto-chapter-start">Introduction</h1>\n<h2 id="the-city">The <em>City</em></h2>\n<h4 id="deep">Deep</h4>\n'
+  ),
+  article('02-rules', '<h1 id="rules">Rules &amp; Tips</h1>\n<h3 id="dice">Dice</h3>\n<h2>No id</h2>\n'),
+];
+
+describe('collectTocEntries', () => {
+  test('collects headings with ids across articles in order', () => {
+    expect(collectTocEntries(ARTICLES)).toEqual([
+      { level: 1, id: 'introduction', text: 'Introduction' },
+      { level: 2, id: 'the-city', text: 'The City' },
+      { level: 4, id: 'deep', text: 'Deep' },
+      { level: 1, id: 'rules', text: 'Rules &amp; Tips' },
+      { level: 3, id: 'dice', text: 'Dice' },
+    ]);
+  });
+});
+
+describe('resolveTocLevels', () => {
+  test('defaults to h1-h3', () => {
+    expect(resolveTocLevels()).toEqual([1, 2, 3]);
+  });
+
+  test('prefers directive depth, then levels, then depth', () => {
+    expect(resolveTocLevels({ depth: 2 })).toEqual([1, 2]);
+    expect(resolveTocLevels({ depth: 4, levels: [2, 1] })).toEqual([1, 2]);
+    expect(resolveTocLevels({ levels: [1, 2] }, 1)).toEqual([1]);
+  });
+});
+
+describe('renderToc', () => {
+  test('nests entries relative to the previous level', () => {
+    const html = renderToc([
+      { level: 1, id: 'a', text: 'A' },
+      { level: 3, id: 'b', text: 'B' },
+      { level: 1, id: 'c', text: 'C' },
+    ]);
+
+    expect(html).toContain(
+      '<ol class="toc-list"><li class="toc-level-1"><a href="#a">A</a><ol class="toc-list"><li class="toc-level-3"><a href="#b">B</a></li></ol></li><li class="toc-level-1"><a href="#c">C</a></li></ol>'
+    );
+  });
+
+  test('adds an optional title excluded from the toc', () => {
+    expect(renderToc([], 'Contents <1>')).toContain('<h2 class="toc-title no-toc">Contents &lt;1&gt;</h2>');
+  });
+});
+
+describe('insertTableOfContents', () => {
+  test('fills placeholders using manifest depth', () => {
+    const [contents] = insertTableOfContents(ARTICLES, { depth: 2 });
+
+    expect(contents?.html).toContain('<a href="#introduction">Introduction</a>');
+    expect(contents?.html).toContain('<a href="#the-city">The City</a>');
+    expect(contents?.html).toContain('<a href="#rules">Rules &amp; Tips</a>');
+    expect(contents?.html).not.toContain('#dice');
+    expect(contents?.html).not.toContain('#contents');
+  });
+
+  test('uses the depth given on the directive', () => {
+    const articles = [article('toc', '<nav class="toc" data-directive="toc" data-depth="1"></nav>'), ...ARTICLES.slice(1)];
+    const [contents] = insertTableOfContents(articles, { depth: 3 });
+
+    expect(contents?.html).toContain('#rules');
+    expect(contents?.html).not.toContain('#the-city');
+  });
+
+  test('links to each of two chapters sharing a heading', () => {
+    const articles = [
+      article('00-contents', '<nav class="toc" data-directive="toc"></nav>'),
+      article('01-city', '<h1 id="city">City</h1>\n<h2 id="equipment">Equipment</h2>\n'),
+      article('02-gear', '<h1 id="gear">Gear</h1>\n<h2 id="equipment">Equipment</h2>\n'),
+    ];
+
+    const [contents, , gear] = insertTableOfContents(uniqueHeadingIds(articles));
+
+    expect(contents?.html).toContain('<a href="#equipment">Equipment</a>');
+    expect(contents?.html).toContain('<a href="#02-gear-equipment">Equipment</a>');
+    expect(gear?.html).toContain('<h2 id="02-gear-equipment">Equipment</h2>');
+  });
+
+  test('returns articles unchanged without a placeholder', () => {
+    const articles = ARTICLES.slice(1);
+    expect(insertTableOfContents(articles)).toBe(articles);
+  });
+});
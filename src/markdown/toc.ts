@@ -0,0 +1,153 @@
+/**
+ * Automatic table of contents
+ *
+ * The core directives plugin turns `<!-- @toc -->` into an empty
+ * <nav class="toc"> placeholder. Once every file is rendered, headings are
+ * collected across all articles (using the ids assigned by
+ * markdown-it-anchor) and the placeholder is filled with a nested list of
+ * links. Page numbers come from CSS `target-counter(attr(href), page)`.
+ * Heading ids are already unique across the book (see heading-ids.ts).
+ */
+
+import type { ProcessedArticle } from './markdown.ts';
+import type { TocConfig } from '../types.ts';
+
+/** Heading levels included by default (h1-h3) */
+export const DEFAULT_TOC_DEPTH = 3;
+
+/**
+ * Placeholder emitted by the @toc directive
+ * Captures the optional per-directive depth
+ */
+const TOC_PLACEHOLDER_REGEX = /<nav class="toc" data-directive="toc"(?: data-depth="(\d)")?><\/nav>/g;
+
+/**
+ * Heading element (h1-h6), capturing level, attributes and inner HTML
+ */
+const HEADING_REGEX = /<h([1-6])([^>]*)>([\s\S]*?)<\/h\1>/g;
+
+/**
+ * id attribute of a heading
+ */
+const ID_ATTRIBUTE_REGEX = /\sid="([^"]+)"/;
+
+/**
+ * Heading entry in the table of contents
+ */
+export interface TocEntry {
+  /** Heading level (1-6) */
+  level: number;
+  /** Target element id */
+  id: string;
+  /** Heading text (HTML tags removed) */
+  text: string;
+}
+
+/**
+ * Fill @toc placeholders in rendered articles
+ *
+ * @param articles - Rendered articles in document order
+ * @param config - Manifest toc settings
+ * @returns Articles with placeholders replaced (unchanged if there are none)
+ */
+export function insertTableOfContents(articles: ProcessedArticle[], config?: TocConfig): ProcessedArticle[] {
+  if (!articles.some((article) => article.html.includes('data-directive="toc"'))) {
+    return articles;
+  }
+
+  const entries = collectTocEntries(articles);
+
+  return articles.map((article) => ({
+    ...article,
+    html: article.html.replace(TOC_PLACEHOLDER_REGEX, (_match, depth: string | undefined) => {
+      const levels = resolveTocLevels(config, depth ? parseInt(depth, 10) : undefined);
+      return renderToc(
+        entries.filter((entry) => levels.includes(entry.level)),
+        config?.title
+      );
+    }),
+  }));
+}
+
+/**
+ * Collect headings with ids from all articles
+ *
+ * Headings with the `no-toc` class (`# Title {.no-toc}`) are skipped.
+ */
+export function collectTocEntries(articles: ProcessedArticle[]): TocEntry[] {
+  const entries: TocEntry[] = [];
+
+  for (const article of articles) {
+    for (const match of article.html.matchAll(HEADING_REGEX)) {
+      const attributes = match[2] ?? '';
+      const id = attributes.match(ID_ATTRIBUTE_REGEX)?.[1];
+      const classes = attributes.match(/\sclass="([^"]*)"/)?.[1]?.split(/\s+/) ?? [];
+      if (!id || classes.includes('no-toc')) {
+        continue;
+      }
+
+      const text = (match[3] ?? '').replace(/<[^>]+>/g, '').trim();
+      entries.push({ level: Number(match[1]), id, text });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Resolve which heading levels to include
+ *
+ * `levels` wins over `depth`; a depth on the directive itself
+ * (`<!-- @toc: 2 -->`) wins over both.
+ */
+export function resolveTocLevels(config?: TocConfig, directiveDepth?: number): number[] {
+  if (directiveDepth === undefined && config?.levels && config.levels.length > 0) {
+    return [...config.levels].sort((a, b) => a - b);
+  }
+
+  const depth = directiveDepth ?? config?.depth ?? DEFAULT_TOC_DEPTH;
+  return Array.from({ length: depth }, (_, index) => index + 1);
+}
+
+/**
+ * Render TOC entries as a nested list of links
+ *
+ * Levels are nested relative to each other, so skipped levels
+ * (h1 followed by h3) do not produce empty list items.
+ */
+export function renderToc(entries: TocEntry[], title?: string): string {
+  const heading = title ? `<h2 class="toc-title no-toc">${escapeHtml(title)}</h2>\n` : '';
+  return `<nav class="toc" data-directive="toc" aria-label="Table of contents">\n${heading}${renderTocList(entries)}\n</nav>`;
+}
+
+/**
+ * Render a list level, recursing into deeper headings that follow an entry
+ */
+function renderTocList(entries: TocEntry[]): string {
+  const items: string[] = [];
+  let index = 0;
+
+  while (index < entries.length) {
+    const entry = entries[index] as TocEntry;
+    let end = index + 1;
+    while (end < entries.length && (entries[end] as TocEntry).level > entry.level) {
+      end++;
+    }
+
+    const children = entries.slice(index + 1, end);
+    const nested = children.length > 0 ? renderTocList(children) : '';
+    items.push(
+      `<li class="toc-level-${entry.level}"><a href="#${entry.id}">${escapeHtml(entry.text)}</a>${nested}</li>`
+    );
+    index = end;
+  }
+
+  return `<ol class="toc-list">${items.join('')}</ol>`;
+}
+
+/**
+ * Escape text for HTML content
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&(?!#?\w+;)/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -7,7 +7,7 @@
 
 import type { IncomingMessage, ServerResponse } from 'http';
 import type { HeadersInit } from 'bun';
-import { debug } from '../utils/logger.ts';
+import { createLogger } from '../utils/logger.ts';
 import {
   handleShutdown,
   handleListDirectories,
@@ -20,6 +20,8 @@ import {
 import type { ServerState, ClientTracker } from './server-context.ts';
 import { checkForAutoShutdown } from './lifecycle.ts';
 
+const { debug } = createLogger('preview');
+
 /**
  * Max request body size (1MB)
  */
@@ -125,6 +125,23 @@ describe('generateAndWriteHtml', () => {
     expect(content).not.toContain('First Version');
   }, 60000);
 
+  test('picks up changes to included files', async () => {
+    await mkdir(join(testDir, 'shared'));
+    await writeFile(join(testDir, 'chapter.md'), '# Chapter\n\n<!-- @include: shared/box.md -->\n');
+    await writeFile(join(testDir, 'shared', 'box.md'), 'First box');
+
+    const configManager = new ConfigurationManager(testDir);
+    await configManager.initialize();
+    await generateAndWriteHtml(testDir, tempDir, configManager.getConfig());
+
+    await writeFile(join(testDir, 'shared', 'box.md'), 'Second box');
+    await generateAndWriteHtml(testDir, tempDir, configManager.getConfig());
+
+    const content = await Bun.file(join(tempDir, 'preview.html')).text();
+    expect(content).toContain('Second box');
+    expect(content).not.toContain('First box');
+  }, 60000);
+
   test('handles multiple markdown files', async () => {
     await writeFile(join(testDir, 'chapter1.md'), '# Chapter 1');
     await writeFile(join(testDir, 'chapter2.md'), '# Chapter 2');
@@ -7,17 +7,22 @@
 import { watch, type FSWatcher } from 'chokidar';
 import path from 'path';
 import { mkdir } from '../utils/file-utils.ts';
-import { info, debug, error as logError } from '../utils/logger.ts';
+import { createLogger } from '../utils/logger.ts';
 import { DEBOUNCE } from '../constants.ts';
 import { generateHtmlFromMarkdown } from '../markdown/markdown.ts';
+import { PerformanceMonitor } from '../utils/performance.ts';
 import type { ServerState } from './server-context.ts';
 
+const { info, debug, error: logError } = createLogger('preview');
+
 /**
  * Generate HTML from markdown and write to temporary directory
  *
  * Processes all markdown files in the input directory, generates HTML,
  * and writes the result to preview.html in the temp directory.
  * Vivliostyle loads HTML as-is, no script injection needed.
+ * Unchanged chapters are served from the render cache, so a rebuild
+ * only re-renders the files that changed.
  *
  * This function is called during:
  * - Initial server startup
@@ -45,7 +50,10 @@ export async function generateAndWriteHtml(
   tempDir: string,
   config: any
 ): Promise<void> {
-  const htmlContent = await generateHtmlFromMarkdown(inputPath, config);
+  const perf = new PerformanceMonitor();
+  perf.mark('preview-start');
+  const htmlContent = await generateHtmlFromMarkdown(inputPath, config, { perf });
+  perf.measure('Preview Generation', 'preview-start');
 
   // Vivliostyle loads HTML as-is, no script injection needed
   // Just ensure proper doctype
@@ -57,13 +65,15 @@ export async function generateAndWriteHtml(
   const outputPath = path.join(tempDir, 'preview.html');
   await Bun.write(outputPath, processedHtml);
   debug(`Generated preview.html in ${tempDir}`);
+  debug(`Preview performance:\n${perf.report()}`);
 }
 
 /**
  * Create and configure a file watcher for the input directory
  *
  * Sets up a chokidar watcher that monitors markdown (.md), YAML (.yaml, .yml),
- * and other relevant files for changes. When changes are detected:
+ * and other relevant files for changes, including files pulled in with
+ * `@include` (which must live inside the input directory). When changes are detected:
  * 1. Debounces rapid changes (default 500ms)
  * 2. Copies changed files to temp directory
  * 3. Reinitializes configuration
@@ -135,7 +145,7 @@ export function createFileWatcher(state: ServerState): FSWatcher {
 
         info('Preview updated');
       } catch (err) {
-        logError('Failed to regenerate preview:', err);
+        logError(`Failed to regenerate preview: ${err instanceof Error ? err.message : String(err)}`);
       } finally {
         state.isRebuilding = false;
       }
@@ -8,12 +8,14 @@ import path from 'path';
 import { tmpdir } from 'os';
 import { randomBytes } from 'crypto';
 import { mkdir, remove, copyDirectory, fileExists } from '../utils/file-utils.ts';
-import { info, debug } from '../utils/logger.ts';
+import { createLogger } from '../utils/logger.ts';
 import { ConfigurationManager } from '../config/config-state.ts';
 import type { PreviewServerOptions } from '../types.ts';
 import type { ServerState, ClientTracker } from './server-context.ts';
 import { generateAndWriteHtml, stopFileWatcher, startFileWatcher } from './file-watcher.ts';
 
+const { info, debug } = createLogger('preview');
+
 /**
  * Initialize preview directories and copy source files
  *
@@ -31,7 +31,7 @@ import {
   isWithinHomeDirectory,
   getHomeDirectory,
 } from "../utils/path-security";
-import { error as logError, info } from "../utils/logger";
+import { createLogger } from "../utils/logger";
 import {
   FolderChangeRequestSchema,
   GitHubCloneRequestSchema,
@@ -46,6 +46,8 @@ import {
   getCurrentUser,
 } from "../utils/gh-cli-utils";
 
+const { error: logError, info } = createLogger("preview");
+
 /**
  * Helper function to check if a path is a directory
  *
@@ -5,10 +5,12 @@
  */
 
 import { createServer as createViteServer, type ViteDevServer } from 'vite';
-import { info } from '../utils/logger.ts';
+import { createLogger } from '../utils/logger.ts';
 import type { ServerState, ClientTracker } from './server-context.ts';
 import { createApiMiddleware } from './api-middleware.ts';
 
+const { info } = createLogger('preview');
+
 /**
  * Check if a TCP port is available for binding
  *
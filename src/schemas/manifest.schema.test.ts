@@ -338,6 +338,39 @@ describe('ManifestSchema Validation', () => {
     }
   });
 
+  test('keeps metadata for HTML and EPUB output', () => {
+    const manifest = {
+      title: 'Test Book',
+      authors: ['Author One'],
+      metadata: { isbn: '978-3-16-148410-0', date: '2025-01-15', language: 'en-GB' },
+    };
+
+    const result = ManifestSchema.safeParse(manifest);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.metadata?.isbn).toBe('978-3-16-148410-0');
+      expect(result.data.metadata?.language).toBe('en-GB');
+    }
+  });
+
+  test('rejects an ISBN with a wrong check digit and a malformed price code', () => {
+    const manifest = {
+      title: 'Test Book',
+      authors: ['Author One'],
+      metadata: { isbn: '978-3-16-148410-9', priceCode: '$24.95' },
+    };
+
+    const result = ManifestSchema.safeParse(manifest);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      const messages = result.error.issues.map((issue) => issue.message);
+      expect(messages).toContain('Invalid ISBN "978-3-16-148410-9": ISBN check digit should be 0, not 9');
+      expect(result.error.issues.map((issue) => issue.path.join('.'))).toContain('metadata.priceCode');
+    }
+  });
+
   test('rejects empty file path', () => {
     const manifest = {
       title: 'Test Book',
@@ -6,6 +6,7 @@
 
 import { z } from 'zod';
 import path from 'path';
+import { validateIsbn } from '../utils/isbn.ts';
 
 /**
  * Page configuration schema
@@ -23,6 +24,38 @@ const PageSchema = z.object({
   bleed: z.string().optional().describe('Bleed area for print (e.g., 0.125in)'),
 });
 
+/**
+ * Mirrored page margins schema (left/right are aliases for inside/outside)
+ */
+const PageMarginsSchema = z.object({
+  top: z.string().optional().describe('Top margin (e.g., 0.75in, 2cm)'),
+  bottom: z.string().optional().describe('Bottom margin'),
+  inside: z.string().optional().describe('Inside (binding) margin'),
+  outside: z.string().optional().describe('Outside (trim) margin'),
+  left: z.string().optional().describe('Alias for inside'),
+  right: z.string().optional().describe('Alias for outside'),
+});
+
+/**
+ * Page format schema (manifest.format)
+ *
+ * Drives the generated @page CSS layer and PDF engine page options
+ */
+const PageFormatSchema = z.object({
+  size: z.string().optional().describe('Page size (e.g., A4, letter, 6x9, "6in 9in")'),
+  margins: z
+    .union([z.string(), PageMarginsSchema])
+    .optional()
+    .describe('Margins as CSS shorthand (top outside bottom inside) or mirrored object'),
+  bleed: z.string().optional().describe('Bleed zone (e.g., 0.125in, 3mm)'),
+  colorMode: z
+    .enum(['rgb', 'cmyk'], {
+      errorMap: () => ({ message: "Color mode must be one of: 'rgb', 'cmyk'" }),
+    })
+    .optional()
+    .describe('Output color mode'),
+});
+
 /**
  * Markdown extension options
  */
@@ -49,10 +82,70 @@ const DocRaptorConfigSchema = z.object({
   testMode: z.boolean().optional().default(true).describe('Generate test PDFs (watermarked, unlimited)'),
 });
 
+/**
+ * Book metadata schema
+ */
+const MetadataSchema = z.object({
+  author: z.string().optional().describe('Primary author name'),
+  date: z.string().optional().describe('Publication date'),
+  isbn: z
+    .string()
+    .superRefine((value, ctx) => {
+      const problem = validateIsbn(value);
+      if (problem) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid ISBN "${value}": ${problem}` });
+      }
+    })
+    .optional()
+    .describe('ISBN-10 or ISBN-13 (check digit validated)'),
+  priceCode: z
+    .string()
+    .regex(/^\d{5}$/, 'Price add-on must be 5 digits (e.g., 52495 for US$24.95, 90000 for no price)')
+    .optional()
+    .describe('EAN-5 price add-on printed next to the ISBN barcode'),
+  language: z.string().optional().describe('Content language (BCP 47, e.g., en, fr-CA)'),
+});
+
+/**
+ * Table of contents schema (manifest.toc)
+ */
+const HeadingLevelSchema = z.number().int().min(1).max(6);
+
+const TocSchema = z.object({
+  title: z.string().optional().describe('Heading shown above the table of contents'),
+  depth: HeadingLevelSchema.optional().describe('Deepest heading level to include (default: 3)'),
+  levels: z
+    .array(HeadingLevelSchema)
+    .min(1, 'At least one heading level is required')
+    .optional()
+    .describe('Explicit heading levels to include (overrides depth)'),
+});
+
+/**
+ * Cross-reference schema (manifest.crossReferences)
+ */
+const CrossReferenceSchema = z.object({
+  unresolved: z
+    .enum(['warn', 'error', 'ignore'])
+    .optional()
+    .describe('Handling of references to missing anchors (default: warn)'),
+});
+
+/**
+ * Footnote schema (manifest.footnotes)
+ */
+const FootnoteSchema = z.object({
+  numbering: z
+    .enum(['chapter', 'book'])
+    .optional()
+    .describe('Restart footnote numbers per chapter or number through the book (default: chapter)'),
+});
+
 /**
  * PDF configuration schema
  */
 const PdfConfigSchema = z.object({
+  preset: z.string().optional().describe('Print-on-demand preset (e.g., kdp-6x9-cream, ingramspark-6x9-white, lulu-6x9-cream)'),
   engine: PdfEngineSchema.optional().default('auto').describe('PDF engine to use'),
   princePath: z.string().optional().describe('Path to Prince binary (if not in PATH)'),
   docraptor: DocRaptorConfigSchema.optional().describe('DocRaptor cloud API configuration'),
@@ -62,6 +155,50 @@ const PdfConfigSchema = z.object({
   bleed: z.string().optional().describe('Bleed area for crop marks (e.g., 3mm, 0.125in)'),
   outputIntent: z.string().optional().describe('ICC output intent path (Prince)'),
   convertColors: z.boolean().optional().describe('Convert colors to output intent'),
+  imposition: z
+    .enum(['saddle-stitch', 'perfect-bound-signatures', '2-up', '4-up'], {
+      errorMap: () => ({
+        message: "Imposition must be one of: 'saddle-stitch', 'perfect-bound-signatures', '2-up', '4-up'",
+      }),
+    })
+    .optional()
+    .describe('Booklet imposition written as <name>-imposed.pdf'),
+  creep: z.string().optional().describe('Shift of the innermost pages toward the fold (e.g., 0.5mm)'),
+  signaturePages: z
+    .number()
+    .int()
+    .positive()
+    .refine((value) => value % 4 === 0, 'Signature pages must be a multiple of 4 (e.g., 16 or 32)')
+    .optional()
+    .describe('Pages per signature for perfect-bound-signatures (default 16)'),
+});
+
+/**
+ * Wraparound cover schema
+ */
+const CoverSchema = z.object({
+  front: z.string().optional().describe('Front cover image'),
+  back: z.string().optional().describe('Back cover image'),
+  blurb: z.string().optional().describe('Markdown file rendered as the back cover text'),
+  spineText: z.string().optional().describe('Text along the spine (default: title and authors)'),
+  barcode: z
+    .union([z.string(), z.boolean()])
+    .optional()
+    .describe('Barcode image, or true for the metadata.isbn barcode (a white box without an ISBN)'),
+  paper: z
+    .enum(['white', 'cream', 'color'], {
+      errorMap: () => ({ message: "Cover paper must be 'white', 'cream' or 'color'" }),
+    })
+    .optional()
+    .describe('Interior paper used for the spine width when no pdf.preset is set'),
+  background: z.string().optional().describe('Background color behind the back cover and spine'),
+  styles: z.array(z.string()).optional().describe('Stylesheets for the cover'),
+  pageCount: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Interior page count, for PDF engines that do not report one'),
 });
 
 /**
@@ -144,11 +281,9 @@ const PluginConfigSchema = z.union([
 ]);
 
 /**
- * Complete manifest schema
- *
- * Validates the entire manifest.yaml structure with runtime type checking
+ * Manifest fields shared by the base manifest and its profiles
  */
-export const ManifestSchema = z.object({
+const ManifestFieldsSchema = z.object({
   title: z
     .string()
     .min(1, 'Title is required and cannot be empty')
@@ -166,6 +301,8 @@ export const ManifestSchema = z.object({
 
   page: PageSchema.optional().describe('Page format configuration'),
 
+  format: PageFormatSchema.optional().describe('Page format used to generate @page CSS and PDF engine options'),
+
   styles: z
     .array(
       z.string()
@@ -185,7 +322,7 @@ export const ManifestSchema = z.object({
       z.string().min(1, 'File path cannot be empty')
     )
     .optional()
-    .describe('Explicit file ordering (optional)'),
+    .describe('Explicit file ordering: paths, glob patterns and !exclusions (optional)'),
 
   extensions: z
     .array(ExtensionSchema)
@@ -203,7 +340,39 @@ export const ManifestSchema = z.object({
     .default(false)
     .describe('Disable default CSS styles'),
 
+  metadata: MetadataSchema.optional().describe('Additional book metadata'),
+
+  toc: TocSchema.optional().describe('Table of contents generated by the @toc directive'),
+
+  crossReferences: CrossReferenceSchema.optional().describe('Validation of @[TYPE:id] cross-references'),
+
+  footnotes: FootnoteSchema.optional().describe('Footnote numbering'),
+
+  variables: z
+    .record(z.string(), z.unknown())
+    .optional()
+    .describe('Values for {{ name }} template variables and @if conditions'),
+
   pdf: PdfConfigSchema.optional().describe('PDF generation configuration'),
+
+  cover: CoverSchema.optional().describe('Wraparound cover generated with --cover'),
+});
+
+/**
+ * Complete manifest schema
+ *
+ * Validates the entire manifest.yaml structure with runtime type checking.
+ * Profiles are partial manifests deep-merged onto the base (see config/profiles.ts),
+ * so defaults are not applied inside them.
+ */
+export const ManifestSchema = ManifestFieldsSchema.extend({
+  profiles: z
+    .record(
+      z.string().regex(/^[\w-]+$/, 'Profile names may only contain letters, numbers, hyphens and underscores'),
+      ManifestFieldsSchema.deepPartial()
+    )
+    .optional()
+    .describe('Named editions (build profiles) selected with --edition'),
 });
 
 /**
@@ -215,12 +384,17 @@ export type Manifest = z.infer<typeof ManifestSchema>;
  * Format Zod validation errors into readable messages
  *
  * @param error Zod validation error
+ * @param describeOrigin Optional lookup naming the file that set a field (manifests using `extends`)
  * @returns Formatted error message
  */
-export function formatManifestErrors(error: z.ZodError): string {
+export function formatManifestErrors(
+  error: z.ZodError,
+  describeOrigin?: (fieldPath: string) => string | undefined
+): string {
   const issues = error.issues.map((issue) => {
     const path = issue.path.join('.');
-    return `  - ${path || 'manifest'}: ${issue.message}`;
+    const origin = describeOrigin?.(path);
+    return `  - ${path || 'manifest'}: ${issue.message}${origin ? ` (in ${origin})` : ''}`;
   });
 
   return `Invalid manifest.yaml:\n${issues.join('\n')}`;
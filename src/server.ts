@@ -14,7 +14,7 @@
  * - preview/vite-setup.ts - Vite configuration
  */
 
-import { info } from './utils/logger.ts';
+import { createLogger } from './utils/logger.ts';
 import type { PreviewServerOptions } from './types.ts';
 import {
   validateInputPath,
@@ -28,6 +28,8 @@ import { createServerState, createClientTracker } from './preview/server-context
 import { generateAndWriteHtml, startFileWatcher } from './preview/file-watcher.ts';
 import { findAvailablePort, createConfiguredViteServer } from './preview/vite-setup.ts';
 
+const { info } = createLogger('preview');
+
 /**
  * Start preview server with Vite as primary server
  *
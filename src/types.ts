@@ -30,7 +30,8 @@ export interface Config {
  */
 export enum OutputFormat {
   HTML = 'html',
-  PDF = 'pdf'
+  PDF = 'pdf',
+  EPUB = 'epub'
 }
 
 /**
@@ -58,7 +59,7 @@ export interface BuildOptions {
   verbose?: boolean;
   /** Debug mode (preserve temporary files) */
   debug?: boolean;
-  /** Output format (html or pdf) */
+  /** Output format (html, pdf or epub) */
   format?: OutputFormat;
   /** Enable watch mode for automatic rebuilds */
   watch?: boolean;
@@ -74,6 +75,36 @@ export interface BuildOptions {
   docraptorApiKey?: string;
   /** Use DocRaptor in test mode (watermarked PDFs, unlimited) */
   docraptorTestMode?: boolean;
+  /** Template variables from --define key=value (override manifest variables) */
+  defines?: Record<string, string>;
+  /** Manifest profile to build (--edition) */
+  edition?: string;
+  /** Fail PDF builds when the print preflight or print preset checks find problems */
+  strict?: boolean;
+  /** Also generate the wraparound cover PDF from manifest.cover (--cover) */
+  buildCover?: boolean;
+  /** Write a JSON build report to this path (--report) */
+  report?: string;
+  /** Write a Chrome trace of the build to this path (--profile=trace.json) */
+  trace?: string;
+  /** Manifest fields deep-merged over manifest.yaml (the whole manifest when `sources` is set) */
+  manifestOverrides?: Manifest;
+  /** In-memory markdown and CSS keyed by path relative to the input directory; nothing is read from it */
+  sources?: Record<string, string>;
+  /** Cancels the build, killing the PDF engine process */
+  signal?: AbortSignal;
+  /** Progress callbacks (events of the library API, see api.ts) */
+  hooks?: BuildHooks;
+}
+
+/**
+ * Progress callbacks of a build
+ */
+export interface BuildHooks {
+  /** A build stage finished (the stages listed by --profile) */
+  onStage?: (stage: { name: string; duration: number }) => void;
+  /** A markdown file was rendered or taken from the render cache */
+  onFileRendered?: (file: { path: string; slug: string; cached: boolean }) => void;
 }
 
 /**
@@ -99,6 +130,9 @@ export interface PreviewServerOptions  {
  * PDF generation configuration
  */
 export interface PdfConfig {
+  /** Print-on-demand preset (e.g., 'kdp-6x9-cream'); fills page format and PDF defaults */
+  preset?: string;
+
   /** PDF engine to use ('auto', 'vivliostyle', 'prince', 'docraptor') */
   engine?: PdfEngineType;
 
@@ -130,8 +164,22 @@ export interface PdfConfig {
 
   /** Convert colors to output intent */
   convertColors?: boolean;
+
+  /** Booklet imposition written as <name>-imposed.pdf next to the reading-order PDF */
+  imposition?: ImpositionLayout;
+
+  /** Creep compensation: shift of the innermost pages toward the fold (e.g., '0.5mm') */
+  creep?: string;
+
+  /** Pages per signature for perfect-bound-signatures (multiple of 4, default 16) */
+  signaturePages?: number;
 }
 
+/**
+ * Sheet layout for booklet imposition
+ */
+export type ImpositionLayout = 'saddle-stitch' | 'perfect-bound-signatures' | '2-up' | '4-up';
+
 /**
  * Project manifest configuration (manifest.yaml)
  * Used for project metadata and custom CSS configuration
@@ -168,16 +216,39 @@ export interface Manifest {
     priority?: number;
   }>;
 
-  /** Ordered list of markdown files to include (paths relative to manifest.yaml). If not specified, all .md files are included in alphabetical order. */
+  /** Ordered list of markdown files, glob patterns and `!` exclusions (relative to manifest.yaml). If not specified, all .md files are found recursively in natural order (see markdown/book-files.ts). */
   files?: string[];
 
-  /** Additional book metadata for PDF output */
+  /** Additional book metadata for PDF and EPUB output */
   metadata?: ManifestMetadata;
 
+  /** Table of contents generated by the <!-- @toc --> directive */
+  toc?: TocConfig;
+
+  /** Validation of @[TYPE:id] cross-references */
+  crossReferences?: CrossReferenceConfig;
+
+  /** Footnote numbering */
+  footnotes?: FootnoteConfig;
+
+  /** Values for {{ name }} template variables and @if conditions */
+  variables?: Record<string, unknown>;
+
   /** PDF generation configuration */
   pdf?: PdfConfig;
+
+  /** Wraparound cover generated with --cover */
+  cover?: CoverConfig;
+
+  /** Named editions (build profiles) deep-merged onto this manifest with --edition */
+  profiles?: Record<string, ManifestProfile>;
 }
 
+/**
+ * Overrides applied by a manifest profile (see config/profiles.ts)
+ */
+export type ManifestProfile = Partial<Omit<Manifest, 'profiles'>>;
+
 /**
  * Additional metadata for manifest configuration
  */
@@ -188,8 +259,76 @@ export interface ManifestMetadata {
   /** Publication date (free-form string, e.g., "2025-01-15" or "January 2025") */
   date?: string;
 
-  /** ISBN (International Standard Book Number) */
+  /** ISBN-10 or ISBN-13 (check digit validated when the manifest loads) */
   isbn?: string;
+
+  /** EAN-5 price add-on for the ISBN barcode (e.g., "52495" for US$24.95, "90000" for no price) */
+  priceCode?: string;
+
+  /** Content language as a BCP 47 tag (e.g., "en", "fr-CA"), used for EPUB output */
+  language?: string;
+}
+
+/**
+ * Wraparound cover configuration for manifest.cover
+ */
+export interface CoverConfig {
+  /** Front cover image (relative to manifest.yaml) */
+  front?: string;
+
+  /** Back cover image (relative to manifest.yaml) */
+  back?: string;
+
+  /** Markdown file rendered as the back cover text (relative to manifest.yaml) */
+  blurb?: string;
+
+  /** Text along the spine (default: title and authors) */
+  spineText?: string;
+
+  /** Barcode image for the back cover, or true for the metadata.isbn barcode (a white box without an ISBN) */
+  barcode?: string | boolean;
+
+  /** Interior paper when no pdf.preset is set (default: white) */
+  paper?: 'white' | 'cream' | 'color';
+
+  /** Background color behind the back cover and spine (default: white) */
+  background?: string;
+
+  /** Stylesheets for the cover (relative to manifest.yaml) */
+  styles?: string[];
+
+  /** Interior page count, for PDF engines that do not report one */
+  pageCount?: number;
+}
+
+/**
+ * Table of contents configuration for manifest.toc
+ */
+export interface TocConfig {
+  /** Heading shown above the list (omitted by default) */
+  title?: string;
+
+  /** Deepest heading level to include (default: 3, i.e. h1-h3) */
+  depth?: number;
+
+  /** Explicit heading levels to include (e.g., [1, 2]); overrides depth */
+  levels?: number[];
+}
+
+/**
+ * Cross-reference configuration for manifest.crossReferences
+ */
+export interface CrossReferenceConfig {
+  /** What to do with references to missing anchors (default: warn) */
+  unresolved?: 'warn' | 'error' | 'ignore';
+}
+
+/**
+ * Footnote configuration for manifest.footnotes
+ */
+export interface FootnoteConfig {
+  /** Restart numbering in every chapter file, or number through the book (default: chapter) */
+  numbering?: 'chapter' | 'book';
 }
 
 /**
@@ -212,7 +351,16 @@ export interface PDFGenerationResult {
 /**
  * Directive type for page layout control
  */
-export type DirectiveType = 'page' | 'break' | 'spread' | 'columns';
+export type DirectiveType =
+  | 'page'
+  | 'break'
+  | 'spread'
+  | 'columns'
+  | 'toc'
+  | 'index'
+  | 'list-of-figures'
+  | 'list-of-tables'
+  | 'barcode';
 
 /**
  * Page template names for CSS @page rules
@@ -230,6 +378,25 @@ export type PageTemplateName =
   | 'glossary'     // Glossary/index (two-column friendly)
   | 'blank';       // Intentionally blank pages
 
+/**
+ * Per-file YAML front matter
+ * Known keys are validated; any other keys are passed through to plugins
+ */
+export interface FrontMatter {
+  /** Chapter title (data-title on the article) */
+  title?: string;
+  /** Page template for the whole file (data-page on the article) */
+  page?: PageTemplateName;
+  /** Column layout for the whole file (data-columns on the article) */
+  columns?: number;
+  /** Leave the file out of the build */
+  exclude?: boolean;
+  /** Mark the file as a draft (data-draft on the article) */
+  draft?: boolean;
+  /** Arbitrary data for plugins and templates */
+  [key: string]: unknown;
+}
+
 /**
  * Callout types for blockquote syntax
  */
@@ -293,16 +460,31 @@ export interface ProfileContainer {
  * Page format configuration
  */
 export interface PageFormat {
-  /** Page size (e.g., '6in 9in', 'A4', '8.5in 11in') */
+  /** Page size (e.g., '6in 9in', 'A4', '6x9', 'trade') */
   size?: string;
-  /** Margins (e.g., '0.75in 0.5in' or '20mm') */
-  margins?: string;
+  /** Margins (e.g., '0.75in 0.5in', '20mm', or mirrored top/bottom/inside/outside) */
+  margins?: string | PageMargins;
   /** Bleed zone (e.g., '0.125in', '3mm') */
   bleed?: string;
   /** Color mode for output */
   colorMode?: 'rgb' | 'cmyk';
 }
 
+/**
+ * Mirrored page margins for two-sided printing
+ * left/right are accepted as aliases for inside/outside
+ */
+export interface PageMargins {
+  top?: string;
+  bottom?: string;
+  /** Binding-side margin */
+  inside?: string;
+  /** Trim-side margin */
+  outside?: string;
+  left?: string;
+  right?: string;
+}
+
 /**
  * WebSocket client connection tracking
  *
@@ -487,6 +669,22 @@ export interface WatchContext {
   consecutiveFailures: number;
   /** Timestamp of last failure for backoff calculations */
   lastFailureTime: number;
+  /** Watching was stopped; no more builds run */
+  closed: boolean;
+  /** Build results reported to the caller */
+  callbacks: WatchCallbacks;
+}
+
+/**
+ * Callbacks of a watch session (see watchBuild)
+ */
+export interface WatchCallbacks {
+  /** A build (the initial one or a rebuild) succeeded */
+  onBuild?: (result: PDFGenerationResult) => void;
+  /** A build failed; watching continues with backoff */
+  onError?: (error: Error) => void;
+  /** Watching stopped after too many consecutive failures */
+  onStop?: (error: Error) => void;
 }
 
 /**
@@ -516,6 +714,8 @@ export interface BuildFileChangeEvent {
 export interface ImportResolutionResult {
   /** CSS content with all imports resolved and inlined */
   resolvedCSS: string;
+  /** The CSS file and every file it imports, in document order */
+  files: string[];
   /** Non-critical warnings (e.g., missing files when failOnMissing=false) */
   warnings: string[];
   /** Critical errors (e.g., circular imports, missing files when failOnMissing=true) */
@@ -5,6 +5,7 @@
  */
 
 import type MarkdownIt from 'markdown-it';
+import type { PerformanceMonitor } from '../utils/performance.ts';
 
 /**
  * markdown-it plugin function signature
@@ -126,6 +127,9 @@ export interface PluginLoaderOptions {
 
   /** Enable plugin caching */
   cache?: boolean;
+
+  /** Performance monitor that times each plugin load (--profile=trace.json) */
+  perf?: PerformanceMonitor;
 }
 
 /**
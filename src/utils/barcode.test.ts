@@ -0,0 +1,57 @@
+/**
+ * Tests for ISBN barcode generation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { encodeEan13, encodeEan5, generateIsbnBarcode } from './barcode.ts';
+
+describe('encodeEan13', () => {
+  test('encodes guards, parity and right-hand digits', () => {
+    const modules = encodeEan13('9783161484100');
+
+    expect(modules).toHaveLength(95);
+    expect(modules.slice(0, 3)).toBe('101');
+    expect(modules.slice(45, 50)).toBe('01010');
+    expect(modules.slice(92)).toBe('101');
+    // Leading 9 selects LGGLGL: 7 (L), 8 (G), 3 (G), 1 (L)
+    expect(modules.slice(3, 31)).toBe('0111011' + '0001001' + '0100001' + '0011001');
+    // Right-hand digits: 8 4 1 0 0 (R codes)
+    expect(modules.slice(57, 92)).toBe('1001000' + '1011100' + '1100110' + '1110010' + '1110010');
+  });
+});
+
+describe('encodeEan5', () => {
+  test('picks parity from the add-on checksum', () => {
+    const modules = encodeEan5('24695');
+
+    expect(modules).toHaveLength(47);
+    // Checksum 6 selects LLLGG: 2 (L) then 4 (L)
+    expect(modules.slice(0, 20)).toBe('1011' + '0010011' + '01' + '0100011');
+    // 9 (G) and 5 (G) at the end
+    expect(modules.slice(-16)).toBe('0010111' + '01' + '0111001');
+  });
+});
+
+describe('generateIsbnBarcode', () => {
+  test('draws an EAN-13 SVG with the ISBN as written', () => {
+    const svg = generateIsbnBarcode('ISBN 978-3-16-148410-0');
+
+    expect(svg).toStartWith('<svg xmlns="http://www.w3.org/2000/svg" class="isbn-barcode-svg" viewBox="0 0 113 91"');
+    expect(svg).toContain('width="37.29mm"');
+    expect(svg).toContain('aria-label="ISBN 9783161484100"');
+    expect(svg).toContain('>ISBN 978-3-16-148410-0</text>');
+    expect(svg).toContain('<rect x="11" y="12" width="1" height="74"/>');
+    expect(svg).toContain('>783161</text>');
+    expect(svg).toContain('>484100</text>');
+  });
+
+  test('adds the price add-on and converts ISBN-10', () => {
+    const svg = generateIsbnBarcode('0-306-40615-2', { priceCode: '52495' });
+
+    expect(svg).toContain('viewBox="0 0 167 91"');
+    expect(svg).toContain('>ISBN 9780306406157</text>');
+    expect(svg).toContain('>52495</text>');
+    expect(() => generateIsbnBarcode('0-306-40615-2', { priceCode: '$24.95' })).toThrow('Invalid price add-on');
+    expect(() => generateIsbnBarcode('0-306-40615-3')).toThrow('Invalid ISBN');
+  });
+});
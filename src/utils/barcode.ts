@@ -0,0 +1,161 @@
+/**
+ * ISBN barcodes
+ *
+ * Encodes an ISBN as an EAN-13 barcode, with an optional EAN-5 price add-on,
+ * and draws it as inline SVG for `<!-- @barcode -->` and the cover's barcode
+ * box. Dimensions follow the GS1 nominal size: 0.33mm modules, 11 modules of
+ * quiet zone on the left and guard bars extending below the digits.
+ */
+
+import { stripIsbnPrefix, toIsbn13 } from './isbn.ts';
+
+/**
+ * Barcode options
+ */
+export interface IsbnBarcodeOptions {
+  /** 5-digit EAN-5 price add-on (e.g., 52495 for US$24.95, 90000 for no price) */
+  priceCode?: string;
+}
+
+/** Odd parity (L), even parity (G) and right-hand (R) digit patterns */
+const L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const G_CODES = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const R_CODES = L_CODES.map((code) => code.replace(/[01]/g, (bit) => (bit === '0' ? '1' : '0')));
+
+/** Left-half parity for each leading EAN-13 digit */
+const EAN13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+/** EAN-5 parity for each add-on checksum */
+const EAN5_PARITY = ['GGLLL', 'GLGLL', 'GLLGL', 'GLLLG', 'LGGLL', 'LLGGL', 'LLLGG', 'LGLGL', 'LGLLG', 'LLGLG'];
+
+/** Layout in modules */
+const MODULE_MM = 0.33;
+const QUIET_LEFT = 11;
+const QUIET_RIGHT = 7;
+const ADDON_QUIET_RIGHT = 5;
+const ADDON_GAP = 9;
+const LABEL_HEIGHT = 12;
+const BAR_HEIGHT = 69;
+const GUARD_EXTENSION = 5;
+const DIGIT_HEIGHT = 10;
+const FONT = 'OCR-B, monospace';
+
+/**
+ * Modules of the EAN-13 start, center and end guards
+ */
+const GUARD_MODULES = new Set([0, 1, 2, 45, 46, 47, 48, 49, 92, 93, 94]);
+
+/**
+ * Encode 13 digits as EAN-13 modules (95 bits)
+ */
+export function encodeEan13(digits: string): string {
+  const parity = EAN13_PARITY[Number(digits[0])] ?? '';
+  let left = '';
+  let right = '';
+  for (let i = 0; i < 6; i++) {
+    const digit = Number(digits[i + 1]);
+    left += (parity[i] === 'G' ? G_CODES : L_CODES)[digit];
+    right += R_CODES[Number(digits[i + 7])];
+  }
+  return `101${left}01010${right}101`;
+}
+
+/**
+ * Encode a 5-digit add-on as EAN-5 modules (47 bits)
+ */
+export function encodeEan5(digits: string): string {
+  const values = [...digits].map(Number);
+  const checksum = ((values[0] ?? 0) + (values[2] ?? 0) + (values[4] ?? 0)) * 3 + ((values[1] ?? 0) + (values[3] ?? 0)) * 9;
+  const parity = EAN5_PARITY[checksum % 10] ?? '';
+  return '1011' + values.map((digit, i) => (parity[i] === 'G' ? G_CODES : L_CODES)[digit]).join('01');
+}
+
+/**
+ * Draw an ISBN barcode as SVG
+ *
+ * @param isbn - ISBN-10 or ISBN-13 (ISBN-10 is converted to 978-prefixed EAN-13)
+ * @param options - Optional price add-on
+ * @returns SVG element sized in millimeters
+ * @throws Error if the ISBN or the price add-on is invalid
+ */
+export function generateIsbnBarcode(isbn: string, options: IsbnBarcodeOptions = {}): string {
+  const digits = toIsbn13(isbn);
+  const { priceCode } = options;
+  if (priceCode !== undefined && !/^\d{5}$/.test(priceCode)) {
+    throw new Error(`Invalid price add-on "${priceCode}": use 5 digits (e.g., 52495 for US$24.95, 90000 for no price)`);
+  }
+
+  const mainStart = QUIET_LEFT;
+  const addonStart = mainStart + 95 + ADDON_GAP;
+  const width = priceCode ? addonStart + 47 + ADDON_QUIET_RIGHT : mainStart + 95 + QUIET_RIGHT;
+  const height = LABEL_HEIGHT + BAR_HEIGHT + DIGIT_HEIGHT;
+  const barTop = LABEL_HEIGHT;
+  const digitBaseline = barTop + BAR_HEIGHT + DIGIT_HEIGHT - 1;
+
+  const bars = drawBars(encodeEan13(digits), mainStart, (module) => ({
+    top: barTop,
+    bottom: barTop + BAR_HEIGHT + (GUARD_MODULES.has(module) ? GUARD_EXTENSION : 0),
+  }));
+  const texts = [
+    text(mainStart + 47.5, LABEL_HEIGHT - 4, 8, `ISBN ${formatIsbn13(isbn, digits)}`, 'middle'),
+    text(mainStart - 6, digitBaseline, 9, digits.slice(0, 1)),
+    text(mainStart + 4, digitBaseline, 9, digits.slice(1, 7), 'start', 40),
+    text(mainStart + 51, digitBaseline, 9, digits.slice(7), 'start', 40),
+  ];
+
+  if (priceCode) {
+    bars.push(...drawBars(encodeEan5(priceCode), addonStart, () => ({
+      top: barTop + DIGIT_HEIGHT,
+      bottom: barTop + BAR_HEIGHT + GUARD_EXTENSION,
+    })));
+    texts.push(text(addonStart + 23.5, barTop + DIGIT_HEIGHT - 2, 9, priceCode, 'middle', 40));
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" class="isbn-barcode-svg" viewBox="0 0 ${width} ${height}" ` +
+    `width="${round(width * MODULE_MM)}mm" height="${round(height * MODULE_MM)}mm" role="img" aria-label="ISBN ${digits}">` +
+    `<rect width="${width}" height="${height}" fill="#fff"/>` +
+    `<g fill="#000">${bars.join('')}</g>` +
+    `<g fill="#000" font-family="${FONT}">${texts.join('')}</g>` +
+    '</svg>'
+  );
+}
+
+/**
+ * Draw each run of dark modules as one rectangle
+ */
+function drawBars(modules: string, start: number, extent: (module: number) => { top: number; bottom: number }): string[] {
+  const bars: string[] = [];
+  for (let i = 0; i < modules.length; i++) {
+    if (modules[i] !== '1') continue;
+    let end = i;
+    while (modules[end + 1] === '1') end++;
+    const { top, bottom } = extent(i);
+    bars.push(`<rect x="${start + i}" y="${top}" width="${end - i + 1}" height="${bottom - top}"/>`);
+    i = end;
+  }
+  return bars;
+}
+
+/**
+ * SVG text element
+ */
+function text(x: number, y: number, size: number, content: string, anchor = 'start', length?: number): string {
+  const fit = length ? ` textLength="${length}" lengthAdjust="spacing"` : '';
+  return `<text x="${x}" y="${y}" font-size="${size}" text-anchor="${anchor}"${fit}>${content}</text>`;
+}
+
+/**
+ * Human-readable ISBN-13: the hyphenation as written, or plain digits
+ */
+function formatIsbn13(original: string, digits: string): string {
+  const written = stripIsbnPrefix(original);
+  return written.replace(/[\s-]/g, '') === digits ? written : digits;
+}
+
+/**
+ * Round millimeters to hundredths
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,99 @@
+/**
+ * Tests for manifest loading with extends
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { loadManifest } from './config.ts';
+import { mkdir, writeFile, remove } from './file-utils.ts';
+import { join } from 'path';
+
+describe('loadManifest extends', () => {
+  let testDir: string;
+  let bookDir: string;
+
+  beforeEach(async () => {
+    testDir = join(process.cwd(), '.tmp', `config-extends-${Date.now()}`);
+    bookDir = join(testDir, 'book-one');
+    await mkdir(bookDir);
+    await mkdir(join(testDir, 'series'));
+  });
+
+  afterEach(async () => {
+    await remove(testDir);
+  });
+
+  test('merges the base manifest deterministically', async () => {
+    await writeFile(
+      join(testDir, 'series', 'base.yaml'),
+      [
+        'title: Series',
+        'authors: [Ada]',
+        'styles: [themes/classic.css, series.css]',
+        'plugins: [ttrpg]',
+        'files: [credits.md]',
+        'metadata: { isbn: 978-1-23456-789-7, language: en }',
+        'pdf: { engine: vivliostyle }',
+      ].join('\n')
+    );
+    await writeFile(join(testDir, 'series', 'series.css'), 'body {}');
+    await writeFile(
+      join(bookDir, 'manifest.yaml'),
+      [
+        'extends: ../series/base.yaml',
+        'title: Book One',
+        'styles: [themes/classic.css, book.css]',
+        'plugins: [dimm-city]',
+        'files: [intro.md]',
+        'metadata: { language: de }',
+      ].join('\n')
+    );
+
+    const manifest = await loadManifest(bookDir);
+
+    expect(manifest?.title).toBe('Book One');
+    expect(manifest?.authors).toEqual(['Ada']);
+    expect(manifest?.styles).toEqual(['themes/classic.css', '../series/series.css', 'book.css']);
+    expect(manifest?.plugins).toEqual(['ttrpg', 'dimm-city']);
+    expect(manifest?.files).toEqual(['intro.md']);
+    expect(manifest?.metadata).toEqual({ isbn: '978-1-23456-789-7', language: 'de' });
+    expect(manifest?.pdf?.engine).toBe('vivliostyle');
+  });
+
+  test('extends manifests from installed packages', async () => {
+    const packageDir = join(testDir, 'node_modules', '@vault', 'series');
+    await mkdir(packageDir);
+    await writeFile(join(packageDir, 'manifest.yaml'), 'authors: [Grace]\nstyles: [vault.css]');
+    await writeFile(join(packageDir, 'vault.css'), 'body {}');
+    await writeFile(join(bookDir, 'manifest.yaml'), 'extends: "@vault/series"\ntitle: Book One');
+
+    const manifest = await loadManifest(bookDir);
+
+    expect(manifest?.authors).toEqual(['Grace']);
+    expect(manifest?.styles).toEqual(['../node_modules/@vault/series/vault.css']);
+  });
+
+  test('names the file that set an invalid field', async () => {
+    await writeFile(join(testDir, 'series', 'base.yaml'), 'authors: []\npdf: { engine: word }');
+    await writeFile(join(bookDir, 'manifest.yaml'), 'extends: ../series/base.yaml\ntitle: Book One');
+
+    const error = await loadManifest(bookDir).catch((e: Error) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('Invalid manifest.yaml');
+    expect((error as Error).message).toMatch(/authors: .* \(in \.\.\/series\/base\.yaml\)/);
+    expect((error as Error).message).toMatch(/pdf\.engine: .* \(in \.\.\/series\/base\.yaml\)/);
+  });
+
+  test('rejects missing and circular base manifests', async () => {
+    await writeFile(join(bookDir, 'manifest.yaml'), 'extends: ./missing.yaml\ntitle: Book One');
+    const missing = await loadManifest(bookDir).catch((e: Error) => e);
+    expect((missing as Error).message).toContain('Extended manifest not found');
+
+    const bookTwoDir = join(testDir, 'book-two');
+    await mkdir(bookTwoDir);
+    await writeFile(join(testDir, 'series', 'base.yaml'), 'extends: ../book-two/manifest.yaml');
+    await writeFile(join(bookTwoDir, 'manifest.yaml'), 'extends: ../series/base.yaml\ntitle: Book Two');
+    const circular = await loadManifest(bookTwoDir).catch((e: Error) => e);
+    expect((circular as Error).message).toContain('Circular manifest extends');
+  });
+});
@@ -6,12 +6,15 @@
  */
 
 import path, { join } from 'path';
+import { existsSync } from 'fs';
 import YAML from 'js-yaml';
 import type { Config, BuildOptions, Manifest } from '../types.ts';
-import { fileExists, isDirectory } from './file-utils.ts';
+import { fileExists, isDirectory, readFile } from './file-utils.ts';
+import { ConfigError } from './errors.ts';
 import { debug as logDebug, info } from './logger.ts';
 import { DEFAULTS, FILENAMES, EXTENSIONS } from '../constants.ts';
 import { ManifestSchema, formatManifestErrors } from '../schemas/manifest.schema.ts';
+import { parseFrontMatter } from '../markdown/front-matter.ts';
 
 /**
  * Create a Config object from CLI options
@@ -56,16 +59,24 @@ export function createBuildOptions(
  *
  * @param manifest - Raw manifest data parsed from YAML
  * @param manifestPath - Path to manifest file (for error messages)
+ * @param origins - Files that set each field, for manifests using `extends`
  * @returns Validated manifest data
  * @throws Error with clear message if validation fails
  */
-export function validateManifest(manifest: unknown, manifestPath: string): Manifest {
+export function validateManifest(manifest: unknown, manifestPath: string, origins?: ManifestOrigins): Manifest {
   // Use Zod schema for runtime validation
   const result = ManifestSchema.safeParse(manifest);
 
   if (!result.success) {
-    // Format Zod errors into user-friendly message
-    const errorMessage = formatManifestErrors(result.error);
+    // Format Zod errors into user-friendly message, naming the file that set
+    // each field when the manifest extends others
+    const describeOrigin = origins
+      ? (fieldPath: string) => {
+          const origin = findManifestOrigin(origins, fieldPath);
+          return origin ? path.relative(path.dirname(manifestPath), origin) : undefined;
+        }
+      : undefined;
+    const errorMessage = formatManifestErrors(result.error, describeOrigin);
     throw new Error(`${errorMessage}\n\nManifest location: ${manifestPath}`);
   }
 
@@ -114,6 +125,10 @@ export async function ensureManifest(inputPath: string): Promise<string> {
  * Load manifest from YAML file using Bun's native YAML support
  * Looks for manifest.yaml in input directory
  *
+ * A manifest may `extends:` other manifests (see loadManifestLayers). For
+ * single-file builds, book-level fields in the file's front matter
+ * (title, authors, metadata, ...) override manifest.yaml.
+ *
  * @param inputPath - Input markdown file or directory path (defaults to cwd)
  * @returns Parsed manifest or null if no manifest found
  * @throws Error if manifest exists but is invalid YAML or has invalid structure
@@ -125,32 +140,132 @@ export async function loadManifest(inputPath: string = process.cwd()): Promise<M
     : path.dirname(inputPath);
 
   const manifestPath = path.join(inputDir, FILENAMES.MANIFEST);
+  const frontMatterManifest = await loadFrontMatterManifest(inputPath);
 
   // Check if manifest exists
   if (!(await fileExists(manifestPath))) {
+    if (frontMatterManifest) {
+      logDebug(`Using manifest fields from front matter in ${inputPath}`);
+      return frontMatterManifest;
+    }
     logDebug('No manifest.yaml found, using defaults');
     return null;
   }
 
   try {
-    // Bun can directly import YAML files
-    // Add cache-busting timestamp to ensure fresh imports in tests
-    const manifest = await import(`${manifestPath}?t=${Date.now()}`);
+    const { data, origins } = await loadManifestLayers(manifestPath);
 
-    // Import returns module with default export
-    // Validate structure and types before returning
-    const manifestData = validateManifest(manifest.default, manifestPath);
+    // Validate structure and types of the merged manifest before returning
+    const manifestData = origins.size > 0
+      ? rebaseInheritedStyles(validateManifest(data, manifestPath, origins), manifestPath, origins)
+      : validateManifest(data, manifestPath);
 
     logDebug(`Loaded manifest from ${manifestPath}`);
-    return manifestData;
+    return frontMatterManifest ? { ...manifestData, ...frontMatterManifest } : manifestData;
   } catch (error) {
     const err = error as Error;
 
-    // Re-throw validation errors as-is (they have clear messages)
-    if (err.message.includes('Invalid manifest')) {
+    // Re-throw validation and syntax errors as-is (they have clear messages)
+    if (err.message.includes('Invalid manifest') || err.message.startsWith('Invalid YAML syntax')) {
       throw err;
     }
 
+    // Generic error for other issues
+    throw new Error(
+      `Failed to load manifest at ${manifestPath}: ${err.message}`
+    );
+  }
+}
+
+/**
+ * Files that set each manifest field, by dotted field path (`pdf.engine`,
+ * `styles.2`). A path without an entry belongs to its closest listed parent.
+ */
+export type ManifestOrigins = Map<string, string>;
+
+/**
+ * Manifest fields whose lists are appended to, rather than replaced, by an
+ * extending manifest
+ */
+const APPENDED_MANIFEST_FIELDS = new Set(['styles', 'plugins']);
+
+/**
+ * Read a manifest and the manifests it extends, merged into one raw object
+ *
+ * `extends:` names a manifest file relative to the declaring manifest
+ * (`../series/base.yaml`) or an installed package (`series-config` loads
+ * `node_modules/series-config/manifest.yaml`; `series-config/print.yaml` picks
+ * another file). A list extends several manifests, later ones taking priority.
+ *
+ * The declaring manifest is merged onto what it extends: `styles` and
+ * `plugins` are appended (base first, duplicates dropped), nested objects are
+ * merged key by key, and other lists (`files`) and values are replaced.
+ *
+ * @param manifestPath - Absolute path to the manifest file
+ * @returns Merged data and, when anything was extended, the file that set each field
+ * @throws Error on YAML syntax errors, missing base manifests and circular extends
+ */
+export async function loadManifestLayers(manifestPath: string): Promise<{ data: unknown; origins: ManifestOrigins }> {
+  const layers = await collectManifestLayers(manifestPath, []);
+  if (layers.length === 1 && !layers[0]?.extended) {
+    return { data: layers[0]?.data, origins: new Map() };
+  }
+
+  const origins: ManifestOrigins = new Map();
+  let merged: Record<string, unknown> = {};
+  for (const layer of layers) {
+    merged = mergeManifestLayer(merged, layer.data as Record<string, unknown>, '', origins, layer.file);
+  }
+  return { data: merged, origins };
+}
+
+/**
+ * List a manifest and the manifests it extends, most basic first
+ */
+async function collectManifestLayers(
+  manifestPath: string,
+  chain: string[]
+): Promise<Array<{ file: string; data: unknown; extended: boolean }>> {
+  if (chain.includes(manifestPath)) {
+    const cycle = [...chain.slice(chain.indexOf(manifestPath)), manifestPath];
+    throw new Error(`Circular manifest extends: ${cycle.join(' → ')}`);
+  }
+
+  const data = await readManifestFile(manifestPath);
+  if (!isPlainObject(data) || data.extends === undefined) {
+    if (chain.length > 0 && !isPlainObject(data)) {
+      throw new Error(`Extended manifest ${manifestPath} must contain manifest fields`);
+    }
+    return [{ file: manifestPath, data, extended: false }];
+  }
+
+  const { extends: extended, ...fields } = data;
+  const layers: Array<{ file: string; data: unknown; extended: boolean }> = [];
+  for (const spec of Array.isArray(extended) ? extended : [extended]) {
+    if (typeof spec !== 'string' || spec.trim() === '') {
+      throw new Error(`extends in ${manifestPath} must be a manifest path or package name`);
+    }
+    const basePath = await resolveExtendsPath(spec, manifestPath);
+    layers.push(...(await collectManifestLayers(basePath, [...chain, manifestPath])));
+  }
+  layers.push({ file: manifestPath, data: fields, extended: true });
+  return layers;
+}
+
+/**
+ * Read and parse a single manifest file
+ *
+ * @throws Error describing the YAML syntax error in that file
+ */
+async function readManifestFile(manifestPath: string): Promise<unknown> {
+  try {
+    // Bun can directly import YAML files
+    // Add cache-busting timestamp to ensure fresh imports in tests
+    const manifest = (await import(`${manifestPath}?t=${Date.now()}`)) as { default: unknown };
+    return manifest.default;
+  } catch (error) {
+    const err = error as Error;
+
     // Detect YAML syntax errors
     // Common error patterns from Bun's YAML parser:
     // - SyntaxError instances
@@ -171,12 +286,175 @@ export async function loadManifest(inputPath: string = process.cwd()): Promise<M
         `Validate your YAML at: https://www.yamllint.com/`
       );
     }
+    throw err;
+  }
+}
 
-    // Generic error for other issues
-    throw new Error(
-      `Failed to load manifest at ${manifestPath}: ${err.message}`
-    );
+/**
+ * Resolve an `extends` value to a manifest file
+ *
+ * Values starting with `.` or `/` are files relative to the declaring
+ * manifest; anything else is a package in the nearest `node_modules`.
+ */
+async function resolveExtendsPath(spec: string, manifestPath: string): Promise<string> {
+  const manifestDir = path.dirname(manifestPath);
+
+  if (spec.startsWith('.') || path.isAbsolute(spec)) {
+    const filePath = path.resolve(manifestDir, spec);
+    if (!(await fileExists(filePath))) {
+      throw new Error(`Extended manifest not found: ${filePath} (extends: ${spec} in ${manifestPath})`);
+    }
+    return filePath;
   }
+
+  // Package name (scoped names have two segments), optionally followed by a file inside it
+  const segments = spec.split('/');
+  const nameLength = spec.startsWith('@') ? 2 : 1;
+  const packageName = segments.slice(0, nameLength).join('/');
+  const packageFile = segments.slice(nameLength).join('/') || FILENAMES.MANIFEST;
+
+  for (let dir = manifestDir; ; dir = path.dirname(dir)) {
+    const filePath = path.join(dir, 'node_modules', packageName, packageFile);
+    if (await fileExists(filePath)) {
+      return filePath;
+    }
+    if (path.dirname(dir) === dir) break;
+  }
+
+  throw new Error(
+    `Extended manifest not found: package "${packageName}" has no ${packageFile} (extends: ${spec} in ${manifestPath}). ` +
+    `Install the package, or start file paths with ./ or ../`
+  );
+}
+
+/**
+ * Merge one manifest layer onto the fields it extends, recording which file
+ * set each merged field
+ */
+function mergeManifestLayer(
+  base: Record<string, unknown>,
+  layer: Record<string, unknown>,
+  prefix: string,
+  origins: ManifestOrigins,
+  origin: string
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(layer)) {
+    const fieldPath = prefix + key;
+    const current = merged[key];
+
+    if (prefix === '' && APPENDED_MANIFEST_FIELDS.has(key) && Array.isArray(current) && Array.isArray(value)) {
+      const items: unknown[] = [...(current as unknown[])];
+      const seen = new Set(items.map((item) => JSON.stringify(item)));
+      for (const item of value) {
+        if (seen.has(JSON.stringify(item))) continue;
+        seen.add(JSON.stringify(item));
+        origins.set(`${fieldPath}.${items.length}`, origin);
+        items.push(item);
+      }
+      merged[key] = items;
+    } else if (isPlainObject(current) && isPlainObject(value)) {
+      merged[key] = mergeManifestLayer(current, value, `${fieldPath}.`, origins, origin);
+    } else {
+      setOrigins(origins, prefix, [key], origin);
+      merged[key] = value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Record the origin of replaced fields, dropping origins of their old children
+ */
+function setOrigins(origins: ManifestOrigins, prefix: string, keys: string[], origin: string): void {
+  for (const key of keys) {
+    const fieldPath = prefix + key;
+    for (const existing of [...origins.keys()]) {
+      if (existing.startsWith(`${fieldPath}.`)) origins.delete(existing);
+    }
+    origins.set(fieldPath, origin);
+  }
+}
+
+/**
+ * Find the file that set a field (or its closest recorded parent)
+ */
+export function findManifestOrigin(origins: ManifestOrigins, fieldPath: string): string | undefined {
+  for (let current = fieldPath; current; current = current.slice(0, Math.max(current.lastIndexOf('.'), 0))) {
+    const origin = origins.get(current);
+    if (origin) return origin;
+  }
+  return undefined;
+}
+
+/**
+ * Make inherited style paths relative to the extending manifest
+ *
+ * Styles resolve relative to the manifest that declared them. Inherited
+ * entries that name a file next to their manifest are rewritten relative to
+ * the root manifest; others (bundled themes) are kept as written.
+ */
+function rebaseInheritedStyles(manifest: Manifest, manifestPath: string, origins: ManifestOrigins): Manifest {
+  const manifestDir = path.dirname(manifestPath);
+  const rebase = (styles: string[], prefix: string): string[] =>
+    styles.map((style, index) => {
+      const origin = findManifestOrigin(origins, `${prefix}styles.${index}`);
+      if (!origin || origin === manifestPath) return style;
+      const stylePath = path.resolve(path.dirname(origin), style);
+      return existsSync(stylePath) ? path.relative(manifestDir, stylePath) : style;
+    });
+
+  const profiles = manifest.profiles
+    ? Object.fromEntries(
+        Object.entries(manifest.profiles).map(([name, profile]) => [
+          name,
+          profile.styles ? { ...profile, styles: rebase(profile.styles, `profiles.${name}.`) } : profile,
+        ])
+      )
+    : undefined;
+
+  return { ...manifest, styles: rebase(manifest.styles ?? [], ''), ...(profiles && { profiles }) };
+}
+
+/**
+ * Whether a value is a plain object (not a list or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read book-level manifest fields from a markdown file's front matter
+ *
+ * Only keys known to ManifestSchema are used, except `page`, which names a
+ * page template in front matter. Fields are validated individually since a
+ * single file does not have to define every required manifest field.
+ *
+ * @param inputPath - Input path (only .md files are read)
+ * @returns Partial manifest, or null if the input is not a markdown file or sets no manifest fields
+ * @throws Error if a manifest field in front matter is invalid
+ */
+async function loadFrontMatterManifest(inputPath: string): Promise<Manifest | null> {
+  if (!inputPath.endsWith(EXTENSIONS.MARKDOWN) || !(await fileExists(inputPath)) || (await isDirectory(inputPath))) {
+    return null;
+  }
+
+  const { frontMatter } = parseFrontMatter(await readFile(inputPath), inputPath);
+  const bookFields = Object.fromEntries(
+    Object.entries(frontMatter).filter(([key]) => key !== 'page' && key in ManifestSchema.shape)
+  );
+  if (Object.keys(bookFields).length === 0) {
+    return null;
+  }
+
+  const result = ManifestSchema.partial().safeParse(bookFields);
+  if (!result.success) {
+    throw new Error(`${formatManifestErrors(result.error)}\n\nFront matter location: ${inputPath}`);
+  }
+
+  return result.data as Manifest;
 }
 
 /**
@@ -198,7 +476,7 @@ function resolvePath(filePath: string): string {
 /**
  * Valid output format types
  */
-type ValidFormat = 'html' | 'pdf';
+type ValidFormat = 'html' | 'pdf' | 'epub';
 
 /**
  * Type guard to check if a string is a valid format
@@ -206,7 +484,7 @@ type ValidFormat = 'html' | 'pdf';
  * @returns True if value is a valid format
  */
 function isValidFormat(value: string): value is ValidFormat {
-  const validFormats: readonly ValidFormat[] = ['html', 'pdf'] as const;
+  const validFormats: readonly ValidFormat[] = ['html', 'pdf', 'epub'] as const;
   return validFormats.includes(value as ValidFormat);
 }
 
@@ -217,7 +495,7 @@ function isValidFormat(value: string): value is ValidFormat {
  * @throws Error if format is invalid
  */
 export function validateFormatOption(format: string): ValidFormat {
-  const validFormats: readonly ValidFormat[] = ['html', 'pdf'] as const;
+  const validFormats: readonly ValidFormat[] = ['html', 'pdf', 'epub'] as const;
   const normalized = format.toLowerCase();
 
   if (!isValidFormat(normalized)) {
@@ -228,3 +506,28 @@ export function validateFormatOption(format: string): ValidFormat {
 
   return normalized;
 }
+
+/**
+ * Parse repeated --define key=value options into template variables
+ *
+ * @param defines - Raw option values
+ * @returns Variables by name (dotted names such as metadata.isbn are allowed)
+ * @throws ConfigError if a value is not in key=value form
+ */
+export function parseDefines(defines: string[]): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const define of defines) {
+    const separator = define.indexOf('=');
+    const name = define.slice(0, separator).trim();
+    if (separator === -1 || !/^[A-Za-z_][\w-]*(\.[A-Za-z_][\w-]*)*$/.test(name)) {
+      throw new ConfigError(
+        `Invalid --define value: "${define}"`,
+        `Use --define name=value (e.g., --define edition=gm or --define metadata.isbn=978-1-23456-789-7)`
+      );
+    }
+    variables[name] = define.slice(separator + 1);
+  }
+
+  return variables;
+}
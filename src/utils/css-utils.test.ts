@@ -66,6 +66,19 @@ describe('resolveImports', () => {
       expect(result.resolvedCSS).toContain('.base { color: blue; }');
     });
 
+    it('should list the files read, including nested imports', async () => {
+      const basePath = path.join(testDir, 'base.css');
+      const level1Path = path.join(testDir, 'level1.css');
+      const level2Path = path.join(testDir, 'level2.css');
+
+      await writeFile(level2Path, '.level2 { color: green; }');
+      await writeFile(level1Path, '@import "level2.css";\n.level1 { color: red; }');
+
+      const result = await resolveImports('@import "level1.css";\n.base { color: blue; }', basePath);
+
+      expect(result.files).toEqual([basePath, level1Path, level2Path]);
+    });
+
     it('should resolve multiple imports in same file', async () => {
       const basePath = path.join(testDir, 'base.css');
       const import1Path = path.join(testDir, 'import1.css');
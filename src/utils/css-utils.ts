@@ -96,7 +96,7 @@ function extractImports(cssContent: string): ImportInfo[] {
  * @param options - Configuration options
  * @param options.failOnMissing - If true, missing imports are errors; if false, warnings (default: true)
  * @param options.processedFiles - Internal: Set of already processed files (prevents circular imports)
- * @returns ImportResolutionResult with resolved CSS, warnings, and errors
+ * @returns ImportResolutionResult with resolved CSS, the files read, warnings, and errors
  *
  * @example
  * ```typescript
@@ -131,7 +131,7 @@ export async function resolveImports(
   if (processedFiles.has(cssFilePath)) {
     const circularChain = Array.from(processedFiles).join(' → ') + ' → ' + cssFilePath;
     errors.push(`Circular import detected: ${circularChain}`);
-    return { resolvedCSS: '', warnings, errors };
+    return { resolvedCSS: '', files: [], warnings, errors };
   }
 
   // Track this file in the import chain
@@ -151,6 +151,7 @@ export async function resolveImports(
   );
 
   let resolvedCSS = cssContent;
+  const importedFiles: string[] = [];
 
   // Get bundled assets directory for resolving absolute paths (e.g., /plugins/foo.css)
   // When running from dist/cli.js (bundled): assets are in dist/assets/
@@ -202,7 +203,9 @@ export async function resolveImports(
           }
         );
 
-        // Merge warnings and errors from nested resolution
+        // Merge files, warnings and errors from nested resolution
+        // (imports are processed in reverse, so prepend to keep document order)
+        importedFiles.unshift(...nestedResult.files);
         warnings.push(...nestedResult.warnings);
         errors.push(...nestedResult.errors);
 
@@ -245,5 +248,5 @@ export async function resolveImports(
     }
   }
 
-  return { resolvedCSS, warnings, errors };
+  return { resolvedCSS, files: [cssFilePath, ...importedFiles], warnings, errors };
 }
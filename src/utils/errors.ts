@@ -15,6 +15,42 @@ export class BuildError extends Error {
   }
 }
 
+/**
+ * Build error located in a source file, such as an invalid directive
+ *
+ * The location is also logged as structured fields (--log-format json).
+ */
+export class SourceError extends BuildError {
+  file: string;
+  line: number | null;
+
+  constructor(message: string, file: string, line: number | null) {
+    super(message);
+    this.name = 'SourceError';
+    this.file = file;
+    this.line = line;
+  }
+}
+
+/**
+ * Error thrown when a build is cancelled through its AbortSignal
+ */
+export class BuildAbortedError extends BuildError {
+  constructor(message = 'Build aborted') {
+    super(message);
+    this.name = 'BuildAbortedError';
+  }
+}
+
+/**
+ * Throw BuildAbortedError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new BuildAbortedError();
+  }
+}
+
 /**
  * Error thrown when configuration is invalid
  */
@@ -0,0 +1,76 @@
+/**
+ * Tests for image header inspection
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { readImageInfo } from './image-info.ts';
+
+/**
+ * PNG signature and IHDR chunk (no image data)
+ */
+function png(width: number, height: number, colorType = 2): Buffer {
+  const buffer = Buffer.alloc(33);
+  buffer.writeUInt32BE(0x89504e47, 0);
+  buffer.writeUInt32BE(0x0d0a1a0a, 4);
+  buffer.writeUInt32BE(13, 8);
+  buffer.write('IHDR', 12, 'ascii');
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  buffer[24] = 8;
+  buffer[25] = colorType;
+  return buffer;
+}
+
+/**
+ * JPEG with an APP0 segment followed by a baseline start-of-frame segment
+ */
+function jpeg(width: number, height: number, components: number): Buffer {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]);
+  const sof = Buffer.alloc(10);
+  sof.writeUInt16BE(0xffc0, 0);
+  sof.writeUInt16BE(8 + components * 3, 2);
+  sof[4] = 8;
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  sof[9] = components;
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof, Buffer.alloc(components * 3)]);
+}
+
+describe('readImageInfo', () => {
+  test('reads PNG dimensions and color type', () => {
+    expect(readImageInfo(png(2550, 3300))).toEqual({ format: 'png', width: 2550, height: 3300, colorSpace: 'rgb' });
+    expect(readImageInfo(png(10, 20, 0))?.colorSpace).toBe('gray');
+  });
+
+  test('reads JPEG dimensions and detects CMYK from the component count', () => {
+    expect(readImageInfo(jpeg(1200, 800, 3))).toEqual({ format: 'jpeg', width: 1200, height: 800, colorSpace: 'rgb' });
+    expect(readImageInfo(jpeg(1200, 800, 4))?.colorSpace).toBe('cmyk');
+    expect(readImageInfo(jpeg(1200, 800, 1))?.colorSpace).toBe('gray');
+  });
+
+  test('reads GIF and WebP dimensions', () => {
+    const gif = Buffer.alloc(13);
+    gif.write('GIF89a', 0, 'ascii');
+    gif.writeUInt16LE(640, 6);
+    gif.writeUInt16LE(480, 8);
+    expect(readImageInfo(gif)).toEqual({ format: 'gif', width: 640, height: 480, colorSpace: 'rgb' });
+
+    const webp = Buffer.alloc(30);
+    webp.write('RIFF', 0, 'ascii');
+    webp.write('WEBPVP8X', 8, 'ascii');
+    webp.writeUIntLE(1999, 24, 3);
+    webp.writeUIntLE(999, 27, 3);
+    expect(readImageInfo(webp)).toEqual({ format: 'webp', width: 2000, height: 1000, colorSpace: 'rgb' });
+  });
+
+  test('recognizes SVG without pixel dimensions', () => {
+    const svg = Buffer.from('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+    expect(readImageInfo(svg)).toEqual({ format: 'svg', width: null, height: null, colorSpace: null });
+  });
+
+  test('returns null for unknown or truncated data', () => {
+    expect(readImageInfo(Buffer.from('plain text'))).toBeNull();
+    expect(readImageInfo(png(10, 10).subarray(0, 20))).toBeNull();
+    expect(readImageInfo(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBeNull();
+  });
+});
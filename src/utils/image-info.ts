@@ -0,0 +1,129 @@
+/**
+ * Image header inspection
+ *
+ * Reads pixel dimensions and color space from the headers of PNG, JPEG, GIF
+ * and WebP files without decoding them, for the print preflight report
+ * (build/preflight.ts). SVG images are recognized but have no pixel size.
+ */
+
+/**
+ * Image color space as far as the header tells
+ */
+export type ImageColorSpace = 'rgb' | 'cmyk' | 'gray';
+
+/**
+ * Dimensions and color space of an image
+ */
+export interface ImageInfo {
+  format: 'png' | 'jpeg' | 'gif' | 'webp' | 'svg';
+  /** Width in pixels (null for vector images) */
+  width: number | null;
+  /** Height in pixels (null for vector images) */
+  height: number | null;
+  /** Color space (null when not applicable, e.g. SVG) */
+  colorSpace: ImageColorSpace | null;
+}
+
+/**
+ * Read image information from file contents
+ *
+ * @param data - Image file contents
+ * @returns Image information, or null if the format is not recognized or the header is truncated
+ */
+export function readImageInfo(data: Uint8Array): ImageInfo | null {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+  if (buffer.length >= 26 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return readPngInfo(buffer);
+  }
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return readJpegInfo(buffer);
+  }
+  if (buffer.length >= 10 && buffer.toString('ascii', 0, 4) === 'GIF8') {
+    return { format: 'gif', width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8), colorSpace: 'rgb' };
+  }
+  if (buffer.length >= 30 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return readWebpInfo(buffer);
+  }
+  if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(buffer.toString('utf8', 0, 1024))) {
+    return { format: 'svg', width: null, height: null, colorSpace: null };
+  }
+
+  return null;
+}
+
+/**
+ * PNG: IHDR chunk holds width, height and color type (0 and 4 are grayscale)
+ */
+function readPngInfo(buffer: Buffer): ImageInfo {
+  const colorType = buffer[25];
+  return {
+    format: 'png',
+    width: buffer.readUInt32BE(16),
+    height: buffer.readUInt32BE(20),
+    colorSpace: colorType === 0 || colorType === 4 ? 'gray' : 'rgb',
+  };
+}
+
+/**
+ * JPEG: the start-of-frame segment holds height, width and component count
+ * (1 = grayscale, 3 = RGB/YCbCr, 4 = CMYK/YCCK)
+ */
+function readJpegInfo(buffer: Buffer): ImageInfo | null {
+  let offset = 2;
+
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1] ?? 0;
+
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+
+    const length = buffer.readUInt16BE(offset + 2);
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = buffer[offset + 9];
+      return {
+        format: 'jpeg',
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+        colorSpace: components === 4 ? 'cmyk' : components === 1 ? 'gray' : 'rgb',
+      };
+    }
+    offset += 2 + length;
+  }
+
+  return null;
+}
+
+/**
+ * WebP: lossy (VP8), lossless (VP8L) and extended (VP8X) headers; always RGB
+ */
+function readWebpInfo(buffer: Buffer): ImageInfo | null {
+  const chunk = buffer.toString('ascii', 12, 16);
+
+  if (chunk === 'VP8 ') {
+    return {
+      format: 'webp',
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+      colorSpace: 'rgb',
+    };
+  }
+  if (chunk === 'VP8L') {
+    const bits = buffer.readUInt32LE(21);
+    return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, colorSpace: 'rgb' };
+  }
+  if (chunk === 'VP8X') {
+    return { format: 'webp', width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1, colorSpace: 'rgb' };
+  }
+
+  return null;
+}
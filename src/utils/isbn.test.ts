@@ -0,0 +1,33 @@
+/**
+ * Tests for ISBN validation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { isValidIsbn, normalizeIsbn, toIsbn13, validateIsbn } from './isbn.ts';
+
+describe('validateIsbn', () => {
+  test('accepts valid ISBN-13 and ISBN-10 in common spellings', () => {
+    expect(validateIsbn('978-3-16-148410-0')).toBeNull();
+    expect(validateIsbn('ISBN 979-10-90636-07-1')).toBeNull();
+    expect(validateIsbn('0-306-40615-2')).toBeNull();
+    expect(validateIsbn('ISBN-10: 0-8044-2957-x')).toBeNull();
+    expect(isValidIsbn('9780306406157')).toBe(true);
+  });
+
+  test('explains why an ISBN is invalid', () => {
+    expect(validateIsbn('978-3-16-148410-1')).toBe('ISBN check digit should be 0, not 1');
+    expect(validateIsbn('0-306-40615-3')).toBe('ISBN check digit should be 2, not 3');
+    expect(validateIsbn('978-3-16-14841')).toBe('ISBN must have 10 or 13 digits (got 11)');
+    expect(validateIsbn('123-4-56-789012-8')).toBe('ISBN-13 must start with 978 or 979');
+    expect(validateIsbn('978-3-16-14841O-0')).toContain('ISBN may only contain digits');
+  });
+});
+
+describe('toIsbn13', () => {
+  test('normalizes ISBN-13 and converts ISBN-10', () => {
+    expect(normalizeIsbn(' isbn 978 3 16 148410 0 ')).toBe('9783161484100');
+    expect(toIsbn13('978-3-16-148410-0')).toBe('9783161484100');
+    expect(toIsbn13('0-306-40615-2')).toBe('9780306406157');
+    expect(() => toIsbn13('0-306-40615-3')).toThrow('Invalid ISBN "0-306-40615-3"');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * ISBN validation
+ *
+ * Checks ISBN-10 and ISBN-13 check digits for `metadata.isbn` and converts
+ * ISBN-10 to the ISBN-13 (EAN-13) form printed as a barcode.
+ */
+
+/**
+ * Optional "ISBN", "ISBN-10:" or "ISBN-13:" prefix
+ */
+const ISBN_PREFIX_REGEX = /^isbn(?:-1[03])?:?\s*/i;
+
+/**
+ * Remove an "ISBN" prefix, keeping the hyphenation as written
+ */
+export function stripIsbnPrefix(value: string): string {
+  return value.trim().replace(ISBN_PREFIX_REGEX, '');
+}
+
+/**
+ * Strip the prefix, hyphens and spaces from an ISBN
+ *
+ * @returns Digits (and a trailing X for ISBN-10), uppercased
+ */
+export function normalizeIsbn(value: string): string {
+  return stripIsbnPrefix(value).replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Validate an ISBN-10 or ISBN-13
+ *
+ * @param value - ISBN as written (hyphens, spaces and an "ISBN" prefix are allowed)
+ * @returns Problem description, or null if the ISBN is valid
+ */
+export function validateIsbn(value: string): string | null {
+  const isbn = normalizeIsbn(value);
+
+  if (!/^(\d{13}|\d{9}[\dX])$/.test(isbn)) {
+    return /^[\dX]+$/.test(isbn)
+      ? `ISBN must have 10 or 13 digits (got ${isbn.length})`
+      : 'ISBN may only contain digits, hyphens and spaces (and X as the last digit of an ISBN-10)';
+  }
+  if (isbn.length === 13 && !/^97[89]/.test(isbn)) {
+    return 'ISBN-13 must start with 978 or 979';
+  }
+
+  const expected = isbn.length === 13 ? isbn13CheckDigit(isbn) : isbn10CheckDigit(isbn);
+  const actual = isbn.slice(-1);
+  return expected === actual ? null : `ISBN check digit should be ${expected}, not ${actual}`;
+}
+
+/**
+ * Whether a value is a valid ISBN-10 or ISBN-13
+ */
+export function isValidIsbn(value: string): boolean {
+  return validateIsbn(value) === null;
+}
+
+/**
+ * Convert an ISBN to its 13 digits
+ *
+ * ISBN-10s get the 978 prefix and a recalculated check digit.
+ *
+ * @throws Error if the ISBN is invalid
+ */
+export function toIsbn13(value: string): string {
+  const problem = validateIsbn(value);
+  if (problem) {
+    throw new Error(`Invalid ISBN "${value}": ${problem}`);
+  }
+
+  const isbn = normalizeIsbn(value);
+  if (isbn.length === 13) {
+    return isbn;
+  }
+  const base = `978${isbn.slice(0, 9)}`;
+  return base + isbn13CheckDigit(base);
+}
+
+/**
+ * EAN-13 check digit for the first 12 digits (weights 1 and 3)
+ */
+export function isbn13CheckDigit(digits: string): string {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(digits[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * ISBN-10 check digit for the first 9 digits (weights 10 down to 2, X for 10)
+ */
+function isbn10CheckDigit(digits: string): string {
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    sum += Number(digits[i]) * (10 - i);
+  }
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
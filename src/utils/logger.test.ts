@@ -13,6 +13,12 @@ import {
   error,
   silence,
   reset,
+  addLogListener,
+  addLogSink,
+  createLogger,
+  setLogFormat,
+  setLogSinks,
+  type LogEntry,
   type LogLevel,
 } from './logger.ts';
 
@@ -161,6 +167,76 @@ describe('Logger', () => {
     });
   });
 
+  describe('addLogListener', () => {
+    test('receives formatted messages below the current level', () => {
+      const entries: LogEntry[] = [];
+      const removeListener = addLogListener((entry) => entries.push(entry));
+      silence();
+
+      warn('%d chapters', 3);
+      removeListener();
+      warn('after removal');
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]?.level).toBe('WARN');
+      expect(entries[0]?.message).toBe('3 chapters');
+      expect(logMessages.length).toBe(0);
+    });
+  });
+
+  describe('log format and sinks', () => {
+    test('prints one JSON object per line with subsystem and fields', () => {
+      setLogFormat('json');
+      const originalStdoutWrite = process.stdout.write.bind(process.stdout);
+      const originalStderrWrite = process.stderr.write.bind(process.stderr);
+      process.stdout.write = (chunk: string | Uint8Array) => logMessages.push(String(chunk)) > 0;
+      process.stderr.write = (chunk: string | Uint8Array) => errorMessages.push(String(chunk)) > 0;
+
+      try {
+        createLogger('markdown').warn('Unknown directive "@pag"', { file: '/book/01.md', line: 3 });
+        createLogger('engine').error('Prince failed');
+      } finally {
+        process.stdout.write = originalStdoutWrite;
+        process.stderr.write = originalStderrWrite;
+      }
+
+      expect(logMessages[0]).toEndWith('}\n');
+      expect(JSON.parse(logMessages[0] ?? '')).toMatchObject({
+        level: 'WARN',
+        subsystem: 'markdown',
+        message: 'Unknown directive "@pag"',
+        file: '/book/01.md',
+        line: 3,
+      });
+      expect(JSON.parse(errorMessages[0] ?? '')).toMatchObject({ level: 'ERROR', subsystem: 'engine' });
+    });
+
+    test('sends entries at or above the log level to custom sinks', () => {
+      const entries: LogEntry[] = [];
+      setLogSinks([(entry) => entries.push(entry)]);
+      setLogLevel('WARN');
+
+      info('hidden');
+      createLogger('plugin').warn('Failed to load plugin dice', { plugin: 'dice' });
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ subsystem: 'plugin', fields: { plugin: 'dice' } });
+      expect(logMessages.length).toBe(0);
+    });
+
+    test('adds and removes a sink next to the console', () => {
+      const entries: LogEntry[] = [];
+      const removeSink = addLogSink((entry) => entries.push(entry));
+
+      info('first');
+      removeSink();
+      info('second');
+
+      expect(entries.map((entry) => entry.message)).toEqual(['first']);
+      expect(logMessages).toHaveLength(2);
+    });
+  });
+
   describe('reset', () => {
     test('resets to INFO level', () => {
       setLogLevel('DEBUG');
@@ -171,6 +247,7 @@ describe('Logger', () => {
 
     test('restores default logging behavior', () => {
       silence();
+      setLogFormat('json');
       reset();
 
       info('test message');
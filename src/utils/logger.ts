@@ -1,12 +1,122 @@
 /**
  * Simple logging utility for dc-book-cli
  * Uses functions instead of classes to keep it simple
+ *
+ * Messages go to sinks: coloured console text by default, JSON lines with
+ * --log-format json or PAGEDMD_LOG_FORMAT=json, or any function set with
+ * setLogSinks() by library consumers.
  */
 
+import { format } from 'util';
+
 export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
 
+/**
+ * Output format of the console sink: coloured text or one JSON object per line
+ */
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Part of pagedmd a scoped logger (createLogger) reports from
+ */
+export type LogSubsystem = 'markdown' | 'plugin' | 'engine' | 'preview';
+
+/**
+ * Structured data attached to a message, such as file and line
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A logged message as passed to sinks and listeners
+ */
+export interface LogEntry {
+    level: LogLevel;
+    /** Message with additional arguments formatted as console.log would */
+    message: string;
+    timestamp: number;
+    /** Set for messages from createLogger() */
+    subsystem?: LogSubsystem;
+    fields?: LogFields;
+}
+
+/**
+ * Receives log entries (console output, log files, library consumers)
+ */
+export type LogSink = (entry: LogEntry) => void;
+
+/**
+ * Logger bound to a subsystem
+ */
+export interface Logger {
+    debug: (message: string, fields?: LogFields) => void;
+    info: (message: string, fields?: LogFields) => void;
+    warn: (message: string, fields?: LogFields) => void;
+    error: (message: string, fields?: LogFields) => void;
+}
+
+export const LOG_FORMATS: readonly LogFormat[] = ['text', 'json'];
+
+const LEVELS: Record<LogLevel, number> = {
+    DEBUG: 0,
+    INFO: 1,
+    WARN: 2,
+    ERROR: 3
+};
+
+/**
+ * Print entries as coloured text, errors to stderr
+ */
+export const textSink: LogSink = (entry) => {
+    const colors: Record<LogLevel, string> = {
+        DEBUG: '\x1b[36m', // Cyan
+        INFO: '\x1b[32m',  // Green
+        WARN: '\x1b[33m',  // Yellow
+        ERROR: '\x1b[31m'  // Red
+    };
+    const reset = '\x1b[0m';
+
+    const timestamp = new Date(entry.timestamp).toISOString().slice(11, 19);
+    const prefix = `${colors[entry.level]}[${timestamp}] ${entry.level}${reset}:`;
+
+    if (entry.level === 'ERROR') {
+        console.error(prefix, entry.message);
+    } else {
+        console.log(prefix, entry.message);
+    }
+};
+
+/**
+ * Print entries as one JSON object per line, errors to stderr
+ *
+ * Fields are merged into the object; level, timestamp, subsystem and message
+ * take precedence over fields of the same name.
+ */
+export const jsonSink: LogSink = (entry) => {
+    const line = JSON.stringify({
+        ...entry.fields,
+        level: entry.level,
+        timestamp: new Date(entry.timestamp).toISOString(),
+        subsystem: entry.subsystem,
+        message: entry.message
+    });
+
+    const stream = entry.level === 'ERROR' ? process.stderr : process.stdout;
+    stream.write(`${line}\n`);
+};
+
 let currentLevel: LogLevel = 'INFO';
 
+let sinks: LogSink[] = [defaultSink()];
+
+const listeners = new Set<LogSink>();
+
+/**
+ * Console sink for the PAGEDMD_LOG_FORMAT environment variable (text unless 'json')
+ */
+function defaultSink(): LogSink {
+    return process.env.PAGEDMD_LOG_FORMAT === 'json' ? jsonSink : textSink;
+}
+
 /**
  * Set the current log level
  * Messages below this level will be suppressed
@@ -22,6 +132,47 @@ export function getLogLevel(): LogLevel {
     return currentLevel;
 }
 
+/**
+ * Print to the console as text or JSON lines, replacing all sinks
+ */
+export function setLogFormat(format: LogFormat): void {
+    sinks = [format === 'json' ? jsonSink : textSink];
+}
+
+/**
+ * Replace the sinks that receive messages at or above the log level
+ * (an empty list stops console output)
+ */
+export function setLogSinks(newSinks: LogSink[]): void {
+    sinks = [...newSinks];
+}
+
+/**
+ * Add a sink next to the current ones
+ * @param sink Called with each message at or above the log level
+ * @returns Function that removes the sink
+ */
+export function addLogSink(sink: LogSink): () => void {
+    sinks.push(sink);
+    return () => {
+        sinks = sinks.filter((existing) => existing !== sink);
+    };
+}
+
+/**
+ * Receive every logged message, whatever the current log level
+ * (used by the render cache to store warnings with cached HTML, and by the
+ * build report to collect warnings)
+ * @param listener Called with each message
+ * @returns Function that removes the listener
+ */
+export function addLogListener(listener: LogSink): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
 /**
  * Log a message at a specific level
  * @param level Log level
@@ -29,31 +180,38 @@ export function getLogLevel(): LogLevel {
  * @param args Additional arguments to log
  */
 export function log(level: LogLevel, message: string, ...args: unknown[]): void {
-    const levels: Record<LogLevel, number> = {
-        DEBUG: 0,
-        INFO: 1,
-        WARN: 2,
-        ERROR: 3
-    };
-
-    // Skip if below current level
-    if (levels[level] < levels[currentLevel]) return;
+    write({ level, message: args.length > 0 ? format(message, ...args) : message, timestamp: Date.now() });
+}
 
-    const colors: Record<LogLevel, string> = {
-        DEBUG: '\x1b[36m', // Cyan
-        INFO: '\x1b[32m',  // Green
-        WARN: '\x1b[33m',  // Yellow
-        ERROR: '\x1b[31m'  // Red
+/**
+ * Create a logger whose messages carry a subsystem and structured fields
+ * @param subsystem Part of pagedmd the messages come from
+ */
+export function createLogger(subsystem: LogSubsystem): Logger {
+    const scoped = (level: LogLevel) => (message: string, fields?: LogFields): void => {
+        write({ level, message, timestamp: Date.now(), subsystem, ...(fields ? { fields } : {}) });
     };
-    const reset = '\x1b[0m';
+    return {
+        debug: scoped('DEBUG'),
+        info: scoped('INFO'),
+        warn: scoped('WARN'),
+        error: scoped('ERROR')
+    };
+}
+
+/**
+ * Pass an entry to the listeners, then to the sinks if it is at or above the log level
+ */
+function write(entry: LogEntry): void {
+    for (const listener of listeners) {
+        listener(entry);
+    }
 
-    const timestamp = new Date().toISOString().slice(11, 19);
-    const prefix = `${colors[level]}[${timestamp}] ${level}${reset}:`;
+    // Skip if below current level
+    if (LEVELS[entry.level] < LEVELS[currentLevel]) return;
 
-    if (level === 'ERROR') {
-        console.error(prefix, message, ...args);
-    } else {
-        console.log(prefix, message, ...args);
+    for (const sink of sinks) {
+        sink(entry);
     }
 }
 
@@ -94,8 +252,9 @@ export function silence(): void {
 }
 
 /**
- * Reset to default log level (INFO)
+ * Reset to the default log level (INFO) and console sink
  */
 export function reset(): void {
     currentLevel = 'INFO';
+    sinks = [defaultSink()];
 }
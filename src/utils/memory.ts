@@ -22,6 +22,8 @@ export interface MemorySnapshot {
   arrayBuffers: number;
   /** Timestamp of snapshot */
   timestamp: number;
+  /** Label passed to MemoryMonitor.snapshot */
+  label?: string;
 }
 
 /**
@@ -91,7 +93,7 @@ export class MemoryMonitor {
   snapshot(label?: string): void {
     if (!this.enabled) return;
 
-    const snap = getMemoryUsage();
+    const snap = label ? { ...getMemoryUsage(), label } : getMemoryUsage();
     this.snapshots.push(snap);
 
     if (label) {
@@ -129,6 +131,15 @@ export class MemoryMonitor {
     return last.heapUsed - first.heapUsed;
   }
 
+  /**
+   * Get all recorded snapshots
+   *
+   * @returns Copy of the snapshots in recording order
+   */
+  getSnapshots(): MemorySnapshot[] {
+    return [...this.snapshots];
+  }
+
   /**
    * Format memory report
    *
@@ -0,0 +1,108 @@
+/**
+ * Tests for page format resolution and @page CSS generation
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  resolvePageSize,
+  resolveMargins,
+  generatePageCss,
+  toPageEngineOptions,
+} from './page-format.ts';
+
+describe('resolvePageSize', () => {
+  it('should resolve named sizes case-insensitively', () => {
+    expect(resolvePageSize('A4')).toBe('210mm 297mm');
+    expect(resolvePageSize('letter')).toBe('8.5in 11in');
+    expect(resolvePageSize('Trade')).toBe('6in 9in');
+  });
+
+  it('should resolve trim shorthand with inches as the default unit', () => {
+    expect(resolvePageSize('6x9')).toBe('6in 9in');
+    expect(resolvePageSize('5.5 x 8.5')).toBe('5.5in 8.5in');
+    expect(resolvePageSize('148x210mm')).toBe('148mm 210mm');
+  });
+
+  it('should accept explicit CSS dimensions', () => {
+    expect(resolvePageSize('6in 9in')).toBe('6in 9in');
+  });
+
+  it('should swap dimensions for landscape', () => {
+    expect(resolvePageSize('a5 landscape')).toBe('210mm 148mm');
+    expect(resolvePageSize('letter portrait')).toBe('8.5in 11in');
+  });
+
+  it('should throw for unknown sizes', () => {
+    expect(() => resolvePageSize('huge')).toThrow('Invalid page size "huge"');
+    expect(() => resolvePageSize('6in')).toThrow('Invalid page size');
+  });
+});
+
+describe('resolveMargins', () => {
+  it('should expand CSS shorthand as a recto page', () => {
+    expect(resolveMargins('20mm')).toEqual({ top: '20mm', bottom: '20mm', inside: '20mm', outside: '20mm' });
+    expect(resolveMargins('1in 0.5in')).toEqual({ top: '1in', bottom: '1in', inside: '0.5in', outside: '0.5in' });
+    expect(resolveMargins('1in 0.5in 0.75in')).toEqual({ top: '1in', bottom: '0.75in', inside: '0.5in', outside: '0.5in' });
+    expect(resolveMargins('1in 0.5in 0.75in 0.875in')).toEqual({
+      top: '1in',
+      bottom: '0.75in',
+      inside: '0.875in',
+      outside: '0.5in',
+    });
+  });
+
+  it('should accept left/right as aliases for inside/outside', () => {
+    expect(resolveMargins({ top: '1in', bottom: '1in', left: '0.9in', right: '0.6in' })).toEqual({
+      top: '1in',
+      bottom: '1in',
+      inside: '0.9in',
+      outside: '0.6in',
+    });
+  });
+
+  it('should throw for incomplete or invalid margins', () => {
+    expect(() => resolveMargins({ top: '1in', bottom: '1in' })).toThrow('must define top, bottom, inside and outside');
+    expect(() => resolveMargins('1in wide')).toThrow('Invalid page margins');
+    expect(() => resolveMargins('1in 1in 1in 1in 1in')).toThrow('Invalid page margins');
+  });
+});
+
+describe('generatePageCss', () => {
+  it('should return empty string when no format is configured', () => {
+    expect(generatePageCss(undefined)).toBe('');
+    expect(generatePageCss({})).toBe('');
+  });
+
+  it('should emit size, margins and bleed on the base @page rule', () => {
+    const css = generatePageCss({ size: 'trade', margins: '0.75in 0.5in 1in 0.875in', bleed: '0.125in' });
+
+    expect(css).toContain('@page {\n  size: 6in 9in;\n  margin-top: 0.75in;\n  margin-bottom: 1in;\n  bleed: 0.125in;\n}');
+  });
+
+  it('should mirror inside/outside margins for verso and recto pages', () => {
+    const css = generatePageCss({ margins: { top: '1in', bottom: '1in', inside: '0.875in', outside: '0.5in' } });
+
+    expect(css).toContain('@page :left {\n  margin-left: 0.5in;\n  margin-right: 0.875in;\n}');
+    expect(css).toContain('@page :right {\n  margin-left: 0.875in;\n  margin-right: 0.5in;\n}');
+  });
+
+  it('should omit mirrored rules when margins are not set', () => {
+    const css = generatePageCss({ size: 'a4' });
+
+    expect(css).toBe('@page {\n  size: 210mm 297mm;\n}');
+  });
+});
+
+describe('toPageEngineOptions', () => {
+  it('should pass resolved size, bleed and color mode', () => {
+    expect(toPageEngineOptions({ size: '6x9', bleed: '3mm', colorMode: 'cmyk' })).toEqual({
+      size: '6in 9in',
+      bleed: '3mm',
+      colorMode: 'cmyk',
+    });
+  });
+
+  it('should return empty options without a format', () => {
+    expect(toPageEngineOptions(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Page format utilities
+ *
+ * Turns manifest.format (PageFormat) into the generated @page CSS layer and
+ * into the size/bleed/colorMode values handed to the PDF engine wrappers, so
+ * both the stylesheet and the engine command line share one source of truth.
+ */
+
+import type { PageFormat, PageMargins } from '../types.ts';
+
+/**
+ * Named page sizes resolved to explicit "width height" dimensions
+ *
+ * Includes the CSS Paged Media presets and common book trim sizes.
+ * Keys are lowercase; lookups are case-insensitive.
+ */
+export const NAMED_PAGE_SIZES: Readonly<Record<string, string>> = {
+  // ISO / CSS presets
+  a3: '297mm 420mm',
+  a4: '210mm 297mm',
+  a5: '148mm 210mm',
+  a6: '105mm 148mm',
+  b4: '250mm 353mm',
+  b5: '176mm 250mm',
+  'jis-b4': '257mm 364mm',
+  'jis-b5': '182mm 257mm',
+  letter: '8.5in 11in',
+  legal: '8.5in 14in',
+  ledger: '11in 17in',
+
+  // Book trim sizes
+  pocket: '4.25in 6.87in',
+  digest: '5.5in 8.5in',
+  novel: '5in 8in',
+  trade: '6in 9in',
+  royal: '6.14in 9.21in',
+  comic: '6.625in 10.25in',
+  executive: '7in 10in',
+  crown: '7.5in 9.25in',
+};
+
+/**
+ * CSS length units in inches (96 CSS pixels per inch)
+ */
+const INCHES_PER_UNIT: Readonly<Record<string, number>> = {
+  in: 1,
+  cm: 1 / 2.54,
+  mm: 1 / 25.4,
+  q: 1 / 101.6,
+  pt: 1 / 72,
+  pc: 1 / 6,
+  px: 1 / 96,
+};
+
+/**
+ * Fully resolved margins for mirrored (recto/verso) pages
+ */
+export interface ResolvedMargins {
+  top: string;
+  bottom: string;
+  /** Binding-side margin */
+  inside: string;
+  /** Trim-side margin */
+  outside: string;
+}
+
+/**
+ * Page settings shared with the PDF engine wrappers
+ */
+export interface PageEngineOptions {
+  /** Explicit page size ("width height") */
+  size?: string;
+  /** Bleed zone */
+  bleed?: string;
+  /** Output color mode */
+  colorMode?: PageFormat['colorMode'];
+}
+
+/**
+ * Resolve a page size to explicit "width height" dimensions
+ *
+ * Accepts named sizes (`A4`, `letter`, `trade`), trim shorthand (`6x9`,
+ * `148x210mm`) and explicit CSS sizes (`6in 9in`). A trailing `landscape`
+ * swaps width and height.
+ *
+ * @param size - Page size from manifest.format.size
+ * @returns Explicit size string (e.g., "6in 9in")
+ * @throws Error if the size cannot be understood
+ */
+export function resolvePageSize(size: string): string {
+  let value = size.trim().toLowerCase();
+  let landscape = false;
+
+  if (value.endsWith(' landscape')) {
+    landscape = true;
+    value = value.slice(0, -' landscape'.length).trim();
+  } else if (value.endsWith(' portrait')) {
+    value = value.slice(0, -' portrait'.length).trim();
+  }
+
+  let resolved: string | undefined = NAMED_PAGE_SIZES[value];
+
+  // Trim shorthand: 6x9, 5.5x8.5in, 148x210mm (inches when unit omitted)
+  if (!resolved) {
+    const trimMatch = value.match(/^(\d+(?:\.\d+)?)\s*x\s*(\d+(?:\.\d+)?)\s*(in|mm|cm|pt|px)?$/);
+    if (trimMatch) {
+      const unit = trimMatch[3] ?? 'in';
+      resolved = `${trimMatch[1]}${unit} ${trimMatch[2]}${unit}`;
+    }
+  }
+
+  // Explicit CSS dimensions: "6in 9in"
+  if (!resolved) {
+    const parts = value.split(/\s+/);
+    if (parts.length === 2 && parts.every(isCssLength)) {
+      resolved = parts.join(' ');
+    }
+  }
+
+  if (!resolved) {
+    throw new Error(
+      `Invalid page size "${size}".\n` +
+      `Use a named size (${Object.keys(NAMED_PAGE_SIZES).join(', ')}), ` +
+      `a trim size like "6x9" or "148x210mm", or explicit dimensions like "6in 9in".`
+    );
+  }
+
+  if (landscape) {
+    const [width, height] = resolved.split(' ');
+    resolved = `${height} ${width}`;
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve margins to mirrored top/bottom/inside/outside values
+ *
+ * String margins follow CSS shorthand as applied to a recto (right-hand)
+ * page, so the right value is the outside edge and the left value the
+ * binding edge:
+ * - "20mm" - all sides
+ * - "0.75in 0.5in" - top/bottom, inside/outside
+ * - "0.75in 0.5in 1in" - top, inside/outside, bottom
+ * - "0.75in 0.5in 1in 0.875in" - top, outside, bottom, inside
+ *
+ * Object margins accept left/right as aliases for inside/outside.
+ *
+ * @param margins - Margins from manifest.format.margins
+ * @returns Resolved margins
+ * @throws Error if the margins cannot be understood
+ */
+export function resolveMargins(margins: string | PageMargins): ResolvedMargins {
+  if (typeof margins !== 'string') {
+    const inside = margins.inside ?? margins.left;
+    const outside = margins.outside ?? margins.right;
+    const { top, bottom } = margins;
+
+    if (!top || !bottom || !inside || !outside) {
+      throw new Error(
+        'Page margins must define top, bottom, inside and outside ' +
+        '(left/right are accepted as aliases for inside/outside).'
+      );
+    }
+
+    return { top, bottom, inside, outside };
+  }
+
+  const parts = margins.trim().split(/\s+/);
+  if (parts.length === 0 || parts.length > 4 || !parts.every(isCssLength)) {
+    throw new Error(
+      `Invalid page margins "${margins}".\n` +
+      `Use 1-4 CSS lengths, e.g. "0.75in" or "0.75in 0.5in 0.75in 0.875in" (top outside bottom inside).`
+    );
+  }
+
+  const [top = '0', second, third, fourth] = parts;
+  const outside = second ?? top;
+  const bottom = third ?? top;
+  const inside = fourth ?? outside;
+
+  return { top, bottom, inside, outside };
+}
+
+/**
+ * Generate the @page CSS layer for a page format
+ *
+ * Emits base page size, top/bottom margins and bleed, plus mirrored
+ * inside/outside margins for verso (:left) and recto (:right) pages.
+ *
+ * @param pageFormat - Page format from manifest.format
+ * @returns CSS string, or an empty string if nothing is configured
+ * @throws Error if size or margins are invalid
+ */
+export function generatePageCss(pageFormat: PageFormat | undefined): string {
+  if (!pageFormat) {
+    return '';
+  }
+
+  const baseRules: string[] = [];
+  const leftRules: string[] = [];
+  const rightRules: string[] = [];
+
+  if (pageFormat.size) {
+    baseRules.push(`size: ${resolvePageSize(pageFormat.size)};`);
+  }
+
+  if (pageFormat.margins) {
+    const margins = resolveMargins(pageFormat.margins);
+    baseRules.push(`margin-top: ${margins.top};`, `margin-bottom: ${margins.bottom};`);
+
+    // Verso: binding edge is on the right
+    leftRules.push(`margin-left: ${margins.outside};`, `margin-right: ${margins.inside};`);
+    // Recto: binding edge is on the left
+    rightRules.push(`margin-left: ${margins.inside};`, `margin-right: ${margins.outside};`);
+  }
+
+  if (pageFormat.bleed) {
+    baseRules.push(`bleed: ${pageFormat.bleed};`);
+  }
+
+  const blocks: string[] = [];
+  if (baseRules.length > 0) {
+    blocks.push(formatPageRule('@page', baseRules));
+  }
+  if (leftRules.length > 0) {
+    blocks.push(formatPageRule('@page :left', leftRules));
+    blocks.push(formatPageRule('@page :right', rightRules));
+  }
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Derive PDF engine page options from a page format
+ *
+ * @param pageFormat - Page format from manifest.format
+ * @returns Size, bleed and color mode for PdfEngineOptions
+ */
+export function toPageEngineOptions(pageFormat: PageFormat | undefined): PageEngineOptions {
+  if (!pageFormat) {
+    return {};
+  }
+
+  return {
+    size: pageFormat.size ? resolvePageSize(pageFormat.size) : undefined,
+    bleed: pageFormat.bleed,
+    colorMode: pageFormat.colorMode,
+  };
+}
+
+/**
+ * Convert a CSS length (e.g., 3mm, 0.125in, 96px) to inches
+ *
+ * @param value - CSS length; unitless values are pixels
+ * @returns Length in inches
+ * @throws Error if the value is not a length
+ */
+export function lengthToInches(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?|\.\d+)([a-z]*)$/);
+  const factor = match ? INCHES_PER_UNIT[match[2] || 'px'] : undefined;
+  if (!match || factor === undefined) {
+    throw new Error(`Invalid length "${value}" (use in, mm, cm, pt, pc or px)`);
+  }
+  return Number(match[1]) * factor;
+}
+
+/**
+ * Format a single @page rule block
+ */
+function formatPageRule(selector: string, declarations: string[]): string {
+  return `${selector} {\n${declarations.map((d) => `  ${d}`).join('\n')}\n}`;
+}
+
+/**
+ * Check whether a value is a CSS length (e.g., 0.75in, 20mm, 0)
+ */
+function isCssLength(value: string): boolean {
+  return /^(0|\d+(\.\d+)?(in|mm|cm|pt|pc|px|q))$/i.test(value);
+}
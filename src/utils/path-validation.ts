@@ -36,7 +36,7 @@ export function validateSafePath(targetPath: string, basePath: string): boolean
 /**
  * Validate output path for a specific format
  *
- * @param format Output format (html or pdf)
+ * @param format Output format (html, pdf or epub)
  * @param outputPath Path to validate
  * @param force Whether to skip validation
  * @returns Validation result with conflict type and suggestions
@@ -85,14 +85,14 @@ export function validateOutputPath(
   const isFile = stats.isFile();
   const isDirectory = stats.isDirectory();
 
-  // PDF format requires file path, not directory
-  if (format === 'pdf') {
+  // PDF and EPUB formats require file path, not directory
+  if ((['pdf', 'epub'] as string[]).includes(format)) {
     if (isDirectory) {
       return {
         isValid: false,
         conflictType: 'directory-for-file',
-        message: `Output path '${outputPath}' is a directory, but PDF format requires a file path.`,
-        suggestedFix: `Use '${path.join(outputPath, 'output.pdf')}' or add --force to overwrite.`
+        message: `Output path '${outputPath}' is a directory, but ${format.toUpperCase()} format requires a file path.`,
+        suggestedFix: `Use '${path.join(outputPath, `output.${format}`)}' or add --force to overwrite.`
       };
     }
     // Existing file is OK for PDF (will be overwritten)
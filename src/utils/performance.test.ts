@@ -122,6 +122,30 @@ describe('PerformanceMonitor', () => {
     expect(report).not.toContain('Total:');
   });
 
+  test('accumulates counters and includes them in report', () => {
+    monitor.mark('start');
+    monitor.measure('Markdown Processing', 'start');
+    monitor.count('Render Cache Hits', 3);
+    monitor.count('Render Cache Hits');
+    monitor.count('Render Cache Misses', 0);
+
+    expect(monitor.getCounters()).toEqual({ 'Render Cache Hits': 4, 'Render Cache Misses': 0 });
+
+    const report = monitor.report();
+    expect(report).toContain('Render Cache Hits: 4');
+    expect(report).toContain('Render Cache Misses: 0');
+  });
+
+  test('records spans with start and end details', () => {
+    const end = monitor.startSpan('01-intro.md', 'markdown', { cached: false });
+    end({ words: 120 });
+
+    const [span] = monitor.getSpans();
+    expect(span).toMatchObject({ name: '01-intro.md', category: 'markdown', args: { cached: false, words: 120 } });
+    expect(span?.endTime).toBeGreaterThanOrEqual(span?.startTime ?? Infinity);
+    expect(monitor.report()).toBe('No performance measurements recorded');
+  });
+
   test('resets all marks and measurements', () => {
     monitor.mark('start');
     monitor.mark('end');
@@ -16,6 +16,19 @@ export interface PerformanceMeasure {
   endTime: number;
 }
 
+/**
+ * Timed span inside a build stage (a file render, a plugin load), exported
+ * as a nested slice by the Chrome trace (see trace.ts)
+ */
+export interface PerformanceSpan {
+  name: string;
+  /** Trace category, e.g. 'markdown', 'plugin', 'css' or 'engine' */
+  category: string;
+  startTime: number;
+  endTime: number;
+  args?: Record<string, unknown>;
+}
+
 /**
  * Performance monitor for tracking build stage timings
  *
@@ -30,15 +43,20 @@ export interface PerformanceMeasure {
 export class PerformanceMonitor {
   private marks = new Map<string, number>();
   private measures: PerformanceMeasure[] = [];
+  private counters = new Map<string, number>();
+  private spans: PerformanceSpan[] = [];
   private enabled: boolean;
+  private onMeasure?: (measure: PerformanceMeasure) => void;
 
   /**
    * Create a new performance monitor
    *
    * @param enabled - Whether monitoring is enabled (default: true)
+   * @param onMeasure - Called with each measurement as it is taken
    */
-  constructor(enabled = true) {
+  constructor(enabled = true, onMeasure?: (measure: PerformanceMeasure) => void) {
     this.enabled = enabled;
+    this.onMeasure = onMeasure;
   }
 
   /**
@@ -74,16 +92,51 @@ export class PerformanceMonitor {
     }
 
     const duration = end - start;
-    this.measures.push({
-      name,
-      duration,
-      startTime: start,
-      endTime: end,
-    });
+    const measure = { name, duration, startTime: start, endTime: end };
+    this.measures.push(measure);
+    this.onMeasure?.(measure);
 
     return duration;
   }
 
+  /**
+   * Start a span; spans are not part of the text report
+   *
+   * @param name - Span name (e.g. the file being rendered)
+   * @param category - Trace category
+   * @param args - Details shown with the span in the trace viewer
+   * @returns Function that ends the span, optionally adding more details
+   */
+  startSpan(name: string, category: string, args?: Record<string, unknown>): (endArgs?: Record<string, unknown>) => void {
+    if (!this.enabled) return () => {};
+
+    const startTime = performance.now();
+    return (endArgs) => {
+      const details = args || endArgs ? { ...args, ...endArgs } : undefined;
+      this.spans.push({ name, category, startTime, endTime: performance.now(), ...(details ? { args: details } : {}) });
+    };
+  }
+
+  /**
+   * Increment a named counter (e.g. cache hits)
+   *
+   * @param name - Counter name
+   * @param amount - Amount to add (default: 1)
+   */
+  count(name: string, amount = 1): void {
+    if (!this.enabled) return;
+    this.counters.set(name, (this.counters.get(name) ?? 0) + amount);
+  }
+
+  /**
+   * Get all counters
+   *
+   * @returns Counter values by name
+   */
+  getCounters(): Record<string, number> {
+    return Object.fromEntries(this.counters);
+  }
+
   /**
    * Get all measurements
    *
@@ -93,6 +146,15 @@ export class PerformanceMonitor {
     return [...this.measures];
   }
 
+  /**
+   * Get all ended spans
+   *
+   * @returns Spans in the order they ended
+   */
+  getSpans(): PerformanceSpan[] {
+    return [...this.spans];
+  }
+
   /**
    * Get total duration across all measurements
    *
@@ -119,7 +181,7 @@ export class PerformanceMonitor {
    * @returns Formatted report string
    */
   report(includeTotal = true): string {
-    if (!this.enabled || this.measures.length === 0) {
+    if (!this.enabled || (this.measures.length === 0 && this.counters.size === 0)) {
       return 'No performance measurements recorded';
     }
 
@@ -138,6 +200,10 @@ export class PerformanceMonitor {
       lines.push(`  Total: ${totalStr}`);
     }
 
+    for (const [name, value] of this.counters) {
+      lines.push(`  ${name}: ${value}`);
+    }
+
     return lines.join('\n');
   }
 
@@ -147,6 +213,8 @@ export class PerformanceMonitor {
   reset(): void {
     this.marks.clear();
     this.measures = [];
+    this.counters.clear();
+    this.spans = [];
   }
 
   /**
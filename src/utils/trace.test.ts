@@ -0,0 +1,66 @@
+/**
+ * Tests for the Chrome trace export
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createChromeTrace } from './trace.ts';
+import type { PerformanceMeasure, PerformanceMonitor, PerformanceSpan } from './performance.ts';
+import type { MemoryMonitor, MemorySnapshot } from './memory.ts';
+
+/**
+ * Monitors with fixed timings
+ */
+function monitors(
+  measures: PerformanceMeasure[],
+  spans: PerformanceSpan[],
+  snapshots: MemorySnapshot[] = []
+): { perf: PerformanceMonitor; memory: MemoryMonitor } {
+  return {
+    perf: { getMeasures: () => measures, getSpans: () => spans } as unknown as PerformanceMonitor,
+    memory: { getSnapshots: () => snapshots } as unknown as MemoryMonitor,
+  };
+}
+
+describe('createChromeTrace', () => {
+  test('nests spans in stages and moves overlapping spans to another thread', () => {
+    const { perf, memory } = monitors(
+      [{ name: 'Markdown Processing', startTime: 0, endTime: 100, duration: 100 }],
+      [
+        { name: 'Load plugin dice', category: 'plugin', startTime: 10, endTime: 40 },
+        { name: 'Load plugin maps', category: 'plugin', startTime: 20, endTime: 50 },
+        { name: '01-intro.md', category: 'markdown', startTime: 60, endTime: 90, args: { words: 120 } },
+      ]
+    );
+
+    const slices = createChromeTrace(perf, memory).traceEvents.filter((event) => event.ph === 'X');
+
+    expect(slices.map((event) => [event.name, event.tid, event.dur])).toEqual([
+      ['Markdown Processing', 1, 100000],
+      ['Load plugin dice', 1, 30000],
+      ['Load plugin maps', 2, 30000],
+      ['01-intro.md', 1, 30000],
+    ]);
+    expect(slices[3]).toMatchObject({ cat: 'markdown', args: { words: 120 } });
+  });
+
+  test('names the threads and adds memory snapshots as counters', () => {
+    const { perf, memory } = monitors(
+      [],
+      [],
+      [{ rss: 100 * 1024 * 1024, heapUsed: 20 * 1024 * 1024, heapTotal: 40 * 1024 * 1024, external: 0, arrayBuffers: 0, timestamp: 1000 }]
+    );
+
+    const trace = createChromeTrace(perf, memory);
+
+    expect(trace.displayTimeUnit).toBe('ms');
+    expect(trace.traceEvents.filter((event) => event.ph === 'M').map((event) => event.args?.name)).toEqual([
+      'pagedmd',
+      'build',
+    ]);
+    expect(trace.traceEvents.find((event) => event.ph === 'C')).toMatchObject({
+      name: 'Memory (MB)',
+      ts: 1000000,
+      args: { rss: 100, heapUsed: 20, heapTotal: 40 },
+    });
+  });
+});
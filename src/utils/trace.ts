@@ -0,0 +1,151 @@
+/**
+ * Chrome trace export (--profile=trace.json)
+ *
+ * Writes PerformanceMonitor timings in the Chrome Trace Event format, to open
+ * in chrome://tracing or https://ui.perfetto.dev: build stages are slices,
+ * spans (file renders, plugin loads, CSS import resolution, the PDF engine)
+ * nest inside them, and MemoryMonitor snapshots are counter tracks. Spans that
+ * overlap without nesting, such as plugins loading in parallel, go on extra
+ * threads so every track nests cleanly.
+ */
+
+import { performance } from 'perf_hooks';
+import { writeFile } from './file-utils.ts';
+import type { PerformanceMonitor } from './performance.ts';
+import type { MemoryMonitor } from './memory.ts';
+
+/**
+ * Trace Event: complete slice (X), counter (C) or metadata (M)
+ */
+export interface TraceEvent {
+  name: string;
+  cat?: string;
+  ph: 'X' | 'C' | 'M';
+  /** Microseconds since the Unix epoch */
+  ts: number;
+  /** Slice duration in microseconds */
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Chrome Trace Event file (JSON object format)
+ */
+export interface ChromeTrace {
+  traceEvents: TraceEvent[];
+  displayTimeUnit: 'ms';
+}
+
+/**
+ * Slice before it is assigned a thread
+ */
+interface Slice {
+  name: string;
+  category: string;
+  startTime: number;
+  endTime: number;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Build the trace events of a build
+ *
+ * @param perf - Monitor with the stage measures and spans
+ * @param memory - Monitor with the memory snapshots
+ * @returns Trace ready to serialize
+ */
+export function createChromeTrace(perf: PerformanceMonitor, memory: MemoryMonitor): ChromeTrace {
+  const pid = process.pid;
+  const slices: Slice[] = [
+    ...perf.getMeasures().map((measure) => ({ ...measure, category: 'stage' })),
+    ...perf.getSpans(),
+  ];
+
+  const events: TraceEvent[] = [{ name: 'process_name', ph: 'M', ts: 0, pid, tid: 1, args: { name: 'pagedmd' } }];
+
+  const lanes = assignLanes(slices);
+  const threadCount = Math.max(0, ...lanes) + 1;
+  for (let lane = 0; lane < threadCount; lane++) {
+    const name = lane === 0 ? 'build' : `parallel ${lane}`;
+    events.push({ name: 'thread_name', ph: 'M', ts: 0, pid, tid: lane + 1, args: { name } });
+  }
+
+  slices.forEach((slice, i) => {
+    events.push({
+      name: slice.name,
+      cat: slice.category,
+      ph: 'X',
+      ts: toMicroseconds(performance.timeOrigin + slice.startTime),
+      dur: round(Math.max(0, slice.endTime - slice.startTime) * 1000),
+      pid,
+      tid: (lanes[i] ?? 0) + 1,
+      ...(slice.args ? { args: slice.args } : {}),
+    });
+  });
+
+  for (const snapshot of memory.getSnapshots()) {
+    events.push({
+      name: 'Memory (MB)',
+      cat: 'memory',
+      ph: 'C',
+      ts: toMicroseconds(snapshot.timestamp),
+      pid,
+      tid: 1,
+      args: {
+        rss: toMegabytes(snapshot.rss),
+        heapUsed: toMegabytes(snapshot.heapUsed),
+        heapTotal: toMegabytes(snapshot.heapTotal),
+      },
+    });
+  }
+
+  return { traceEvents: events, displayTimeUnit: 'ms' };
+}
+
+/**
+ * Write the trace of a build as JSON
+ */
+export async function writeChromeTrace(tracePath: string, perf: PerformanceMonitor, memory: MemoryMonitor): Promise<void> {
+  await writeFile(tracePath, JSON.stringify(createChromeTrace(perf, memory)));
+}
+
+/**
+ * Give each slice the first thread (lane) where it nests inside or follows the
+ * open slices, sorting parents before their children
+ *
+ * Sorts `slices` in place; the result holds the lane of each sorted slice.
+ */
+function assignLanes(slices: Slice[]): number[] {
+  slices.sort((a, b) => a.startTime - b.startTime || b.endTime - a.endTime);
+
+  // End times of the open slices on each lane, innermost last
+  const open: number[][] = [];
+  return slices.map((slice) => {
+    let lane = open.findIndex((ends) => {
+      while (ends.length > 0 && (ends[ends.length - 1] ?? 0) <= slice.startTime) ends.pop();
+      return ends.length === 0 || slice.endTime <= (ends[ends.length - 1] ?? 0);
+    });
+    if (lane === -1) {
+      lane = open.push([]) - 1;
+    }
+    open[lane]?.push(slice.endTime);
+    return lane;
+  });
+}
+
+function toMicroseconds(ms: number): number {
+  return round(ms * 1000);
+}
+
+function toMegabytes(bytes: number): number {
+  return round(bytes / 1024 / 1024);
+}
+
+/**
+ * Round to thousandths
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,127 @@
+/**
+ * Minimal ZIP archive writer
+ *
+ * Produces in-memory ZIP archives for container formats such as EPUB.
+ * Supports stored and deflated entries only - no ZIP64, encryption or
+ * streaming, which is sufficient for book-sized archives.
+ */
+
+import { deflateRawSync } from 'zlib';
+
+/**
+ * A single file to add to the archive
+ */
+export interface ZipEntry {
+  /** Path inside the archive (forward slashes) */
+  path: string;
+  /** File contents */
+  data: Buffer | string;
+  /** Deflate the entry (default: true). EPUB requires `mimetype` stored. */
+  compress?: boolean;
+}
+
+/** Fixed DOS timestamp (1980-01-01 00:00) keeps archives reproducible */
+const DOS_DATE = 0x0021;
+const DOS_TIME = 0;
+
+const CRC_TABLE = buildCrcTable();
+
+/**
+ * Create a ZIP archive from a list of entries
+ *
+ * Entries are written in the given order, so callers control which entry
+ * comes first (EPUB requires `mimetype` to be the first, uncompressed entry).
+ *
+ * @param entries Files to include
+ * @returns Archive contents
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path.replace(/\\/g, '/'), 'utf-8');
+    const raw = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf-8') : entry.data;
+    const compress = entry.compress !== false;
+    const body = compress ? deflateRawSync(raw) : raw;
+    const method = compress ? 8 : 0;
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(DOS_TIME, 10);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(DOS_TIME, 12);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt16LE(0, 30); // extra length
+    central.writeUInt16LE(0, 32); // comment length
+    central.writeUInt16LE(0, 34); // disk number
+    central.writeUInt16LE(0, 36); // internal attributes
+    central.writeUInt32LE(0, 38); // external attributes
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(0, 4);
+  end.writeUInt16LE(0, 6);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(0, 20);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Compute the CRC-32 checksum used by ZIP
+ */
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build the CRC-32 lookup table (IEEE polynomial)
+ */
+function buildCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}
@@ -6,8 +6,8 @@
 
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
 import { join } from 'path';
-import { mkdir, writeFile, remove, fileExists } from '../../src/utils/file-utils.ts';
-import { executeBuildProcess } from '../../src/cli.ts';
+import { mkdir, writeFile, remove, fileExists, readFile } from '../../src/utils/file-utils.ts';
+import { executeBuildProcess, resolveProfileArgument } from '../../src/cli.ts';
 import YAML from 'js-yaml';
 import type { Manifest } from '../../src/types.ts';
 
@@ -80,6 +80,63 @@ describe('CLI Build Command Integration Tests', () => {
     expect(await fileExists(join(outputPath, 'index.html'))).toBe(true);
   });
 
+  test('substitutes --define values and evaluates conditionals', async () => {
+    const outputPath = join(testDir, 'output-html');
+    await writeFile(
+      markdownPath,
+      '# {{ title }}\n\n<!-- @if: edition == "gm" -->\nGM notes\n<!-- @else -->\nPlayer notes\n<!-- @endif -->\n'
+    );
+
+    await executeBuildProcess(
+      {
+        output: outputPath,
+        timeout: '60000',
+        verbose: false,
+        debug: false,
+        format: 'html',
+        define: ['edition=gm'],
+      },
+      testDir
+    );
+
+    const html = await readFile(join(outputPath, 'index.html'));
+    expect(html).toContain('Test Document</h1>');
+    expect(html).toContain('<p>GM notes</p>');
+    expect(html).not.toContain('Player notes');
+  });
+
+  test('builds every edition into separately named outputs', async () => {
+    const outputPath = join(testDir, 'book-html');
+    await writeFile(
+      manifestPath,
+      YAML.dump({
+        title: 'Test Document',
+        authors: ['Test Author'],
+        profiles: { player: {}, gm: { variables: { secret: 'The vault is empty' } } },
+      })
+    );
+    await writeFile(markdownPath, '# {{ edition }} edition\n\n<!-- @if: secret -->\n{{ secret }}\n<!-- @endif -->\n');
+
+    await executeBuildProcess(
+      {
+        output: outputPath,
+        timeout: '60000',
+        verbose: false,
+        debug: false,
+        format: 'html',
+        allEditions: true,
+      },
+      testDir
+    );
+
+    const player = await readFile(join(`${outputPath}-player`, 'index.html'));
+    const gm = await readFile(join(`${outputPath}-gm`, 'index.html'));
+    expect(player).toContain('player edition</h1>');
+    expect(player).not.toContain('The vault is empty');
+    expect(gm).toContain('gm edition</h1>');
+    expect(gm).toContain('<p>The vault is empty</p>');
+  });
+
   test('builds with custom timeout', async () => {
     const outputPath = join(testDir, 'output.pdf');
 
@@ -217,4 +274,21 @@ describe('CLI Build Command Integration Tests', () => {
 
     expect(await fileExists(outputPath)).toBe(true);
   });
+
+  test('reads --profile <dir> as the input and --profile=<file> as a trace path', () => {
+    const opts = { timeout: '60000', verbose: false, debug: false };
+
+    expect(resolveProfileArgument({ ...opts, profile: './book' }, undefined, ['build', '--profile', './book'])).toEqual({
+      opts: { ...opts, profile: true },
+      input: './book',
+    });
+    expect(resolveProfileArgument({ ...opts, profile: 'trace' }, undefined, ['build', '--profile=trace'])).toEqual({
+      opts: { ...opts, profile: 'trace' },
+      input: undefined,
+    });
+    expect(resolveProfileArgument({ ...opts, profile: 'trace.json' }, undefined, ['build', '--profile', 'trace.json'])).toEqual({
+      opts: { ...opts, profile: 'trace.json' },
+      input: undefined,
+    });
+  });
 });
@@ -9,6 +9,7 @@ import { join } from "path";
 import { mkdir, writeFile, remove } from "../../src/utils/file-utils.ts";
 import { processMarkdownFiles, generateHtmlFromMarkdown } from "../../src/markdown/markdown.ts";
 import type { ResolvedConfig } from "../../src/config/config-state.ts";
+import { SourceError } from "../../src/utils/errors.ts";
 import YAML from "js-yaml";
 import type { Manifest } from "../../src/types.ts";
 
@@ -74,6 +75,27 @@ describe("Markdown Processing Integration Tests", () => {
     expect(content[2]?.slug).toBe("conclusion");
   });
 
+  test("discovers nested chapters with part dividers", async () => {
+    await mkdir(join(testDir, "part-1"));
+    await mkdir(join(testDir, "part-2"));
+    await writeFile(join(testDir, "part-1", "_part.md"), "# Part One");
+    await writeFile(join(testDir, "part-1", "10-later.md"), "# Later");
+    await writeFile(join(testDir, "part-1", "9-earlier.md"), "# Earlier");
+    await writeFile(join(testDir, "part-2", "01-start.md"), "# Start");
+
+    const { content } = await processMarkdownFiles(testDir, config);
+
+    expect(content.map((article) => [article.slug, article.part])).toEqual([
+      ["part-1", true],
+      ["9-earlier", false],
+      ["10-later", false],
+      ["01-start", false],
+    ]);
+
+    const html = await generateHtmlFromMarkdown(testDir, config);
+    expect(html).toContain('<article id="part-1" class="part-divider">');
+  });
+
   test("handles TTRPG directives when enabled", async () => {
     const mdPath = join(testDir, "game.md");
     await writeFile(
@@ -127,6 +149,27 @@ describe("Markdown Processing Integration Tests", () => {
     expect(html).toContain("Test Document");
   });
 
+  test("generates @page rules from manifest format", async () => {
+    await writeFile(join(testDir, "test.md"), "# Test Document");
+
+    const manifest: Manifest = {
+      title: "Formatted Book",
+      authors: ["Author One"],
+      format: {
+        size: "6x9",
+        margins: "0.75in 0.5in 0.75in 0.875in",
+        bleed: "0.125in",
+      },
+    };
+    await writeFile(join(testDir, "manifest.yaml"), YAML.dump(manifest));
+
+    const html = await generateHtmlFromMarkdown(testDir, config);
+
+    expect(html).toContain("size: 6in 9in;");
+    expect(html).toContain("bleed: 0.125in;");
+    expect(html).toContain("@page :right {\n  margin-left: 0.875in;\n  margin-right: 0.5in;\n}");
+  });
+
   test("returns empty array for empty directory", async () => {
     const { content } = await processMarkdownFiles(testDir, config);
     expect(content).toEqual([]);
@@ -145,6 +188,24 @@ describe("Markdown Processing Integration Tests", () => {
     );
   });
 
+  test("reports directive errors with their file and line", async () => {
+    await writeFile(join(testDir, "01-vault.md"), "---\ntitle: Vault\n---\n# Vault\n\n<!-- @if: edition -->\nSecret\n");
+
+    const error: unknown = await processMarkdownFiles(testDir, config).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SourceError);
+    expect(error).toMatchObject({ file: join(testDir, "01-vault.md"), line: 6 });
+  });
+
+  test("reports directive lines after a multi-line include", async () => {
+    await writeFile(join(testDir, "notes.md"), "One.\n\nTwo.\n\nThree.\n");
+    await writeFile(join(testDir, "01-vault.md"), "# Vault\n\n<!-- @include: notes.md -->\n\n<!-- @page: chaptr -->\n");
+
+    const error: unknown = await processMarkdownFiles(testDir, config).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ file: join(testDir, "01-vault.md"), line: 5 });
+  });
+
   test("processes single markdown file (not directory)", async () => {
     const mdPath = join(testDir, "single.md");
     await writeFile(mdPath, "# Single File\n\nJust one file.");
@@ -156,6 +217,126 @@ describe("Markdown Processing Integration Tests", () => {
     expect(content[0]?.html).toContain("Single File");
   });
 
+  test("applies per-file front matter to articles", async () => {
+    await writeFile(
+      join(testDir, "01-intro.md"),
+      "---\ntitle: Introduction\npage: frontmatter\ncolumns: 2\nnpc: Vex\n---\n# Welcome\n"
+    );
+    await writeFile(join(testDir, "02-notes.md"), "---\nexclude: true\n---\n# Private notes\n");
+
+    const { content } = await processMarkdownFiles(testDir, config);
+    expect(content.map((c) => c.slug)).toEqual(["01-intro"]);
+    expect(content[0]?.frontMatter.npc).toBe("Vex");
+    // Front matter is not rendered (no page break from the --- delimiters)
+    expect(content[0]?.html).not.toContain("page-break");
+
+    const html = await generateHtmlFromMarkdown(testDir, config);
+    expect(html).toContain(
+      '<article id="01-intro" data-title="Introduction" data-page="frontmatter" data-columns="2" data-npc="Vex">'
+    );
+    expect(html).not.toContain("Private notes");
+  });
+
+  test("exposes front matter to plugins through env", async () => {
+    const pluginPath = join(testDir, "env-plugin.js");
+    await writeFile(
+      pluginPath,
+      `export default function (md) {
+        md.core.ruler.push("env_probe", (state) => {
+          const token = new state.Token("html_block", "", 0);
+          token.content = "<p>npc:" + state.env.frontMatter.npc + " slug:" + state.env.slug + "</p>";
+          state.tokens.push(token);
+        });
+      }`
+    );
+    await writeFile(join(testDir, "encounter.md"), "---\nnpc: Vex\n---\n# Encounter\n");
+
+    const { content } = await processMarkdownFiles(testDir, { ...config, plugins: ["./env-plugin.js"] });
+
+    expect(content[0]?.html).toContain("<p>npc:Vex slug:encounter</p>");
+  });
+
+  test("generates table of contents from @toc directive", async () => {
+    await writeFile(join(testDir, "00-contents.md"), "# Contents {.no-toc}\n\n<!-- @toc -->\n");
+    await writeFile(join(testDir, "01-intro.md"), "# Introduction\n\n## Setting\n\n#### Too deep\n");
+    await writeFile(join(testDir, "02-rules.md"), "# Rules\n");
+    const manifest: Manifest = { title: "Toc Test", authors: ["Tester"], toc: { title: "Table of Contents" } };
+    await writeFile(join(testDir, "manifest.yaml"), YAML.dump(manifest));
+
+    const html = await generateHtmlFromMarkdown(testDir, config);
+
+    expect(html).toContain('<h2 class="toc-title no-toc">Table of Contents</h2>');
+    expect(html).toContain(
+      '<li class="toc-level-1"><a href="#introduction">Introduction</a><ol class="toc-list"><li class="toc-level-2"><a href="#setting">Setting</a></li></ol></li>'
+    );
+    expect(html).toContain('<a href="#rules">Rules</a>');
+    expect(html).not.toContain('href="#too-deep"');
+    expect(html).not.toContain('href="#contents"');
+    expect(html).toContain("target-counter(attr(href), page)");
+  });
+
+  test("makes heading ids unique across files without @toc", async () => {
+    await writeFile(join(testDir, "01-city.md"), "# City\n\n## Equipment\n");
+    await writeFile(join(testDir, "02-gear.md"), "# Gear\n\n## Equipment\n\n[Gear list](#equipment)\n");
+    await writeFile(join(testDir, "equipment.md"), "# Store\n");
+
+    const html = await generateHtmlFromMarkdown(testDir, config);
+
+    expect(html).toContain('<h2 id="01-city-equipment"');
+    expect(html).toContain('<h2 id="02-gear-equipment"');
+    expect(html).toContain('href="#02-gear-equipment"');
+    expect(html).toContain('<article id="equipment"');
+  });
+
+  test("generates back-of-book index from markers", async () => {
+    await writeFile(join(testDir, "01-combat.md"), "# Combat {^Combat}\n\nRoll {^Combat!Initiative} first.\n");
+    await writeFile(join(testDir, "02-magic.md"), "# Magic\n\nSpells {^Arcana} use {^combat!Initiative} too.\n");
+    await writeFile(join(testDir, "99-index.md"), "# Index\n\n<!-- @index -->\n");
+
+    const html = await generateHtmlFromMarkdown(testDir, config);
+
+    expect(html).toContain('<span class="index-marker" id="idx-01-combat-1" data-index-term="Combat"></span>');
+    expect(html).toContain('<h2 class="index-letter no-toc">A</h2>');
+    expect(html).toContain(
+      '<span class="index-term">Initiative</span> <span class="index-refs"><a class="index-ref" href="#idx-01-combat-2"></a>, <a class="index-ref" href="#idx-02-magic-2"></a></span>'
+    );
+    expect(html.indexOf('index-letter no-toc">A')).toBeLessThan(html.indexOf('index-letter no-toc">C'));
+  });
+
+  test("numbers figures and tables by chapter with lists and references", async () => {
+    await writeFile(join(testDir, "00-front.md"), "<!-- @list-of-figures -->\n\n<!-- @list-of-tables -->\n");
+    await writeFile(join(testDir, "01-intro.md"), "# Intro\n\nSee @[fig:flow] and @[tbl:keys].\n");
+    await writeFile(
+      join(testDir, "02-api.md"),
+      '# API\n\n![Flow](flow.png "Request flow"){#fig-flow}\n\nTable: Key types {#tbl-keys}\n\n| Key | Use |\n|-----|-----|\n| a | b |\n'
+    );
+
+    const html = await generateHtmlFromMarkdown(testDir, config);
+
+    expect(html).toContain('<figure class="figure" id="fig-flow">');
+    expect(html).toContain('data-figure-number="2.1">Figure 2.1</span> Request flow</figcaption>');
+    expect(html).toContain('<li><a href="#fig-flow"><span class="figure-label">Figure 2.1</span> Request flow</a></li>');
+    expect(html).toContain('<li><a href="#tbl-keys"><span class="figure-label">Table 2.1</span> Key types</a></li>');
+    expect(html).toMatch(/class="xref xref-tbl xref-resolved"[^>]*>Table 2\.1<\/a>/);
+  });
+
+  test("renders footnotes for print and as endnotes for HTML output", async () => {
+    await writeFile(join(testDir, "01-one.md"), "# One\n\nA claim.[^1]\n\n[^1]: First source.\n");
+    await writeFile(join(testDir, "02-two.md"), "# Two\n\nAnother.[^a]\n\n[^a]: Second source.\n");
+    const manifest: Manifest = { title: "Notes", authors: ["Tester"], footnotes: { numbering: "book" } };
+    await writeFile(join(testDir, "manifest.yaml"), YAML.dump(manifest));
+
+    const print = await generateHtmlFromMarkdown(testDir, config);
+    expect(print).toContain('<span class="footnote" id="fn-01-one-1" data-footnote-number="1">First source.</span>');
+    expect(print).toContain('<span class="footnote" id="fn-02-two-1" data-footnote-number="2">Second source.</span>');
+    expect(print).toContain("float: footnote");
+
+    const web = await generateHtmlFromMarkdown(testDir, { ...config, format: "html" } as ResolvedConfig);
+    expect(web).not.toContain('<span class="footnote"');
+    expect(web).toContain('<sup class="footnote-ref"><a href="#fn-02-two-1" id="ref-fn-02-two-1">2</a></sup>');
+    expect(web).toMatch(/<section class="footnotes" role="doc-endnotes">[\s\S]*<li id="fn-02-two-1" value="2">Second source\./);
+  });
+
   test("handles markdown with images and links", async () => {
     const mdPath = join(testDir, "media.md");
     await writeFile(
@@ -9,6 +9,7 @@ import { mkdir, writeFile, rm } from "fs/promises";
 import path from "path";
 import { generateHtmlFromMarkdown } from "../../src/markdown/markdown.ts";
 import type { ResolvedConfig } from "../../src/config/config-state.ts";
+import { OutputFormat } from "../../src/types.ts";
 
 const TEST_DIR = path.join(import.meta.dir, "../../test-temp/plugin-integration");
 
@@ -65,6 +66,45 @@ plugins:
       expect(html).toContain("DC 15"); // Challenge rating
     });
 
+    test("resolves ttrpg cross-references across files", async () => {
+      await writeFile(path.join(TEST_DIR, "01-rules.md"), `# Rules\n\nAsk @[NPC:investigator] for help.\n`);
+      await writeFile(path.join(TEST_DIR, "02-npcs.md"), `# NPCs\n\n## The Investigator {#npc-investigator}\n`);
+      await writeFile(
+        path.join(TEST_DIR, "manifest.yaml"),
+        `title: "Test"
+authors:
+  - "Test Author"
+plugins:
+  - ttrpg
+crossReferences:
+  unresolved: error
+`
+      );
+
+      const config: ResolvedConfig = {
+        input: TEST_DIR,
+        plugins: [{ name: "ttrpg", type: "builtin", enabled: true }],
+        crossReferences: { unresolved: "error" },
+        title: "Test",
+        authors: ["Test Author"],
+        timeout: 60000,
+        verbose: false,
+        debug: false,
+        format: OutputFormat.HTML,
+        watch: false,
+        force: false,
+      };
+
+      const html = await generateHtmlFromMarkdown(TEST_DIR, config);
+      expect(html).toMatch(/<a href="#npc-investigator" class="xref xref-npc xref-resolved"[^>]*>The Investigator<\/a>/);
+
+      await writeFile(path.join(TEST_DIR, "01-rules.md"), `# Rules\n\nAsk @[NPC:investigater] for help.\n`);
+      const error = await generateHtmlFromMarkdown(TEST_DIR, config).catch((e: Error) => e);
+      expect((error as Error).message).toMatch(
+        /01-rules\.md:3: no anchor "#npc-investigater"\. Did you mean "#npc-investigator"\?/
+      );
+    });
+
     test("loads multiple built-in plugins", async () => {
       await writeFile(
         path.join(TEST_DIR, "test.md"),